@@ -0,0 +1,333 @@
+import type { AddressInfo } from "node:net";
+import { describe, expect, it, vi } from "vitest";
+import { WebSocket as NodeWebSocket, WebSocketServer } from "ws";
+import { createCloverMarkStore } from "./annotation-runtime";
+import {
+  type WebSocketLike,
+  createCollaborationSession,
+  createWebSocketTransport,
+  retainCollaboration,
+} from "./annotation-collab";
+
+// In-process relay: every socket connected to a URL receives the frames sent by the others.
+function createLocalRelay() {
+  const rooms = new Map<string, Set<RelaySocket>>();
+
+  class RelaySocket implements WebSocketLike {
+    readyState = 0;
+    private readonly listeners = new Map<string, Array<(event: { data?: unknown }) => void>>();
+
+    constructor(private readonly url: string) {
+      setTimeout(() => {
+        const room = rooms.get(url) ?? new Set<RelaySocket>();
+        room.add(this);
+        rooms.set(url, room);
+        this.readyState = 1;
+        this.emit("open", {});
+      }, 0);
+    }
+
+    addEventListener(type: string, listener: (event: { data?: unknown }) => void) {
+      this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+    }
+
+    send(data: string) {
+      for (const socket of rooms.get(this.url) ?? []) {
+        if (socket !== this) {
+          setTimeout(() => socket.emit("message", { data }), 0);
+        }
+      }
+    }
+
+    close() {
+      this.readyState = 3;
+      rooms.get(this.url)?.delete(this);
+    }
+
+    private emit(type: string, event: { data?: unknown }) {
+      this.listeners.get(type)?.forEach((listener) => listener(event));
+    }
+  }
+
+  return RelaySocket;
+}
+
+// A relay server on a free local port, forwarding text frames to the other clients of the same path.
+async function startRelayServer() {
+  const server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+  await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+  const connections: NodeWebSocket[] = [];
+  const rooms = new Map<string, Set<NodeWebSocket>>();
+  server.on("connection", (socket, request) => {
+    const room = rooms.get(request.url ?? "/") ?? new Set<NodeWebSocket>();
+    rooms.set(request.url ?? "/", room);
+    room.add(socket);
+    connections.push(socket);
+    socket.on("message", (data) => {
+      room.forEach((peer) => {
+        if (peer !== socket && peer.readyState === NodeWebSocket.OPEN) {
+          peer.send(data.toString());
+        }
+      });
+    });
+    socket.on("close", () => room.delete(socket));
+  });
+
+  return {
+    url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}/room-1`,
+    connections,
+    close: () => {
+      server.clients.forEach((socket) => socket.terminate());
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+const flush = async () => {
+  for (let index = 0; index < 5; index += 1) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+};
+
+function join(relay: ReturnType<typeof createLocalRelay>, siteId: string, name: string) {
+  const store = createCloverMarkStore();
+  const session = createCollaborationSession(store, {
+    transport: createWebSocketTransport({ url: "ws://relay.test/room-1", WebSocket: relay }),
+    user: { name, color: "#2563eb" },
+    siteId,
+  });
+  return { store, session };
+}
+
+describe("collaborative sessions", () => {
+  it("merges concurrent edits to different bodies of the same annotation", async () => {
+    const relay = createLocalRelay();
+    const alice = join(relay, "site-a", "Alice");
+    const bob = join(relay, "site-b", "Bob");
+    await flush();
+
+    alice.store.setStoredCanvasAnnotations("canvas-1", [
+      { id: "anno-1", bodies: [{ purpose: "tagging", value: "Ship" }] },
+    ]);
+    await flush();
+    expect(bob.store.getStoredCanvasAnnotations("canvas-1")).toEqual([
+      { id: "anno-1", bodies: [{ purpose: "tagging", value: "Ship" }] },
+    ]);
+
+    alice.store.setStoredCanvasAnnotations("canvas-1", [
+      { id: "anno-1", bodies: [{ purpose: "tagging", value: "Boat" }] },
+    ]);
+    bob.store.setStoredCanvasAnnotations("canvas-1", [
+      {
+        id: "anno-1",
+        bodies: [
+          { purpose: "tagging", value: "Ship" },
+          { purpose: "translating", language: "fr", value: "Navire" },
+        ],
+      },
+    ]);
+    await flush();
+
+    const expected = [
+      {
+        id: "anno-1",
+        bodies: [
+          { purpose: "tagging", value: "Boat" },
+          { purpose: "translating", language: "fr", value: "Navire" },
+        ],
+      },
+    ];
+    expect(alice.store.getStoredCanvasAnnotations("canvas-1")).toEqual(expected);
+    expect(bob.store.getStoredCanvasAnnotations("canvas-1")).toEqual(expected);
+
+    bob.store.setStoredCanvasAnnotations("canvas-1", []);
+    await flush();
+    expect(alice.store.getStoredCanvasAnnotations("canvas-1")).toEqual([]);
+
+    alice.session.stop();
+    bob.session.stop();
+  });
+
+  it("sends existing state to late joiners and tracks remote selection", async () => {
+    const relay = createLocalRelay();
+    const alice = join(relay, "site-a", "Alice");
+    alice.store.setStoredCanvasAnnotations("canvas-1", [{ id: "anno-1", motivation: "tagging" }]);
+    alice.store.setCanvasSelectedLocalScholiumId("canvas-1", "anno-1");
+    await flush();
+
+    const bob = join(relay, "site-b", "Bob");
+    await flush();
+
+    expect(bob.store.getStoredCanvasAnnotations("canvas-1")).toEqual([
+      { id: "anno-1", motivation: "tagging" },
+    ]);
+    expect(bob.session.getPresence()).toEqual([
+      { siteId: "site-a", name: "Alice", color: "#2563eb", canvasId: "canvas-1", annotationId: "anno-1" },
+    ]);
+    expect(alice.session.getPresence().map((entry) => entry.name)).toEqual(["Bob"]);
+
+    alice.session.stop();
+    await flush();
+    expect(bob.session.getPresence()).toEqual([]);
+    bob.session.stop();
+  });
+
+  it("hydrates an empty canvas when a peer deletes its last annotation", async () => {
+    const relay = createLocalRelay();
+    const alice = join(relay, "site-a", "Alice");
+    const bob = join(relay, "site-b", "Bob");
+    await flush();
+
+    alice.store.setStoredCanvasAnnotations("canvas-1", [{ id: "anno-1", motivation: "tagging" }]);
+    await flush();
+    const hydrated: string[] = [];
+    const unsubscribe = bob.store.subscribeCanvasHydration((canvasId) => hydrated.push(canvasId));
+
+    alice.store.setStoredCanvasAnnotations("canvas-1", []);
+    await flush();
+    expect(hydrated).toEqual(["canvas-1"]);
+    expect(bob.store.getStoredCanvasAnnotations("canvas-1")).toEqual([]);
+
+    // Bob's next edit must not bring the deleted annotation back.
+    bob.store.setStoredCanvasAnnotations("canvas-1", [{ id: "anno-2", motivation: "tagging" }]);
+    await flush();
+    expect(alice.store.getStoredCanvasAnnotations("canvas-1")).toEqual([{ id: "anno-2", motivation: "tagging" }]);
+
+    unsubscribe();
+    alice.session.stop();
+    bob.session.stop();
+  });
+
+  it("shares one session per store and stops it with the last release", async () => {
+    const relay = createLocalRelay();
+    const bob = join(relay, "site-b", "Bob");
+    let opened = 0;
+    const options = {
+      transport: () => {
+        opened += 1;
+        return createWebSocketTransport({ url: "ws://relay.test/room-1", WebSocket: relay });
+      },
+      user: { name: "Alice", color: "#7c3aed" },
+      siteId: "site-a",
+    };
+    const store = createCloverMarkStore();
+
+    const releaseBridge = retainCollaboration(store, options);
+    const releasePanel = retainCollaboration(store, options);
+    await flush();
+    expect(opened).toBe(1);
+    expect(bob.session.getPresence().map((entry) => entry.siteId)).toEqual(["site-a"]);
+
+    releaseBridge();
+    releaseBridge();
+    await flush();
+    expect(bob.session.getPresence()).toHaveLength(1);
+
+    releasePanel();
+    await flush();
+    expect(bob.session.getPresence()).toEqual([]);
+
+    // A remount opens a new transport rather than reusing the closed one.
+    const releaseRemount = retainCollaboration(store, options);
+    await flush();
+    expect(opened).toBe(2);
+    expect(bob.session.getPresence()).toHaveLength(1);
+
+    releaseRemount();
+    bob.session.stop();
+  });
+
+  it("reconnects to a relay server and exchanges the edits missed while disconnected", async () => {
+    const relay = await startRelayServer();
+    const errors: Error[] = [];
+    const connect = (siteId: string, name: string) => {
+      const store = createCloverMarkStore();
+      const session = createCollaborationSession(store, {
+        transport: createWebSocketTransport({
+          url: relay.url,
+          WebSocket: NodeWebSocket as unknown as new (url: string) => WebSocketLike,
+          reconnect: { baseDelayMs: 10 },
+          onError: (error) => errors.push(error),
+        }),
+        user: { name },
+        siteId,
+      });
+      return { store, session };
+    };
+
+    try {
+      const alice = connect("site-a", "Alice");
+      await vi.waitFor(() => expect(relay.connections).toHaveLength(1));
+      const bob = connect("site-b", "Bob");
+      await vi.waitFor(() => expect(alice.session.getPresence().map((entry) => entry.name)).toEqual(["Bob"]));
+
+      // Both sides edit while the relay has dropped Alice.
+      relay.connections[0].terminate();
+      alice.store.setStoredCanvasAnnotations("canvas-1", [{ id: "anno-a", motivation: "tagging" }]);
+      bob.store.setStoredCanvasAnnotations("canvas-2", [{ id: "anno-b", motivation: "commenting" }]);
+
+      await vi.waitFor(() => {
+        expect(relay.connections).toHaveLength(3);
+        expect(bob.store.getStoredCanvasAnnotations("canvas-1")).toEqual([{ id: "anno-a", motivation: "tagging" }]);
+        expect(alice.store.getStoredCanvasAnnotations("canvas-2")).toEqual([
+          { id: "anno-b", motivation: "commenting" },
+        ]);
+      });
+      expect(errors).toEqual([]);
+
+      alice.session.stop();
+      bob.session.stop();
+    } finally {
+      await relay.close();
+    }
+  });
+
+  it("caps the queue while disconnected, reports the drop and resyncs once open", () => {
+    const sockets: PendingSocket[] = [];
+    class PendingSocket implements WebSocketLike {
+      readyState = 0;
+      sent: string[] = [];
+      private readonly listeners = new Map<string, Array<(event: { data?: unknown }) => void>>();
+
+      constructor() {
+        sockets.push(this);
+      }
+
+      addEventListener(type: string, listener: (event: { data?: unknown }) => void) {
+        this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+      }
+
+      send(data: string) {
+        this.sent.push(data);
+      }
+
+      close() {
+        this.readyState = 3;
+      }
+
+      open() {
+        this.readyState = 1;
+        this.listeners.get("open")?.forEach((listener) => listener({}));
+      }
+    }
+    const errors: Error[] = [];
+    const transport = createWebSocketTransport({
+      url: "ws://relay.test/room-1",
+      WebSocket: PendingSocket,
+      maxQueuedMessages: 2,
+      onError: (error) => errors.push(error),
+    });
+    const resync = vi.fn();
+    transport.subscribeResync?.(resync);
+
+    ["site-1", "site-2", "site-3", "site-4"].forEach((siteId) => transport.send({ type: "hello", siteId }));
+    expect(errors.map((error) => error.message)).toEqual([
+      "Collaboration messages to ws://relay.test/room-1 were dropped while disconnected.",
+    ]);
+
+    sockets[0].open();
+    expect(sockets[0].sent.map((data) => JSON.parse(data).siteId)).toEqual(["site-3", "site-4"]);
+    expect(resync).toHaveBeenCalledTimes(1);
+    transport.close();
+  });
+});
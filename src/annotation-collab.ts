@@ -0,0 +1,644 @@
+import * as React from "react";
+import {
+  type CloverMarkStore,
+  type StoredAnnotation,
+  useCloverMarkStore,
+} from "./annotation-runtime";
+import { invokeHostCallback } from "./annotation-events";
+import { diffStoredAnnotations } from "./annotation-history";
+
+export type CollaborationClock = {
+  counter: number;
+  siteId: string;
+};
+
+// `field` is "deleted", "prop:<key>" for annotation properties or "body:<key>" for a single body.
+export type CollaborationOp = {
+  canvasId: string;
+  annotationId: string;
+  field: string;
+  value: unknown;
+  clock: CollaborationClock;
+};
+
+export type CollaborationUser = {
+  name?: string;
+  color?: string;
+};
+
+export type CollaborationMessage =
+  | { type: "hello"; siteId: string }
+  | { type: "ops"; siteId: string; ops: CollaborationOp[] }
+  | {
+      type: "presence";
+      siteId: string;
+      user: CollaborationUser;
+      canvasId: string | null;
+      annotationId: string | null;
+    }
+  | { type: "bye"; siteId: string };
+
+export type CollaborationTransport = {
+  send: (message: CollaborationMessage) => void;
+  subscribe: (listener: (message: CollaborationMessage) => void) => () => void;
+  close: () => void;
+  // Called when messages may have been lost (a reconnect or a dropped queue), so the session resends its state.
+  subscribeResync?: (listener: () => void) => () => void;
+};
+
+export type RemotePresence = CollaborationUser & {
+  siteId: string;
+  canvasId: string | null;
+  annotationId: string | null;
+};
+
+export type CollaborationOptions = {
+  // A factory opens a fresh transport for every session, so the viewer can remount after stopping one.
+  transport: CollaborationTransport | (() => CollaborationTransport);
+  user?: CollaborationUser;
+  siteId?: string;
+};
+
+export type CollaborationSession = {
+  siteId: string;
+  getPresence: () => RemotePresence[];
+  subscribePresence: (listener: () => void) => () => void;
+  stop: () => void;
+};
+
+type Register = {
+  value: unknown;
+  clock: CollaborationClock;
+};
+
+type AnnotationRegisters = {
+  fields: Map<string, Register>;
+  bodyOrder: string[];
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+const DELETED_FIELD = "deleted";
+const PROP_PREFIX = "prop:";
+const BODY_PREFIX = "body:";
+const EMPTY_PRESENCE: RemotePresence[] = [];
+
+function buildSiteId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+
+  return `site-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function compareClocks(left: CollaborationClock, right: CollaborationClock): number {
+  if (left.counter !== right.counter) {
+    return left.counter - right.counter;
+  }
+  return left.siteId < right.siteId ? -1 : left.siteId > right.siteId ? 1 : 0;
+}
+
+function sameValue(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+function getBodies(annotation: StoredAnnotation): unknown[] {
+  if (Array.isArray(annotation.bodies)) {
+    return annotation.bodies;
+  }
+  if (annotation.body === undefined) {
+    return [];
+  }
+  return Array.isArray(annotation.body) ? annotation.body : [annotation.body];
+}
+
+// Bodies without an id are keyed by purpose and language so concurrent edits to different translations merge.
+function getBodyKeys(bodies: unknown[]): string[] {
+  const seen = new Map<string, number>();
+  return bodies.map((body) => {
+    const record = body && typeof body === "object" ? (body as UnknownRecord) : {};
+    const base =
+      typeof record.id === "string" && record.id.trim().length > 0
+        ? `id:${record.id}`
+        : `${String(record.purpose ?? "")}|${String(record.language ?? "")}`;
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+    return occurrence === 0 ? base : `${base}#${occurrence}`;
+  });
+}
+
+function toFieldValues(annotation: StoredAnnotation): Map<string, unknown> {
+  const values = new Map<string, unknown>();
+  for (const [key, value] of Object.entries(annotation)) {
+    if (key === "id" || key === "body" || key === "bodies" || value === undefined) {
+      continue;
+    }
+    values.set(`${PROP_PREFIX}${key}`, value);
+  }
+
+  const bodies = getBodies(annotation);
+  getBodyKeys(bodies).forEach((key, index) => {
+    values.set(`${BODY_PREFIX}${key}`, bodies[index]);
+  });
+  return values;
+}
+
+function materialize(annotationId: string, registers: AnnotationRegisters): StoredAnnotation | undefined {
+  if (registers.fields.get(DELETED_FIELD)?.value === true) {
+    return undefined;
+  }
+
+  const annotation: StoredAnnotation = { id: annotationId };
+  for (const [field, register] of registers.fields) {
+    if (field.startsWith(PROP_PREFIX) && register.value !== null) {
+      annotation[field.slice(PROP_PREFIX.length)] = register.value;
+    }
+  }
+
+  if (registers.bodyOrder.length > 0) {
+    annotation.bodies = registers.bodyOrder
+      .map((key) => registers.fields.get(`${BODY_PREFIX}${key}`)?.value)
+      .filter((body) => body !== null && body !== undefined);
+  }
+  return annotation;
+}
+
+export function createCollaborationSession(
+  store: CloverMarkStore,
+  options: CollaborationOptions,
+): CollaborationSession {
+  const transport = typeof options.transport === "function" ? options.transport() : options.transport;
+  const siteId = options.siteId ?? buildSiteId();
+  const user = options.user ?? {};
+  const registersByCanvasId = new Map<string, Map<string, AnnotationRegisters>>();
+  const presenceBySiteId = new Map<string, RemotePresence>();
+  const presenceListeners = new Set<() => void>();
+  let presenceSnapshot: RemotePresence[] = EMPTY_PRESENCE;
+  let counter = 0;
+  let localSelection: { canvasId: string | null; annotationId: string | null } = {
+    canvasId: null,
+    annotationId: null,
+  };
+
+  const getRegisters = (canvasId: string, annotationId: string): AnnotationRegisters => {
+    let canvasRegisters = registersByCanvasId.get(canvasId);
+    if (!canvasRegisters) {
+      canvasRegisters = new Map();
+      registersByCanvasId.set(canvasId, canvasRegisters);
+    }
+
+    let registers = canvasRegisters.get(annotationId);
+    if (!registers) {
+      registers = { fields: new Map(), bodyOrder: [] };
+      canvasRegisters.set(annotationId, registers);
+    }
+    return registers;
+  };
+
+  const applyOp = (op: CollaborationOp): boolean => {
+    counter = Math.max(counter, op.clock.counter);
+    const registers = getRegisters(op.canvasId, op.annotationId);
+    const current = registers.fields.get(op.field);
+    if (current && compareClocks(current.clock, op.clock) >= 0) {
+      return false;
+    }
+
+    registers.fields.set(op.field, { value: op.value, clock: op.clock });
+    if (op.field.startsWith(BODY_PREFIX)) {
+      const key = op.field.slice(BODY_PREFIX.length);
+      if (!registers.bodyOrder.includes(key)) {
+        registers.bodyOrder.push(key);
+      }
+    }
+    return true;
+  };
+
+  const createOp = (canvasId: string, annotationId: string, field: string, value: unknown) => {
+    counter += 1;
+    const op: CollaborationOp = { canvasId, annotationId, field, value, clock: { counter, siteId } };
+    applyOp(op);
+    return op;
+  };
+
+  const diffAnnotation = (canvasId: string, annotation: StoredAnnotation): CollaborationOp[] => {
+    const registers = getRegisters(canvasId, annotation.id);
+    const next = toFieldValues(annotation);
+    const ops: CollaborationOp[] = [];
+
+    if (registers.fields.get(DELETED_FIELD)?.value === true) {
+      ops.push(createOp(canvasId, annotation.id, DELETED_FIELD, false));
+    }
+
+    for (const [field, value] of next) {
+      if (!sameValue(registers.fields.get(field)?.value, value)) {
+        ops.push(createOp(canvasId, annotation.id, field, value));
+      }
+    }
+
+    for (const [field, register] of registers.fields) {
+      if (field !== DELETED_FIELD && !next.has(field) && register.value !== null) {
+        ops.push(createOp(canvasId, annotation.id, field, null));
+      }
+    }
+    return ops;
+  };
+
+  const sendOps = (ops: CollaborationOp[]) => {
+    if (ops.length > 0) {
+      transport.send({ type: "ops", siteId, ops });
+    }
+  };
+
+  const ingestLocalAnnotations = (canvasId: string, annotations: StoredAnnotation[]) => {
+    const ops: CollaborationOp[] = [];
+    const liveIds = new Set(annotations.map((annotation) => annotation.id));
+    annotations.forEach((annotation) => ops.push(...diffAnnotation(canvasId, annotation)));
+
+    for (const [annotationId, registers] of registersByCanvasId.get(canvasId) ?? []) {
+      if (!liveIds.has(annotationId) && materialize(annotationId, registers)) {
+        ops.push(createOp(canvasId, annotationId, DELETED_FIELD, true));
+      }
+    }
+    sendOps(ops);
+  };
+
+  const mergeIntoStore = (canvasId: string) => {
+    const canvasRegisters = registersByCanvasId.get(canvasId);
+    if (!canvasRegisters) {
+      return;
+    }
+
+    const merged: StoredAnnotation[] = [];
+    const placed = new Set<string>();
+    for (const annotation of store.getStoredCanvasAnnotations(canvasId)) {
+      const registers = canvasRegisters.get(annotation.id);
+      const next = registers ? materialize(annotation.id, registers) : annotation;
+      placed.add(annotation.id);
+      if (next) {
+        merged.push(next);
+      }
+    }
+    for (const [annotationId, registers] of canvasRegisters) {
+      const next = placed.has(annotationId) ? undefined : materialize(annotationId, registers);
+      if (next) {
+        merged.push(next);
+      }
+    }
+
+    // Hydration reaches mounted annotators without replaying history, storage or host callbacks locally.
+    store.hydrateStoredCanvasAnnotations(canvasId, merged);
+  };
+
+  const emitPresence = () => {
+    presenceSnapshot = [...presenceBySiteId.values()];
+    presenceListeners.forEach((listener) => listener());
+  };
+
+  const sendPresence = () => {
+    transport.send({ type: "presence", siteId, user, ...localSelection });
+  };
+
+  const getAllOps = (): CollaborationOp[] => {
+    const ops: CollaborationOp[] = [];
+    for (const [canvasId, canvasRegisters] of registersByCanvasId) {
+      for (const [annotationId, registers] of canvasRegisters) {
+        for (const [field, register] of registers.fields) {
+          ops.push({ canvasId, annotationId, field, value: register.value, clock: register.clock });
+        }
+      }
+    }
+    return ops;
+  };
+
+  const handleMessage = (message: CollaborationMessage) => {
+    if (!message || message.siteId === siteId) {
+      return;
+    }
+
+    if (message.type === "hello") {
+      sendOps(getAllOps());
+      sendPresence();
+    } else if (message.type === "ops") {
+      const changedCanvasIds = new Set<string>();
+      for (const op of message.ops) {
+        if (applyOp(op)) {
+          changedCanvasIds.add(op.canvasId);
+        }
+      }
+      changedCanvasIds.forEach(mergeIntoStore);
+    } else if (message.type === "presence") {
+      presenceBySiteId.set(message.siteId, {
+        ...message.user,
+        siteId: message.siteId,
+        canvasId: message.canvasId,
+        annotationId: message.annotationId,
+      });
+      emitPresence();
+    } else if (message.type === "bye" && presenceBySiteId.delete(message.siteId)) {
+      emitPresence();
+    }
+  };
+
+  for (const [canvasId, annotations] of Object.entries(store.getAllStoredCanvasAnnotations())) {
+    ingestLocalAnnotations(canvasId, annotations);
+  }
+
+  const unsubscribers = [
+    transport.subscribe(handleMessage),
+    // Peers announced again send back what was missed on either side.
+    transport.subscribeResync?.(() => {
+      transport.send({ type: "hello", siteId });
+      sendOps(getAllOps());
+      sendPresence();
+    }) ?? (() => undefined),
+    store.subscribeStoredAnnotations((canvasId, annotations, previous) => {
+      if (diffStoredAnnotations(previous, annotations).length > 0) {
+        ingestLocalAnnotations(canvasId, annotations);
+      }
+    }),
+    // Storage loads hydrate the store; echoes of merged remote state produce no ops.
+    store.subscribeCanvasHydration((canvasId) => {
+      ingestLocalAnnotations(canvasId, store.getStoredCanvasAnnotations(canvasId));
+    }),
+    store.subscribeRuntimeState(() => {
+      const { byCanvasId } = store.getRuntimeStateSnapshot();
+      const selected = Object.entries(byCanvasId).find(
+        ([, canvasState]) => canvasState.selectedLocalScholiumId,
+      );
+      const next = {
+        canvasId: selected?.[0] ?? null,
+        annotationId: selected?.[1].selectedLocalScholiumId ?? null,
+      };
+      if (next.canvasId !== localSelection.canvasId || next.annotationId !== localSelection.annotationId) {
+        localSelection = next;
+        sendPresence();
+      }
+    }),
+  ];
+
+  transport.send({ type: "hello", siteId });
+  sendPresence();
+
+  return {
+    siteId,
+    getPresence: () => presenceSnapshot,
+    subscribePresence: (listener) => {
+      presenceListeners.add(listener);
+      return () => {
+        presenceListeners.delete(listener);
+      };
+    },
+    stop: () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      transport.send({ type: "bye", siteId });
+      transport.close();
+      presenceBySiteId.clear();
+      emitPresence();
+      if (sessionsByStore.get(store)?.siteId === siteId) {
+        sessionsByStore.delete(store);
+        emitSessionChange();
+      }
+    },
+  };
+}
+
+const sessionsByStore = new WeakMap<CloverMarkStore, CollaborationSession>();
+const sessionListeners = new Set<() => void>();
+
+function emitSessionChange() {
+  sessionListeners.forEach((listener) => listener());
+}
+
+function subscribeSessions(listener: () => void): () => void {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+}
+
+export function startCollaboration(
+  store: CloverMarkStore,
+  options: CollaborationOptions,
+): CollaborationSession {
+  sessionsByStore.get(store)?.stop();
+  const session = createCollaborationSession(store, options);
+  sessionsByStore.set(store, session);
+  emitSessionChange();
+  return session;
+}
+
+const retainedSessionsByStore = new WeakMap<CloverMarkStore, { refCount: number; session: CollaborationSession }>();
+
+// Shares one session per store between every mounted component; the last release stops it.
+export function retainCollaboration(
+  store: CloverMarkStore,
+  options: CollaborationOptions,
+): () => void {
+  let retained = retainedSessionsByStore.get(store);
+  if (!retained) {
+    retained = { refCount: 0, session: startCollaboration(store, options) };
+    retainedSessionsByStore.set(store, retained);
+  }
+
+  const activeRetained = retained;
+  activeRetained.refCount += 1;
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+
+    released = true;
+    activeRetained.refCount -= 1;
+    if (activeRetained.refCount <= 0) {
+      activeRetained.session.stop();
+      retainedSessionsByStore.delete(store);
+    }
+  };
+}
+
+export function useCollaboration(options: CollaborationOptions | undefined): void {
+  const store = useCloverMarkStore();
+  React.useEffect(() => {
+    if (!options) {
+      return;
+    }
+
+    return retainCollaboration(store, options);
+  }, [options, store]);
+}
+
+const noopSubscribe = () => () => undefined;
+
+export function useCanvasPresence(canvasId?: string): RemotePresence[] {
+  const store = useCloverMarkStore();
+  // The session starts after the first render, once the viewer has mounted.
+  const session = React.useSyncExternalStore(
+    subscribeSessions,
+    () => sessionsByStore.get(store),
+    () => undefined,
+  );
+  const presence = React.useSyncExternalStore(
+    session?.subscribePresence ?? noopSubscribe,
+    () => session?.getPresence() ?? EMPTY_PRESENCE,
+    () => EMPTY_PRESENCE,
+  );
+
+  return React.useMemo(
+    () => presence.filter((entry) => entry.canvasId === canvasId),
+    [canvasId, presence],
+  );
+}
+
+export type WebSocketLike = {
+  readyState: number;
+  send: (data: string) => void;
+  close: () => void;
+  addEventListener: (type: string, listener: (event: { data?: unknown }) => void) => void;
+};
+
+export type WebSocketTransportOptions = {
+  url: string;
+  WebSocket?: new (url: string) => WebSocketLike;
+  // A dropped connection is reopened after a delay that doubles up to the maximum; `false` turns this off.
+  reconnect?: false | { baseDelayMs?: number; maxDelayMs?: number };
+  // Messages held while disconnected; the oldest are dropped beyond this and the state is resent on reconnect.
+  maxQueuedMessages?: number;
+  onError?: (error: Error) => void;
+};
+
+const WEBSOCKET_OPEN = 1;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+const MAX_QUEUED_MESSAGES = 1000;
+
+export function createWebSocketTransport(options: WebSocketTransportOptions): CollaborationTransport {
+  const WebSocketImpl =
+    options.WebSocket ??
+    (typeof WebSocket === "function"
+      ? (WebSocket as unknown as new (url: string) => WebSocketLike)
+      : undefined);
+  if (!WebSocketImpl) {
+    throw new Error("WebSocket is not available in this environment.");
+  }
+
+  const listeners = new Set<(message: CollaborationMessage) => void>();
+  const resyncListeners = new Set<() => void>();
+  const queued: string[] = [];
+  const maxQueued = Math.max(1, options.maxQueuedMessages ?? MAX_QUEUED_MESSAGES);
+  const reconnect = options.reconnect === false
+    ? null
+    : {
+        baseDelayMs: options.reconnect?.baseDelayMs ?? RECONNECT_BASE_DELAY_MS,
+        maxDelayMs: options.reconnect?.maxDelayMs ?? RECONNECT_MAX_DELAY_MS,
+      };
+  let socket: WebSocketLike;
+  let closed = false;
+  let opened = false;
+  let dropped = false;
+  let reconnectAttempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const reportError = (error: Error) => {
+    if (options.onError) {
+      invokeHostCallback("onError", () => options.onError?.(error));
+    }
+  };
+
+  const connect = () => {
+    const current = new WebSocketImpl(options.url);
+    socket = current;
+
+    current.addEventListener("open", () => {
+      reconnectAttempt = 0;
+      queued.splice(0).forEach((data) => current.send(data));
+      if (closed) {
+        // Queued messages (such as "bye") are flushed before closing.
+        current.close();
+        return;
+      }
+
+      const resync = opened || dropped;
+      opened = true;
+      dropped = false;
+      if (resync) {
+        resyncListeners.forEach((listener) => listener());
+      }
+    });
+    current.addEventListener("message", (event) => {
+      if (typeof event.data !== "string") {
+        return;
+      }
+
+      let message: CollaborationMessage;
+      try {
+        message = JSON.parse(event.data) as CollaborationMessage;
+      } catch {
+        return;
+      }
+      listeners.forEach((listener) => listener(message));
+    });
+    current.addEventListener("error", () => {
+      if (!closed) {
+        reportError(new Error(`Collaboration connection to ${options.url} failed.`));
+      }
+    });
+    current.addEventListener("close", () => {
+      if (closed || !reconnect || current !== socket) {
+        return;
+      }
+
+      const delay = Math.min(reconnect.maxDelayMs, reconnect.baseDelayMs * 2 ** reconnectAttempt);
+      reconnectAttempt += 1;
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+      }, delay);
+    });
+  };
+
+  connect();
+
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message);
+      if (socket.readyState === WEBSOCKET_OPEN) {
+        socket.send(data);
+        return;
+      }
+
+      queued.push(data);
+      if (queued.length > maxQueued) {
+        queued.splice(0, queued.length - maxQueued);
+        if (!dropped) {
+          dropped = true;
+          reportError(new Error(`Collaboration messages to ${options.url} were dropped while disconnected.`));
+        }
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    subscribeResync: (listener) => {
+      resyncListeners.add(listener);
+      return () => {
+        resyncListeners.delete(listener);
+      };
+    },
+    close: () => {
+      closed = true;
+      listeners.clear();
+      resyncListeners.clear();
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      if (socket.readyState === WEBSOCKET_OPEN) {
+        socket.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+import { createCloverMarkStore } from "./annotation-runtime";
+import { bindAnnotationLifecycleCallbacks } from "./annotation-events";
+
+describe("annotation lifecycle callbacks", () => {
+  it("reports created, updated and deleted annotations with canvas and manifest ids", () => {
+    const store = createCloverMarkStore();
+    const events: Array<[string, string, string, string | undefined]> = [];
+    bindAnnotationLifecycleCallbacks(store, {
+      onAnnotationCreated: (annotation, canvasId, manifestId) =>
+        events.push(["created", annotation.id, canvasId, manifestId]),
+      onAnnotationUpdated: (annotation, canvasId, manifestId) =>
+        events.push(["updated", annotation.id, canvasId, manifestId]),
+      onAnnotationDeleted: (annotation, canvasId, manifestId) =>
+        events.push(["deleted", annotation.id, canvasId, manifestId]),
+    });
+
+    store.setCanvasManifestId("canvas-a", "manifest-1");
+    store.setStoredCanvasAnnotations("canvas-a", [{ id: "anno-1", motivation: "tagging" }]);
+    store.setStoredCanvasAnnotations("canvas-a", [{ id: "anno-1", motivation: "commenting" }]);
+    store.hydrateStoredCanvasAnnotations("canvas-a", [{ id: "anno-2" }]);
+    store.setStoredCanvasAnnotations("canvas-a", []);
+
+    expect(events).toEqual([
+      ["created", "anno-1", "canvas-a", "manifest-1"],
+      ["updated", "anno-1", "canvas-a", "manifest-1"],
+      ["deleted", "anno-2", "canvas-a", "manifest-1"],
+    ]);
+  });
+
+  it("reports selection changes and keeps going when a host callback throws", () => {
+    const store = createCloverMarkStore();
+    const selections: Array<string | null> = [];
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    bindAnnotationLifecycleCallbacks(store, {
+      onAnnotationCreated: () => {
+        throw new Error("host failure");
+      },
+      onSelectionChanged: (annotation) => selections.push(annotation?.id ?? null),
+    });
+
+    store.setStoredCanvasAnnotations("canvas-a", [{ id: "anno-1" }]);
+    store.setCanvasSelectedLocalScholiumId("canvas-a", "anno-1");
+    store.setCanvasBridgeState("canvas-a", "openseadragon", true);
+    store.setCanvasSelectedLocalScholiumId("canvas-a", null);
+    consoleError.mockRestore();
+
+    expect(selections).toEqual(["anno-1", null]);
+    expect(store.getStoredCanvasAnnotations("canvas-a")).toEqual([{ id: "anno-1" }]);
+  });
+});
@@ -0,0 +1,110 @@
+import type { CloverMarkStore, StoredAnnotation } from "./annotation-runtime";
+import { diffStoredAnnotations } from "./annotation-history";
+
+export type AnnotationLifecycleCallback = (
+  annotation: StoredAnnotation,
+  canvasId: string,
+  manifestId: string | undefined,
+) => void;
+
+export type AnnotationSelectionCallback = (
+  annotation: StoredAnnotation | null,
+  canvasId: string,
+  manifestId: string | undefined,
+) => void;
+
+export type AnnotationExportFormat =
+  | "iiif"
+  | "iiif2"
+  | "w3c"
+  | "webvtt"
+  | "srt"
+  | "ttml"
+  | "sbv"
+  | "manifest";
+
+export type AnnotationExportCallback = (
+  annotation: StoredAnnotation,
+  canvasId: string,
+  manifestId: string | undefined,
+  format: AnnotationExportFormat,
+) => void;
+
+export type AnnotationLifecycleCallbacks = {
+  onAnnotationCreated?: AnnotationLifecycleCallback;
+  onAnnotationUpdated?: AnnotationLifecycleCallback;
+  onAnnotationDeleted?: AnnotationLifecycleCallback;
+  onSelectionChanged?: AnnotationSelectionCallback;
+};
+
+// A host callback that throws is logged so it cannot break the panel action that triggered it.
+export function invokeHostCallback(name: string, callback: () => void): void {
+  try {
+    callback();
+  } catch (error) {
+    console.error(`CloverMark ${name} callback failed`, error);
+  }
+}
+
+export function bindAnnotationLifecycleCallbacks(
+  store: CloverMarkStore,
+  callbacks: AnnotationLifecycleCallbacks,
+): () => void {
+  const { onAnnotationCreated, onAnnotationUpdated, onAnnotationDeleted, onSelectionChanged } =
+    callbacks;
+  const unsubscribers: Array<() => void> = [];
+
+  if (onAnnotationCreated || onAnnotationUpdated || onAnnotationDeleted) {
+    unsubscribers.push(
+      store.subscribeStoredAnnotations((canvasId, annotations, previous) => {
+        const manifestId = store.getCanvasManifestId(canvasId);
+        for (const change of diffStoredAnnotations(previous, annotations)) {
+          if (change.after && !change.before && onAnnotationCreated) {
+            const created = change.after;
+            invokeHostCallback("onAnnotationCreated", () =>
+              onAnnotationCreated(created, canvasId, manifestId),
+            );
+          } else if (change.after && change.before && onAnnotationUpdated) {
+            const updated = change.after;
+            invokeHostCallback("onAnnotationUpdated", () =>
+              onAnnotationUpdated(updated, canvasId, manifestId),
+            );
+          } else if (change.before && !change.after && onAnnotationDeleted) {
+            const deleted = change.before;
+            invokeHostCallback("onAnnotationDeleted", () =>
+              onAnnotationDeleted(deleted, canvasId, manifestId),
+            );
+          }
+        }
+      }),
+    );
+  }
+
+  if (onSelectionChanged) {
+    const selectedByCanvasId: Record<string, string | null> = {};
+    unsubscribers.push(
+      store.subscribeRuntimeState(() => {
+        const { byCanvasId } = store.getRuntimeStateSnapshot();
+        for (const [canvasId, canvasState] of Object.entries(byCanvasId)) {
+          const selectedId = canvasState.selectedLocalScholiumId;
+          if ((selectedByCanvasId[canvasId] ?? null) === selectedId) {
+            continue;
+          }
+
+          selectedByCanvasId[canvasId] = selectedId;
+          const annotation = selectedId
+            ? store.getStoredCanvasAnnotations(canvasId).find((candidate) => candidate.id === selectedId) ??
+              { id: selectedId }
+            : null;
+          invokeHostCallback("onSelectionChanged", () =>
+            onSelectionChanged(annotation, canvasId, store.getCanvasManifestId(canvasId)),
+          );
+        }
+      }),
+    );
+  }
+
+  return () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
+}
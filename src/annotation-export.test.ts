@@ -1,5 +1,9 @@
 import { describe, expect, it } from "vitest";
-import { buildAnnotationPageExport } from "./annotation-export";
+import {
+  buildAnnotationPageExport,
+  buildWebAnnotationCollectionExport,
+  createAnnotatedManifestArchive,
+} from "./annotation-export";
 
 describe("annotation export", () => {
   it("builds a IIIF AnnotationPage from stored annotations", () => {
@@ -272,4 +276,149 @@ describe("annotation export", () => {
       },
     ]);
   });
+
+  it("exports polygon geometry as an SVG selector", () => {
+    const annotationPage = buildAnnotationPageExport({
+      storedByCanvasId: {
+        "canvas-1": [
+          {
+            id: "anno-polygon",
+            target: {
+              annotation: "anno-polygon",
+              selector: {
+                type: "POLYGON",
+                geometry: { points: [[0, 0], [10, 0], [10, 10]] },
+              },
+            },
+          },
+        ],
+      },
+    });
+
+    expect(annotationPage.items[0].target).toEqual({
+      type: "SpecificResource",
+      source: "canvas-1",
+      selector: {
+        type: "SvgSelector",
+        value: '<svg xmlns="http://www.w3.org/2000/svg"><polygon points="0,0 10,0 10,10" /></svg>',
+      },
+    });
+  });
+
+  it("builds a W3C AnnotationCollection with refined selectors, agents and timestamps", () => {
+    const collection = buildWebAnnotationCollectionExport({
+      manifestId: "https://example.org/manifest.json",
+      generated: "2024-05-01T12:00:00.000Z",
+      storedByCanvasId: {
+        "canvas-1": [
+          {
+            id: "anno-1",
+            bodies: [{ purpose: "supplementing", value: "Hello", language: "en" }],
+            target: {
+              source: "https://example.org/canvas-1#t=5,10",
+              selector: { type: "RECTANGLE", geometry: { x: 1, y: 2, w: 3, h: 4 } },
+            },
+            motivation: "supplementing",
+            creator: "Ada Lovelace",
+            created: "2024-04-01T09:00:00Z",
+            modified: "2024-04-02T09:00:00Z",
+            via: "https://example.org/original-1",
+          },
+          { id: "", motivation: "tagging", creator: "https://example.org/users/1" },
+        ],
+      },
+    });
+
+    expect(collection).toMatchObject({
+      "@context": "http://www.w3.org/ns/anno.jsonld",
+      id: "https://example.org/manifest.json#annotation-collection",
+      type: "AnnotationCollection",
+      total: 2,
+      generator: { type: "Software", name: "CloverMark" },
+      first: {
+        id: "https://example.org/manifest.json#annotation-page-1",
+        type: "AnnotationPage",
+        partOf: "https://example.org/manifest.json#annotation-collection",
+        startIndex: 0,
+      },
+    });
+    expect(collection.first.items[0]).toEqual({
+      id: "https://example.org/manifest.json#anno-1",
+      type: "Annotation",
+      motivation: "http://iiif.io/api/presentation/3#supplementing",
+      body: {
+        type: "TextualBody",
+        purpose: "http://iiif.io/api/presentation/3#supplementing",
+        value: "Hello",
+        language: "en",
+        format: "text/plain",
+      },
+      target: {
+        type: "SpecificResource",
+        source: "https://example.org/canvas-1",
+        selector: {
+          type: "FragmentSelector",
+          conformsTo: "http://www.w3.org/TR/media-frags/",
+          value: "t=5,10",
+          refinedBy: {
+            type: "FragmentSelector",
+            conformsTo: "http://www.w3.org/TR/media-frags/",
+            value: "xywh=1,2,3,4",
+          },
+        },
+      },
+      creator: { type: "Person", name: "Ada Lovelace" },
+      created: "2024-04-01T09:00:00.000Z",
+      modified: "2024-04-02T09:00:00.000Z",
+      generator: collection.generator,
+      generated: "2024-05-01T12:00:00.000Z",
+      via: "https://example.org/original-1",
+    });
+    expect(collection.first.items[1]).toMatchObject({
+      id: "https://example.org/manifest.json#annotation-2",
+      motivation: "tagging",
+      target: "canvas-1",
+      creator: "https://example.org/users/1",
+    });
+  });
+
+  it("packages the annotated manifest and its pages into one archive", () => {
+    const page = (id: string) => ({
+      "@context": "http://iiif.io/api/presentation/3/context.json",
+      id,
+      type: "AnnotationPage" as const,
+      items: [],
+    });
+    const archive = createAnnotatedManifestArchive({
+      manifest: { id: "https://example.org/manifest", type: "Manifest" },
+      pages: [
+        page("https://example.org/canvas/1/annotations.json"),
+        page("https://example.org/canvas/2/annotations.json"),
+      ],
+    });
+
+    // Entry names follow each local file header in a stored archive.
+    const view = new DataView(archive.buffer);
+    const decoder = new TextDecoder();
+    const entries: Record<string, unknown> = {};
+    let offset = 0;
+    while (view.getUint32(offset, true) === 0x04034b50) {
+      const size = view.getUint32(offset + 18, true);
+      const nameLength = view.getUint16(offset + 26, true);
+      const dataOffset = offset + 30 + nameLength + view.getUint16(offset + 28, true);
+      const name = decoder.decode(archive.subarray(offset + 30, offset + 30 + nameLength));
+      entries[name] = JSON.parse(decoder.decode(archive.subarray(dataOffset, dataOffset + size)));
+      offset = dataOffset + size;
+    }
+
+    expect(Object.keys(entries)).toEqual([
+      "manifest.json",
+      "annotations.json",
+      "clover-mark-annotation-page-2.json",
+    ]);
+    expect(entries["manifest.json"]).toEqual({ id: "https://example.org/manifest", type: "Manifest" });
+    expect(entries["clover-mark-annotation-page-2.json"]).toMatchObject({
+      id: "https://example.org/canvas/2/annotations.json",
+    });
+  });
 });
@@ -1,10 +1,44 @@
 import type { StoredAnnotation } from "./annotation-runtime";
+import type { AnnotatedManifestExport } from "./native-annotations";
+import {
+  CAPTION_FORMAT_EXTENSIONS,
+  CAPTION_FORMAT_MEDIA_TYPES,
+  type CaptionFormat,
+} from "./captions";
+import { createZipArchive } from "./zip";
 
 const IIIF_PRESENTATION_3_CONTEXT = "http://iiif.io/api/presentation/3/context.json";
+const W3C_ANNOTATION_CONTEXT = "http://www.w3.org/ns/anno.jsonld";
+const IIIF_PRESENTATION_3_NAMESPACE = "http://iiif.io/api/presentation/3#";
+const IIIF_PRESENTATION_2_CONTEXT = "http://iiif.io/api/presentation/2/context.json";
 const DEFAULT_EXPORT_BASE_ID = "urn:clover-mark-export";
 
 type StoredAnnotationsByCanvasId = Record<string, StoredAnnotation[] | undefined>;
 
+export type WebAnnotationAgent = {
+  id?: string;
+  type: "Software" | "Person" | "Organization";
+  name?: string;
+  homepage?: string;
+};
+
+type WebAnnotationCollectionLike = {
+  "@context": string;
+  id: string;
+  type: "AnnotationCollection";
+  label: string;
+  total: number;
+  generator: WebAnnotationAgent;
+  generated: string;
+  first: {
+    id: string;
+    type: "AnnotationPage";
+    partOf: string;
+    startIndex: number;
+    items: Array<Record<string, unknown>>;
+  };
+};
+
 type AnnotationPageLike = {
   "@context": string;
   id: string;
@@ -14,6 +48,14 @@ type AnnotationPageLike = {
   items: Array<Record<string, unknown>>;
 };
 
+type AnnotationListLike = {
+  "@context": string;
+  "@id": string;
+  "@type": "sc:AnnotationList";
+  label: string;
+  resources: Array<Record<string, unknown>>;
+};
+
 const MEDIA_FRAGMENTS_CONFORMS_TO = "http://www.w3.org/TR/media-frags/";
 
 type UnknownRecord = Record<string, unknown>;
@@ -71,7 +113,11 @@ function normalizeBody(body: unknown): unknown | undefined {
   return Object.keys(normalized).length > 0 ? normalized : undefined;
 }
 
-function normalizeTarget(target: unknown, fallbackCanvasId: string): unknown {
+function normalizeTarget(
+  target: unknown,
+  fallbackCanvasId: string,
+  options: { refineSourceFragment?: boolean } = {},
+): unknown {
   if (typeof target === "string") {
     const trimmed = target.trim();
     if (!trimmed) {
@@ -103,7 +149,12 @@ function normalizeTarget(target: unknown, fallbackCanvasId: string): unknown {
         ? sourceTarget.id.trim()
         : fallbackCanvasId;
   const sourceStringSelector = selectorFromString(sourceRaw);
-  const selector = normalizeSelector(sourceTarget.selector) ?? sourceStringSelector;
+  const explicitSelector = normalizeSelector(sourceTarget.selector);
+  // A fragment on the source (e.g. a time range) narrows first; the shape selector refines within it.
+  const selector =
+    options.refineSourceFragment && explicitSelector && sourceStringSelector
+      ? { ...sourceStringSelector, refinedBy: explicitSelector }
+      : explicitSelector ?? sourceStringSelector;
   const source = sourceRaw.includes("#") ? sourceRaw.split("#")[0] || fallbackCanvasId : sourceRaw;
 
   if (!selector) {
@@ -144,6 +195,25 @@ function normalizeSelector(selector: unknown): UnknownRecord | undefined {
     return undefined;
   }
 
+  if (Array.isArray(selector)) {
+    const chain = selector
+      .map((entry) => normalizeSelector(entry))
+      .filter((entry): entry is UnknownRecord => Boolean(entry));
+    return chain.reduceRight<UnknownRecord | undefined>(
+      (refinedBy, entry) => (refinedBy ? { ...entry, refinedBy } : entry),
+      undefined,
+    );
+  }
+
+  if (typeof selector === "object" && (selector as UnknownRecord).refinedBy) {
+    const { refinedBy, ...outer } = selector as UnknownRecord;
+    const normalizedOuter = normalizeSelector(outer);
+    const normalizedRefinement = normalizeSelector(refinedBy);
+    return normalizedOuter && normalizedRefinement
+      ? { ...normalizedOuter, refinedBy: normalizedRefinement }
+      : normalizedOuter ?? normalizedRefinement;
+  }
+
   if (typeof selector === "string") {
     const trimmed = selector.trim();
     if (!trimmed) {
@@ -208,6 +278,21 @@ function normalizeSelector(selector: unknown): UnknownRecord | undefined {
     };
   }
 
+  const points = Array.isArray(geometry?.points) ? (geometry.points as unknown[]) : [];
+  if (rawType === "polygon" && points.length > 0) {
+    const serializedPoints = points
+      .filter(
+        (point): point is [number, number] =>
+          Array.isArray(point) && typeof point[0] === "number" && typeof point[1] === "number",
+      )
+      .map(([px, py]) => `${px},${py}`)
+      .join(" ");
+    return {
+      type: "SvgSelector",
+      value: `<svg xmlns="http://www.w3.org/2000/svg"><polygon points="${serializedPoints}" /></svg>`,
+    };
+  }
+
   return undefined;
 }
 
@@ -271,28 +356,74 @@ function normalizeMotivation(
   return undefined;
 }
 
-export function buildAnnotationPageExport(options: {
-  manifestId?: string;
-  storedByCanvasId: StoredAnnotationsByCanvasId;
-  canvasOrder?: string[];
-  label?: string;
-}): AnnotationPageLike {
-  const baseId = options.manifestId?.trim() || DEFAULT_EXPORT_BASE_ID;
-  const annotationPageId = `${baseId}#annotation-page`;
+export function buildExportAnnotation(
+  annotation: StoredAnnotation,
+  canvasId: string,
+  fallbackId: string,
+): Record<string, unknown> {
+  const body = normalizeAnnotationBody(annotation);
+  const motivation = normalizeMotivation(annotation.motivation);
+  const target = normalizeTarget(annotation.target, canvasId);
+  const id =
+    typeof annotation.id === "string" && annotation.id.trim().length > 0
+      ? annotation.id
+      : fallbackId;
+  const created = getCreatedFromAnnotation(annotation);
+  const creator = getCreatorFromAnnotation(annotation);
+
+  const item: Record<string, unknown> = {
+    id,
+    type: "Annotation",
+    target,
+  };
+
+  if (body.length === 1) {
+    item.body = body[0];
+  } else if (body.length > 1) {
+    item.body = body;
+  }
+
+  if (motivation) {
+    item.motivation = motivation;
+  }
+  if (created) {
+    item.created = created;
+  }
+  if (creator !== undefined) {
+    item.creator = creator;
+  }
+  if (typeof annotation.via === "string") {
+    item.via = annotation.via;
+  }
+
+  return item;
+}
+
+function getOrderedCanvasIds(
+  storedByCanvasId: StoredAnnotationsByCanvasId,
+  canvasOrder: string[] = [],
+): string[] {
   const seenCanvasIds = new Set<string>();
   const orderedCanvasIds: string[] = [];
 
-  for (const canvasId of options.canvasOrder ?? []) {
+  for (const canvasId of [...canvasOrder, ...Object.keys(storedByCanvasId)]) {
     if (!canvasId || seenCanvasIds.has(canvasId)) continue;
     seenCanvasIds.add(canvasId);
     orderedCanvasIds.push(canvasId);
   }
 
-  for (const canvasId of Object.keys(options.storedByCanvasId)) {
-    if (!canvasId || seenCanvasIds.has(canvasId)) continue;
-    seenCanvasIds.add(canvasId);
-    orderedCanvasIds.push(canvasId);
-  }
+  return orderedCanvasIds;
+}
+
+export function buildAnnotationPageExport(options: {
+  manifestId?: string;
+  storedByCanvasId: StoredAnnotationsByCanvasId;
+  canvasOrder?: string[];
+  label?: string;
+}): AnnotationPageLike {
+  const baseId = options.manifestId?.trim() || DEFAULT_EXPORT_BASE_ID;
+  const annotationPageId = `${baseId}#annotation-page`;
+  const orderedCanvasIds = getOrderedCanvasIds(options.storedByCanvasId, options.canvasOrder);
 
   const items: Array<Record<string, unknown>> = [];
   let annotationIndex = 0;
@@ -305,39 +436,13 @@ export function buildAnnotationPageExport(options: {
     touchedCanvasCount += 1;
     for (const annotation of annotations) {
       annotationIndex += 1;
-      const body = normalizeAnnotationBody(annotation);
-      const motivation = normalizeMotivation(annotation.motivation);
-      const target = normalizeTarget(annotation.target, canvasId);
-      const id =
-        typeof annotation.id === "string" && annotation.id.trim().length > 0
-          ? annotation.id
-          : `${annotationPageId}/annotation-${annotationIndex}`;
-      const created = getCreatedFromAnnotation(annotation);
-      const creator = getCreatorFromAnnotation(annotation);
-
-      const item: Record<string, unknown> = {
-        id,
-        type: "Annotation",
-        target,
-      };
-
-      if (body.length === 1) {
-        item.body = body[0];
-      } else if (body.length > 1) {
-        item.body = body;
-      }
-
-      if (motivation) {
-        item.motivation = motivation;
-      }
-      if (created) {
-        item.created = created;
-      }
-      if (creator !== undefined) {
-        item.creator = creator;
-      }
-
-      items.push(item);
+      items.push(
+        buildExportAnnotation(
+          annotation,
+          canvasId,
+          `${annotationPageId}/annotation-${annotationIndex}`,
+        ),
+      );
     }
   }
 
@@ -357,8 +462,324 @@ export function buildAnnotationPageExport(options: {
   };
 }
 
+export const CLOVER_MARK_GENERATOR: WebAnnotationAgent = {
+  id: "https://github.com/nulib-labs/clover-mark-plugin",
+  type: "Software",
+  name: "CloverMark",
+  homepage: "https://github.com/nulib-labs/clover-mark-plugin",
+};
+
+// The W3C vocabulary (http://www.w3.org/ns/anno.jsonld) has no IIIF motivations; those are written as full IRIs.
+const W3C_MOTIVATIONS = new Set([
+  "assessing",
+  "bookmarking",
+  "classifying",
+  "commenting",
+  "describing",
+  "editing",
+  "highlighting",
+  "identifying",
+  "linking",
+  "moderating",
+  "questioning",
+  "replying",
+  "tagging",
+]);
+const IIIF_MOTIVATIONS = new Set(["painting", "supplementing"]);
+
+function toW3cMotivation(motivation: unknown): unknown {
+  if (Array.isArray(motivation)) {
+    return motivation.map((value) => toW3cMotivation(value));
+  }
+  if (typeof motivation !== "string" || W3C_MOTIVATIONS.has(motivation)) {
+    return motivation;
+  }
+  return IIIF_MOTIVATIONS.has(motivation) ? `${IIIF_PRESENTATION_3_NAMESPACE}${motivation}` : motivation;
+}
+
+function isAbsoluteIri(value: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(value);
+}
+
+function toW3cAgent(agent: unknown): unknown {
+  if (typeof agent === "string") {
+    const trimmed = agent.trim();
+    if (!trimmed) {
+      return undefined;
+    }
+    return isAbsoluteIri(trimmed) ? trimmed : { type: "Person", name: trimmed };
+  }
+  return agent ?? undefined;
+}
+
+function toW3cTimestamp(value: unknown): string | undefined {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    return undefined;
+  }
+  const parsed = Date.parse(value);
+  return Number.isFinite(parsed) ? new Date(parsed).toISOString() : undefined;
+}
+
+function toW3cBody(body: unknown): unknown {
+  if (!body || typeof body !== "object") {
+    return body;
+  }
+
+  const mapped: UnknownRecord = { ...(body as UnknownRecord) };
+  if (mapped.type === undefined && typeof mapped.value === "string") {
+    mapped.type = "TextualBody";
+  }
+  if (mapped.type === "TextualBody" && typeof mapped.format !== "string") {
+    mapped.format = "text/plain";
+  }
+  if (mapped.purpose !== undefined) {
+    mapped.purpose = toW3cMotivation(mapped.purpose);
+  }
+  const creator = toW3cAgent(mapped.creator);
+  if (creator === undefined) {
+    delete mapped.creator;
+  } else {
+    mapped.creator = creator;
+  }
+  for (const key of ["created", "modified"] as const) {
+    const timestamp = toW3cTimestamp(mapped[key]);
+    if (timestamp) {
+      mapped[key] = timestamp;
+    } else {
+      delete mapped[key];
+    }
+  }
+  return mapped;
+}
+
+export function buildWebAnnotationExport(
+  annotation: StoredAnnotation,
+  canvasId: string,
+  options: { baseId?: string; generator?: WebAnnotationAgent; generated?: string } = {},
+): Record<string, unknown> {
+  const baseId = options.baseId?.trim() || DEFAULT_EXPORT_BASE_ID;
+  const exported = buildExportAnnotation(annotation, canvasId, `${baseId}#annotation`);
+  const id = String(exported.id);
+  const item: Record<string, unknown> = {
+    id: isAbsoluteIri(id) ? id : `${baseId}#${encodeURIComponent(id)}`,
+    type: "Annotation",
+  };
+
+  if (exported.motivation !== undefined) {
+    item.motivation = toW3cMotivation(exported.motivation);
+  }
+  if (exported.body !== undefined) {
+    item.body = Array.isArray(exported.body) ? exported.body.map(toW3cBody) : toW3cBody(exported.body);
+  }
+  item.target = normalizeTarget(annotation.target, canvasId, { refineSourceFragment: true });
+
+  const creator = toW3cAgent(exported.creator);
+  if (creator !== undefined) {
+    item.creator = creator;
+  }
+  const created = toW3cTimestamp(exported.created);
+  if (created) {
+    item.created = created;
+  }
+  const modified = toW3cTimestamp(annotation.modified);
+  if (modified) {
+    item.modified = modified;
+  }
+  item.generator = options.generator ?? CLOVER_MARK_GENERATOR;
+  item.generated = options.generated ?? new Date().toISOString();
+  if (typeof exported.via === "string") {
+    item.via = exported.via;
+  }
+
+  return item;
+}
+
+export function buildWebAnnotationCollectionExport(options: {
+  manifestId?: string;
+  storedByCanvasId: StoredAnnotationsByCanvasId;
+  canvasOrder?: string[];
+  label?: string;
+  generator?: WebAnnotationAgent;
+  generated?: string;
+}): WebAnnotationCollectionLike {
+  const baseId = options.manifestId?.trim() || DEFAULT_EXPORT_BASE_ID;
+  const collectionId = `${baseId}#annotation-collection`;
+  const generator = options.generator ?? CLOVER_MARK_GENERATOR;
+  const generated = options.generated ?? new Date().toISOString();
+  const items: Array<Record<string, unknown>> = [];
+
+  for (const canvasId of getOrderedCanvasIds(options.storedByCanvasId, options.canvasOrder)) {
+    for (const annotation of options.storedByCanvasId[canvasId] ?? []) {
+      const hasId = typeof annotation.id === "string" && annotation.id.trim().length > 0;
+      items.push(
+        buildWebAnnotationExport(
+          hasId ? annotation : { ...annotation, id: `${baseId}#annotation-${items.length + 1}` },
+          canvasId,
+          { baseId, generator, generated },
+        ),
+      );
+    }
+  }
+
+  return {
+    "@context": W3C_ANNOTATION_CONTEXT,
+    id: collectionId,
+    type: "AnnotationCollection",
+    label: options.label?.trim() || "CloverMark Export",
+    total: items.length,
+    generator,
+    generated,
+    first: {
+      id: `${baseId}#annotation-page-1`,
+      type: "AnnotationPage",
+      partOf: collectionId,
+      startIndex: 0,
+      items,
+    },
+  };
+}
+
+function toPresentation2Motivation(motivation: unknown): unknown {
+  if (typeof motivation !== "string") {
+    return motivation;
+  }
+  if (W3C_MOTIVATIONS.has(motivation)) {
+    return `oa:${motivation}`;
+  }
+  return motivation === "painting" ? "sc:painting" : toW3cMotivation(motivation);
+}
+
+function toPresentation2Resource(body: unknown): unknown {
+  if (!body || typeof body !== "object") {
+    return typeof body === "string" ? { "@id": body } : body;
+  }
+
+  const record = body as UnknownRecord;
+  if (typeof record.value !== "string") {
+    const { id, type, ...rest } = record;
+    const resource: UnknownRecord = { ...rest };
+    if (id !== undefined) {
+      resource["@id"] = id;
+    }
+    if (type !== undefined) {
+      resource["@type"] = type;
+    }
+    return resource;
+  }
+
+  if (record.purpose === "tagging") {
+    return { "@type": "oa:Tag", chars: record.value };
+  }
+
+  const resource: UnknownRecord = {
+    "@type": "cnt:ContentAsText",
+    chars: record.value,
+    format: typeof record.format === "string" ? record.format : "text/plain",
+  };
+  if (typeof record.language === "string") {
+    resource.language = record.language;
+  }
+  return resource;
+}
+
+function getPolygonBoundingFragment(svg: string): string | undefined {
+  const match = svg.match(/<polygon[^>]*\spoints=["']([^"']+)["']/i);
+  const numbers = match
+    ? match[1].trim().split(/[\s,]+/).map((part) => Number.parseFloat(part))
+    : [];
+  if (numbers.length < 6 || numbers.length % 2 !== 0 || numbers.some((part) => !Number.isFinite(part))) {
+    return undefined;
+  }
+
+  const xs = numbers.filter((_, index) => index % 2 === 0);
+  const ys = numbers.filter((_, index) => index % 2 === 1);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return `xywh=${minX},${minY},${Math.max(...xs) - minX},${Math.max(...ys) - minY}`;
+}
+
+function toPresentation2Selector(selector: UnknownRecord): UnknownRecord {
+  const value = String(selector.value ?? "");
+  if (selector.type === "SvgSelector") {
+    const bounds = getPolygonBoundingFragment(value);
+    // Mirador 2 draws the SVG item and falls back to the rectangle on viewers that only read the default.
+    return bounds
+      ? {
+          "@type": "oa:Choice",
+          default: { "@type": "oa:FragmentSelector", value: bounds },
+          item: { "@type": "oa:SvgSelector", value },
+        }
+      : { "@type": "oa:SvgSelector", value };
+  }
+
+  // Presentation 2 has no refinedBy; chained media fragments combine into one fragment.
+  const refinedBy = selector.refinedBy as UnknownRecord | undefined;
+  return {
+    "@type": "oa:FragmentSelector",
+    value:
+      refinedBy?.type === "FragmentSelector" && typeof refinedBy.value === "string"
+        ? `${value}&${refinedBy.value}`
+        : value,
+  };
+}
+
+function toPresentation2Target(target: unknown): unknown {
+  if (!target || typeof target !== "object") {
+    return target;
+  }
+
+  const record = target as UnknownRecord;
+  const selector = record.selector as UnknownRecord | undefined;
+  return selector
+    ? { "@type": "oa:SpecificResource", full: record.source, selector: toPresentation2Selector(selector) }
+    : record.source;
+}
+
+function toPresentation2Annotation(item: Record<string, unknown>): Record<string, unknown> {
+  const annotation: Record<string, unknown> = {
+    "@id": item.id,
+    "@type": "oa:Annotation",
+    motivation: Array.isArray(item.motivation)
+      ? item.motivation.map(toPresentation2Motivation)
+      : toPresentation2Motivation(item.motivation ?? "commenting"),
+  };
+
+  if (item.body !== undefined) {
+    annotation.resource = Array.isArray(item.body)
+      ? item.body.map(toPresentation2Resource)
+      : toPresentation2Resource(item.body);
+  }
+  annotation.on = toPresentation2Target(item.target);
+  if (item.created !== undefined) {
+    annotation.annotatedAt = item.created;
+  }
+  if (item.creator !== undefined) {
+    annotation.annotatedBy = item.creator;
+  }
+
+  return annotation;
+}
+
+export function buildAnnotationListExport(options: {
+  manifestId?: string;
+  storedByCanvasId: StoredAnnotationsByCanvasId;
+  canvasOrder?: string[];
+  label?: string;
+}): AnnotationListLike {
+  const baseId = options.manifestId?.trim() || DEFAULT_EXPORT_BASE_ID;
+  const annotationPage = buildAnnotationPageExport(options);
+
+  return {
+    "@context": IIIF_PRESENTATION_2_CONTEXT,
+    "@id": `${baseId}#annotation-list`,
+    "@type": "sc:AnnotationList",
+    label: annotationPage.label.en[0],
+    resources: annotationPage.items.map(toPresentation2Annotation),
+  };
+}
+
 export function downloadAnnotationPageExport(
-  annotationPage: AnnotationPageLike,
+  annotationPage: AnnotationPageLike | AnnotationListLike,
   filename = "clover-mark-annotations.json",
 ): void {
   const json = JSON.stringify(annotationPage, null, 2);
@@ -371,11 +792,67 @@ export function downloadAnnotationPageExport(
   URL.revokeObjectURL(url);
 }
 
-export function downloadWebVttExport(
-  webVtt: string,
-  filename = "clover-mark-annotations.vtt",
+export function downloadWebAnnotationCollectionExport(
+  collection: WebAnnotationCollectionLike,
+  filename = "clover-mark-annotations.jsonld",
+): void {
+  const json = JSON.stringify(collection, null, 2);
+  const blob = new Blob([json], { type: 'application/ld+json;profile="http://www.w3.org/ns/anno.jsonld"' });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+function getPageFilename(pageId: string, pageIndex: number, used: Set<string>): string {
+  const lastSegment = pageId.split(/[?#]/)[0].split("/").pop() ?? "";
+  const filename = lastSegment && !used.has(lastSegment)
+    ? lastSegment
+    : `clover-mark-annotation-page-${pageIndex + 1}.json`;
+  used.add(filename);
+  return filename;
+}
+
+// Packages the manifest with its referenced AnnotationPages so publishing them is a single download.
+export function createAnnotatedManifestArchive(
+  exported: AnnotatedManifestExport,
+  manifestFilename = "manifest.json",
+  modified?: Date,
+): Uint8Array<ArrayBuffer> {
+  const used = new Set([manifestFilename]);
+  return createZipArchive(
+    [
+      { path: manifestFilename, content: JSON.stringify(exported.manifest, null, 2) },
+      ...exported.pages.map((page, pageIndex) => ({
+        path: getPageFilename(page.id, pageIndex, used),
+        content: JSON.stringify(page, null, 2),
+      })),
+    ],
+    modified,
+  );
+}
+
+export function downloadAnnotatedManifestExport(
+  exported: AnnotatedManifestExport,
+  filename = "clover-mark-annotated-manifest.zip",
+): void {
+  const blob = new Blob([createAnnotatedManifestArchive(exported)], { type: "application/zip" });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadCaptionExport(
+  captions: string,
+  format: CaptionFormat = "webvtt",
+  filename = `clover-mark-annotations.${CAPTION_FORMAT_EXTENSIONS[format]}`,
 ): void {
-  const blob = new Blob([webVtt], { type: "text/vtt;charset=utf-8" });
+  const blob = new Blob([captions], { type: `${CAPTION_FORMAT_MEDIA_TYPES[format]};charset=utf-8` });
   const url = URL.createObjectURL(blob);
   const anchor = document.createElement("a");
   anchor.href = url;
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  __resetRuntimeForTests,
+  getStoredCanvasAnnotations,
+  hydrateStoredCanvasAnnotations,
+  registerCanvasAnnotator,
+} from "./annotation-runtime";
+import {
+  __resetHistoryForTests,
+  getCanvasHistoryState,
+  redoCanvasAnnotationChange,
+  startAnnotationHistory,
+  transactCanvasAnnotationChanges,
+  undoCanvasAnnotationChange,
+} from "./annotation-history";
+import { buildTemporalTarget, createMediaCanvasAnnotator } from "./media-annotator";
+
+function getValues(canvasId: string) {
+  return getStoredCanvasAnnotations(canvasId).map(
+    (annotation) => (annotation.bodies?.[0] as { value?: string } | undefined)?.value,
+  );
+}
+
+describe("annotation history", () => {
+  let stopHistory: () => void;
+
+  beforeEach(() => {
+    __resetRuntimeForTests();
+    __resetHistoryForTests();
+    stopHistory = startAnnotationHistory();
+  });
+
+  afterEach(() => {
+    stopHistory();
+  });
+
+  it("undoes and redoes create, update and delete on a media canvas", () => {
+    const annotator = createMediaCanvasAnnotator({ canvasId: "canvas-a" });
+    registerCanvasAnnotator("canvas-a", annotator);
+
+    annotator.createAnnotation({
+      id: "anno-1",
+      target: buildTemporalTarget("canvas-a", 0, 2),
+      bodies: [{ type: "TextualBody", purpose: "tagging", value: "First" }],
+    });
+    annotator.updateAnnotation({
+      id: "anno-1",
+      bodies: [{ type: "TextualBody", purpose: "tagging", value: "Edited" }],
+    });
+    expect(getValues("canvas-a")).toEqual(["Edited"]);
+
+    expect(undoCanvasAnnotationChange("canvas-a")).toBe(true);
+    expect(getValues("canvas-a")).toEqual(["First"]);
+
+    annotator.removeAnnotation("anno-1");
+    expect(getValues("canvas-a")).toEqual([]);
+    expect(getCanvasHistoryState("canvas-a")).toEqual({ canUndo: true, canRedo: false });
+
+    expect(undoCanvasAnnotationChange("canvas-a")).toBe(true);
+    expect(getValues("canvas-a")).toEqual(["First"]);
+    expect(getCanvasHistoryState("canvas-a")).toEqual({ canUndo: true, canRedo: true });
+
+    expect(redoCanvasAnnotationChange("canvas-a")).toBe(true);
+    expect(getValues("canvas-a")).toEqual([]);
+
+    expect(undoCanvasAnnotationChange("canvas-a")).toBe(true);
+    expect(undoCanvasAnnotationChange("canvas-a")).toBe(true);
+    expect(getValues("canvas-a")).toEqual([]);
+    expect(undoCanvasAnnotationChange("canvas-a")).toBe(false);
+    annotator.destroy();
+  });
+
+  it("coalesces rapid edits to the same annotation and keeps canvases separate", () => {
+    const annotatorA = createMediaCanvasAnnotator({ canvasId: "canvas-a" });
+    const annotatorB = createMediaCanvasAnnotator({ canvasId: "canvas-b" });
+    registerCanvasAnnotator("canvas-a", annotatorA);
+    registerCanvasAnnotator("canvas-b", annotatorB);
+
+    annotatorA.createAnnotation({ id: "anno-1", bodies: [{ purpose: "tagging", value: "A" }] });
+    annotatorB.createAnnotation({ id: "anno-2", bodies: [{ purpose: "tagging", value: "B" }] });
+    for (const value of ["Ab", "Abc", "Abcd"]) {
+      annotatorA.updateAnnotation({ id: "anno-1", bodies: [{ purpose: "tagging", value }] });
+    }
+
+    expect(undoCanvasAnnotationChange("canvas-a")).toBe(true);
+    expect(getValues("canvas-a")).toEqual(["A"]);
+    expect(getValues("canvas-b")).toEqual(["B"]);
+    expect(getCanvasHistoryState("canvas-b")).toEqual({ canUndo: true, canRedo: false });
+    annotatorA.destroy();
+    annotatorB.destroy();
+  });
+
+  it("undoes a split into cues and a merge back in one step each", () => {
+    const annotator = createMediaCanvasAnnotator({ canvasId: "canvas-a" });
+    registerCanvasAnnotator("canvas-a", annotator);
+    const cue = (id: string, value: string, start: number) => ({
+      id,
+      target: buildTemporalTarget("canvas-a", start, start + 1),
+      bodies: [{ type: "TextualBody", purpose: "supplementing", value }],
+    });
+    annotator.createAnnotation(cue("transcript", "Hello there friend", 0));
+
+    transactCanvasAnnotationChanges("canvas-a", () => {
+      annotator.createAnnotation(cue("cue-1", "Hello", 0));
+      annotator.createAnnotation(cue("cue-2", "there", 1));
+      annotator.createAnnotation(cue("cue-3", "friend", 2));
+      annotator.removeAnnotation("transcript");
+    });
+    expect(getValues("canvas-a")).toEqual(["Hello", "there", "friend"]);
+
+    expect(undoCanvasAnnotationChange("canvas-a")).toBe(true);
+    expect(getValues("canvas-a")).toEqual(["Hello there friend"]);
+    expect(redoCanvasAnnotationChange("canvas-a")).toBe(true);
+    expect(getValues("canvas-a")).toEqual(["Hello", "there", "friend"]);
+
+    transactCanvasAnnotationChanges("canvas-a", () => {
+      annotator.createAnnotation(cue("merged", "Hello there", 0));
+      annotator.removeAnnotation("cue-1");
+      annotator.removeAnnotation("cue-2");
+    });
+    expect(getValues("canvas-a")).toEqual(["friend", "Hello there"]);
+
+    expect(undoCanvasAnnotationChange("canvas-a")).toBe(true);
+    expect(getValues("canvas-a")).toEqual(["friend", "Hello", "there"]);
+    expect(undoCanvasAnnotationChange("canvas-a")).toBe(true);
+    expect(getValues("canvas-a")).toEqual(["Hello there friend"]);
+    annotator.destroy();
+  });
+
+  it("does not record hydrated annotations as edits", () => {
+    hydrateStoredCanvasAnnotations("canvas-a", [{ id: "anno-1" }]);
+    expect(getCanvasHistoryState("canvas-a")).toEqual({ canUndo: false, canRedo: false });
+  });
+});
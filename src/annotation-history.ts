@@ -0,0 +1,398 @@
+import * as React from "react";
+import {
+  type CloverMarkStore,
+  type StoredAnnotation,
+  getDefaultCloverMarkStore,
+  useCloverMarkStore,
+} from "./annotation-runtime";
+
+export type AnnotationChange = {
+  id: string;
+  before?: StoredAnnotation;
+  after?: StoredAnnotation;
+};
+
+type HistoryEntry = {
+  changes: AnnotationChange[];
+  recordedAt: number;
+};
+
+type CanvasHistory = {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+  // Ids touched by an undo/redo whose store echo has not arrived yet.
+  pendingIds: Set<string> | null;
+};
+
+export type CanvasHistoryState = {
+  canUndo: boolean;
+  canRedo: boolean;
+};
+
+type HistoryAnnotatorLike = {
+  addAnnotation?: (annotation: StoredAnnotation) => unknown;
+  createAnnotation?: (annotation: StoredAnnotation) => unknown;
+  removeAnnotation?: (arg: string) => unknown;
+  updateAnnotation?: (annotation: StoredAnnotation) => unknown;
+};
+
+const MAX_HISTORY_ENTRIES = 100;
+const COALESCE_WINDOW_MS = 1000;
+const EMPTY_HISTORY_STATE: CanvasHistoryState = { canUndo: false, canRedo: false };
+
+function cloneAnnotation(annotation: StoredAnnotation): StoredAnnotation {
+  try {
+    return JSON.parse(JSON.stringify(annotation)) as StoredAnnotation;
+  } catch {
+    return { ...annotation };
+  }
+}
+
+export function diffStoredAnnotations(
+  previous: StoredAnnotation[],
+  next: StoredAnnotation[],
+): AnnotationChange[] {
+  const previousById = new Map(previous.map((annotation) => [annotation.id, annotation]));
+  const nextById = new Map(next.map((annotation) => [annotation.id, annotation]));
+  const changes: AnnotationChange[] = [];
+
+  for (const annotation of next) {
+    const before = previousById.get(annotation.id);
+    if (!before) {
+      changes.push({ id: annotation.id, after: cloneAnnotation(annotation) });
+    } else if (JSON.stringify(before) !== JSON.stringify(annotation)) {
+      changes.push({ id: annotation.id, before: cloneAnnotation(before), after: cloneAnnotation(annotation) });
+    }
+  }
+
+  for (const annotation of previous) {
+    if (!nextById.has(annotation.id)) {
+      changes.push({ id: annotation.id, before: cloneAnnotation(annotation) });
+    }
+  }
+
+  return changes;
+}
+
+// Folds later changes into earlier ones so each id keeps its first `before` and last `after`.
+function mergeChanges(earlier: AnnotationChange[], later: AnnotationChange[]): AnnotationChange[] {
+  const merged = [...earlier];
+  for (const change of later) {
+    const index = merged.findIndex((candidate) => candidate.id === change.id);
+    if (index < 0) {
+      merged.push(change);
+    } else {
+      merged[index] = { id: change.id, before: merged[index].before, after: change.after };
+    }
+  }
+  return merged.filter((change) => change.before || change.after);
+}
+
+function isUpdateOnly(changes: AnnotationChange[]): boolean {
+  return changes.every((change) => change.before && change.after);
+}
+
+function sameIds(left: AnnotationChange[], right: AnnotationChange[]): boolean {
+  return (
+    left.length === right.length &&
+    left.every((change) => right.some((candidate) => candidate.id === change.id))
+  );
+}
+
+type AnnotationHistory = {
+  start: () => () => void;
+  transact: (canvasId: string, run: () => void) => void;
+  undo: (canvasId: string) => boolean;
+  redo: (canvasId: string) => boolean;
+  getState: (canvasId?: string) => CanvasHistoryState;
+  subscribe: (listener: () => void) => () => void;
+  reset: () => void;
+};
+
+const historiesByStore = new WeakMap<CloverMarkStore, AnnotationHistory>();
+
+function createAnnotationHistory(store: CloverMarkStore): AnnotationHistory {
+  const historyByCanvasId = new Map<string, CanvasHistory>();
+  const historyListeners = new Set<() => void>();
+  let historyStateByCanvasId: Record<string, CanvasHistoryState> = {};
+  let trackingRefCount = 0;
+  let stopTracking: (() => void) | null = null;
+  // Changes made inside `transact`, recorded as one undo step when it returns.
+  let transaction: { canvasId: string; changes: AnnotationChange[] } | null = null;
+
+  const getCanvasHistory = (canvasId: string): CanvasHistory => {
+    let history = historyByCanvasId.get(canvasId);
+    if (!history) {
+      history = { undo: [], redo: [], pendingIds: null };
+      historyByCanvasId.set(canvasId, history);
+    }
+    return history;
+  };
+
+  const emitHistoryChange = (canvasId: string): void => {
+    const history = getCanvasHistory(canvasId);
+    const current = historyStateByCanvasId[canvasId] ?? EMPTY_HISTORY_STATE;
+    const canUndo = history.undo.length > 0;
+    const canRedo = history.redo.length > 0;
+    if (current.canUndo === canUndo && current.canRedo === canRedo) {
+      return;
+    }
+
+    historyStateByCanvasId = {
+      ...historyStateByCanvasId,
+      [canvasId]: { canUndo, canRedo },
+    };
+    historyListeners.forEach((listener) => listener());
+  };
+
+  const recordChanges = (canvasId: string, changes: AnnotationChange[]): void => {
+    const history = getCanvasHistory(canvasId);
+    const now = Date.now();
+    const last = history.undo[history.undo.length - 1];
+
+    // Keystroke-sized edits to the same annotations collapse into one undo step.
+    if (
+      last &&
+      now - last.recordedAt < COALESCE_WINDOW_MS &&
+      isUpdateOnly(last.changes) &&
+      isUpdateOnly(changes) &&
+      sameIds(last.changes, changes)
+    ) {
+      last.changes = last.changes.map((change) => ({
+        ...change,
+        after: changes.find((candidate) => candidate.id === change.id)?.after,
+      }));
+      last.recordedAt = now;
+    } else {
+      history.undo.push({ changes, recordedAt: now });
+      if (history.undo.length > MAX_HISTORY_ENTRIES) {
+        history.undo.shift();
+      }
+    }
+
+    history.redo = [];
+    emitHistoryChange(canvasId);
+  };
+
+  const handleStoredChange = (
+    canvasId: string,
+    annotations: StoredAnnotation[],
+    previous: StoredAnnotation[],
+  ): void => {
+    const changes = diffStoredAnnotations(previous, annotations);
+    if (changes.length === 0) {
+      return;
+    }
+
+    const history = getCanvasHistory(canvasId);
+    const pendingIds = history.pendingIds;
+    if (pendingIds) {
+      const echoed = changes.every((change) => pendingIds.has(change.id));
+      if (echoed) {
+        changes.forEach((change) => pendingIds.delete(change.id));
+        if (pendingIds.size === 0) {
+          history.pendingIds = null;
+        }
+        return;
+      }
+
+      history.pendingIds = null;
+    }
+
+    if (transaction?.canvasId === canvasId) {
+      transaction.changes = mergeChanges(transaction.changes, changes);
+      return;
+    }
+    recordChanges(canvasId, changes);
+  };
+
+  const applyChanges = (
+    canvasId: string,
+    changes: AnnotationChange[],
+    direction: "undo" | "redo",
+  ): boolean => {
+    const annotator = store.getCanvasAnnotator(canvasId) as HistoryAnnotatorLike | undefined;
+    if (!annotator) {
+      return false;
+    }
+
+    const history = getCanvasHistory(canvasId);
+    history.pendingIds = new Set(changes.map((change) => change.id));
+
+    for (const change of changes) {
+      const target = direction === "undo" ? change.before : change.after;
+      const current = direction === "undo" ? change.after : change.before;
+
+      if (!target) {
+        annotator.removeAnnotation?.(change.id);
+      } else if (!current) {
+        const restored = cloneAnnotation(target);
+        if (typeof annotator.addAnnotation === "function") {
+          annotator.addAnnotation(restored);
+        } else {
+          annotator.createAnnotation?.(restored);
+        }
+      } else {
+        annotator.updateAnnotation?.(cloneAnnotation(target));
+      }
+    }
+
+    return true;
+  };
+
+  return {
+    start: () => {
+      trackingRefCount += 1;
+      if (!stopTracking) {
+        stopTracking = store.subscribeStoredAnnotations(handleStoredChange);
+      }
+
+      let stopped = false;
+      return () => {
+        if (stopped) {
+          return;
+        }
+
+        stopped = true;
+        trackingRefCount -= 1;
+        if (trackingRefCount <= 0) {
+          trackingRefCount = 0;
+          stopTracking?.();
+          stopTracking = null;
+        }
+      };
+    },
+    transact: (canvasId, run) => {
+      if (transaction) {
+        run();
+        return;
+      }
+
+      transaction = { canvasId, changes: [] };
+      try {
+        run();
+      } finally {
+        const { changes } = transaction;
+        transaction = null;
+        if (changes.length > 0) {
+          recordChanges(canvasId, changes);
+        }
+      }
+    },
+    undo: (canvasId) => {
+      const history = getCanvasHistory(canvasId);
+      const entry = history.undo[history.undo.length - 1];
+      if (!entry || !applyChanges(canvasId, entry.changes, "undo")) {
+        return false;
+      }
+
+      history.undo.pop();
+      history.redo.push(entry);
+      emitHistoryChange(canvasId);
+      return true;
+    },
+    redo: (canvasId) => {
+      const history = getCanvasHistory(canvasId);
+      const entry = history.redo[history.redo.length - 1];
+      if (!entry || !applyChanges(canvasId, entry.changes, "redo")) {
+        return false;
+      }
+
+      history.redo.pop();
+      history.undo.push({ ...entry, recordedAt: 0 });
+      emitHistoryChange(canvasId);
+      return true;
+    },
+    getState: (canvasId) =>
+      (canvasId && historyStateByCanvasId[canvasId]) || EMPTY_HISTORY_STATE,
+    subscribe: (listener) => {
+      historyListeners.add(listener);
+      return () => {
+        historyListeners.delete(listener);
+      };
+    },
+    reset: () => {
+      transaction = null;
+      stopTracking?.();
+      stopTracking = null;
+      trackingRefCount = 0;
+      historyByCanvasId.clear();
+      historyStateByCanvasId = {};
+      historyListeners.clear();
+    },
+  };
+}
+
+function getAnnotationHistory(store: CloverMarkStore = getDefaultCloverMarkStore()): AnnotationHistory {
+  let history = historiesByStore.get(store);
+  if (!history) {
+    history = createAnnotationHistory(store);
+    historiesByStore.set(store, history);
+  }
+  return history;
+}
+
+export function startAnnotationHistory(store?: CloverMarkStore): () => void {
+  return getAnnotationHistory(store).start();
+}
+
+export function undoCanvasAnnotationChange(canvasId: string, store?: CloverMarkStore): boolean {
+  return getAnnotationHistory(store).undo(canvasId);
+}
+
+export function redoCanvasAnnotationChange(canvasId: string, store?: CloverMarkStore): boolean {
+  return getAnnotationHistory(store).redo(canvasId);
+}
+
+// Records every change `run` makes to the canvas as a single undo step.
+export function transactCanvasAnnotationChanges(
+  canvasId: string,
+  run: () => void,
+  store?: CloverMarkStore,
+): void {
+  getAnnotationHistory(store).transact(canvasId, run);
+}
+
+export function getCanvasHistoryState(canvasId?: string, store?: CloverMarkStore): CanvasHistoryState {
+  return getAnnotationHistory(store).getState(canvasId);
+}
+
+export function useCanvasHistory(canvasId?: string): CanvasHistoryState & {
+  undo: () => boolean;
+  redo: () => boolean;
+  transact: (run: () => void) => void;
+} {
+  const history = getAnnotationHistory(useCloverMarkStore());
+  React.useEffect(() => history.start(), [history]);
+
+  const state = React.useSyncExternalStore(
+    history.subscribe,
+    () => history.getState(canvasId),
+    () => EMPTY_HISTORY_STATE,
+  );
+  const undo = React.useCallback(
+    () => (canvasId ? history.undo(canvasId) : false),
+    [canvasId, history],
+  );
+  const redo = React.useCallback(
+    () => (canvasId ? history.redo(canvasId) : false),
+    [canvasId, history],
+  );
+
+  const transact = React.useCallback(
+    (run: () => void) => {
+      if (canvasId) {
+        history.transact(canvasId, run);
+      } else {
+        run();
+      }
+    },
+    [canvasId, history],
+  );
+
+  return { ...state, undo, redo, transact };
+}
+
+export function __resetHistoryForTests(): void {
+  getAnnotationHistory().reset();
+}
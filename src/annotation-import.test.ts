@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import { buildAnnotationListExport, buildAnnotationPageExport } from "./annotation-export";
+import { importAnnotationPage } from "./annotation-import";
+import { createCloverMarkStore } from "./annotation-runtime";
+import { buildTemporalTarget } from "./media-annotator";
+
+const storedByCanvasId = {
+  "https://example.org/canvas/1": [
+    {
+      id: "anno-rect",
+      bodies: [
+        { type: "TextualBody", purpose: "tagging", value: "Ship", annotation: "anno-rect" },
+        { type: "TextualBody", purpose: "translating", value: "Navire", language: "fr" },
+      ],
+      target: {
+        annotation: "anno-rect",
+        selector: {
+          type: "RECTANGLE",
+          geometry: { x: 10, y: 20, w: 30, h: 40, bounds: { minX: 10, minY: 20, maxX: 40, maxY: 60 } },
+        },
+      },
+      motivation: "tagging",
+      created: "2026-01-01T00:00:00Z",
+    },
+    {
+      id: "anno-polygon",
+      bodies: [{ type: "TextualBody", purpose: "commenting", value: "Sail" }],
+      target: {
+        annotation: "anno-polygon",
+        selector: {
+          type: "POLYGON",
+          geometry: { points: [[0, 0], [10, 0], [10, 10]], bounds: { minX: 0, minY: 0, maxX: 10, maxY: 10 } },
+        },
+      },
+      motivation: ["commenting", "tagging"],
+    },
+  ],
+  "https://example.org/canvas/2": [
+    {
+      id: "anno-av",
+      bodies: [{ type: "TextualBody", purpose: "supplementing", value: "Segment" }],
+      target: buildTemporalTarget("https://example.org/canvas/2", 1.5, 4),
+      motivation: "supplementing",
+    },
+    {
+      id: "anno-whole",
+      bodies: [{ type: "TextualBody", purpose: "commenting", value: "Whole canvas" }],
+      target: "https://example.org/canvas/2",
+    },
+  ],
+};
+
+describe("annotation import", () => {
+  it("round-trips an exported AnnotationPage losslessly", () => {
+    const exported = buildAnnotationPageExport({
+      manifestId: "https://example.org/manifest",
+      storedByCanvasId,
+    });
+    const store = createCloverMarkStore();
+
+    const result = importAnnotationPage(JSON.stringify(exported), {
+      canvasIds: Object.keys(storedByCanvasId),
+      store,
+    });
+
+    expect(result.importedCount).toBe(4);
+    expect(result.unmatched).toEqual([]);
+    expect(store.getStoredCanvasAnnotations("https://example.org/canvas/1")[0].target).toEqual({
+      annotation: "anno-rect",
+      selector: storedByCanvasId["https://example.org/canvas/1"][0].target.selector,
+    });
+    expect(store.getStoredCanvasAnnotations("https://example.org/canvas/1")[1].target).toEqual({
+      annotation: "anno-polygon",
+      selector: storedByCanvasId["https://example.org/canvas/1"][1].target.selector,
+    });
+
+    const reexported = buildAnnotationPageExport({
+      manifestId: "https://example.org/manifest",
+      storedByCanvasId: store.getAllStoredCanvasAnnotations(),
+    });
+    expect(reexported).toEqual(exported);
+  });
+
+  it("reports annotations whose canvas is not in the manifest and replaces by id", () => {
+    const store = createCloverMarkStore();
+    store.setStoredCanvasAnnotations("https://example.org/canvas/1", [
+      { id: "anno-rect", bodies: [] },
+      { id: "anno-local", bodies: [] },
+    ]);
+
+    const result = importAnnotationPage(
+      buildAnnotationPageExport({ storedByCanvasId }),
+      { canvasIds: ["https://example.org/canvas/1"], store },
+    );
+
+    expect(result.importedCount).toBe(2);
+    expect(result.unmatched).toEqual([
+      { id: "anno-av", source: "https://example.org/canvas/2" },
+      { id: "anno-whole", source: "https://example.org/canvas/2" },
+    ]);
+    expect(
+      store.getStoredCanvasAnnotations("https://example.org/canvas/1").map((annotation) => annotation.id),
+    ).toEqual(["anno-local", "anno-rect", "anno-polygon"]);
+  });
+
+  it("round-trips selectors and multilingual text through a Presentation 2 AnnotationList", () => {
+    const exported = buildAnnotationListExport({
+      manifestId: "https://example.org/manifest",
+      storedByCanvasId: {
+        ...storedByCanvasId,
+        "https://example.org/canvas/2": [
+          {
+            id: "anno-av",
+            bodies: [
+              { type: "TextualBody", purpose: "supplementing", value: "Hello", language: "en" },
+              { type: "TextualBody", purpose: "supplementing", value: "Bonjour", language: "fr" },
+            ],
+            target: buildTemporalTarget("https://example.org/canvas/2", 1.5, 4),
+            motivation: "supplementing",
+          },
+        ],
+      },
+    });
+
+    expect(exported["@type"]).toBe("sc:AnnotationList");
+    expect(exported.resources[0]).toMatchObject({
+      "@id": "anno-rect",
+      "@type": "oa:Annotation",
+      motivation: "oa:tagging",
+      resource: [
+        { "@type": "oa:Tag", chars: "Ship" },
+        { "@type": "cnt:ContentAsText", chars: "Navire", format: "text/plain", language: "fr" },
+      ],
+      on: {
+        "@type": "oa:SpecificResource",
+        full: "https://example.org/canvas/1",
+        selector: { "@type": "oa:FragmentSelector", value: "xywh=10,20,30,40" },
+      },
+      annotatedAt: "2026-01-01T00:00:00Z",
+    });
+    expect(exported.resources[1].on).toMatchObject({
+      selector: {
+        "@type": "oa:Choice",
+        default: { "@type": "oa:FragmentSelector", value: "xywh=0,0,10,10" },
+        item: { "@type": "oa:SvgSelector" },
+      },
+    });
+    expect(exported.resources[2].on).toMatchObject({
+      selector: { "@type": "oa:FragmentSelector", value: "t=1.5,4" },
+    });
+
+    const store = createCloverMarkStore();
+    const result = importAnnotationPage(JSON.stringify(exported), { store });
+
+    expect(result.importedCount).toBe(3);
+    const [rect, polygon] = store.getStoredCanvasAnnotations("https://example.org/canvas/1");
+    expect(rect.target).toEqual({
+      annotation: "anno-rect",
+      selector: storedByCanvasId["https://example.org/canvas/1"][0].target.selector,
+    });
+    expect(rect.created).toBe("2026-01-01T00:00:00Z");
+    expect(polygon.target).toEqual({
+      annotation: "anno-polygon",
+      selector: storedByCanvasId["https://example.org/canvas/1"][1].target.selector,
+    });
+    expect(polygon.motivation).toEqual(["commenting", "tagging"]);
+
+    const [av] = store.getStoredCanvasAnnotations("https://example.org/canvas/2");
+    expect(av.motivation).toBe("supplementing");
+    expect(av.bodies).toEqual([
+      { type: "TextualBody", purpose: "supplementing", value: "Hello", language: "en", annotation: "anno-av" },
+      { type: "TextualBody", purpose: "supplementing", value: "Bonjour", language: "fr", annotation: "anno-av" },
+    ]);
+    expect(
+      buildAnnotationPageExport({ storedByCanvasId: store.getAllStoredCanvasAnnotations() }).items[2].target,
+    ).toEqual({
+      type: "SpecificResource",
+      source: "https://example.org/canvas/2",
+      selector: {
+        type: "FragmentSelector",
+        conformsTo: "http://www.w3.org/TR/media-frags/",
+        value: "t=1.5,4",
+      },
+    });
+  });
+
+  it("rejects JSON that is not an AnnotationPage", () => {
+    expect(() => importAnnotationPage({ type: "Manifest" }, { store: createCloverMarkStore() })).toThrow(
+      "AnnotationPage has no items to import.",
+    );
+  });
+});
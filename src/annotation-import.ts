@@ -0,0 +1,234 @@
+import {
+  type CloverMarkStore,
+  type StoredAnnotation,
+  getDefaultCloverMarkStore,
+} from "./annotation-runtime";
+import { fromWebAnnotation, getWebAnnotationTargetSource } from "./web-annotation";
+
+type UnknownRecord = Record<string, unknown>;
+
+export type UnmatchedImportedAnnotation = {
+  id?: string;
+  source?: string;
+};
+
+export type AnnotationImportResult = {
+  importedCount: number;
+  byCanvasId: Record<string, StoredAnnotation[]>;
+  unmatched: UnmatchedImportedAnnotation[];
+};
+
+const MEDIA_FRAGMENTS_CONFORMS_TO = "http://www.w3.org/TR/media-frags/";
+const PRESENTATION_2_MOTIVATION_PREFIXES = [
+  "oa:",
+  "sc:",
+  "http://www.w3.org/ns/oa#",
+  "http://iiif.io/api/presentation/3#",
+];
+
+function ensureArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function getPresentation2Id(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  const id = value && typeof value === "object" ? (value as UnknownRecord)["@id"] : undefined;
+  return typeof id === "string" ? id : undefined;
+}
+
+function fromPresentation2Motivation(motivation: unknown): string | undefined {
+  if (typeof motivation !== "string") {
+    return undefined;
+  }
+
+  const prefix = PRESENTATION_2_MOTIVATION_PREFIXES.find((candidate) => motivation.startsWith(candidate));
+  return prefix ? motivation.slice(prefix.length) : motivation;
+}
+
+function fromPresentation2Selector(selector: unknown): UnknownRecord | undefined {
+  if (!selector || typeof selector !== "object") {
+    return undefined;
+  }
+
+  const record = selector as UnknownRecord;
+  if (record["@type"] === "oa:Choice") {
+    // Prefer the precise SVG item over the rectangular default Mirador 2 writes next to it.
+    return fromPresentation2Selector(record.item) ?? fromPresentation2Selector(record.default);
+  }
+  if (typeof record.value !== "string") {
+    return undefined;
+  }
+
+  return record["@type"] === "oa:SvgSelector"
+    ? { type: "SvgSelector", value: record.value }
+    : { type: "FragmentSelector", conformsTo: MEDIA_FRAGMENTS_CONFORMS_TO, value: record.value };
+}
+
+function fromPresentation2Target(on: unknown): unknown {
+  const [target] = ensureArray(on);
+  if (!target || typeof target !== "object") {
+    return target;
+  }
+
+  const record = target as UnknownRecord;
+  const source = getPresentation2Id(record.full) ?? getPresentation2Id(record);
+  const selector = fromPresentation2Selector(record.selector);
+  return selector ? { type: "SpecificResource", source, selector } : source;
+}
+
+// Presentation 2 bodies carry no purpose: tags are oa:Tag, other text takes the annotation's own motivation.
+function fromPresentation2Resource(resource: unknown, textPurpose: string): unknown {
+  if (typeof resource === "string") {
+    return resource;
+  }
+  if (!resource || typeof resource !== "object") {
+    return undefined;
+  }
+
+  const record = resource as UnknownRecord;
+  const chars = record.chars ?? record["cnt:chars"];
+  if (typeof chars !== "string") {
+    const { "@id": id, "@type": type, ...rest } = record;
+    return { ...rest, ...(id !== undefined ? { id } : {}), ...(type !== undefined ? { type } : {}) };
+  }
+
+  const body: UnknownRecord = {
+    type: "TextualBody",
+    purpose: record["@type"] === "oa:Tag" ? "tagging" : textPurpose,
+    value: chars,
+  };
+  if (typeof record.language === "string") {
+    body.language = record.language;
+  }
+  if (typeof record.format === "string" && record.format !== "text/plain") {
+    body.format = record.format;
+  }
+  return body;
+}
+
+function fromPresentation2Annotation(annotation: unknown): unknown {
+  if (!annotation || typeof annotation !== "object") {
+    return annotation;
+  }
+
+  const record = annotation as UnknownRecord;
+  const motivations = ensureArray(record.motivation)
+    .map(fromPresentation2Motivation)
+    .filter((motivation): motivation is string => Boolean(motivation));
+  const textPurpose =
+    motivations.find((motivation) => motivation !== "tagging") ?? motivations[0] ?? "commenting";
+  const resources = ensureArray(record.resource).flatMap((resource) =>
+    resource && typeof resource === "object" && (resource as UnknownRecord)["@type"] === "oa:Choice"
+      ? [...ensureArray((resource as UnknownRecord).default), ...ensureArray((resource as UnknownRecord).item)]
+      : [resource],
+  );
+
+  const converted: UnknownRecord = {
+    id: record["@id"],
+    type: "Annotation",
+    body: resources
+      .map((resource) => fromPresentation2Resource(resource, textPurpose))
+      .filter((body) => body !== undefined),
+    target: fromPresentation2Target(record.on),
+  };
+  if (motivations.length > 0) {
+    converted.motivation = motivations.length === 1 ? motivations[0] : motivations;
+  }
+  if (record.annotatedAt !== undefined) {
+    converted.created = record.annotatedAt;
+  }
+  if (record.annotatedBy !== undefined) {
+    converted.creator = record.annotatedBy;
+  }
+  return converted;
+}
+
+function getAnnotationItems(page: unknown): unknown[] {
+  if (Array.isArray(page)) {
+    return page;
+  }
+
+  if (!page || typeof page !== "object") {
+    throw new Error("Annotation import expects an AnnotationPage or AnnotationList JSON object.");
+  }
+
+  const record = page as UnknownRecord;
+  if (record.type === "Annotation") {
+    return [record];
+  }
+  if (record["@type"] === "oa:Annotation") {
+    return [fromPresentation2Annotation(record)];
+  }
+  if (record["@type"] === "sc:AnnotationList") {
+    return ensureArray(record.resources).map(fromPresentation2Annotation);
+  }
+
+  if (!Array.isArray(record.items)) {
+    throw new Error("AnnotationPage has no items to import.");
+  }
+
+  return record.items;
+}
+
+export function parseAnnotationPage(
+  page: unknown,
+  options: { canvasIds?: string[] } = {},
+): AnnotationImportResult {
+  const parsed = typeof page === "string" ? (JSON.parse(page) as unknown) : page;
+  const knownCanvasIds = options.canvasIds && options.canvasIds.length > 0
+    ? new Set(options.canvasIds)
+    : undefined;
+  const byCanvasId: Record<string, StoredAnnotation[]> = {};
+  const unmatched: UnmatchedImportedAnnotation[] = [];
+  let importedCount = 0;
+
+  for (const item of getAnnotationItems(parsed)) {
+    if (!item || typeof item !== "object") {
+      continue;
+    }
+
+    const record = item as UnknownRecord;
+    const source = getWebAnnotationTargetSource(record);
+    const annotation = source ? fromWebAnnotation(record, source) : undefined;
+    if (!source || !annotation || (knownCanvasIds && !knownCanvasIds.has(source))) {
+      unmatched.push({
+        id: typeof record.id === "string" ? record.id : undefined,
+        source,
+      });
+      continue;
+    }
+
+    byCanvasId[source] = [...(byCanvasId[source] ?? []), annotation];
+    importedCount += 1;
+  }
+
+  return { importedCount, byCanvasId, unmatched };
+}
+
+export function importAnnotationPage(
+  page: unknown,
+  options: { canvasIds?: string[]; store?: CloverMarkStore } = {},
+): AnnotationImportResult {
+  const store = options.store ?? getDefaultCloverMarkStore();
+  const result = parseAnnotationPage(page, options);
+
+  for (const [canvasId, imported] of Object.entries(result.byCanvasId)) {
+    const importedIds = new Set(imported.map((annotation) => annotation.id));
+    const merged = [
+      ...store
+        .getStoredCanvasAnnotations(canvasId)
+        .filter((annotation) => !importedIds.has(annotation.id)),
+      ...imported,
+    ];
+
+    // Record the import as an edit (history, storage, callbacks), then have mounted annotators re-read it.
+    store.setStoredCanvasAnnotations(canvasId, merged);
+    store.hydrateStoredCanvasAnnotations(canvasId, merged);
+  }
+
+  return result;
+}
@@ -0,0 +1,276 @@
+import * as React from "react";
+import type { CloverMarkStore, StoredAnnotation } from "./annotation-runtime";
+import { requestToPromise } from "./annotation-storage";
+
+export type QueuedAnnotationOperation = {
+  kind: "create" | "update" | "delete";
+  canvasId: string;
+  localId: string;
+  annotation?: StoredAnnotation;
+  remoteId?: string;
+  etag?: string;
+};
+
+export type AnnotationConflict = {
+  canvasId: string;
+  localId: string;
+  reason: "changed" | "deleted";
+  local: StoredAnnotation | null;
+  remote: StoredAnnotation | null;
+  remoteId?: string;
+  etag?: string;
+};
+
+// A merge takes each field from the chosen side; fields left out keep the local version.
+export type AnnotationConflictResolution =
+  | "local"
+  | "remote"
+  | { fields: Record<string, "local" | "remote"> };
+
+// One part of a conflicted annotation that differs between the versions: its target, its motivation,
+// or the bodies sharing a purpose and language (`body:<purpose>:<language>`).
+export type AnnotationConflictField = {
+  key: string;
+  local: unknown;
+  remote: unknown;
+};
+
+export type AnnotationOutboxState = {
+  operations: QueuedAnnotationOperation[];
+  conflicts: AnnotationConflict[];
+  // A write the server refused for another reason than a conflict; the queue waits on it until the next save.
+  rejected?: { status: number; message: string };
+};
+
+export type AnnotationOutboxStorage = {
+  load: () => Promise<AnnotationOutboxState | undefined>;
+  save: (state: AnnotationOutboxState) => Promise<void>;
+};
+
+// Storage adapters that queue remote writes expose their queue and conflicts to the panel.
+export type OutboxAwareStorage = {
+  getOutboxState: () => AnnotationOutboxState;
+  subscribeOutbox: (listener: () => void) => () => void;
+  resolveConflict: (
+    conflict: AnnotationConflict,
+    resolution: AnnotationConflictResolution,
+  ) => Promise<StoredAnnotation | null>;
+  flush: () => Promise<void>;
+};
+
+const DEFAULT_OUTBOX_DATABASE_NAME = "clover-mark-outbox";
+const DEFAULT_OUTBOX_STORE_NAME = "outbox";
+const EMPTY_OUTBOX_STATE: AnnotationOutboxState = { operations: [], conflicts: [] };
+
+export function isSameQueuedAnnotation(
+  left: { canvasId: string; localId: string },
+  right: { canvasId: string; localId: string },
+): boolean {
+  return left.canvasId === right.canvasId && left.localId === right.localId;
+}
+
+// Folds a new write into the pending write for the same annotation so replay sends one request per annotation.
+export function coalesceOperation(
+  operations: QueuedAnnotationOperation[],
+  next: QueuedAnnotationOperation,
+  inFlight?: QueuedAnnotationOperation | null,
+): QueuedAnnotationOperation[] {
+  const index = operations.findIndex(
+    (operation) => operation !== inFlight && isSameQueuedAnnotation(operation, next),
+  );
+  if (index < 0) {
+    return [...operations, next];
+  }
+
+  const existing = operations[index];
+  let merged: QueuedAnnotationOperation | null = next;
+  if (existing.kind === "create") {
+    merged = next.kind === "delete" ? null : { ...existing, annotation: next.annotation };
+  } else if (existing.kind === "update") {
+    merged =
+      next.kind === "delete"
+        ? { ...next, remoteId: existing.remoteId, etag: existing.etag, annotation: undefined }
+        : { ...existing, annotation: next.annotation };
+  } else if (next.kind !== "delete") {
+    merged = { ...next, kind: "update", remoteId: existing.remoteId, etag: existing.etag };
+  }
+
+  if (!merged) {
+    return operations.filter((_, operationIndex) => operationIndex !== index);
+  }
+
+  const replacement = merged;
+  return operations.map((operation, operationIndex) =>
+    operationIndex === index ? replacement : operation,
+  );
+}
+
+function getBodyFieldKey(body: unknown): string {
+  const { purpose, language } = (body && typeof body === "object" ? body : {}) as {
+    purpose?: unknown;
+    language?: unknown;
+  };
+  return `body:${typeof purpose === "string" ? purpose : ""}:${typeof language === "string" ? language : ""}`;
+}
+
+function groupBodiesByField(annotation: StoredAnnotation): Map<string, unknown[]> {
+  const groups = new Map<string, unknown[]>();
+  for (const body of annotation.bodies ?? []) {
+    const key = getBodyFieldKey(body);
+    groups.set(key, [...(groups.get(key) ?? []), body]);
+  }
+  return groups;
+}
+
+function sameFieldValue(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+}
+
+export function getConflictFields(conflict: AnnotationConflict): AnnotationConflictField[] {
+  const { local, remote } = conflict;
+  if (!local || !remote) {
+    return [];
+  }
+
+  const fields: AnnotationConflictField[] = [
+    { key: "target", local: local.target, remote: remote.target },
+    { key: "motivation", local: local.motivation, remote: remote.motivation },
+  ];
+  const localBodies = groupBodiesByField(local);
+  const remoteBodies = groupBodiesByField(remote);
+  for (const key of new Set([...localBodies.keys(), ...remoteBodies.keys()])) {
+    fields.push({ key, local: localBodies.get(key) ?? [], remote: remoteBodies.get(key) ?? [] });
+  }
+  return fields.filter((field) => !sameFieldValue(field.local, field.remote));
+}
+
+// Builds the local version with the chosen fields taken from the server's; body groups keep the local order.
+export function mergeConflictVersions(
+  conflict: AnnotationConflict,
+  choices: Record<string, "local" | "remote">,
+): StoredAnnotation | null {
+  const { local, remote } = conflict;
+  if (!local || !remote) {
+    return local;
+  }
+
+  const pick = (key: string) => (choices[key] === "remote" ? remote : local);
+  const merged: StoredAnnotation = { ...local, target: pick("target").target };
+  const motivation = pick("motivation").motivation;
+  if (motivation === undefined) {
+    delete merged.motivation;
+  } else {
+    merged.motivation = motivation;
+  }
+
+  const localBodies = groupBodiesByField(local);
+  const remoteBodies = groupBodiesByField(remote);
+  merged.bodies = [...new Set([...localBodies.keys(), ...remoteBodies.keys()])].flatMap((key) =>
+    (choices[key] === "remote" ? remoteBodies : localBodies).get(key) ?? [],
+  );
+  return merged;
+}
+
+export function createMemoryOutboxStorage(): AnnotationOutboxStorage {
+  let state: AnnotationOutboxState | undefined;
+  return {
+    load: async () => state,
+    save: async (next) => {
+      state = JSON.parse(JSON.stringify(next)) as AnnotationOutboxState;
+    },
+  };
+}
+
+export function createIndexedDbOutboxStorage(options: {
+  key: string;
+  databaseName?: string;
+  storeName?: string;
+  indexedDB?: IDBFactory;
+}): AnnotationOutboxStorage {
+  const databaseName = options.databaseName?.trim() || DEFAULT_OUTBOX_DATABASE_NAME;
+  const storeName = options.storeName?.trim() || DEFAULT_OUTBOX_STORE_NAME;
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (databasePromise) {
+      return databasePromise;
+    }
+
+    const factory = options.indexedDB ?? (typeof indexedDB !== "undefined" ? indexedDB : undefined);
+    if (!factory) {
+      return Promise.reject(new Error("IndexedDB is not available in this environment."));
+    }
+
+    const request = factory.open(databaseName, 1);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(storeName)) {
+        database.createObjectStore(storeName);
+      }
+    };
+
+    databasePromise = requestToPromise(request).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+    return databasePromise;
+  };
+
+  return {
+    load: async () => {
+      const database = await openDatabase();
+      const store = database.transaction(storeName, "readonly").objectStore(storeName);
+      return requestToPromise(
+        store.get(options.key) as IDBRequest<AnnotationOutboxState | undefined>,
+      );
+    },
+    save: async (state) => {
+      const database = await openDatabase();
+      const store = database.transaction(storeName, "readwrite").objectStore(storeName);
+      if (state.operations.length === 0 && state.conflicts.length === 0) {
+        await requestToPromise(store.delete(options.key));
+        return;
+      }
+      await requestToPromise(store.put(state, options.key));
+    },
+  };
+}
+
+export function isOutboxAwareStorage(storage: unknown): storage is OutboxAwareStorage {
+  return (
+    Boolean(storage) &&
+    typeof storage === "object" &&
+    typeof (storage as OutboxAwareStorage).getOutboxState === "function" &&
+    typeof (storage as OutboxAwareStorage).subscribeOutbox === "function" &&
+    typeof (storage as OutboxAwareStorage).resolveConflict === "function"
+  );
+}
+
+const noopSubscribe = () => () => undefined;
+
+export function useOutboxState(storage?: unknown): AnnotationOutboxState {
+  const outbox = isOutboxAwareStorage(storage) ? storage : undefined;
+  return React.useSyncExternalStore(
+    outbox?.subscribeOutbox ?? noopSubscribe,
+    () => outbox?.getOutboxState() ?? EMPTY_OUTBOX_STATE,
+    () => EMPTY_OUTBOX_STATE,
+  );
+}
+
+// Puts the winning version of a conflicted annotation into the session (or removes it) and refreshes annotators.
+export function applyResolvedAnnotation(
+  store: CloverMarkStore,
+  canvasId: string,
+  localId: string,
+  annotation: StoredAnnotation | null,
+): void {
+  const current = store.getStoredCanvasAnnotations(canvasId);
+  const next = annotation
+    ? current.some((candidate) => candidate.id === localId)
+      ? current.map((candidate) => (candidate.id === localId ? annotation : candidate))
+      : [...current, annotation]
+    : current.filter((candidate) => candidate.id !== localId);
+
+  store.setStoredCanvasAnnotations(canvasId, next);
+  store.hydrateStoredCanvasAnnotations(canvasId, next);
+}
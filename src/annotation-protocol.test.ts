@@ -0,0 +1,389 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AnnotationProtocolError,
+  createAnnotationProtocolAdapter,
+  createAnnotationProtocolClient,
+} from "./annotation-protocol";
+import { createMemoryOutboxStorage, getConflictFields } from "./annotation-outbox";
+
+type MockContainer = {
+  url: string;
+  fetch: typeof fetch;
+  annotations: Map<string, { etag: string; body: Record<string, unknown> }>;
+  requests: Array<{ method: string; path: string; ifMatch?: string }>;
+};
+
+function createMockContainer(baseUrl = "https://annotations.example.org", pageSize = 2): MockContainer {
+  const annotations = new Map<string, { etag: string; body: Record<string, unknown> }>();
+  const requests: MockContainer["requests"] = [];
+  let nextId = 1;
+  let nextEtag = 1;
+
+  const send = (status: number, body?: unknown, headers: Record<string, string> = {}) =>
+    new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/ld+json", ...headers },
+    });
+
+  const handle = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const ifMatch = request.headers.get("If-Match") ?? undefined;
+    requests.push({ method: request.method, path: url.pathname + url.search, ifMatch });
+
+    if (url.pathname === "/annotations/" && request.method === "POST") {
+      const id = `${baseUrl}/annotations/${nextId++}`;
+      const etag = `"${nextEtag++}"`;
+      const body = { ...(await request.json()), id };
+      annotations.set(id, { etag, body });
+      return send(201, body, { Location: id, ETag: etag });
+    }
+
+    if (url.pathname === "/annotations/" && request.method === "GET") {
+      const items = Array.from(annotations.values()).map((entry) => entry.body);
+      const pageIndex = url.searchParams.get("page");
+      if (pageIndex === null) {
+        return send(200, {
+          id: `${baseUrl}/annotations/`,
+          type: ["BasicContainer", "AnnotationCollection"],
+          total: items.length,
+          first: `${baseUrl}/annotations/?page=0`,
+        });
+      }
+
+      const index = Number(pageIndex);
+      const hasNext = (index + 1) * pageSize < items.length;
+      return send(200, {
+        id: `${baseUrl}/annotations/?page=${index}`,
+        type: "AnnotationPage",
+        items: items.slice(index * pageSize, (index + 1) * pageSize),
+        ...(hasNext ? { next: `${baseUrl}/annotations/?page=${index + 1}` } : {}),
+      });
+    }
+
+    const id = `${baseUrl}${url.pathname}`;
+    const existing = annotations.get(id);
+    if (!existing) {
+      return send(404);
+    }
+
+    if (request.method === "GET") {
+      return send(200, existing.body, { ETag: existing.etag });
+    }
+
+    if (ifMatch !== existing.etag) {
+      return send(412);
+    }
+
+    if (request.method === "PUT") {
+      const etag = `"${nextEtag++}"`;
+      const body = { ...(await request.json()), id };
+      annotations.set(id, { etag, body });
+      return send(200, body, { ETag: etag });
+    }
+
+    if (request.method === "DELETE") {
+      annotations.delete(id);
+      return new Response(null, { status: 204 });
+    }
+
+    return send(405);
+  };
+
+  return {
+    url: `${baseUrl}/annotations/`,
+    fetch: (input, init) => handle(new Request(input, init)),
+    annotations,
+    requests,
+  };
+}
+
+function lastRequest(container: MockContainer) {
+  return container.requests[container.requests.length - 1];
+}
+
+describe("annotation protocol", () => {
+  let container: MockContainer;
+
+  beforeEach(() => {
+    container = createMockContainer();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("creates, updates and deletes annotations with ETags", async () => {
+    const adapter = createAnnotationProtocolAdapter({ containerUrl: container.url, fetch: container.fetch });
+    const key = { manifestId: "https://example.org/manifest", canvasId: "https://example.org/canvas/1" };
+    const annotation = {
+      id: "local-1",
+      bodies: [{ type: "TextualBody", purpose: "commenting", value: "Sail" }],
+      target: {
+        annotation: "local-1",
+        selector: { type: "RECTANGLE", geometry: { x: 1, y: 2, w: 3, h: 4 } },
+      },
+      motivation: "commenting",
+    };
+
+    await adapter.save(key, [annotation]);
+    expect(container.annotations.size).toBe(1);
+    const [remoteId] = Array.from(container.annotations.keys());
+    expect(container.annotations.get(remoteId)?.body).toMatchObject({
+      "@context": "http://www.w3.org/ns/anno.jsonld",
+      type: "Annotation",
+      target: {
+        source: key.canvasId,
+        selector: { type: "FragmentSelector", value: "xywh=1,2,3,4" },
+      },
+    });
+
+    await adapter.save(key, [annotation]);
+    expect(container.requests.filter((request) => request.method === "PUT")).toHaveLength(0);
+
+    await adapter.save(key, [
+      { ...annotation, bodies: [{ type: "TextualBody", purpose: "commenting", value: "Mast" }] },
+    ]);
+    expect(lastRequest(container)).toMatchObject({ method: "PUT", ifMatch: '"1"' });
+    expect(container.annotations.get(remoteId)?.body.body).toEqual({
+      type: "TextualBody",
+      purpose: "commenting",
+      value: "Mast",
+    });
+
+    await adapter.save(key, []);
+    expect(lastRequest(container)).toMatchObject({ method: "DELETE", ifMatch: '"2"' });
+    expect(container.annotations.size).toBe(0);
+  });
+
+  it("pages through the container and loads annotations for one canvas", async () => {
+    const client = createAnnotationProtocolClient({ containerUrl: container.url, fetch: container.fetch });
+    for (const [canvasId, value] of [
+      ["https://example.org/canvas/1", "a"],
+      ["https://example.org/canvas/2", "b"],
+      ["https://example.org/canvas/1", "c"],
+    ]) {
+      await client.createAnnotation({
+        type: "Annotation",
+        body: { type: "TextualBody", value },
+        target: {
+          type: "SpecificResource",
+          source: canvasId,
+          selector: {
+            type: "SvgSelector",
+            value: '<svg><polygon points="0,0 10,0 10,10" /></svg>',
+          },
+        },
+      });
+    }
+
+    expect(await client.listAnnotations()).toHaveLength(3);
+    container.requests.length = 0;
+
+    const adapter = createAnnotationProtocolAdapter({ client });
+    const loaded = await adapter.load({ manifestId: "manifest", canvasId: "https://example.org/canvas/1" });
+    expect(loaded?.map((annotation) => (annotation.bodies?.[0] as { value: string }).value)).toEqual(["a", "c"]);
+    expect(loaded?.[0].target).toMatchObject({
+      selector: {
+        type: "POLYGON",
+        geometry: {
+          points: [[0, 0], [10, 0], [10, 10]],
+          bounds: { minX: 0, minY: 0, maxX: 10, maxY: 10 },
+        },
+      },
+    });
+    expect(container.requests.filter((request) => request.path.includes("page="))).toHaveLength(2);
+  });
+
+  it("surfaces precondition failures as protocol errors", async () => {
+    const client = createAnnotationProtocolClient({ containerUrl: container.url, fetch: container.fetch });
+    const created = await client.createAnnotation({ type: "Annotation", target: "https://example.org/canvas/1" });
+
+    await expect(
+      client.updateAnnotation(created.id, { type: "Annotation", target: "https://example.org/canvas/1" }, '"stale"'),
+    ).rejects.toMatchObject({ name: "AnnotationProtocolError", status: 412 });
+    await expect(client.deleteAnnotation(`${container.url}missing`)).resolves.toBeUndefined();
+    await expect(client.getAnnotation(`${container.url}missing`)).rejects.toBeInstanceOf(
+      AnnotationProtocolError,
+    );
+  });
+
+  it("queues writes while offline and replays them after a reload", async () => {
+    let online = false;
+    const fetchWhenOnline: typeof fetch = (input, init) =>
+      online ? container.fetch(input, init) : Promise.reject(new TypeError("Failed to fetch"));
+    const outbox = createMemoryOutboxStorage();
+    const key = { manifestId: "manifest", canvasId: "https://example.org/canvas/1" };
+    const annotation = {
+      id: "local-1",
+      bodies: [{ type: "TextualBody", purpose: "commenting", value: "Draft" }],
+      target: "https://example.org/canvas/1",
+    };
+
+    const offlineAdapter = createAnnotationProtocolAdapter({
+      containerUrl: container.url,
+      fetch: fetchWhenOnline,
+      outbox,
+    });
+    await offlineAdapter.save(key, [annotation]);
+    await offlineAdapter.save(key, [
+      { ...annotation, bodies: [{ type: "TextualBody", purpose: "commenting", value: "Final" }] },
+    ]);
+    expect(container.annotations.size).toBe(0);
+    expect(offlineAdapter.getOutboxState().operations).toMatchObject([
+      { kind: "create", localId: "local-1" },
+    ]);
+
+    online = true;
+    const reloadedAdapter = createAnnotationProtocolAdapter({
+      containerUrl: container.url,
+      fetch: fetchWhenOnline,
+      outbox,
+    });
+    const loaded = await reloadedAdapter.load(key);
+    expect(loaded?.map((entry) => (entry.bodies?.[0] as { value: string }).value)).toEqual(["Final"]);
+
+    await reloadedAdapter.flush();
+    expect(reloadedAdapter.getOutboxState().operations).toEqual([]);
+    expect(Array.from(container.annotations.values()).map((entry) => entry.body.body)).toEqual([
+      { type: "TextualBody", purpose: "commenting", value: "Final" },
+    ]);
+  });
+
+  it("turns changed or deleted server resources into conflicts", async () => {
+    const adapter = createAnnotationProtocolAdapter({
+      containerUrl: container.url,
+      fetch: container.fetch,
+      outbox: createMemoryOutboxStorage(),
+    });
+    const key = { manifestId: "manifest", canvasId: "https://example.org/canvas/1" };
+    const withValue = (value: string) => ({
+      id: "local-1",
+      bodies: [{ type: "TextualBody", purpose: "commenting", value }],
+      target: "https://example.org/canvas/1",
+    });
+
+    await adapter.save(key, [withValue("Original")]);
+    const [remoteId] = Array.from(container.annotations.keys());
+    const remoteEntry = container.annotations.get(remoteId)!;
+    container.annotations.set(remoteId, {
+      etag: '"99"',
+      body: { ...remoteEntry.body, body: { type: "TextualBody", purpose: "commenting", value: "Theirs" } },
+    });
+
+    await adapter.save(key, [withValue("Mine")]);
+    const [changed] = adapter.getOutboxState().conflicts;
+    expect(changed).toMatchObject({
+      reason: "changed",
+      localId: "local-1",
+      local: { bodies: [{ value: "Mine" }] },
+      remote: { id: "local-1", bodies: [{ value: "Theirs" }] },
+    });
+
+    await expect(adapter.resolveConflict(changed, "local")).resolves.toMatchObject({ id: "local-1" });
+    expect(lastRequest(container)).toMatchObject({ method: "PUT", ifMatch: '"99"' });
+    expect(container.annotations.get(remoteId)?.body.body).toMatchObject({ value: "Mine" });
+    expect(adapter.getOutboxState().conflicts).toEqual([]);
+
+    container.annotations.delete(remoteId);
+    await adapter.save(key, [withValue("Again")]);
+    const [deleted] = adapter.getOutboxState().conflicts;
+    expect(deleted).toMatchObject({ reason: "deleted", remote: null });
+
+    await expect(adapter.resolveConflict(deleted, "remote")).resolves.toBeNull();
+    const requestCount = container.requests.length;
+    await adapter.save(key, []);
+    expect(container.requests).toHaveLength(requestCount);
+  });
+
+  it("merges a conflict field by field", async () => {
+    const adapter = createAnnotationProtocolAdapter({
+      containerUrl: container.url,
+      fetch: container.fetch,
+      outbox: createMemoryOutboxStorage(),
+    });
+    const key = { manifestId: "manifest", canvasId: "https://example.org/canvas/1" };
+    const withBodies = (comment: string, tag: string) => ({
+      id: "local-1",
+      bodies: [
+        { type: "TextualBody", purpose: "commenting", value: comment },
+        { type: "TextualBody", purpose: "tagging", value: tag },
+      ],
+      target: "https://example.org/canvas/1",
+    });
+
+    await adapter.save(key, [withBodies("Sail", "ship")]);
+    const [remoteId] = Array.from(container.annotations.keys());
+    const remoteEntry = container.annotations.get(remoteId)!;
+    container.annotations.set(remoteId, {
+      etag: '"99"',
+      body: {
+        ...remoteEntry.body,
+        body: [
+          { type: "TextualBody", purpose: "commenting", value: "Their sail" },
+          { type: "TextualBody", purpose: "tagging", value: "vessel" },
+        ],
+      },
+    });
+
+    await adapter.save(key, [withBodies("My sail", "boat")]);
+    const [conflict] = adapter.getOutboxState().conflicts;
+    expect(getConflictFields(conflict).map((field) => field.key)).toEqual(["body:commenting:", "body:tagging:"]);
+
+    const merged = await adapter.resolveConflict(conflict, { fields: { "body:commenting:": "remote" } });
+    expect(merged?.bodies).toMatchObject([{ value: "Their sail" }, { value: "boat" }]);
+    expect(lastRequest(container)).toMatchObject({ method: "PUT", ifMatch: '"99"' });
+    expect(container.annotations.get(remoteId)?.body.body).toMatchObject([
+      { purpose: "commenting", value: "Their sail" },
+      { purpose: "tagging", value: "boat" },
+    ]);
+    expect(adapter.getOutboxState().conflicts).toEqual([]);
+  });
+
+  it("retries server errors with backoff and holds the queue while sign-in is refused", async () => {
+    vi.useFakeTimers();
+    let status = 503;
+    let attempts = 0;
+    const flakyFetch: typeof fetch = (input, init) => {
+      attempts += 1;
+      return status === 200 ? container.fetch(input, init) : Promise.resolve(new Response(null, { status }));
+    };
+    const adapter = createAnnotationProtocolAdapter({
+      containerUrl: container.url,
+      fetch: flakyFetch,
+      outbox: createMemoryOutboxStorage(),
+    });
+    const key = { manifestId: "manifest", canvasId: "https://example.org/canvas/1" };
+    const withValue = (value: string) => ({
+      id: "local-1",
+      bodies: [{ type: "TextualBody", purpose: "commenting", value }],
+      target: "https://example.org/canvas/1",
+    });
+
+    await adapter.save(key, [withValue("Draft")]);
+    expect(attempts).toBe(1);
+    expect(adapter.getOutboxState().operations).toMatchObject([{ kind: "create" }]);
+    expect(adapter.getOutboxState().rejected).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(attempts).toBe(2);
+    status = 200;
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(attempts).toBe(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(container.annotations.size).toBe(1);
+    expect(adapter.getOutboxState().operations).toEqual([]);
+
+    status = 401;
+    await adapter.save(key, [withValue("Final")]);
+    expect(adapter.getOutboxState().rejected).toMatchObject({ status: 401 });
+    const refusedAttempts = attempts;
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(attempts).toBe(refusedAttempts);
+
+    status = 200;
+    await adapter.save(key, [withValue("Final")]);
+    expect(adapter.getOutboxState().operations).toEqual([]);
+    expect(adapter.getOutboxState().rejected).toBeUndefined();
+    expect(Array.from(container.annotations.values())[0].body.body).toMatchObject({ value: "Final" });
+  });
+});
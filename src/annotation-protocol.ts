@@ -0,0 +1,735 @@
+import type { StoredAnnotation } from "./annotation-runtime";
+import type { CloverMarkStorageAdapter } from "./annotation-storage";
+import {
+  fromWebAnnotation,
+  getWebAnnotationTargetSource,
+  toWebAnnotation,
+  withAnnotationId,
+} from "./web-annotation";
+import {
+  type AnnotationConflict,
+  type AnnotationOutboxState,
+  type AnnotationOutboxStorage,
+  type OutboxAwareStorage,
+  type QueuedAnnotationOperation,
+  coalesceOperation,
+  createIndexedDbOutboxStorage,
+  createMemoryOutboxStorage,
+  isSameQueuedAnnotation,
+  mergeConflictVersions,
+} from "./annotation-outbox";
+
+const ANNOTATION_MEDIA_TYPE = 'application/ld+json; profile="http://www.w3.org/ns/anno.jsonld"';
+const PREFER_CONTAINED_DESCRIPTIONS =
+  'return=representation;include="http://www.w3.org/ns/oa#PreferContainedDescriptions"';
+const DEFAULT_MAX_PAGES = 100;
+
+type UnknownRecord = Record<string, unknown>;
+
+type HeadersInput =
+  | Record<string, string>
+  | (() => Record<string, string> | Promise<Record<string, string>>);
+
+export class AnnotationProtocolError extends Error {
+  readonly status: number;
+  readonly url: string;
+
+  constructor(message: string, status: number, url: string) {
+    super(message);
+    this.name = "AnnotationProtocolError";
+    this.status = status;
+    this.url = url;
+  }
+}
+
+export type RemoteAnnotation = {
+  id: string;
+  etag?: string;
+  annotation: UnknownRecord;
+};
+
+export type AnnotationProtocolClientOptions = {
+  containerUrl: string;
+  fetch?: typeof fetch;
+  headers?: HeadersInput;
+  maxPages?: number;
+};
+
+export type AnnotationProtocolClient = {
+  containerUrl: string;
+  listAnnotations: () => Promise<RemoteAnnotation[]>;
+  getAnnotation: (id: string) => Promise<RemoteAnnotation>;
+  createAnnotation: (annotation: UnknownRecord) => Promise<RemoteAnnotation>;
+  updateAnnotation: (id: string, annotation: UnknownRecord, etag?: string) => Promise<RemoteAnnotation>;
+  deleteAnnotation: (id: string, etag?: string) => Promise<void>;
+};
+
+type RemoteRecord = {
+  id?: string;
+  signature: string;
+};
+
+function asRecord(value: unknown): UnknownRecord | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as UnknownRecord)
+    : undefined;
+}
+
+function getId(value: unknown): string | undefined {
+  if (typeof value === "string" && value.trim().length > 0) {
+    return value.trim();
+  }
+
+  const id = asRecord(value)?.id ?? asRecord(value)?.["@id"];
+  return typeof id === "string" && id.trim().length > 0 ? id.trim() : undefined;
+}
+
+function ensureArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+async function readJson(response: Response): Promise<UnknownRecord | undefined> {
+  const text = await response.text();
+  if (!text.trim()) {
+    return undefined;
+  }
+
+  try {
+    return asRecord(JSON.parse(text));
+  } catch {
+    return undefined;
+  }
+}
+
+export function createAnnotationProtocolClient(
+  options: AnnotationProtocolClientOptions,
+): AnnotationProtocolClient {
+  const containerUrl = options.containerUrl.trim();
+  if (!containerUrl) {
+    throw new Error("Annotation container URL is required.");
+  }
+
+  const maxPages = Math.max(1, options.maxPages ?? DEFAULT_MAX_PAGES);
+  const resolveFetch = (): typeof fetch => {
+    const fetchImpl = options.fetch ?? (typeof fetch !== "undefined" ? fetch : undefined);
+    if (!fetchImpl) {
+      throw new Error("fetch is not available in this environment.");
+    }
+    return fetchImpl;
+  };
+
+  const request = async (
+    method: string,
+    url: string,
+    init: { body?: UnknownRecord; headers?: Record<string, string> } = {},
+  ): Promise<Response> => {
+    const extraHeaders =
+      typeof options.headers === "function" ? await options.headers() : options.headers ?? {};
+    const resolvedUrl = new URL(url, containerUrl).toString();
+    const response = await resolveFetch()(resolvedUrl, {
+      method,
+      headers: {
+        Accept: ANNOTATION_MEDIA_TYPE,
+        ...(init.body ? { "Content-Type": ANNOTATION_MEDIA_TYPE } : {}),
+        ...extraHeaders,
+        ...init.headers,
+      },
+      body: init.body ? JSON.stringify(init.body) : undefined,
+    });
+
+    if (!response.ok) {
+      const statusText = response.statusText ? ` ${response.statusText}` : "";
+      throw new AnnotationProtocolError(
+        `${method} ${resolvedUrl} failed with ${response.status}${statusText}.`,
+        response.status,
+        resolvedUrl,
+      );
+    }
+
+    return response;
+  };
+
+  const toRemoteAnnotation = (
+    response: Response,
+    body: UnknownRecord | undefined,
+    fallbackId?: string,
+  ): RemoteAnnotation => {
+    const location = response.headers.get("Location");
+    const id =
+      getId(body) ??
+      (location ? new URL(location, response.url || containerUrl).toString() : undefined) ??
+      fallbackId;
+    if (!id) {
+      throw new AnnotationProtocolError(
+        "Annotation server response did not include an annotation id.",
+        response.status,
+        response.url || containerUrl,
+      );
+    }
+
+    return {
+      id,
+      etag: response.headers.get("ETag") ?? undefined,
+      annotation: { ...(body ?? {}), id },
+    };
+  };
+
+  const getAnnotation = async (id: string): Promise<RemoteAnnotation> => {
+    const response = await request("GET", id);
+    return toRemoteAnnotation(response, await readJson(response), id);
+  };
+
+  const listAnnotations = async (): Promise<RemoteAnnotation[]> => {
+    const response = await request("GET", containerUrl, {
+      headers: { Prefer: PREFER_CONTAINED_DESCRIPTIONS },
+    });
+    const container = (await readJson(response)) ?? {};
+    const annotations: RemoteAnnotation[] = [];
+    const visitedPages = new Set<string>();
+
+    const collectItems = async (page: UnknownRecord) => {
+      for (const item of ensureArray(page.items ?? page["as:items"])) {
+        const itemRecord = asRecord(item);
+        const itemId = getId(item);
+        if (itemRecord && itemId) {
+          annotations.push({ id: itemId, annotation: { ...itemRecord, id: itemId } });
+        } else if (itemId) {
+          annotations.push(await getAnnotation(itemId));
+        }
+      }
+    };
+
+    let page: unknown = container.first ?? (container.items ? container : undefined);
+    while (page && visitedPages.size < maxPages) {
+      let pageRecord = asRecord(page);
+      const pageId = getId(page);
+      if (pageId) {
+        if (visitedPages.has(pageId)) {
+          break;
+        }
+        visitedPages.add(pageId);
+      } else {
+        visitedPages.add(`#${visitedPages.size}`);
+      }
+
+      if (!pageRecord?.items && !pageRecord?.["as:items"] && pageId) {
+        const pageResponse = await request("GET", pageId, {
+          headers: { Prefer: PREFER_CONTAINED_DESCRIPTIONS },
+        });
+        pageRecord = (await readJson(pageResponse)) ?? {};
+      }
+
+      await collectItems(pageRecord ?? {});
+      page = pageRecord?.next;
+    }
+
+    return annotations;
+  };
+
+  return {
+    containerUrl,
+    listAnnotations,
+    getAnnotation,
+    createAnnotation: async (annotation) => {
+      const response = await request("POST", containerUrl, { body: annotation });
+      return toRemoteAnnotation(response, await readJson(response));
+    },
+    updateAnnotation: async (id, annotation, etag) => {
+      const resolvedEtag = etag ?? (await getAnnotation(id)).etag;
+      const response = await request("PUT", id, {
+        body: { ...annotation, id },
+        headers: resolvedEtag ? { "If-Match": resolvedEtag } : {},
+      });
+      return toRemoteAnnotation(response, (await readJson(response)) ?? { ...annotation, id }, id);
+    },
+    deleteAnnotation: async (id, etag) => {
+      try {
+        await request("DELETE", id, { headers: etag ? { "If-Match": etag } : {} });
+      } catch (error) {
+        // Someone else already removed it, which is the outcome we wanted.
+        if (error instanceof AnnotationProtocolError && (error.status === 404 || error.status === 410)) {
+          return;
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+function getSignature(annotation: StoredAnnotation, canvasId: string): string {
+  return JSON.stringify(toWebAnnotation(annotation, canvasId));
+}
+
+export type AnnotationProtocolAdapterOptions = (
+  | AnnotationProtocolClientOptions
+  | { client: AnnotationProtocolClient }
+) & {
+  outbox?: AnnotationOutboxStorage;
+};
+
+// Failed queued writes are retried after this delay, doubling up to the maximum.
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60_000;
+
+function isNetworkError(error: unknown): boolean {
+  return !(error instanceof AnnotationProtocolError);
+}
+
+// Timeouts, rate limits and server errors may go through unchanged on a later attempt.
+function isRetryableError(error: unknown): boolean {
+  return (
+    isNetworkError(error) ||
+    (error instanceof AnnotationProtocolError &&
+      (error.status === 408 || error.status === 429 || error.status >= 500))
+  );
+}
+
+function isConflictStatus(error: unknown): boolean {
+  return (
+    error instanceof AnnotationProtocolError &&
+    (error.status === 404 || error.status === 410 || error.status === 412)
+  );
+}
+
+// Writes go through a durable outbox: they replay in order when connectivity returns, and server-side
+// changes (a stale ETag, a deleted resource) become conflicts for the user to resolve.
+export function createAnnotationProtocolAdapter(
+  options: AnnotationProtocolAdapterOptions,
+): CloverMarkStorageAdapter & OutboxAwareStorage & { client: AnnotationProtocolClient } {
+  const client = "client" in options ? options.client : createAnnotationProtocolClient(options);
+  const outboxStorage =
+    options.outbox ??
+    (typeof indexedDB !== "undefined"
+      ? createIndexedDbOutboxStorage({ key: client.containerUrl })
+      : createMemoryOutboxStorage());
+  const recordsByCanvasId = new Map<string, Map<string, RemoteRecord>>();
+  const knownEtags = new Map<string, string>();
+  // Remote ids of queued creates, for writes to an annotation whose record was dropped meanwhile.
+  const createdRemoteIds = new Map<string, string>();
+  const deletedIds = new Set<string>();
+  const outboxListeners = new Set<() => void>();
+  let listingPromise: Promise<RemoteAnnotation[]> | null = null;
+  let outboxState: AnnotationOutboxState = { operations: [], conflicts: [] };
+  let inFlight: QueuedAnnotationOperation | null = null;
+  let flushing: Promise<void> | null = null;
+  let waitingForOnline = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryAttempt = 0;
+
+  const restored = outboxStorage
+    .load()
+    .then((state) => {
+      if (state) {
+        outboxState = {
+          operations: Array.isArray(state.operations) ? state.operations : [],
+          conflicts: Array.isArray(state.conflicts) ? state.conflicts : [],
+        };
+      }
+    })
+    .catch(() => undefined);
+
+  const getRecords = (canvasId: string) => {
+    let records = recordsByCanvasId.get(canvasId);
+    if (!records) {
+      records = new Map();
+      recordsByCanvasId.set(canvasId, records);
+    }
+    return records;
+  };
+
+  const listContainer = () => {
+    if (!listingPromise) {
+      listingPromise = client.listAnnotations().catch((error) => {
+        listingPromise = null;
+        throw error;
+      });
+    }
+    return listingPromise;
+  };
+
+  const setOutboxState = (next: Partial<AnnotationOutboxState>) => {
+    outboxState = { ...outboxState, ...next };
+    outboxListeners.forEach((listener) => listener());
+  };
+
+  const persist = () =>
+    outboxStorage.save({ operations: outboxState.operations, conflicts: outboxState.conflicts });
+
+  const enqueue = (operation: QueuedAnnotationOperation) => {
+    setOutboxState({ operations: coalesceOperation(outboxState.operations, operation, inFlight) });
+  };
+
+  const toSessionAnnotation = (remote: RemoteAnnotation, canvasId: string, localId: string) => {
+    const annotation = fromWebAnnotation(remote.annotation, canvasId);
+    return annotation ? withAnnotationId(annotation, localId) : null;
+  };
+
+  const buildConflict = async (
+    operation: QueuedAnnotationOperation,
+    remoteId: string,
+  ): Promise<AnnotationConflict> => {
+    const base = {
+      canvasId: operation.canvasId,
+      localId: operation.localId,
+      local: operation.kind === "delete" ? null : operation.annotation ?? null,
+      remoteId,
+    };
+
+    try {
+      const remote = await client.getAnnotation(remoteId);
+      if (remote.etag) {
+        knownEtags.set(remoteId, remote.etag);
+      }
+      return {
+        ...base,
+        reason: "changed",
+        remote: toSessionAnnotation(remote, operation.canvasId, operation.localId),
+        etag: remote.etag,
+      };
+    } catch (error) {
+      if (!isConflictStatus(error)) {
+        throw error;
+      }
+      return { ...base, reason: "deleted", remote: null };
+    }
+  };
+
+  const runOperation = async (
+    operation: QueuedAnnotationOperation,
+  ): Promise<AnnotationConflict | undefined> => {
+    const records = getRecords(operation.canvasId);
+    const record = records.get(operation.localId);
+    const createdKey = `${operation.canvasId}\n${operation.localId}`;
+    const remoteId = record?.id ?? operation.remoteId ?? createdRemoteIds.get(createdKey);
+    const etag = (remoteId ? knownEtags.get(remoteId) : undefined) ?? operation.etag;
+
+    if (operation.kind === "delete") {
+      if (!remoteId) {
+        return undefined;
+      }
+      try {
+        await client.deleteAnnotation(remoteId, etag);
+      } catch (error) {
+        if (isConflictStatus(error)) {
+          return buildConflict(operation, remoteId);
+        }
+        throw error;
+      }
+      knownEtags.delete(remoteId);
+      createdRemoteIds.delete(createdKey);
+      deletedIds.add(remoteId);
+      return undefined;
+    }
+
+    const annotation = operation.annotation;
+    if (!annotation) {
+      return undefined;
+    }
+
+    const payload = toWebAnnotation(annotation, operation.canvasId);
+    if (operation.kind === "create" || !remoteId) {
+      const { id: _localId, ...createPayload } = payload;
+      const created = await client.createAnnotation(createPayload);
+      if (created.etag) {
+        knownEtags.set(created.id, created.etag);
+      }
+      createdRemoteIds.set(createdKey, created.id);
+      if (record) {
+        records.set(operation.localId, { ...record, id: created.id });
+      }
+      return undefined;
+    }
+
+    try {
+      const updated = await client.updateAnnotation(remoteId, payload, etag);
+      if (updated.etag) {
+        knownEtags.set(updated.id, updated.etag);
+      }
+    } catch (error) {
+      if (isConflictStatus(error)) {
+        return buildConflict(operation, remoteId);
+      }
+      throw error;
+    }
+    return undefined;
+  };
+
+  const waitForOnline = () => {
+    if (waitingForOnline || typeof window === "undefined") {
+      return;
+    }
+
+    waitingForOnline = true;
+    window.addEventListener(
+      "online",
+      () => {
+        waitingForOnline = false;
+        void flush().catch(() => undefined);
+      },
+      { once: true },
+    );
+  };
+
+  const scheduleRetry = () => {
+    if (retryTimer) {
+      return;
+    }
+
+    const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** retryAttempt);
+    retryAttempt += 1;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void flush().catch(() => undefined);
+    }, delay);
+  };
+
+  const flush = (): Promise<void> => {
+    if (flushing) {
+      return flushing;
+    }
+
+    flushing = (async () => {
+      await restored;
+      try {
+        while (outboxState.operations.length > 0) {
+          if (typeof navigator !== "undefined" && navigator.onLine === false) {
+            waitForOnline();
+            return;
+          }
+
+          const operation = outboxState.operations[0];
+          let conflict: AnnotationConflict | undefined;
+          inFlight = operation;
+          try {
+            conflict = await runOperation(operation);
+          } catch (error) {
+            // Transient failures leave the write queued; a backoff timer, the next save or the
+            // "online" event replays it.
+            if (isRetryableError(error)) {
+              if (isNetworkError(error)) {
+                waitForOnline();
+              }
+              scheduleRetry();
+              return;
+            }
+            // Anything else (an expired session, a rejected payload) holds the queue and is shown to the user.
+            const { status, message } = error as AnnotationProtocolError;
+            setOutboxState({ rejected: { status, message } });
+            return;
+          } finally {
+            inFlight = null;
+          }
+
+          retryAttempt = 0;
+          setOutboxState({
+            rejected: undefined,
+            operations: outboxState.operations.filter((candidate) => candidate !== operation),
+            conflicts: conflict
+              ? [
+                  ...outboxState.conflicts.filter(
+                    (candidate) => !isSameQueuedAnnotation(candidate, operation),
+                  ),
+                  conflict,
+                ]
+              : outboxState.conflicts,
+          });
+          await persist();
+        }
+        if (outboxState.rejected) {
+          setOutboxState({ rejected: undefined });
+        }
+      } finally {
+        flushing = null;
+      }
+    })();
+    return flushing;
+  };
+
+  return {
+    client,
+    load: async ({ canvasId }) => {
+      await restored;
+      const listing = await listContainer();
+      const records = getRecords(canvasId);
+      const pending = outboxState.operations.filter((operation) => operation.canvasId === canvasId);
+      const conflicts = outboxState.conflicts.filter((conflict) => conflict.canvasId === canvasId);
+      const pendingRemoteIds = new Set(
+        [...pending, ...conflicts].map((entry) => entry.remoteId).filter(Boolean),
+      );
+      const pendingDeletes = new Set(
+        [...pending, ...conflicts]
+          .filter((entry) => ("kind" in entry ? entry.kind === "delete" : entry.local === null))
+          .map((entry) => entry.remoteId),
+      );
+      let loaded: StoredAnnotation[] = [];
+
+      for (const remote of listing) {
+        if (
+          deletedIds.has(remote.id) ||
+          pendingDeletes.has(remote.id) ||
+          getWebAnnotationTargetSource(remote.annotation) !== canvasId
+        ) {
+          continue;
+        }
+
+        const annotation = fromWebAnnotation(remote.annotation, canvasId);
+        if (!annotation) {
+          continue;
+        }
+
+        loaded.push(annotation);
+        // Queued writes keep the ETag they were based on so replay can detect server-side changes.
+        if (remote.etag && !knownEtags.has(remote.id) && !pendingRemoteIds.has(remote.id)) {
+          knownEtags.set(remote.id, remote.etag);
+        }
+        if (!records.has(annotation.id)) {
+          records.set(annotation.id, {
+            id: remote.id,
+            signature: getSignature(annotation, canvasId),
+          });
+        }
+      }
+
+      // Writes still waiting in the outbox (or held by a conflict) win over the server copy.
+      const overlays = [
+        ...pending.map((operation) => ({
+          localId: operation.localId,
+          remoteId: operation.remoteId,
+          annotation: operation.kind === "delete" ? null : operation.annotation ?? null,
+        })),
+        ...conflicts.map((conflict) => ({
+          localId: conflict.localId,
+          remoteId: conflict.remoteId,
+          annotation: conflict.local,
+        })),
+      ];
+      for (const overlay of overlays) {
+        loaded = loaded.filter((annotation) => annotation.id !== overlay.localId);
+        if (!overlay.annotation) {
+          records.delete(overlay.localId);
+          continue;
+        }
+
+        loaded.push(overlay.annotation);
+        records.set(overlay.localId, {
+          id: records.get(overlay.localId)?.id ?? overlay.remoteId,
+          signature: getSignature(overlay.annotation, canvasId),
+        });
+      }
+
+      if (pending.length > 0) {
+        void flush().catch(() => undefined);
+      }
+      return loaded;
+    },
+    save: async ({ canvasId }, annotations) => {
+      await restored;
+      const records = getRecords(canvasId);
+      const localIds = new Set(annotations.map((annotation) => annotation.id));
+      const queuedBefore = outboxState.operations;
+
+      for (const annotation of annotations) {
+        const record = records.get(annotation.id);
+        const signature = getSignature(annotation, canvasId);
+
+        if (!record) {
+          records.set(annotation.id, { signature });
+          enqueue({ kind: "create", canvasId, localId: annotation.id, annotation });
+        } else if (record.signature !== signature) {
+          records.set(annotation.id, { ...record, signature });
+          enqueue({
+            kind: "update",
+            canvasId,
+            localId: annotation.id,
+            annotation,
+            remoteId: record.id,
+            etag: record.id ? knownEtags.get(record.id) : undefined,
+          });
+        }
+      }
+
+      for (const [localId, record] of Array.from(records.entries())) {
+        if (localIds.has(localId)) {
+          continue;
+        }
+
+        records.delete(localId);
+        if (record.id) {
+          deletedIds.add(record.id);
+        }
+        enqueue({
+          kind: "delete",
+          canvasId,
+          localId,
+          remoteId: record.id,
+          etag: record.id ? knownEtags.get(record.id) : undefined,
+        });
+      }
+
+      if (outboxState.operations !== queuedBefore) {
+        await persist();
+      }
+      await flush();
+    },
+    getOutboxState: () => outboxState,
+    subscribeOutbox: (listener) => {
+      outboxListeners.add(listener);
+      return () => {
+        outboxListeners.delete(listener);
+      };
+    },
+    flush,
+    resolveConflict: async (conflict, resolution) => {
+      await restored;
+      const { canvasId, localId, remoteId } = conflict;
+      const records = getRecords(canvasId);
+      if (remoteId && conflict.etag) {
+        knownEtags.set(remoteId, conflict.etag);
+      }
+      setOutboxState({
+        conflicts: outboxState.conflicts.filter(
+          (candidate) => !isSameQueuedAnnotation(candidate, conflict),
+        ),
+      });
+
+      let resolved: StoredAnnotation | null;
+      if (resolution !== "remote") {
+        // A merge is written back like a local version built from both sides.
+        const local =
+          resolution === "local" ? conflict.local : mergeConflictVersions(conflict, resolution.fields);
+        resolved = local;
+        if (local) {
+          const recreate = conflict.reason === "deleted" || !remoteId;
+          records.set(localId, {
+            id: recreate ? undefined : remoteId,
+            signature: getSignature(local, canvasId),
+          });
+          enqueue({
+            kind: recreate ? "create" : "update",
+            canvasId,
+            localId,
+            annotation: local,
+            remoteId: recreate ? undefined : remoteId,
+            etag: recreate ? undefined : conflict.etag,
+          });
+        } else if (conflict.remote && remoteId) {
+          deletedIds.add(remoteId);
+          enqueue({ kind: "delete", canvasId, localId, remoteId, etag: conflict.etag });
+        }
+      } else {
+        resolved = conflict.remote;
+        if (conflict.remote && remoteId) {
+          deletedIds.delete(remoteId);
+          records.set(localId, { id: remoteId, signature: getSignature(conflict.remote, canvasId) });
+        } else {
+          records.delete(localId);
+        }
+      }
+
+      await persist();
+      await flush();
+      return resolved;
+    },
+  };
+}
@@ -1,6 +1,7 @@
 import { describe, expect, it, beforeEach } from "vitest";
 import {
   __resetRuntimeForTests,
+  createCloverMarkStore,
   getCanvasAnnotator,
   getStoredCanvasAnnotations,
   getRuntimeStateSnapshot,
@@ -86,4 +87,18 @@ describe("annotation-runtime", () => {
     registerCanvasAnnotator("canvas-a", null);
     expect(getCanvasAnnotator("canvas-a")).toBeUndefined();
   });
+
+  it("keeps instance stores isolated from each other and from the default store", () => {
+    const first = createCloverMarkStore();
+    const second = createCloverMarkStore();
+
+    first.setStoredCanvasAnnotations("canvas-a", [{ id: "draft-1" }]);
+    second.setStoredCanvasAnnotations("canvas-a", [{ id: "draft-2" }]);
+    first.setCanvasSelectedLocalScholiumId("canvas-a", "draft-1");
+
+    expect(first.getStoredCanvasAnnotations("canvas-a")).toEqual([{ id: "draft-1" }]);
+    expect(second.getStoredCanvasAnnotations("canvas-a")).toEqual([{ id: "draft-2" }]);
+    expect(second.getCanvasRuntimeState("canvas-a").selectedLocalScholiumId).toBeNull();
+    expect(getStoredCanvasAnnotations("canvas-a")).toEqual([]);
+  });
 });
@@ -57,54 +57,212 @@ const DEFAULT_CANVAS_RUNTIME_STATE: CanvasRuntimeState = {
   bridgeReady: false,
 };
 
-let state: RuntimeState = {
-  byCanvasId: {},
+export type StoredAnnotationsListener = (
+  canvasId: string,
+  annotations: StoredAnnotation[],
+  previous: StoredAnnotation[],
+) => void;
+
+export type CloverMarkStore = {
+  subscribeRuntimeState: (listener: () => void) => () => void;
+  getRuntimeStateSnapshot: () => RuntimeState;
+  getCanvasRuntimeState: (canvasId?: string) => CanvasRuntimeState;
+  setCanvasBridgeState: (canvasId: string, bridgeMode: BridgeMode, bridgeReady: boolean) => void;
+  setCanvasLocalAnnotationCount: (canvasId: string, count: number) => void;
+  setCanvasLocalCloverMarks: (canvasId: string, cloverMarks: LocalScholium[]) => void;
+  setCanvasSelectedLocalScholiumId: (canvasId: string, annotationId: string | null) => void;
+  registerCanvasAnnotator: (canvasId: string, annotator: CanvasAnnotatorLike | null) => void;
+  getCanvasAnnotator: (canvasId?: string) => CanvasAnnotatorLike | undefined;
+  setStoredCanvasAnnotations: (canvasId: string, annotations: StoredAnnotation[]) => void;
+  subscribeStoredAnnotations: (listener: StoredAnnotationsListener) => () => void;
+  hydrateStoredCanvasAnnotations: (canvasId: string, annotations: StoredAnnotation[]) => void;
+  subscribeCanvasHydration: (listener: (canvasId: string) => void) => () => void;
+  getStoredCanvasAnnotations: (canvasId?: string) => StoredAnnotation[];
+  getAllStoredCanvasAnnotations: () => Record<string, StoredAnnotation[]>;
+  setCanvasManifestId: (canvasId: string, manifestId: string | undefined) => void;
+  getCanvasManifestId: (canvasId?: string) => string | undefined;
+  reset: () => void;
 };
 
-const listeners = new Set<() => void>();
-const annotatorsByCanvasId: Record<string, CanvasAnnotatorLike | undefined> = {};
-const annotationsByCanvasId: Record<string, StoredAnnotation[] | undefined> = {};
+export function createCloverMarkStore(): CloverMarkStore {
+  let state: RuntimeState = {
+    byCanvasId: {},
+  };
 
-function emitChange() {
-  listeners.forEach((listener) => listener());
-}
+  const listeners = new Set<() => void>();
+  const storedAnnotationListeners = new Set<StoredAnnotationsListener>();
+  const hydrationListeners = new Set<(canvasId: string) => void>();
+  const annotatorsByCanvasId: Record<string, CanvasAnnotatorLike | undefined> = {};
+  const annotationsByCanvasId: Record<string, StoredAnnotation[] | undefined> = {};
+  const manifestIdsByCanvasId: Record<string, string | undefined> = {};
 
-export function subscribeRuntimeState(listener: () => void): () => void {
-  listeners.add(listener);
-  return () => {
-    listeners.delete(listener);
+  const emitChange = () => {
+    listeners.forEach((listener) => listener());
   };
-}
 
-export function getRuntimeStateSnapshot(): RuntimeState {
-  return state;
-}
+  const updateCanvasRuntimeState = (
+    canvasId: string,
+    updates: Partial<CanvasRuntimeState>,
+  ): void => {
+    const current = state.byCanvasId[canvasId] ?? DEFAULT_CANVAS_RUNTIME_STATE;
+    const next = { ...current, ...updates };
+
+    if (
+      current.bridgeMode === next.bridgeMode &&
+      current.bridgeReady === next.bridgeReady &&
+      current.localAnnotationCount === next.localAnnotationCount &&
+      current.selectedLocalScholiumId === next.selectedLocalScholiumId &&
+      current.localCloverMarks === next.localCloverMarks
+    ) {
+      return;
+    }
+
+    state = {
+      byCanvasId: {
+        ...state.byCanvasId,
+        [canvasId]: next,
+      },
+    };
+
+    emitChange();
+  };
 
-function updateCanvasRuntimeState(
-  canvasId: string,
-  updates: Partial<CanvasRuntimeState>,
-): void {
-  const current = state.byCanvasId[canvasId] ?? DEFAULT_CANVAS_RUNTIME_STATE;
-  const next = { ...current, ...updates };
-
-  if (
-    current.bridgeMode === next.bridgeMode &&
-    current.bridgeReady === next.bridgeReady &&
-    current.localAnnotationCount === next.localAnnotationCount &&
-    current.selectedLocalScholiumId === next.selectedLocalScholiumId &&
-    current.localCloverMarks === next.localCloverMarks
-  ) {
-    return;
-  }
-
-  state = {
-    byCanvasId: {
-      ...state.byCanvasId,
-      [canvasId]: next,
+  return {
+    subscribeRuntimeState: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getRuntimeStateSnapshot: () => state,
+    getCanvasRuntimeState: (canvasId) => {
+      if (!canvasId) {
+        return DEFAULT_CANVAS_RUNTIME_STATE;
+      }
+
+      return state.byCanvasId[canvasId] ?? DEFAULT_CANVAS_RUNTIME_STATE;
+    },
+    setCanvasBridgeState: (canvasId, bridgeMode, bridgeReady) => {
+      updateCanvasRuntimeState(canvasId, { bridgeMode, bridgeReady });
+    },
+    setCanvasLocalAnnotationCount: (canvasId, count) => {
+      updateCanvasRuntimeState(canvasId, { localAnnotationCount: Math.max(0, count) });
+    },
+    setCanvasLocalCloverMarks: (canvasId, cloverMarks) => {
+      updateCanvasRuntimeState(canvasId, {
+        localCloverMarks: cloverMarks,
+        localAnnotationCount: cloverMarks.length,
+      });
+    },
+    setCanvasSelectedLocalScholiumId: (canvasId, annotationId) => {
+      updateCanvasRuntimeState(canvasId, {
+        selectedLocalScholiumId: annotationId,
+      });
+    },
+    registerCanvasAnnotator: (canvasId, annotator) => {
+      if (!annotator) {
+        delete annotatorsByCanvasId[canvasId];
+        return;
+      }
+
+      annotatorsByCanvasId[canvasId] = annotator;
+    },
+    getCanvasAnnotator: (canvasId) => {
+      if (!canvasId) {
+        return undefined;
+      }
+
+      return annotatorsByCanvasId[canvasId];
+    },
+    setStoredCanvasAnnotations: (canvasId, annotations) => {
+      const previous = annotationsByCanvasId[canvasId] ?? [];
+      annotationsByCanvasId[canvasId] = annotations;
+      storedAnnotationListeners.forEach((listener) => listener(canvasId, annotations, previous));
+    },
+    subscribeStoredAnnotations: (listener) => {
+      storedAnnotationListeners.add(listener);
+      return () => {
+        storedAnnotationListeners.delete(listener);
+      };
+    },
+    // Loaded annotations are not edits: listeners are skipped and mounted annotators re-read the store.
+    hydrateStoredCanvasAnnotations: (canvasId, annotations) => {
+      annotationsByCanvasId[canvasId] = annotations;
+      hydrationListeners.forEach((listener) => listener(canvasId));
+    },
+    subscribeCanvasHydration: (listener) => {
+      hydrationListeners.add(listener);
+      return () => {
+        hydrationListeners.delete(listener);
+      };
+    },
+    getStoredCanvasAnnotations: (canvasId) => {
+      if (!canvasId) {
+        return [];
+      }
+
+      const stored = annotationsByCanvasId[canvasId];
+      if (!Array.isArray(stored) || stored.length === 0) {
+        return [];
+      }
+
+      return stored;
+    },
+    getAllStoredCanvasAnnotations: () => {
+      const entries = Object.entries(annotationsByCanvasId)
+        .filter(([, annotations]) => Array.isArray(annotations) && annotations.length > 0)
+        .map(([canvasId, annotations]) => [canvasId, annotations as StoredAnnotation[]]);
+
+      return Object.fromEntries(entries);
+    },
+    setCanvasManifestId: (canvasId, manifestId) => {
+      if (!manifestId) {
+        delete manifestIdsByCanvasId[canvasId];
+        return;
+      }
+
+      manifestIdsByCanvasId[canvasId] = manifestId;
+    },
+    getCanvasManifestId: (canvasId) => (canvasId ? manifestIdsByCanvasId[canvasId] : undefined),
+    reset: () => {
+      state = { byCanvasId: {} };
+
+      Object.keys(annotatorsByCanvasId).forEach((key) => {
+        delete annotatorsByCanvasId[key];
+      });
+
+      Object.keys(annotationsByCanvasId).forEach((key) => {
+        delete annotationsByCanvasId[key];
+      });
+
+      Object.keys(manifestIdsByCanvasId).forEach((key) => {
+        delete manifestIdsByCanvasId[key];
+      });
+
+      storedAnnotationListeners.clear();
+      hydrationListeners.clear();
     },
   };
+}
+
+const defaultStore = createCloverMarkStore();
 
-  emitChange();
+export function getDefaultCloverMarkStore(): CloverMarkStore {
+  return defaultStore;
+}
+
+export const CloverMarkStoreContext = React.createContext<CloverMarkStore>(defaultStore);
+
+export function useCloverMarkStore(): CloverMarkStore {
+  return React.useContext(CloverMarkStoreContext);
+}
+
+export function subscribeRuntimeState(listener: () => void): () => void {
+  return defaultStore.subscribeRuntimeState(listener);
+}
+
+export function getRuntimeStateSnapshot(): RuntimeState {
+  return defaultStore.getRuntimeStateSnapshot();
 }
 
 export function setCanvasBridgeState(
@@ -112,99 +270,74 @@ export function setCanvasBridgeState(
   bridgeMode: BridgeMode,
   bridgeReady: boolean,
 ): void {
-  updateCanvasRuntimeState(canvasId, { bridgeMode, bridgeReady });
+  defaultStore.setCanvasBridgeState(canvasId, bridgeMode, bridgeReady);
 }
 
 export function setCanvasLocalAnnotationCount(canvasId: string, count: number): void {
-  updateCanvasRuntimeState(canvasId, { localAnnotationCount: Math.max(0, count) });
+  defaultStore.setCanvasLocalAnnotationCount(canvasId, count);
 }
 
 export function setCanvasLocalCloverMarks(canvasId: string, cloverMarks: LocalScholium[]): void {
-  updateCanvasRuntimeState(canvasId, {
-    localCloverMarks: cloverMarks,
-    localAnnotationCount: cloverMarks.length,
-  });
+  defaultStore.setCanvasLocalCloverMarks(canvasId, cloverMarks);
 }
 
 export function setCanvasSelectedLocalScholiumId(
   canvasId: string,
   annotationId: string | null,
 ): void {
-  updateCanvasRuntimeState(canvasId, {
-    selectedLocalScholiumId: annotationId,
-  });
+  defaultStore.setCanvasSelectedLocalScholiumId(canvasId, annotationId);
 }
 
 export function registerCanvasAnnotator(
   canvasId: string,
   annotator: CanvasAnnotatorLike | null,
 ): void {
-  if (!annotator) {
-    delete annotatorsByCanvasId[canvasId];
-    return;
-  }
-
-  annotatorsByCanvasId[canvasId] = annotator;
+  defaultStore.registerCanvasAnnotator(canvasId, annotator);
 }
 
 export function getCanvasAnnotator(canvasId?: string): CanvasAnnotatorLike | undefined {
-  if (!canvasId) {
-    return undefined;
-  }
-
-  return annotatorsByCanvasId[canvasId];
+  return defaultStore.getCanvasAnnotator(canvasId);
 }
 
 export function setStoredCanvasAnnotations(
   canvasId: string,
   annotations: StoredAnnotation[],
 ): void {
-  annotationsByCanvasId[canvasId] = annotations;
+  defaultStore.setStoredCanvasAnnotations(canvasId, annotations);
 }
 
-export function getStoredCanvasAnnotations(canvasId?: string): StoredAnnotation[] {
-  if (!canvasId) {
-    return [];
-  }
+export function subscribeStoredAnnotations(listener: StoredAnnotationsListener): () => void {
+  return defaultStore.subscribeStoredAnnotations(listener);
+}
 
-  const stored = annotationsByCanvasId[canvasId];
-  if (!Array.isArray(stored) || stored.length === 0) {
-    return [];
-  }
+export function hydrateStoredCanvasAnnotations(
+  canvasId: string,
+  annotations: StoredAnnotation[],
+): void {
+  defaultStore.hydrateStoredCanvasAnnotations(canvasId, annotations);
+}
 
-  return stored;
+export function subscribeCanvasHydration(listener: (canvasId: string) => void): () => void {
+  return defaultStore.subscribeCanvasHydration(listener);
 }
 
-export function getAllStoredCanvasAnnotations(): Record<string, StoredAnnotation[]> {
-  const entries = Object.entries(annotationsByCanvasId)
-    .filter(([, annotations]) => Array.isArray(annotations) && annotations.length > 0)
-    .map(([canvasId, annotations]) => [canvasId, annotations as StoredAnnotation[]]);
+export function getStoredCanvasAnnotations(canvasId?: string): StoredAnnotation[] {
+  return defaultStore.getStoredCanvasAnnotations(canvasId);
+}
 
-  return Object.fromEntries(entries);
+export function getAllStoredCanvasAnnotations(): Record<string, StoredAnnotation[]> {
+  return defaultStore.getAllStoredCanvasAnnotations();
 }
 
 export function useCanvasRuntimeState(canvasId?: string): CanvasRuntimeState {
+  const store = useCloverMarkStore();
   return React.useSyncExternalStore(
-    subscribeRuntimeState,
-    () => {
-      if (!canvasId) {
-        return DEFAULT_CANVAS_RUNTIME_STATE;
-      }
-
-      return state.byCanvasId[canvasId] ?? DEFAULT_CANVAS_RUNTIME_STATE;
-    },
+    store.subscribeRuntimeState,
+    () => store.getCanvasRuntimeState(canvasId),
     () => DEFAULT_CANVAS_RUNTIME_STATE,
   );
 }
 
 export function __resetRuntimeForTests(): void {
-  state = { byCanvasId: {} };
-
-  Object.keys(annotatorsByCanvasId).forEach((key) => {
-    delete annotatorsByCanvasId[key];
-  });
-
-  Object.keys(annotationsByCanvasId).forEach((key) => {
-    delete annotationsByCanvasId[key];
-  });
+  defaultStore.reset();
 }
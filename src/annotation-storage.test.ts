@@ -0,0 +1,197 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  __resetRuntimeForTests,
+  getStoredCanvasAnnotations,
+  setStoredCanvasAnnotations,
+  subscribeCanvasHydration,
+} from "./annotation-runtime";
+import {
+  createLocalStorageAdapter,
+  retainCanvasStorage,
+  type CloverMarkStorageAdapter,
+} from "./annotation-storage";
+
+function createMemoryStorage() {
+  const entries = new Map<string, string>();
+  return {
+    entries,
+    getItem: (key: string) => entries.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      entries.set(key, value);
+    },
+    removeItem: (key: string) => {
+      entries.delete(key);
+    },
+  };
+}
+
+function flushPromises() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("annotation-storage", () => {
+  beforeEach(() => {
+    __resetRuntimeForTests();
+  });
+
+  it("round-trips canvas annotations through localStorage", async () => {
+    const storage = createMemoryStorage();
+    const adapter = createLocalStorageAdapter({ storage });
+    const key = { manifestId: "https://example.org/manifest", canvasId: "https://example.org/canvas/1" };
+
+    await adapter.save(key, [{ id: "anno-1", motivation: "commenting" }]);
+    expect(storage.entries.size).toBe(1);
+    expect(await adapter.load(key)).toEqual([{ id: "anno-1", motivation: "commenting" }]);
+    expect(await adapter.load({ ...key, canvasId: "other" })).toBeUndefined();
+
+    await adapter.save(key, []);
+    expect(storage.entries.size).toBe(0);
+  });
+
+  it("hydrates an empty canvas from storage and saves later edits", async () => {
+    const storage = createMemoryStorage();
+    const adapter = createLocalStorageAdapter({ storage });
+    const key = { manifestId: "manifest", canvasId: "canvas-a" };
+    await adapter.save(key, [{ id: "anno-1" }]);
+
+    const hydrated: string[] = [];
+    subscribeCanvasHydration((canvasId) => hydrated.push(canvasId));
+    const release = retainCanvasStorage({ adapter, ...key });
+    await flushPromises();
+
+    expect(hydrated).toEqual(["canvas-a"]);
+    expect(getStoredCanvasAnnotations("canvas-a")).toEqual([{ id: "anno-1" }]);
+
+    setStoredCanvasAnnotations("canvas-a", [{ id: "anno-1" }, { id: "anno-2" }]);
+    await flushPromises();
+    expect(await adapter.load(key)).toEqual([{ id: "anno-1" }, { id: "anno-2" }]);
+
+    release();
+    setStoredCanvasAnnotations("canvas-a", []);
+    await flushPromises();
+    expect(await adapter.load(key)).toEqual([{ id: "anno-1" }, { id: "anno-2" }]);
+  });
+
+  it("keeps edits made while loading and reports save failures", async () => {
+    let resolveLoad: (value: undefined) => void = () => undefined;
+    const saves: unknown[] = [];
+    const adapter: CloverMarkStorageAdapter = {
+      load: () => new Promise((resolve) => {
+        resolveLoad = resolve;
+      }),
+      save: async (_key, annotations) => {
+        saves.push(annotations);
+        throw new Error("quota exceeded");
+      },
+    };
+    const errors: unknown[] = [];
+
+    const release = retainCanvasStorage({
+      adapter,
+      manifestId: "manifest",
+      canvasId: "canvas-a",
+      onError: (error) => errors.push(error),
+    });
+    setStoredCanvasAnnotations("canvas-a", [{ id: "anno-1" }]);
+    await flushPromises();
+    expect(saves).toEqual([]);
+
+    resolveLoad(undefined);
+    await flushPromises();
+    expect(saves).toEqual([[{ id: "anno-1" }]]);
+    expect(errors).toHaveLength(1);
+    expect((errors[0] as Error).message).toBe("quota exceeded");
+    release();
+  });
+
+  it("merges edits made while loading into the stored annotations", async () => {
+    const storage = createMemoryStorage();
+    const stored = createLocalStorageAdapter({ storage });
+    const key = { manifestId: "manifest", canvasId: "canvas-a" };
+    await stored.save(key, [{ id: "anno-1", motivation: "tagging" }, { id: "anno-2" }]);
+    let resolveLoad: () => void = () => undefined;
+    const adapter: CloverMarkStorageAdapter = {
+      load: (loadKey) =>
+        new Promise((resolve) => {
+          resolveLoad = () => resolve(stored.load(loadKey));
+        }),
+      save: stored.save,
+    };
+
+    const release = retainCanvasStorage({ adapter, ...key });
+    setStoredCanvasAnnotations("canvas-a", [{ id: "anno-1", motivation: "commenting" }, { id: "anno-3" }]);
+    resolveLoad();
+    await flushPromises();
+
+    const merged = [{ id: "anno-1", motivation: "commenting" }, { id: "anno-2" }, { id: "anno-3" }];
+    expect(getStoredCanvasAnnotations("canvas-a")).toEqual(merged);
+    expect(await stored.load(key)).toEqual(merged);
+    release();
+  });
+
+  it("saves nothing after a failed load until a load succeeds", async () => {
+    const storage = createMemoryStorage();
+    const stored = createLocalStorageAdapter({ storage });
+    const key = { manifestId: "manifest", canvasId: "canvas-a" };
+    await stored.save(key, [{ id: "anno-1" }]);
+    let failing = true;
+    const saves: unknown[] = [];
+    const adapter: CloverMarkStorageAdapter = {
+      load: async (loadKey) => {
+        if (failing) {
+          throw new Error("database is locked");
+        }
+        return stored.load(loadKey);
+      },
+      save: async (saveKey, annotations) => {
+        saves.push(annotations);
+        await stored.save(saveKey, annotations);
+      },
+    };
+    const errors: unknown[] = [];
+
+    const release = retainCanvasStorage({ adapter, ...key, onError: (error) => errors.push(error) });
+    await flushPromises();
+    setStoredCanvasAnnotations("canvas-a", [{ id: "anno-2" }]);
+    await flushPromises();
+    expect(errors).toHaveLength(2);
+    expect(saves).toEqual([]);
+
+    // The next edit retries the load and saves the merged set.
+    failing = false;
+    setStoredCanvasAnnotations("canvas-a", [{ id: "anno-2" }, { id: "anno-3" }]);
+    await flushPromises();
+    expect(await stored.load(key)).toEqual([{ id: "anno-1" }, { id: "anno-2" }, { id: "anno-3" }]);
+    release();
+  });
+
+  it("reports a save that goes through after a failed one", async () => {
+    let failing = true;
+    const adapter: CloverMarkStorageAdapter = {
+      load: async () => undefined,
+      save: async () => {
+        if (failing) {
+          throw new Error("offline");
+        }
+      },
+    };
+    const events: string[] = [];
+
+    const release = retainCanvasStorage({
+      adapter,
+      manifestId: "manifest",
+      canvasId: "canvas-a",
+      onError: () => events.push("error"),
+      onSaved: () => events.push("saved"),
+    });
+    setStoredCanvasAnnotations("canvas-a", [{ id: "anno-1" }]);
+    await flushPromises();
+    expect(events).toEqual(["error"]);
+
+    failing = false;
+    setStoredCanvasAnnotations("canvas-a", [{ id: "anno-1" }, { id: "anno-2" }]);
+    await flushPromises();
+    expect(events).toEqual(["error", "saved"]);
+    release();
+  });
+});
@@ -0,0 +1,376 @@
+import * as React from "react";
+import {
+  type CloverMarkStore,
+  type StoredAnnotation,
+  getDefaultCloverMarkStore,
+  useCloverMarkStore,
+} from "./annotation-runtime";
+
+export type CloverMarkStorageKey = {
+  manifestId: string;
+  canvasId: string;
+};
+
+export type CloverMarkStorageAdapter = {
+  load: (key: CloverMarkStorageKey) => Promise<StoredAnnotation[] | undefined>;
+  save: (key: CloverMarkStorageKey, annotations: StoredAnnotation[]) => Promise<void>;
+};
+
+type StorageLike = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+type StoredCanvasRecord = {
+  manifestId: string;
+  canvasId: string;
+  annotations: StoredAnnotation[];
+  updated: string;
+};
+
+type CanvasStorageBinding = {
+  refCount: number;
+  errorListeners: Set<(error: unknown) => void>;
+  savedListeners: Set<() => void>;
+  release: () => void;
+};
+
+const DEFAULT_LOCAL_STORAGE_PREFIX = "clover-mark:annotations";
+const DEFAULT_INDEXED_DB_NAME = "clover-mark";
+const DEFAULT_INDEXED_DB_STORE = "canvas-annotations";
+
+const bindingsByStore = new WeakMap<
+  CloverMarkStore,
+  WeakMap<CloverMarkStorageAdapter, Map<string, CanvasStorageBinding>>
+>();
+
+function normalizeStoredAnnotations(value: unknown): StoredAnnotation[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  return value.filter(
+    (annotation): annotation is StoredAnnotation =>
+      Boolean(annotation) &&
+      typeof annotation === "object" &&
+      typeof (annotation as { id?: unknown }).id === "string",
+  );
+}
+
+function buildLocalStorageKey(prefix: string, key: CloverMarkStorageKey): string {
+  return `${prefix}:${encodeURIComponent(key.manifestId)}:${encodeURIComponent(key.canvasId)}`;
+}
+
+export function createLocalStorageAdapter(
+  options: { prefix?: string; storage?: StorageLike } = {},
+): CloverMarkStorageAdapter {
+  const prefix = options.prefix?.trim() || DEFAULT_LOCAL_STORAGE_PREFIX;
+  const resolveStorage = (): StorageLike => {
+    if (options.storage) {
+      return options.storage;
+    }
+    if (typeof window === "undefined" || !window.localStorage) {
+      throw new Error("localStorage is not available in this environment.");
+    }
+    return window.localStorage;
+  };
+
+  return {
+    load: async (key) => {
+      const raw = resolveStorage().getItem(buildLocalStorageKey(prefix, key));
+      if (!raw) {
+        return undefined;
+      }
+
+      try {
+        const parsed = JSON.parse(raw) as Partial<StoredCanvasRecord> | unknown[];
+        return normalizeStoredAnnotations(
+          Array.isArray(parsed) ? parsed : parsed?.annotations,
+        );
+      } catch {
+        return undefined;
+      }
+    },
+    save: async (key, annotations) => {
+      const storage = resolveStorage();
+      const storageKey = buildLocalStorageKey(prefix, key);
+      if (annotations.length === 0) {
+        storage.removeItem(storageKey);
+        return;
+      }
+
+      const record: StoredCanvasRecord = {
+        ...key,
+        annotations,
+        updated: new Date().toISOString(),
+      };
+      storage.setItem(storageKey, JSON.stringify(record));
+    },
+  };
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed."));
+  });
+}
+
+export function createIndexedDbAdapter(
+  options: { databaseName?: string; storeName?: string; indexedDB?: IDBFactory } = {},
+): CloverMarkStorageAdapter {
+  const databaseName = options.databaseName?.trim() || DEFAULT_INDEXED_DB_NAME;
+  const storeName = options.storeName?.trim() || DEFAULT_INDEXED_DB_STORE;
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (databasePromise) {
+      return databasePromise;
+    }
+
+    const factory = options.indexedDB ?? (typeof indexedDB !== "undefined" ? indexedDB : undefined);
+    if (!factory) {
+      return Promise.reject(new Error("IndexedDB is not available in this environment."));
+    }
+
+    const request = factory.open(databaseName, 1);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(storeName)) {
+        database.createObjectStore(storeName, { keyPath: ["manifestId", "canvasId"] });
+      }
+    };
+
+    databasePromise = requestToPromise(request).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+    return databasePromise;
+  };
+
+  return {
+    load: async (key) => {
+      const database = await openDatabase();
+      const store = database.transaction(storeName, "readonly").objectStore(storeName);
+      const record = await requestToPromise(
+        store.get([key.manifestId, key.canvasId]) as IDBRequest<StoredCanvasRecord | undefined>,
+      );
+      return normalizeStoredAnnotations(record?.annotations);
+    },
+    save: async (key, annotations) => {
+      const database = await openDatabase();
+      const store = database.transaction(storeName, "readwrite").objectStore(storeName);
+      if (annotations.length === 0) {
+        await requestToPromise(store.delete([key.manifestId, key.canvasId]));
+        return;
+      }
+
+      const record: StoredCanvasRecord = {
+        ...key,
+        annotations,
+        updated: new Date().toISOString(),
+      };
+      await requestToPromise(store.put(record));
+    },
+  };
+}
+
+function bindCanvasStorage(
+  store: CloverMarkStore,
+  adapter: CloverMarkStorageAdapter,
+  key: CloverMarkStorageKey,
+  reportError: (error: unknown) => void,
+  reportSaved: () => void,
+): () => void {
+  let disposed = false;
+  let loaded = false;
+  let loading = false;
+  let writing = false;
+  let queued: StoredAnnotation[] | null = null;
+
+  const flush = async () => {
+    if (writing) {
+      return;
+    }
+
+    writing = true;
+    while (queued) {
+      const next = queued;
+      queued = null;
+      try {
+        await adapter.save(key, next);
+        if (!disposed) {
+          reportSaved();
+        }
+      } catch (error) {
+        reportError(error);
+      }
+    }
+    writing = false;
+  };
+
+  // Nothing is saved until a load succeeds, so a failed read never overwrites the persisted copy.
+  const load = async () => {
+    loading = true;
+    try {
+      const stored = await adapter.load(key);
+      if (disposed) {
+        return;
+      }
+
+      // Edits made while loading are merged into the persisted copy by id, and the result is saved below.
+      if (stored && stored.length > 0) {
+        const current = store.getStoredCanvasAnnotations(key.canvasId);
+        const currentById = new Map(current.map((annotation) => [annotation.id, annotation]));
+        const storedIds = new Set(stored.map((annotation) => annotation.id));
+        const merged = [
+          ...stored.map((annotation) => currentById.get(annotation.id) ?? annotation),
+          ...current.filter((annotation) => !storedIds.has(annotation.id)),
+        ];
+        queued = current.length > 0 ? merged : null;
+        store.hydrateStoredCanvasAnnotations(key.canvasId, merged);
+      }
+      loaded = true;
+    } catch (error) {
+      if (!disposed) {
+        reportError(error);
+      }
+    } finally {
+      loading = false;
+      if (!disposed && loaded && queued) {
+        void flush();
+      }
+    }
+  };
+
+  const enqueueSave = (annotations: StoredAnnotation[]) => {
+    queued = annotations;
+    if (loaded) {
+      void flush();
+    } else if (!loading) {
+      void load();
+    }
+  };
+
+  const unsubscribe = store.subscribeStoredAnnotations((canvasId, annotations) => {
+    if (canvasId === key.canvasId) {
+      enqueueSave(annotations);
+    }
+  });
+
+  void load();
+
+  return () => {
+    disposed = true;
+    unsubscribe();
+  };
+}
+
+export function retainCanvasStorage(options: {
+  adapter: CloverMarkStorageAdapter;
+  manifestId: string;
+  canvasId: string;
+  onError?: (error: unknown) => void;
+  // Called after each save that went through, so an earlier failure can be cleared.
+  onSaved?: () => void;
+  store?: CloverMarkStore;
+}): () => void {
+  const { adapter, manifestId, canvasId, onError, onSaved } = options;
+  const store = options.store ?? getDefaultCloverMarkStore();
+  let bindingsByAdapter = bindingsByStore.get(store);
+  if (!bindingsByAdapter) {
+    bindingsByAdapter = new WeakMap();
+    bindingsByStore.set(store, bindingsByAdapter);
+  }
+
+  let bindings = bindingsByAdapter.get(adapter);
+  if (!bindings) {
+    bindings = new Map();
+    bindingsByAdapter.set(adapter, bindings);
+  }
+
+  const bindingKey = `${manifestId}\n${canvasId}`;
+  let binding = bindings.get(bindingKey);
+  if (!binding) {
+    const errorListeners = new Set<(error: unknown) => void>();
+    const savedListeners = new Set<() => void>();
+    binding = {
+      refCount: 0,
+      errorListeners,
+      savedListeners,
+      release: bindCanvasStorage(
+        store,
+        adapter,
+        { manifestId, canvasId },
+        (error) => {
+          if (errorListeners.size === 0) {
+            console.error("CloverMark storage adapter failed", error);
+          }
+          errorListeners.forEach((listener) => listener(error));
+        },
+        () => savedListeners.forEach((listener) => listener()),
+      ),
+    };
+    bindings.set(bindingKey, binding);
+  }
+
+  const activeBinding = binding;
+  const activeBindings = bindings;
+  activeBinding.refCount += 1;
+  if (onError) {
+    activeBinding.errorListeners.add(onError);
+  }
+  if (onSaved) {
+    activeBinding.savedListeners.add(onSaved);
+  }
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+
+    released = true;
+    if (onError) {
+      activeBinding.errorListeners.delete(onError);
+    }
+    if (onSaved) {
+      activeBinding.savedListeners.delete(onSaved);
+    }
+    activeBinding.refCount -= 1;
+    if (activeBinding.refCount <= 0) {
+      activeBinding.release();
+      activeBindings.delete(bindingKey);
+    }
+  };
+}
+
+export function useCanvasStorage(
+  adapter: CloverMarkStorageAdapter | undefined,
+  manifestId: string | undefined,
+  canvasId: string | undefined,
+  onError?: (error: unknown) => void,
+  onSaved?: () => void,
+): void {
+  const store = useCloverMarkStore();
+  const onErrorRef = React.useRef(onError);
+  const onSavedRef = React.useRef(onSaved);
+  const hasErrorHandler = Boolean(onError);
+  const hasSavedHandler = Boolean(onSaved);
+  React.useEffect(() => {
+    onErrorRef.current = onError;
+    onSavedRef.current = onSaved;
+  }, [onError, onSaved]);
+
+  React.useEffect(() => {
+    if (!adapter || !manifestId || !canvasId) {
+      return;
+    }
+
+    return retainCanvasStorage({
+      adapter,
+      manifestId,
+      canvasId,
+      onError: hasErrorHandler ? (error) => onErrorRef.current?.(error) : undefined,
+      onSaved: hasSavedHandler ? () => onSavedRef.current?.() : undefined,
+      store,
+    });
+  }, [adapter, canvasId, hasErrorHandler, hasSavedHandler, manifestId, store]);
+}
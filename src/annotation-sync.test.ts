@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { type StoredAnnotation, createCloverMarkStore } from "./annotation-runtime";
+import { type BroadcastChannelLike, bindBroadcastSync, retainBroadcastSync } from "./annotation-sync";
+import { hydrateAnnotator } from "./hydration-sync";
+import { createMediaCanvasAnnotator } from "./media-annotator";
+
+function createChannelHub(schedule: (deliver: () => void) => void = (deliver) => deliver()) {
+  const channels = new Set<BroadcastChannelLike>();
+  return (): BroadcastChannelLike => {
+    const channel: BroadcastChannelLike = {
+      onmessage: null,
+      postMessage: (message) => {
+        const data = JSON.parse(JSON.stringify(message)) as unknown;
+        channels.forEach((other) => {
+          if (other !== channel) {
+            schedule(() => other.onmessage?.({ data } as MessageEvent));
+          }
+        });
+      },
+      close: () => {
+        channels.delete(channel);
+      },
+    };
+    channels.add(channel);
+    return channel;
+  };
+}
+
+describe("cross-tab sync", () => {
+  it("propagates create, update, delete and selection to the other tab", () => {
+    const createChannel = createChannelHub();
+    const storeA = createCloverMarkStore();
+    const storeB = createCloverMarkStore();
+    const stopA = bindBroadcastSync(storeA, { createChannel, tabId: "a" });
+    const stopB = bindBroadcastSync(storeB, { createChannel, tabId: "b" });
+    const annotatorA = createMediaCanvasAnnotator({ canvasId: "canvas-1", store: storeA });
+    const annotatorB = createMediaCanvasAnnotator({ canvasId: "canvas-1", store: storeB });
+    storeA.registerCanvasAnnotator("canvas-1", annotatorA);
+    storeB.registerCanvasAnnotator("canvas-1", annotatorB);
+
+    annotatorA.createAnnotation({ id: "anno-1", bodies: [{ purpose: "tagging", value: "Ship" }] });
+    expect(annotatorB.getAnnotationById("anno-1")).toMatchObject({
+      bodies: [{ purpose: "tagging", value: "Ship" }],
+    });
+
+    annotatorB.updateAnnotation({ id: "anno-1", bodies: [{ purpose: "tagging", value: "Boat" }] });
+    expect(storeA.getStoredCanvasAnnotations("canvas-1")[0].bodies).toEqual([
+      { purpose: "tagging", value: "Boat" },
+    ]);
+
+    annotatorA.setSelected("anno-1");
+    expect(storeB.getCanvasRuntimeState("canvas-1").selectedLocalScholiumId).toBe("anno-1");
+
+    annotatorB.removeAnnotation("anno-1");
+    expect(storeA.getStoredCanvasAnnotations("canvas-1")).toEqual([]);
+
+    stopA();
+    stopB();
+    annotatorA.destroy();
+    annotatorB.destroy();
+  });
+
+  it("keeps the later edit when two tabs change the same annotation concurrently", () => {
+    const pending: Array<() => void> = [];
+    const deliverAll = () => pending.splice(0).forEach((deliver) => deliver());
+    const createChannel = createChannelHub((deliver) => pending.push(deliver));
+    const storeA = createCloverMarkStore();
+    const storeB = createCloverMarkStore();
+    let nowA = 1_000;
+    let nowB = 1_000;
+    const stopA = bindBroadcastSync(storeA, { createChannel, tabId: "a", now: () => nowA });
+    const stopB = bindBroadcastSync(storeB, { createChannel, tabId: "b", now: () => nowB });
+
+    storeA.setStoredCanvasAnnotations("canvas-1", [{ id: "anno-1", motivation: "tagging" }]);
+    deliverAll();
+
+    nowA = 3_000;
+    nowB = 2_000;
+    storeA.setStoredCanvasAnnotations("canvas-1", [{ id: "anno-1", motivation: "describing" }]);
+    storeB.setStoredCanvasAnnotations("canvas-1", [{ id: "anno-1", motivation: "commenting" }]);
+    deliverAll();
+
+    expect(storeA.getStoredCanvasAnnotations("canvas-1")).toEqual([
+      { id: "anno-1", motivation: "describing" },
+    ]);
+    expect(storeB.getStoredCanvasAnnotations("canvas-1")).toEqual([
+      { id: "anno-1", motivation: "describing", modified: new Date(3_000).toISOString() },
+    ]);
+
+    stopA();
+    stopB();
+  });
+
+  it("clears the other tab's annotator when the last annotation is deleted", () => {
+    const createChannel = createChannelHub();
+    const storeA = createCloverMarkStore();
+    const storeB = createCloverMarkStore();
+    const stopA = bindBroadcastSync(storeA, { createChannel, tabId: "a" });
+    const stopB = bindBroadcastSync(storeB, { createChannel, tabId: "b" });
+    // Stands in for the Annotorious instance the bridge hydrates in tab B.
+    let shown: StoredAnnotation[] = [];
+    const annotatorB = {
+      getAnnotations: () => shown,
+      setAnnotations: (next: StoredAnnotation[]) => {
+        shown = next;
+      },
+    };
+    const unsubscribe = storeB.subscribeCanvasHydration((canvasId) => {
+      hydrateAnnotator(annotatorB, storeB.getStoredCanvasAnnotations(canvasId));
+    });
+
+    storeA.setStoredCanvasAnnotations("canvas-1", [{ id: "anno-1", motivation: "tagging" }]);
+    expect(shown.map((annotation) => annotation.id)).toEqual(["anno-1"]);
+
+    storeA.setStoredCanvasAnnotations("canvas-1", []);
+    expect(shown).toEqual([]);
+
+    unsubscribe();
+    stopA();
+    stopB();
+  });
+
+  it("shares one channel per store and closes it with the last release", () => {
+    let opened = 0;
+    let closed = 0;
+    const createChannel = (): BroadcastChannelLike => {
+      opened += 1;
+      return {
+        onmessage: null,
+        postMessage: () => undefined,
+        close: () => {
+          closed += 1;
+        },
+      };
+    };
+    const store = createCloverMarkStore();
+
+    const releaseBridge = retainBroadcastSync(store, { createChannel });
+    const releasePanel = retainBroadcastSync(store, { createChannel });
+    expect(opened).toBe(1);
+
+    releaseBridge();
+    releaseBridge();
+    expect(closed).toBe(0);
+    releasePanel();
+    expect(closed).toBe(1);
+
+    // A remount opens a fresh channel.
+    retainBroadcastSync(store, { createChannel })();
+    expect([opened, closed]).toEqual([2, 2]);
+  });
+});
@@ -0,0 +1,266 @@
+import * as React from "react";
+import {
+  type CloverMarkStore,
+  type StoredAnnotation,
+  useCloverMarkStore,
+} from "./annotation-runtime";
+import { diffStoredAnnotations } from "./annotation-history";
+
+export const DEFAULT_SYNC_CHANNEL_NAME = "clover-mark-sync";
+
+export type BroadcastChannelLike = {
+  postMessage: (message: unknown) => void;
+  close: () => void;
+  onmessage: ((event: MessageEvent) => void) | null;
+};
+
+export type BroadcastSyncOptions = {
+  channelName?: string;
+  createChannel?: (name: string) => BroadcastChannelLike;
+  tabId?: string;
+  now?: () => number;
+};
+
+type SyncedChange = {
+  id: string;
+  modified: string;
+  annotation?: StoredAnnotation;
+};
+
+type SyncMessage =
+  | { type: "changes"; tabId: string; canvasId: string; changes: SyncedChange[] }
+  | { type: "selection"; tabId: string; canvasId: string; annotationId: string | null };
+
+type Clock = {
+  modified: number;
+  tabId: string;
+};
+
+type SelectableAnnotatorLike = {
+  setSelected?: (arg?: string | string[], editable?: boolean) => void;
+};
+
+function buildTabId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+
+  return `tab-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function parseModified(value: unknown): number | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function isSyncMessage(value: unknown): value is SyncMessage {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const message = value as Record<string, unknown>;
+  if (typeof message.tabId !== "string" || typeof message.canvasId !== "string") {
+    return false;
+  }
+
+  return (
+    (message.type === "changes" && Array.isArray(message.changes)) ||
+    (message.type === "selection" &&
+      (typeof message.annotationId === "string" || message.annotationId === null))
+  );
+}
+
+// Mirrors store edits and selection between tabs; concurrent edits to one annotation resolve by latest `modified`.
+export function bindBroadcastSync(
+  store: CloverMarkStore,
+  options: BroadcastSyncOptions = {},
+): () => void {
+  const createChannel =
+    options.createChannel ??
+    (typeof BroadcastChannel === "function"
+      ? (name: string) => new BroadcastChannel(name) as BroadcastChannelLike
+      : undefined);
+  if (!createChannel) {
+    return () => undefined;
+  }
+
+  const channel = createChannel(options.channelName ?? DEFAULT_SYNC_CHANNEL_NAME);
+  const tabId = options.tabId ?? buildTabId();
+  const now = options.now ?? Date.now;
+  const clocks = new Map<string, Clock>();
+  const selectedByCanvasId: Record<string, string | null> = {};
+
+  const getClockKey = (canvasId: string, annotationId: string) => `${canvasId}\n${annotationId}`;
+
+  const stampLocalChange = (canvasId: string, annotationId: string): string => {
+    const key = getClockKey(canvasId, annotationId);
+    const known = clocks.get(key)?.modified ?? 0;
+    const modified = Math.max(now(), known + 1);
+    clocks.set(key, { modified, tabId });
+    return new Date(modified).toISOString();
+  };
+
+  const acceptsRemoteChange = (
+    canvasId: string,
+    change: SyncedChange,
+    remoteTabId: string,
+  ): boolean => {
+    const modified = parseModified(change.modified);
+    if (modified === undefined) {
+      return false;
+    }
+
+    const key = getClockKey(canvasId, change.id);
+    const local = store
+      .getStoredCanvasAnnotations(canvasId)
+      .find((annotation) => annotation.id === change.id);
+    const known =
+      clocks.get(key) ??
+      (parseModified(local?.modified) !== undefined
+        ? { modified: parseModified(local?.modified) as number, tabId }
+        : undefined);
+
+    if (
+      known &&
+      (known.modified > modified || (known.modified === modified && known.tabId >= remoteTabId))
+    ) {
+      return false;
+    }
+
+    clocks.set(key, { modified, tabId: remoteTabId });
+    return true;
+  };
+
+  const post = (message: SyncMessage) => {
+    try {
+      channel.postMessage(message);
+    } catch (error) {
+      console.error("CloverMark cross-tab sync failed", error);
+    }
+  };
+
+  const applyRemoteChanges = (message: Extract<SyncMessage, { type: "changes" }>) => {
+    const accepted = message.changes.filter((change) =>
+      acceptsRemoteChange(message.canvasId, change, message.tabId),
+    );
+    if (accepted.length === 0) {
+      return;
+    }
+
+    let next = [...store.getStoredCanvasAnnotations(message.canvasId)];
+    for (const change of accepted) {
+      const index = next.findIndex((annotation) => annotation.id === change.id);
+      if (!change.annotation) {
+        next = next.filter((annotation) => annotation.id !== change.id);
+      } else if (index >= 0) {
+        next[index] = change.annotation;
+      } else {
+        next.push(change.annotation);
+      }
+    }
+
+    // Hydration reaches mounted annotators without replaying history, storage or host callbacks in this tab.
+    store.hydrateStoredCanvasAnnotations(message.canvasId, next);
+  };
+
+  const applyRemoteSelection = (message: Extract<SyncMessage, { type: "selection" }>) => {
+    selectedByCanvasId[message.canvasId] = message.annotationId;
+    const annotator = store.getCanvasAnnotator(message.canvasId) as SelectableAnnotatorLike | undefined;
+    if (annotator?.setSelected) {
+      annotator.setSelected(message.annotationId ?? undefined);
+    } else {
+      store.setCanvasSelectedLocalScholiumId(message.canvasId, message.annotationId);
+    }
+  };
+
+  channel.onmessage = (event) => {
+    const message = event.data as unknown;
+    if (!isSyncMessage(message) || message.tabId === tabId) {
+      return;
+    }
+
+    if (message.type === "changes") {
+      applyRemoteChanges(message);
+    } else {
+      applyRemoteSelection(message);
+    }
+  };
+
+  const unsubscribeStored = store.subscribeStoredAnnotations((canvasId, annotations, previous) => {
+    const changes = diffStoredAnnotations(previous, annotations).map((change): SyncedChange => {
+      const modified = stampLocalChange(canvasId, change.id);
+      return change.after
+        ? { id: change.id, modified, annotation: { ...change.after, modified } }
+        : { id: change.id, modified };
+    });
+
+    if (changes.length > 0) {
+      post({ type: "changes", tabId, canvasId, changes });
+    }
+  });
+
+  const unsubscribeRuntime = store.subscribeRuntimeState(() => {
+    const { byCanvasId } = store.getRuntimeStateSnapshot();
+    for (const [canvasId, canvasState] of Object.entries(byCanvasId)) {
+      const annotationId = canvasState.selectedLocalScholiumId;
+      if ((selectedByCanvasId[canvasId] ?? null) === annotationId) {
+        continue;
+      }
+
+      selectedByCanvasId[canvasId] = annotationId;
+      post({ type: "selection", tabId, canvasId, annotationId });
+    }
+  });
+
+  return () => {
+    unsubscribeStored();
+    unsubscribeRuntime();
+    channel.onmessage = null;
+    channel.close();
+  };
+}
+
+const syncBindingsByStore = new WeakMap<CloverMarkStore, { refCount: number; release: () => void }>();
+
+// Shares one channel per store between every mounted component; the last release closes it.
+export function retainBroadcastSync(
+  store: CloverMarkStore,
+  options: BroadcastSyncOptions = {},
+): () => void {
+  let binding = syncBindingsByStore.get(store);
+  if (!binding) {
+    binding = { refCount: 0, release: bindBroadcastSync(store, options) };
+    syncBindingsByStore.set(store, binding);
+  }
+
+  const activeBinding = binding;
+  activeBinding.refCount += 1;
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+
+    released = true;
+    activeBinding.refCount -= 1;
+    if (activeBinding.refCount <= 0) {
+      activeBinding.release();
+      syncBindingsByStore.delete(store);
+    }
+  };
+}
+
+export function useBroadcastSync(sync: boolean | BroadcastSyncOptions | undefined): void {
+  const store = useCloverMarkStore();
+  React.useEffect(() => {
+    if (!sync) {
+      return;
+    }
+
+    return retainBroadcastSync(store, sync === true ? {} : sync);
+  }, [store, sync]);
+}
@@ -10,4 +10,9 @@ describe("annotations-bridge hydration sync guard", () => {
     expect(shouldSkipSyncOnHydration(1, true)).toBe(true);
     expect(shouldSkipSyncOnHydration(1, false)).toBe(false);
   });
+
+  it("replaces shown annotations with an empty set after a remote delete", () => {
+    expect(shouldSkipSyncOnHydration(0, true, 1)).toBe(true);
+    expect(shouldSkipSyncOnHydration(0, false, 1)).toBe(false);
+  });
 });
@@ -12,29 +12,34 @@ import "@annotorious/react/annotorious-react.css";
 import { useTranslation } from "react-i18next";
 import {
   type CanvasAnnotatorLike,
-  getStoredCanvasAnnotations,
-  registerCanvasAnnotator,
-  setCanvasBridgeState,
-  setCanvasLocalAnnotationCount,
-  setCanvasLocalCloverMarks,
-  setCanvasSelectedLocalScholiumId,
-  setStoredCanvasAnnotations,
+  type CloverMarkStore,
+  CloverMarkStoreContext,
+  getDefaultCloverMarkStore,
+  useCloverMarkStore,
   type LocalScholium,
   type StoredAnnotation,
 } from "./annotation-runtime";
+import { type CloverMarkStorageAdapter, useCanvasStorage } from "./annotation-storage";
+import { type BroadcastSyncOptions, useBroadcastSync } from "./annotation-sync";
+import { type CollaborationOptions, useCollaboration } from "./annotation-collab";
 import { applyDefaultMotivation, getPrimaryMotivation } from "./motivation";
-import { shouldSkipSyncOnHydration } from "./hydration-sync";
+import { type HydratableAnnotatorLike, hydrateAnnotator } from "./hydration-sync";
 import { ANNOTATIONS_I18N_NAMESPACE } from "./i18n";
 import { isWebVttBody } from "./webvtt";
 
 type ViewerStateLike = {
   activeCanvas?: string;
+  activeManifest?: string;
   openSeadragonViewer?: unknown;
 };
 
 type BridgePluginProps = {
   canvas?: { id?: string };
   defaultMotivation?: string | string[];
+  storage?: CloverMarkStorageAdapter;
+  store?: CloverMarkStore;
+  sync?: boolean | BroadcastSyncOptions;
+  collaboration?: CollaborationOptions;
   useViewerState: () => ViewerStateLike;
 };
 
@@ -340,6 +345,7 @@ function AnnotationRuntimeSync({
   canvasId: string;
   defaultMotivation?: string | string[];
 }) {
+  const store = useCloverMarkStore();
   const annotator = useAnnotator<AnnotoriousOpenSeadragonAnnotator>();
   const annotations = useAnnotations() as RuntimeAnnotation[];
   const selection = useSelection();
@@ -354,12 +360,12 @@ function AnnotationRuntimeSync({
   }, [canvasId]);
 
   React.useEffect(() => {
-    registerCanvasAnnotator(canvasId, (annotator as unknown as CanvasAnnotatorLike) ?? null);
+    store.registerCanvasAnnotator(canvasId, (annotator as unknown as CanvasAnnotatorLike) ?? null);
 
     return () => {
-      registerCanvasAnnotator(canvasId, null);
+      store.registerCanvasAnnotator(canvasId, null);
     };
-  }, [annotator, canvasId]);
+  }, [annotator, canvasId, store]);
 
   React.useEffect(() => {
     if (!annotator) {
@@ -367,24 +373,9 @@ function AnnotationRuntimeSync({
     }
 
     const hydrateFromStored = () => {
-      const stored = getStoredCanvasAnnotations(canvasIdRef.current);
-      const annotatorLike = annotator as unknown as {
-        setAnnotations?: (next: StoredAnnotation[], replace?: boolean) => void;
-        setVisible?: (visible: boolean) => void;
-      };
-
-      if (typeof annotatorLike.setVisible === "function") {
-        annotatorLike.setVisible(true);
-      }
-
-      if (
-        shouldSkipSyncOnHydration(
-          stored.length,
-          typeof annotatorLike.setAnnotations === "function",
-        )
-      ) {
+      const stored = store.getStoredCanvasAnnotations(canvasIdRef.current);
+      if (hydrateAnnotator(annotator as unknown as HydratableAnnotatorLike, stored)) {
         skipSyncRef.current = true;
-        annotatorLike.setAnnotations?.(stored, true);
       }
 
       hydratedRef.current = true;
@@ -404,11 +395,17 @@ function AnnotationRuntimeSync({
     };
 
     viewer?.addHandler?.("open", onOpen);
+    const unsubscribeHydration = store.subscribeCanvasHydration((hydratedCanvasId) => {
+      if (hydratedCanvasId === canvasIdRef.current) {
+        hydrateFromStored();
+      }
+    });
 
     return () => {
       viewer?.removeHandler?.("open", onOpen);
+      unsubscribeHydration();
     };
-  }, [annotator, canvasId]);
+  }, [annotator, canvasId, store]);
 
   React.useEffect(() => {
     if (!annotator) {
@@ -425,26 +422,12 @@ function AnnotationRuntimeSync({
       return;
     }
 
-    const stored = getStoredCanvasAnnotations(canvasIdRef.current);
-    const annotatorLike = annotator as unknown as {
-      setAnnotations?: (next: StoredAnnotation[], replace?: boolean) => void;
-      setVisible?: (visible: boolean) => void;
-    };
-
-    if (typeof annotatorLike.setVisible === "function") {
-      annotatorLike.setVisible(true);
-    }
-    if (
-      shouldSkipSyncOnHydration(
-        stored.length,
-        typeof annotatorLike.setAnnotations === "function",
-      )
-    ) {
+    const stored = store.getStoredCanvasAnnotations(canvasIdRef.current);
+    if (hydrateAnnotator(annotator as unknown as HydratableAnnotatorLike, stored)) {
       skipSyncRef.current = true;
-      annotatorLike.setAnnotations?.(stored, true);
     }
     hydratedRef.current = true;
-  }, [annotator, canvasId]);
+  }, [annotator, canvasId, store]);
 
   React.useEffect(() => {
     if (!hydratedRef.current) {
@@ -465,8 +448,8 @@ function AnnotationRuntimeSync({
       }
     });
 
-    setStoredCanvasAnnotations(stableCanvasId, nextAnnotations);
-    setCanvasLocalAnnotationCount(stableCanvasId, annotations.length);
+    store.setStoredCanvasAnnotations(stableCanvasId, nextAnnotations);
+    store.setCanvasLocalAnnotationCount(stableCanvasId, annotations.length);
 
     const nextCloverMarks = nextAnnotations.map((annotation) => {
       const runtimeAnnotation = annotation as RuntimeAnnotation;
@@ -486,8 +469,8 @@ function AnnotationRuntimeSync({
       } as LocalScholium;
     });
 
-    setCanvasLocalCloverMarks(stableCanvasId, nextCloverMarks);
-  }, [annotations, canvasId, defaultMotivation]);
+    store.setCanvasLocalCloverMarks(stableCanvasId, nextCloverMarks);
+  }, [annotations, canvasId, defaultMotivation, store]);
 
   React.useEffect(() => {
     if (!hydratedRef.current) {
@@ -495,19 +478,32 @@ function AnnotationRuntimeSync({
     }
 
     const selected = selection.selected?.[0]?.annotation?.id ?? null;
-    setCanvasSelectedLocalScholiumId(canvasIdRef.current, selected);
-  }, [canvasId, selection.selected]);
+    store.setCanvasSelectedLocalScholiumId(canvasIdRef.current, selected);
+  }, [canvasId, selection.selected, store]);
 
   return null;
 }
 
-export const AnnotationsBridge: React.FC<BridgePluginProps> = ({
+const AnnotationsBridgeContent: React.FC<Omit<BridgePluginProps, "store">> = ({
   canvas,
   defaultMotivation,
+  storage,
+  sync,
+  collaboration,
   useViewerState,
 }) => {
-  const { activeCanvas, openSeadragonViewer } = useViewerState();
+  const store = useCloverMarkStore();
+  const { activeCanvas, activeManifest, openSeadragonViewer } = useViewerState();
   const canvasId = canvas?.id ?? activeCanvas;
+  useCanvasStorage(storage, activeManifest, canvasId);
+  useBroadcastSync(sync);
+  useCollaboration(collaboration);
+
+  React.useEffect(() => {
+    if (canvasId) {
+      store.setCanvasManifestId(canvasId, activeManifest);
+    }
+  }, [activeManifest, canvasId, store]);
 
   React.useEffect(() => {
     if (!canvasId) {
@@ -515,12 +511,12 @@ export const AnnotationsBridge: React.FC<BridgePluginProps> = ({
     }
 
     if (!openSeadragonViewer) {
-      setCanvasBridgeState(canvasId, "none", false);
+      store.setCanvasBridgeState(canvasId, "none", false);
       return;
     }
 
-    setCanvasBridgeState(canvasId, "openseadragon", true);
-  }, [canvasId, openSeadragonViewer]);
+    store.setCanvasBridgeState(canvasId, "openseadragon", true);
+  }, [canvasId, openSeadragonViewer, store]);
 
   if (!canvasId || !openSeadragonViewer) {
     return null;
@@ -540,3 +536,9 @@ export const AnnotationsBridge: React.FC<BridgePluginProps> = ({
     </Annotorious>
   );
 };
+
+export const AnnotationsBridge: React.FC<BridgePluginProps> = ({ store, ...props }) => (
+  <CloverMarkStoreContext.Provider value={store ?? getDefaultCloverMarkStore()}>
+    <AnnotationsBridgeContent {...props} />
+  </CloverMarkStoreContext.Provider>
+);
@@ -3,19 +3,52 @@ import type { PluginInformationPanel } from "@samvera/clover-iiif";
 import { useTranslation } from "react-i18next";
 import { ANNOTATIONS_I18N_NAMESPACE } from "./i18n";
 import {
-  getAllStoredCanvasAnnotations,
-  getCanvasAnnotator,
-  registerCanvasAnnotator,
-  setCanvasBridgeState,
+  type CanvasAnnotatorLike,
+  type CloverMarkStore,
+  CloverMarkStoreContext,
+  getDefaultCloverMarkStore,
   useCanvasRuntimeState,
+  useCloverMarkStore,
 } from "./annotation-runtime";
 import {
+  buildAnnotationListExport,
   buildAnnotationPageExport,
+  buildWebAnnotationCollectionExport,
+  downloadAnnotatedManifestExport,
   downloadAnnotationPageExport,
-  downloadWebVttExport,
+  downloadWebAnnotationCollectionExport,
+  downloadCaptionExport,
 } from "./annotation-export";
 import { getPrimaryMotivation } from "./motivation";
-import { buildTemporalTarget, createMediaCanvasAnnotator } from "./media-annotator";
+import {
+  buildAnnotationId,
+  buildTemporalTarget,
+  createMediaCanvasAnnotator,
+} from "./media-annotator";
+import { type CloverMarkStorageAdapter, useCanvasStorage } from "./annotation-storage";
+import { useCanvasHistory } from "./annotation-history";
+import { type CollaborationOptions, useCanvasPresence, useCollaboration } from "./annotation-collab";
+import { type BroadcastSyncOptions, useBroadcastSync } from "./annotation-sync";
+import {
+  type AnnotationConflict,
+  type AnnotationConflictResolution,
+  applyResolvedAnnotation,
+  getConflictFields,
+  isOutboxAwareStorage,
+  useOutboxState,
+} from "./annotation-outbox";
+import {
+  type AnnotationExportCallback,
+  type AnnotationExportFormat,
+  invokeHostCallback,
+} from "./annotation-events";
+import { importAnnotationPage } from "./annotation-import";
+import { buildWebVttBundle, downloadWebVttBundle } from "./webvtt-bundle";
+import {
+  adoptManifestAnnotation,
+  buildAnnotatedManifestExport,
+  getManifestCanvasAnnotations,
+} from "./native-annotations";
 import {
   loadParakeetTranscriber,
   PARAKEET_SAMPLE_RATE,
@@ -29,11 +62,69 @@ import {
   ViewerAudioRecorder,
 } from "./stt-streaming";
 import {
-  isWebVttBody,
-  parseWebVttCues,
+  applyWordsToWebVttCues,
   segmentWordsIntoWebVttCues,
+  getWebVttCueVoice,
+  parseWebVttDocument,
   serializeWebVttCues,
+  serializeWebVttDocument,
+  type WebVttBlock,
+  type WebVttCue,
+  type WebVttDocument,
 } from "./webvtt";
+import {
+  applyCaptionLintFix,
+  applyCueTimingToWords,
+  lintCaptionCues,
+  type CaptionLintFinding,
+  type CaptionLintFix,
+  type CaptionLintOptions,
+  type CaptionLintRule,
+} from "./caption-lint";
+import {
+  CAPTION_FRAME_RATES,
+  applyCaptionTiming,
+  applyTimingToWords,
+  buildDriftTiming,
+  buildFrameRateTiming,
+  buildOffsetTiming,
+  isIdentityCaptionTiming,
+  type CaptionFrameRate,
+  type CaptionTimingTransform,
+} from "./caption-timing";
+import { getCaptionLanguageRules } from "./caption-languages";
+import { alignTranscriptToWords, realignTranscriptWords } from "./transcript-alignment";
+import {
+  deleteTimedWord,
+  insertTimedWord,
+  mergeTimedWords,
+  moveTimedWordEdge,
+  orderTimedWords,
+  splitTimedWord,
+  type TimedWordEdge,
+} from "./timed-word-editing";
+import {
+  TIMED_WORDS_SCHEMA,
+  assignSpeakerToWords,
+  buildSpeakersFromLabels,
+  getSpeakerLabels,
+  groupWordsByCue,
+  isTimedWordsSchema,
+  mergeTimedWordPayloads,
+  normalizeTimedWordsSpeakers,
+  type TimedWordsSpeaker,
+} from "./timed-words";
+import {
+  CAPTION_FORMAT_EXTENSIONS,
+  CAPTION_FORMAT_MEDIA_TYPES,
+  CAPTION_FORMATS,
+  type CaptionFormat,
+  detectCaptionFormat,
+  getTtmlLanguage,
+  isCaptionBody,
+  parseCaptionCues,
+  serializeCaptionCues,
+} from "./captions";
 
 type CanvasLike = {
   id: string;
@@ -69,7 +160,7 @@ type ViewerStateLike = {
   activeCanvas?: string;
   activeManifest?: string;
   visibleAnnotations?: Array<unknown>;
-  vault: { get: (idOrRef: unknown) => unknown };
+  vault: { get: (idOrRef: unknown) => unknown; toPresentation3?: (ref: unknown) => unknown };
 };
 
 function ensureArray<T>(value: T | T[] | undefined): T[] {
@@ -95,6 +186,24 @@ function getFirstBody(body: unknown): Record<string, unknown> | undefined {
 
 type VaultLike = { get: (idOrRef: any) => unknown };
 
+function getConflictBodyLines(annotation: { bodies?: unknown[]; body?: unknown } | null): string[] {
+  if (!annotation) {
+    return [];
+  }
+
+  return ensureArray(annotation.bodies ?? (annotation.body as unknown[] | undefined))
+    .map((body) => {
+      if (!body || typeof body !== "object") {
+        return "";
+      }
+      const { purpose, language, value } = body as AnnotationBody;
+      const prefix = [purpose, language ? `[${language}]` : undefined].filter(Boolean).join(" ");
+      const text = typeof value === "string" ? value : "";
+      return prefix ? `${prefix}: ${text}` : text;
+    })
+    .filter((line) => line.length > 0);
+}
+
 function detectCanvasMediaType(canvas: CanvasLike, vault: VaultLike): CanvasMediaType {
   const firstPageRef = canvas.items?.[0];
   const page = firstPageRef
@@ -197,7 +306,7 @@ function getTranslationBodies(
       return acc;
     }
 
-    if (isWebVttBody(body)) {
+    if (isCaptionBody(body)) {
       return acc;
     }
 
@@ -229,7 +338,7 @@ function replaceSupplementingBodies(
   translations: Array<{ value: string; language?: string }>,
 ) {
   const preserved = bodies.filter(
-    (body) => body.purpose !== "supplementing" || isWebVttBody(body),
+    (body) => body.purpose !== "supplementing" || isCaptionBody(body),
   );
 
   const normalizedTranslations = translations
@@ -262,10 +371,23 @@ function replaceSupplementingBodies(
   return [...preserved, ...normalizedTranslations];
 }
 
-const STT_TIMED_WORDS_SCHEMA = "clover.parakeet.word_timestamps.v1";
+const STT_TIMED_WORDS_SCHEMA = TIMED_WORDS_SCHEMA;
 const STT_TIMED_WORDS_BODY_PURPOSE = "describing";
 const STT_TIMED_WORDS_BODY_FORMAT = "application/json";
 const WEBVTT_BODY_FORMAT = "text/vtt";
+const CAPTION_FORMAT_LABELS: Record<CaptionFormat, string> = {
+  webvtt: "WebVTT",
+  srt: "SRT",
+  ttml: "TTML",
+  sbv: "SBV",
+};
+// DFXP is the older name for TTML and often ships as plain .xml.
+const CAPTION_IMPORT_ACCEPT = [
+  ...Object.values(CAPTION_FORMAT_EXTENSIONS).map((extension) => `.${extension}`),
+  ".dfxp",
+  ".xml",
+  ...Object.values(CAPTION_FORMAT_MEDIA_TYPES),
+].join(",");
 
 type TimedTranscriptStorage = "json" | "vtt";
 
@@ -274,16 +396,34 @@ type TimedTranscriptWord = {
   start_time: number;
   end_time: number;
   confidence?: number;
+  speaker?: string;
+  // Set by transcript alignment when the timing is interpolated; cleared once the word is edited.
+  needs_review?: boolean;
 };
 
 type TimedTranscriptPayload = {
   schema: typeof STT_TIMED_WORDS_SCHEMA;
   language?: string;
+  speakers?: TimedWordsSpeaker[];
   words: TimedTranscriptWord[];
+  // Set when read from a caption body: each word stands for one of these cues.
+  captionDocument?: WebVttDocument;
 };
 
 type RemoteWebVttPayloadById = Record<string, TimedTranscriptPayload | null>;
 
+type TimingDraft = {
+  mode: "offset" | "drift" | "frameRate";
+  offset: string;
+  // Drift anchors: 1-based word numbers and the times those words should start at.
+  firstWord: string;
+  firstTime: string;
+  secondWord: string;
+  secondTime: string;
+  fromRate: CaptionFrameRate;
+  toRate: CaptionFrameRate;
+};
+
 function getAnnotationBodies(
   annotation: Partial<{ bodies?: AnnotationBody[]; body?: unknown }>,
 ): AnnotationBody[] {
@@ -395,12 +535,15 @@ function normalizeTimedTranscriptWords(rawWords: unknown): TimedTranscriptWord[]
       const confidence = typeof candidate.confidence === "number" && Number.isFinite(candidate.confidence)
         ? candidate.confidence
         : undefined;
+      const speaker = typeof candidate.speaker === "string" ? candidate.speaker.trim() : "";
 
       return {
         text,
         start_time: start,
         end_time: end,
         confidence,
+        ...(speaker ? { speaker } : {}),
+        ...(candidate.needs_review === true ? { needs_review: true } : {}),
       };
     })
     .filter((word): word is TimedTranscriptWord => Boolean(word));
@@ -498,10 +641,36 @@ function buildTimedTranscriptText(words: TimedTranscriptWord[]): string {
     .replace(/\s+\)/g, ")");
 }
 
+// The supplementing text that mirrors the timed words: the one in the transcript's language, else the first.
+function getTimedTranscriptTextIndex(
+  translations: Array<{ language?: string }>,
+  language: string | undefined,
+): number {
+  const matching = language
+    ? translations.findIndex((translation) => (translation.language ?? "").trim().toLowerCase() === language)
+    : -1;
+  if (matching >= 0) {
+    return matching;
+  }
+  return translations.length > 0 ? 0 : -1;
+}
+
+// Caption cues are kept as they were imported; only word-level transcripts are segmented.
+function getTimedTranscriptCues(payload: TimedTranscriptPayload): WebVttCue[] {
+  const speakerLabels = getSpeakerLabels(payload.speakers);
+  if (payload.captionDocument) {
+    return applyWordsToWebVttCues(payload.words, payload.captionDocument.cues, speakerLabels);
+  }
+  return segmentWordsIntoWebVttCues(payload.words, {
+    speakerLabels,
+    language: payload.language,
+  });
+}
+
 function parseTimedTranscriptPayload(rawValue: string): TimedTranscriptPayload | null {
   try {
     const parsed = JSON.parse(rawValue) as Record<string, unknown>;
-    if (parsed?.schema !== STT_TIMED_WORDS_SCHEMA) {
+    if (!isTimedWordsSchema(parsed?.schema)) {
       return null;
     }
 
@@ -511,10 +680,12 @@ function parseTimedTranscriptPayload(rawValue: string): TimedTranscriptPayload |
     }
 
     const language = normalizeLanguageValue(parsed.language);
+    const speakers = normalizeTimedWordsSpeakers(parsed.speakers);
 
     return {
       schema: STT_TIMED_WORDS_SCHEMA,
       language,
+      ...(speakers.length > 0 ? { speakers } : {}),
       words,
     };
   } catch {
@@ -522,8 +693,15 @@ function parseTimedTranscriptPayload(rawValue: string): TimedTranscriptPayload |
   }
 }
 
-function parseWebVttPayload(rawValue: string, language: unknown): TimedTranscriptPayload | null {
-  const cues = parseWebVttCues(rawValue);
+function parseCaptionPayload(
+  rawValue: string,
+  language: unknown,
+  formatHint?: unknown,
+): TimedTranscriptPayload | null {
+  const captionDocument: WebVttDocument = detectCaptionFormat(rawValue, formatHint) === "webvtt"
+    ? parseWebVttDocument(rawValue)
+    : { blocks: [], cues: parseCaptionCues(rawValue, formatHint) };
+  const { cues } = captionDocument;
   if (cues.length === 0) {
     return null;
   }
@@ -533,6 +711,7 @@ function parseWebVttPayload(rawValue: string, language: unknown): TimedTranscrip
       text: cue.text,
       start_time: cue.start_time,
       end_time: cue.end_time,
+      speaker: getWebVttCueVoice(cue),
     })),
   );
   if (words.length === 0) {
@@ -540,10 +719,13 @@ function parseWebVttPayload(rawValue: string, language: unknown): TimedTranscrip
   }
 
   const normalizedLanguage = normalizeLanguageValue(language);
+  const speakers = buildSpeakersFromLabels(words.map((word) => word.speaker));
   return {
     schema: STT_TIMED_WORDS_SCHEMA,
     ...(normalizedLanguage ? { language: normalizedLanguage } : {}),
+    ...(speakers.length > 0 ? { speakers } : {}),
     words,
+    captionDocument,
   };
 }
 
@@ -567,9 +749,9 @@ function getTimedTranscriptPayload(
       }
     }
 
-    if (isWebVttBody(body)) {
+    if (isCaptionBody(body)) {
       if (value.trim().length > 0) {
-        const payload = parseWebVttPayload(value, body.language);
+        const payload = parseCaptionPayload(value, body.language, body.format);
         if (payload) {
           return { payload, index, storage: "vtt" };
         }
@@ -609,12 +791,22 @@ function upsertTimedTranscriptPayloadBody(
   }
 
   const normalizedLanguage = normalizeLanguageValue(payload.language);
+  // Callers that only replace words (live STT) keep the speakers already on the body.
+  const speakers = payload.speakers ?? timed?.payload.speakers;
   const normalizedPayload: TimedTranscriptPayload = {
     schema: STT_TIMED_WORDS_SCHEMA,
     ...(normalizedLanguage ? { language: normalizedLanguage } : {}),
+    ...(speakers && speakers.length > 0 ? { speakers } : {}),
     words: payload.words,
   };
-  const existingPurposeCandidate = timed ? bodies[timed.index]?.purpose : undefined;
+  const cues = getTimedTranscriptCues({
+    ...normalizedPayload,
+    ...(payload.captionDocument ? { captionDocument: payload.captionDocument } : {}),
+  });
+  const existingBody = timed ? bodies[timed.index] : undefined;
+  const existingPurposeCandidate = existingBody?.purpose;
+  // Edited captions keep the format they were imported in.
+  const captionFormat = detectCaptionFormat(existingBody?.value, existingBody?.format) ?? "webvtt";
   const existingPurpose = typeof existingPurposeCandidate === "string"
     && existingPurposeCandidate.trim().length > 0
     ? existingPurposeCandidate
@@ -623,10 +815,10 @@ function upsertTimedTranscriptPayloadBody(
     ? {
       type: "TextualBody",
       purpose: existingPurpose,
-      format: WEBVTT_BODY_FORMAT,
-      value: serializeWebVttCues(
-        segmentWordsIntoWebVttCues(normalizedPayload.words),
-      ),
+      format: captionFormat === "webvtt" ? WEBVTT_BODY_FORMAT : CAPTION_FORMAT_MEDIA_TYPES[captionFormat],
+      value: captionFormat === "webvtt" && typeof existingBody?.value === "string"
+        ? serializeWebVttDocument({ ...parseWebVttDocument(existingBody.value), cues })
+        : serializeCaptionCues(cues, captionFormat, { language: normalizedPayload.language }),
       ...(normalizedPayload.language ? { language: normalizedPayload.language } : {}),
     }
     : {
@@ -648,6 +840,106 @@ function upsertTimedTranscriptPayloadBody(
   return nextBodies;
 }
 
+// Bodies copied onto a new annotation must not keep the ids tying them to the old one.
+function detachAnnotationBody({ id: _bodyId, annotation: _annotation, ...body }: AnnotationBody): AnnotationBody {
+  return body;
+}
+
+function buildTimedTranscriptBodies(
+  carriedBodies: AnnotationBody[],
+  payload: TimedTranscriptPayload,
+): AnnotationBody[] {
+  const referenced = new Set(payload.words.map((word) => word.speaker));
+  const speakers = payload.speakers?.filter((speaker) => referenced.has(speaker.id));
+  const bodies = replaceSupplementingBodies(carriedBodies, [
+    { value: buildTimedTranscriptText(payload.words), language: payload.language },
+  ]);
+  return upsertTimedTranscriptPayloadBody(bodies, {
+    schema: STT_TIMED_WORDS_SCHEMA,
+    ...(payload.language ? { language: payload.language } : {}),
+    ...(speakers && speakers.length > 0 ? { speakers } : {}),
+    words: payload.words,
+  });
+}
+
+// Every cue annotation keeps the transcript's tags; comments go to the first so none are lost.
+function buildCueAnnotationDrafts(
+  annotation: Record<string, unknown>,
+  canvasId: string,
+  payload: TimedTranscriptPayload,
+): Array<Record<string, unknown>> {
+  const cues = getTimedTranscriptCues(payload);
+  const wordsByCue = groupWordsByCue(payload.words, cues);
+  const bodies = getAnnotationBodies(annotation);
+  const tagging = bodies.filter((body) => body.purpose === "tagging").map(detachAnnotationBody);
+  const commenting = bodies.filter((body) => body.purpose === "commenting").map(detachAnnotationBody);
+
+  return cues
+    .map((cue, cueIndex) => ({ cue, words: wordsByCue[cueIndex] }))
+    .filter(({ words }) => words.length > 0)
+    .map(({ cue, words }, cueIndex) => ({
+      id: buildAnnotationId(),
+      motivation: annotation.motivation ?? "supplementing",
+      target: buildTemporalTarget(canvasId, cue.start_time, cue.end_time),
+      bodies: buildTimedTranscriptBodies(
+        cueIndex === 0 ? [...tagging, ...commenting] : tagging,
+        { ...payload, words },
+      ),
+    }));
+}
+
+// The merged annotation spans all sources, keeps the first one's tags and joins their comments.
+function buildMergedTranscriptDraft(
+  sources: Array<{ annotation: Record<string, unknown>; payload: TimedTranscriptPayload }>,
+  canvasId: string,
+): Record<string, unknown> | null {
+  const merged = mergeTimedWordPayloads(sources.map(({ payload }) => payload));
+  if (sources.length < 2 || merged.words.length === 0) {
+    return null;
+  }
+
+  const ranges = sources.map(({ annotation, payload }) =>
+    parseTemporalRangeFromTarget(annotation.target) ?? {
+      start: Math.min(...payload.words.map((word) => word.start_time)),
+      end: Math.max(...payload.words.map((word) => word.end_time)),
+    });
+  const sourceBodies = sources.map(({ annotation }) => getAnnotationBodies(annotation));
+  const tagging = sourceBodies
+    .find((bodies) => bodies.some((body) => body.purpose === "tagging" && body.value?.trim()))
+    ?.filter((body) => body.purpose === "tagging")
+    .map(detachAnnotationBody) ?? [];
+  const comments = Array.from(new Set(
+    sourceBodies.flatMap((bodies) =>
+      bodies.flatMap((body) => (body.purpose === "commenting" && body.value?.trim() ? [body.value.trim()] : [])),
+    ),
+  ));
+  const language = sources.find(({ payload }) => payload.language)?.payload.language;
+
+  return {
+    id: buildAnnotationId(),
+    motivation: sources[0].annotation.motivation ?? "supplementing",
+    target: buildTemporalTarget(
+      canvasId,
+      Math.min(...ranges.map((range) => range.start)),
+      Math.max(...ranges.map((range) => range.end)),
+    ),
+    bodies: buildTimedTranscriptBodies(
+      [
+        ...tagging,
+        ...(comments.length > 0
+          ? [{ type: "TextualBody", purpose: "commenting", value: comments.join("\n\n") }]
+          : []),
+      ],
+      {
+        schema: STT_TIMED_WORDS_SCHEMA,
+        ...(language ? { language } : {}),
+        speakers: merged.speakers,
+        words: merged.words,
+      },
+    ),
+  };
+}
+
 function normalizeLanguageOptions(
   languageOptions: string[] | undefined,
   defaultLanguage: string | undefined,
@@ -849,6 +1141,51 @@ function getMotivationLabel(value: string, t: (key: string) => string): string {
   return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
 }
 
+const CAPTION_FRAME_RATE_OPTIONS = Object.keys(CAPTION_FRAME_RATES) as CaptionFrameRate[];
+
+function buildDefaultTimingDraft(words: TimedTranscriptWord[]): TimingDraft {
+  const last = words[words.length - 1];
+  return {
+    mode: "offset",
+    offset: "",
+    firstWord: "1",
+    firstTime: words[0] ? String(words[0].start_time) : "",
+    secondWord: String(Math.max(1, words.length)),
+    secondTime: last ? String(last.start_time) : "",
+    fromRate: "23.976",
+    toRate: "25",
+  };
+}
+
+function buildTimingFromDraft(draft: TimingDraft, words: TimedTranscriptWord[]): CaptionTimingTransform | null {
+  const parseSeconds = (value: string) => (value.trim() ? Number(value) : Number.NaN);
+  if (draft.mode === "offset") {
+    return buildOffsetTiming(parseSeconds(draft.offset));
+  }
+  if (draft.mode === "frameRate") {
+    return buildFrameRateTiming(draft.fromRate, draft.toRate);
+  }
+
+  const first = words[Number.parseInt(draft.firstWord, 10) - 1];
+  const second = words[Number.parseInt(draft.secondWord, 10) - 1];
+  if (!first || !second) {
+    return null;
+  }
+  return buildDriftTiming(
+    { from: first.start_time, to: parseSeconds(draft.firstTime) },
+    { from: second.start_time, to: parseSeconds(draft.secondTime) },
+  );
+}
+
+const CAPTION_LINT_MESSAGE_KEYS: Record<CaptionLintRule, string> = {
+  "reading-speed": "captionLintReadingSpeed",
+  "line-length": "captionLintLineLength",
+  "min-duration": "captionLintMinDuration",
+  overlap: "captionLintOverlap",
+  "out-of-order": "captionLintOutOfOrder",
+  "min-gap": "captionLintMinGap",
+};
+
 function getSelectorLabel(value: string, t: (key: string) => string): string {
   const normalized = value.trim().toLowerCase();
   const keyBySelector: Record<string, string> = {
@@ -896,13 +1233,13 @@ type SttRecorderLike = {
   stop: () => Promise<void>;
 };
 
-type CanvasAnnotatorWithCreation = ReturnType<typeof getCanvasAnnotator> & {
+type CanvasAnnotatorWithCreation = (CanvasAnnotatorLike | undefined) & {
   createAnnotation?: (annotation: Record<string, unknown>) => unknown;
   addAnnotation?: (annotation: Record<string, unknown>) => void;
 };
 
 function isCanvasAnnotatorWithCreate(
-  annotator: ReturnType<typeof getCanvasAnnotator>,
+  annotator: CanvasAnnotatorLike | undefined,
 ): annotator is CanvasAnnotatorWithCreation & { createAnnotation: (annotation: Record<string, unknown>) => unknown } {
   return Boolean(
     annotator &&
@@ -911,7 +1248,7 @@ function isCanvasAnnotatorWithCreate(
 }
 
 function isCanvasAnnotatorWithAdd(
-  annotator: ReturnType<typeof getCanvasAnnotator>,
+  annotator: CanvasAnnotatorLike | undefined,
 ): annotator is CanvasAnnotatorWithCreation & { addAnnotation: (annotation: Record<string, unknown>) => void } {
   return Boolean(
     annotator &&
@@ -923,6 +1260,23 @@ function mergeTranscriptionText(fixedText: string, activeText: string): string {
   return [fixedText.trim(), activeText.trim()].filter((segment) => segment.length > 0).join(" ").trim();
 }
 
+// The canvas body URL first, then whatever the viewer's media element is actually playing.
+function getMediaSourceCandidates(
+  canvasMediaUrl: string | null,
+  mediaElement: HTMLMediaElement | null,
+): string[] {
+  const sourceCandidates = [
+    canvasMediaUrl,
+    mediaElement?.currentSrc || null,
+    mediaElement?.src || null,
+    ...Array.from(mediaElement?.querySelectorAll("source") ?? [])
+      .map((node) => node.getAttribute("src") || node.src || null),
+  ]
+    .map((value) => (typeof value === "string" ? value.trim() : ""))
+    .filter((value): value is string => value.length > 0);
+  return Array.from(new Set(sourceCandidates));
+}
+
 function getActiveMediaElement(): HTMLVideoElement | HTMLAudioElement | null {
   if (typeof document === "undefined") {
     return null;
@@ -1433,9 +1787,185 @@ type CloverMarkPanelProps = PluginInformationPanel & {
   enableStreamingStt?: boolean;
   sttModelVersion?: string;
   sttUpdateIntervalMs?: number;
+  storage?: CloverMarkStorageAdapter;
+  store?: CloverMarkStore;
+  sync?: boolean | BroadcastSyncOptions;
+  collaboration?: CollaborationOptions;
+  onExport?: AnnotationExportCallback;
+  annotatedManifestPageUrl?: (canvasId: string, canvasIndex: number) => string;
+  captionLint?: CaptionLintOptions;
+};
+
+type TimedWordTimelineProps = {
+  words: TimedTranscriptWord[];
+  onSeek: (time: number) => void;
+  onMoveEdge: (wordIndex: number, edge: TimedWordEdge, time: number) => void;
+};
+
+// Pixels per second of the word timeline; long transcripts scroll sideways.
+const TIMED_WORD_TIMELINE_SCALE = 80;
+const TIMED_WORD_TIMELINE_PADDING_SECONDS = 0.5;
+const TIMED_WORD_NUDGE_SECONDS = 0.05;
+const TIMED_WORD_PLACEHOLDER = "…";
+
+const TimedWordTimeline: React.FC<TimedWordTimelineProps> = ({ words, onSeek, onMoveEdge }) => {
+  const { t } = useTranslation(ANNOTATIONS_I18N_NAMESPACE);
+  const trackRef = React.useRef<HTMLDivElement | null>(null);
+  const [drag, setDrag] = React.useState<{ wordIndex: number; edge: TimedWordEdge; time: number } | null>(null);
+
+  const rangeStart = Math.max(0, (words[0]?.start_time ?? 0) - TIMED_WORD_TIMELINE_PADDING_SECONDS);
+  const rangeEnd = words.reduce((end, word) => Math.max(end, word.end_time), rangeStart)
+    + TIMED_WORD_TIMELINE_PADDING_SECONDS;
+  const duration = Math.max(rangeEnd - rangeStart, 1);
+  // While dragging, the words are shown as they would be after the move.
+  const shownWords = drag ? moveTimedWordEdge(words, drag.wordIndex, drag.edge, drag.time) : words;
+
+  const getTimeFromClientX = (clientX: number) => {
+    const bounds = trackRef.current?.getBoundingClientRect();
+    if (!bounds || bounds.width <= 0) {
+      return rangeStart;
+    }
+    const ratio = Math.min(1, Math.max(0, (clientX - bounds.left) / bounds.width));
+    return rangeStart + ratio * duration;
+  };
+
+  const handleEdgePointerDown = (
+    event: React.PointerEvent<HTMLButtonElement>,
+    wordIndex: number,
+    edge: TimedWordEdge,
+  ) => {
+    if (event.button !== 0) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ wordIndex, edge, time: getTimeFromClientX(event.clientX) });
+    event.preventDefault();
+  };
+
+  const handleEdgePointerMove = (event: React.PointerEvent<HTMLButtonElement>) => {
+    if (!drag) {
+      return;
+    }
+    setDrag({ ...drag, time: getTimeFromClientX(event.clientX) });
+  };
+
+  const handleEdgePointerEnd = (event: React.PointerEvent<HTMLButtonElement>) => {
+    if (!drag) {
+      return;
+    }
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+    setDrag(null);
+    onMoveEdge(drag.wordIndex, drag.edge, drag.time);
+  };
+
+  const handleEdgeKeyDown = (
+    event: React.KeyboardEvent<HTMLButtonElement>,
+    word: TimedTranscriptWord,
+    wordIndex: number,
+    edge: TimedWordEdge,
+  ) => {
+    if (event.key !== "ArrowLeft" && event.key !== "ArrowRight") {
+      return;
+    }
+    event.preventDefault();
+    const current = edge === "start" ? word.start_time : word.end_time;
+    const delta = event.key === "ArrowLeft" ? -TIMED_WORD_NUDGE_SECONDS : TIMED_WORD_NUDGE_SECONDS;
+    onMoveEdge(wordIndex, edge, current + delta);
+  };
+
+  const toPercent = (time: number) => `${((time - rangeStart) / duration) * 100}%`;
+
+  return (
+    <div
+      role="group"
+      aria-label={t("sttWordTimeline")}
+      style={{ display: "grid", gap: "0.2rem", fontSize: "0.75rem" }}
+    >
+      <strong>{t("sttWordTimeline")}</strong>
+      <span style={{ color: "#4b5563" }}>{t("sttWordTimelineHint")}</span>
+      <div style={{ overflowX: "auto", paddingBottom: "0.2rem" }}>
+        <div
+          ref={trackRef}
+          style={{
+            position: "relative",
+            height: "2rem",
+            minWidth: "100%",
+            width: `${duration * TIMED_WORD_TIMELINE_SCALE}px`,
+            background: "#ffffff",
+            border: "1px solid #d1d5db",
+            borderRadius: "0.3rem",
+          }}
+        >
+          {shownWords.map((word, wordIndex) => (
+            <div
+              key={`timeline-word-${wordIndex}`}
+              style={{
+                position: "absolute",
+                top: "0.25rem",
+                bottom: "0.25rem",
+                left: toPercent(word.start_time),
+                width: toPercent(rangeStart + word.end_time - word.start_time),
+                minWidth: "2px",
+                background: word.needs_review ? "#fde68a" : "#dbeafe",
+                border: `1px solid ${word.needs_review ? "#d97706" : "#93c5fd"}`,
+                borderRadius: "0.2rem",
+                boxSizing: "border-box",
+                overflow: "hidden",
+              }}
+            >
+              <span
+                onClick={() => onSeek(word.start_time)}
+                title={`${word.text} (${word.start_time.toFixed(2)}-${word.end_time.toFixed(2)}s)`}
+                style={{
+                  display: "block",
+                  padding: "0 0.35rem",
+                  fontSize: "0.68rem",
+                  lineHeight: "1.4rem",
+                  whiteSpace: "nowrap",
+                  cursor: "pointer",
+                }}
+              >
+                {word.text}
+              </span>
+              {(["start", "end"] as const).map((edge) => (
+                <button
+                  key={edge}
+                  type="button"
+                  role="separator"
+                  aria-orientation="vertical"
+                  aria-label={t(edge === "start" ? "sttWordStartEdge" : "sttWordEndEdge", { word: word.text })}
+                  aria-valuenow={edge === "start" ? word.start_time : word.end_time}
+                  onPointerDown={(event) => handleEdgePointerDown(event, wordIndex, edge)}
+                  onPointerMove={handleEdgePointerMove}
+                  onPointerUp={handleEdgePointerEnd}
+                  onPointerCancel={handleEdgePointerEnd}
+                  onKeyDown={(event) => handleEdgeKeyDown(event, words[wordIndex], wordIndex, edge)}
+                  style={{
+                    position: "absolute",
+                    top: 0,
+                    bottom: 0,
+                    [edge === "start" ? "left" : "right"]: 0,
+                    width: "5px",
+                    padding: 0,
+                    border: "none",
+                    background: "#2563eb",
+                    opacity: drag?.wordIndex === wordIndex && drag.edge === edge ? 0.9 : 0.35,
+                    cursor: "ew-resize",
+                    touchAction: "none",
+                  }}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
 };
 
-export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
+const CloverMarkPanelContent: React.FC<Omit<CloverMarkPanelProps, "store">> = ({
   canvas,
   defaultMotivation,
   motivationOptions,
@@ -1444,9 +1974,16 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
   enableStreamingStt,
   sttModelVersion,
   sttUpdateIntervalMs,
+  storage,
+  sync,
+  collaboration,
+  onExport,
+  annotatedManifestPageUrl,
+  captionLint,
   useViewerState,
 }) => {
   const { t } = useTranslation(ANNOTATIONS_I18N_NAMESPACE);
+  const store = useCloverMarkStore();
   const viewerState = useViewerState();
 
   const activeCanvasId = canvas?.id ?? viewerState.activeCanvas;
@@ -1468,10 +2005,22 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
   const isAvCanvas = mediaType === "audio" || mediaType === "video" || hasViewerMedia;
   const runtime = useCanvasRuntimeState(activeCanvasId);
   const [exportMessage, setExportMessage] = React.useState("");
+  // Scholia ticked for "merge into one transcript", in the order they were ticked.
+  const [mergeSelection, setMergeSelection] = React.useState<string[]>([]);
+  const [exportFormat, setExportFormat] =
+    React.useState<Extract<AnnotationExportFormat, "iiif" | "iiif2" | "w3c">>("iiif");
+  const [captionFormat, setCaptionFormat] = React.useState<CaptionFormat>("webvtt");
+  const [storageMessage, setStorageMessage] = React.useState("");
   const [remoteWebVttByBodyId, setRemoteWebVttByBodyId] = React.useState<RemoteWebVttPayloadById>({});
   const [translationDraftByAnnotation, setTranslationDraftByAnnotation] = React.useState<
     Record<string, { language: string; value: string }>
   >({});
+  const [speakerDraftByAnnotation, setSpeakerDraftByAnnotation] = React.useState<
+    Record<string, { from: string; to: string; label: string }>
+  >({});
+  const [timingDraftByAnnotation, setTimingDraftByAnnotation] = React.useState<
+    Record<string, TimingDraft>
+  >({});
   const [sttLoadState, setSttLoadState] = React.useState<SttLoadState>("not_loaded");
   const [sttStatus, setSttStatus] = React.useState("");
   const [sttBackend, setSttBackend] = React.useState<string | null>(null);
@@ -1484,6 +2033,10 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
   } | null>(null);
   const [isRecordingStt, setIsRecordingStt] = React.useState(false);
   const [sttRecordingAnnotationId, setSttRecordingAnnotationId] = React.useState<string | null>(null);
+  const [aligningAnnotationId, setAligningAnnotationId] = React.useState<string | null>(null);
+  const [alignmentStatusByAnnotation, setAlignmentStatusByAnnotation] = React.useState<
+    Record<string, string>
+  >({});
   const [sttInputSource, setSttInputSource] = React.useState<SttInputSource>("microphone");
   const [micLevel, setMicLevel] = React.useState(0);
   const [panelWidthPercent, setPanelWidthPercent] = React.useState<number>(() => loadPanelWidthPercent());
@@ -1523,6 +2076,62 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
         };
     }
   }, [sttLoadState, t]);
+  const handleStorageError = React.useCallback(
+    (error: unknown) => {
+      setStorageMessage(
+        t("storageError", {
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      );
+    },
+    [t],
+  );
+  const handleStorageSaved = React.useCallback(() => {
+    setStorageMessage("");
+  }, []);
+  useCanvasStorage(storage, viewerState.activeManifest, activeCanvasId, handleStorageError, handleStorageSaved);
+  useBroadcastSync(sync);
+  useCollaboration(collaboration);
+  const history = useCanvasHistory(activeCanvasId);
+  const canvasPresence = useCanvasPresence(activeCanvasId);
+  const outbox = useOutboxState(storage);
+  const activeConflict =
+    outbox.conflicts.find((conflict) => conflict.canvasId === activeCanvasId) ?? outbox.conflicts[0];
+  const [resolvingConflict, setResolvingConflict] = React.useState(false);
+  const conflictFields = React.useMemo(
+    () => (activeConflict ? getConflictFields(activeConflict) : []),
+    [activeConflict],
+  );
+  const [conflictChoices, setConflictChoices] = React.useState<Record<string, "local" | "remote">>({});
+  React.useEffect(() => {
+    setConflictChoices({});
+  }, [activeConflict]);
+  const handleResolveConflict = React.useCallback(
+    async (conflict: AnnotationConflict, resolution: AnnotationConflictResolution) => {
+      if (!isOutboxAwareStorage(storage)) {
+        return;
+      }
+
+      setResolvingConflict(true);
+      try {
+        const resolved = await storage.resolveConflict(conflict, resolution);
+        if (resolution !== "local") {
+          applyResolvedAnnotation(store, conflict.canvasId, conflict.localId, resolved);
+        }
+      } catch (error) {
+        handleStorageError(error);
+      } finally {
+        setResolvingConflict(false);
+      }
+    },
+    [handleStorageError, storage, store],
+  );
+
+  React.useEffect(() => {
+    if (activeCanvasId) {
+      store.setCanvasManifestId(activeCanvasId, viewerState.activeManifest);
+    }
+  }, [activeCanvasId, store, viewerState.activeManifest]);
   const panelManagedMediaAnnotatorCanvasRef = React.useRef<string | null>(null);
   const sttTranscriberRef = React.useRef<ParakeetTranscriber | null>(null);
   const sttRecorderRef = React.useRef<SttRecorderLike | null>(null);
@@ -1546,6 +2155,8 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
   const sttAutoLoadAttemptedRef = React.useRef(false);
   const panelRootRef = React.useRef<HTMLElement | null>(null);
   const panelResizeAnchorRef = React.useRef<{ left: number; width: number } | null>(null);
+  // Where the caret last was in a timed word input, so Split can cut the word there.
+  const timedWordCaretRef = React.useRef<{ annotationId: string; wordIndex: number; offset: number } | null>(null);
   const manifest = React.useMemo(
     () =>
       viewerState.activeManifest
@@ -1553,7 +2164,7 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
         : undefined,
     [viewerState.activeManifest, viewerState.vault],
   );
-  const annotator = getCanvasAnnotator(activeCanvasId);
+  const annotator = store.getCanvasAnnotator(activeCanvasId);
   const normalizedDefaultMotivation = getPrimaryMotivation(defaultMotivation);
   const availableMotivations = React.useMemo(() => {
     const normalized = (motivationOptions ?? [
@@ -1639,6 +2250,41 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
     };
   }, [activeCanvasId]);
 
+  React.useEffect(() => {
+    // Scoped to this viewer, so other viewers on the page keep their own shortcuts.
+    const panelRoot = panelRootRef.current;
+    const viewerContent = panelRoot?.closest(".clover-viewer-content");
+    const container = viewerContent instanceof HTMLElement ? viewerContent : panelRoot;
+    if (!container) {
+      return;
+    }
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== "z") {
+        return;
+      }
+
+      // Leave text fields to the browser's own undo stack.
+      const target = event.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+      ) {
+        return;
+      }
+
+      const handled = event.shiftKey ? history.redo() : history.undo();
+      if (handled) {
+        event.preventDefault();
+      }
+    };
+
+    container.addEventListener("keydown", onKeyDown);
+    return () => {
+      container.removeEventListener("keydown", onKeyDown);
+    };
+  }, [history.redo, history.undo]);
+
   React.useEffect(() => {
     if (!activeCanvasId) {
       return;
@@ -1648,7 +2294,7 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
       return;
     }
 
-    if (getCanvasAnnotator(activeCanvasId)) {
+    if (store.getCanvasAnnotator(activeCanvasId)) {
       return;
     }
 
@@ -1656,22 +2302,24 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
       canvasId: activeCanvasId,
       defaultMotivation: "transcribing",
       getPlayer: () => getActiveMediaElement(),
+      store,
     });
 
-    registerCanvasAnnotator(activeCanvasId, mediaAnnotator);
-    setCanvasBridgeState(activeCanvasId, "none", true);
+    store.registerCanvasAnnotator(activeCanvasId, mediaAnnotator);
+    store.setCanvasBridgeState(activeCanvasId, "none", true);
     panelManagedMediaAnnotatorCanvasRef.current = activeCanvasId;
 
     return () => {
+      mediaAnnotator.destroy();
       if (panelManagedMediaAnnotatorCanvasRef.current !== activeCanvasId) {
         return;
       }
 
-      registerCanvasAnnotator(activeCanvasId, null);
-      setCanvasBridgeState(activeCanvasId, "none", false);
+      store.registerCanvasAnnotator(activeCanvasId, null);
+      store.setCanvasBridgeState(activeCanvasId, "none", false);
       panelManagedMediaAnnotatorCanvasRef.current = null;
     };
-  }, [activeCanvasId, isAvCanvas]);
+  }, [activeCanvasId, isAvCanvas, store]);
 
   React.useEffect(() => {
     if (typeof window === "undefined") {
@@ -2376,16 +3024,10 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
         sttViewerSyncDetachRef.current = null;
 
         if (mode === "fast") {
-          const sourceCandidates = [
+          const uniqueSourceCandidates = getMediaSourceCandidates(
             activeCanvas ? getCanvasMediaBodyUrl(activeCanvas, viewerState.vault) : null,
-            mediaElement.currentSrc || null,
-            mediaElement.src || null,
-            ...Array.from(mediaElement.querySelectorAll("source"))
-              .map((node) => node.getAttribute("src") || node.src || null),
-          ]
-            .map((value) => (typeof value === "string" ? value.trim() : ""))
-            .filter((value): value is string => value.length > 0);
-          const uniqueSourceCandidates = Array.from(new Set(sourceCandidates));
+            mediaElement,
+          );
           const hasHlsCandidate = uniqueSourceCandidates.some((candidate) =>
             candidate.toLowerCase().includes(".m3u8"),
           );
@@ -2658,6 +3300,118 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
     t,
   ]);
 
+  // Runs the transcriber over the annotation's stretch of canvas audio and moves the existing
+  // transcript text onto the recognized word timings.
+  const handleAlignTranscriptToAudio = React.useCallback(async (annotationId: string) => {
+    if (!annotator || !annotationId || !sttEnabled || isRecordingStt || aligningAnnotationId) {
+      return;
+    }
+
+    const setAlignmentStatus = (message: string) =>
+      setAlignmentStatusByAnnotation((current) => ({ ...current, [annotationId]: message }));
+    const annotation = annotator.getAnnotationById(annotationId) as
+      | { bodies?: AnnotationBody[]; body?: unknown; target?: unknown }
+      | undefined;
+    if (!annotation) {
+      return;
+    }
+
+    const bodies = getAnnotationBodies(annotation);
+    const primary = getSupplementingBodies(bodies)[0];
+    const timed = getTimedTranscriptPayload(bodies, remoteWebVttByBodyId);
+    const text = primary?.value.trim() || timed?.payload.words.map((word) => word.text).join(" ") || "";
+    if (!text) {
+      setAlignmentStatus(t("sttAlignNoText"));
+      return;
+    }
+
+    const sourceCandidates = getMediaSourceCandidates(
+      activeCanvas ? getCanvasMediaBodyUrl(activeCanvas, viewerState.vault) : null,
+      getActiveMediaElement(),
+    );
+    if (sourceCandidates.length === 0) {
+      setAlignmentStatus(t("sttViewerUnavailable"));
+      return;
+    }
+
+    if (sttLoadState !== "ready") {
+      await handleLoadSttModel();
+    }
+    const transcriber = sttTranscriberRef.current;
+    if (!transcriber) {
+      return;
+    }
+
+    const range = parseTemporalRangeFromTarget(annotation.target);
+    const start = range?.start ?? 0;
+    setAligningAnnotationId(annotationId);
+    setAlignmentStatus(t("sttAligning"));
+    try {
+      const decodedAudio = await decodeViewerMediaAudio(sourceCandidates, start);
+      const audio = range && range.end > start
+        ? decodedAudio.slice(0, Math.ceil((range.end - start) * PARAKEET_SAMPLE_RATE))
+        : decodedAudio;
+      const handler = new SmartProgressiveStreamingHandler(transcriber, {
+        maxWindowSeconds: 15,
+        sentenceBufferSeconds: 2,
+      });
+      let recognizedWords: ParakeetWord[] = [];
+      for await (const partial of handler.transcribeBatch(audio)) {
+        recognizedWords = partial.words ?? recognizedWords;
+      }
+
+      const words = alignTranscriptToWords(
+        text,
+        recognizedWords.map((word) => ({
+          ...word,
+          start_time: word.start_time + start,
+          end_time: word.end_time + start,
+        })),
+        { start, end: start + audio.length / PARAKEET_SAMPLE_RATE },
+      );
+      if (words.length === 0) {
+        setAlignmentStatus(t("sttAlignNoText"));
+        return;
+      }
+
+      const current = annotator.getAnnotationById(annotationId) as
+        | { bodies?: AnnotationBody[]; body?: unknown; target?: unknown }
+        | undefined;
+      if (!current) {
+        return;
+      }
+      annotator.updateAnnotation({
+        ...(current as Record<string, unknown>),
+        id: annotationId,
+        bodies: upsertTimedTranscriptPayloadBody(getAnnotationBodies(current), {
+          schema: STT_TIMED_WORDS_SCHEMA,
+          language: primary?.language ?? timed?.payload.language,
+          words,
+        }),
+      });
+      const reviewCount = words.filter((word) => word.needs_review).length;
+      setAlignmentStatus(
+        t("sttAlignDone", { aligned: words.length - reviewCount, total: words.length, review: reviewCount }),
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setAlignmentStatus(t("sttAlignFailed", { message }));
+    } finally {
+      setAligningAnnotationId(null);
+    }
+  }, [
+    activeCanvas,
+    aligningAnnotationId,
+    annotator,
+    handleLoadSttModel,
+    isRecordingStt,
+    remoteWebVttByBodyId,
+    sttEnabled,
+    sttLoadState,
+    t,
+    viewerState.vault,
+  ]);
+
   const handleStopSttRecording = React.useCallback(async () => {
     if (!isRecordingStt) {
       return;
@@ -2696,7 +3450,7 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
       return;
     }
 
-    const pending = new Map<string, string | undefined>();
+    const pending = new Map<string, { language?: string; format?: unknown }>();
     for (const scholium of runtime.localCloverMarks) {
       const annotation = annotator.getAnnotationById(scholium.id) as
         | { bodies?: AnnotationBody[]; body?: unknown; target?: unknown }
@@ -2707,7 +3461,7 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
 
       const bodies = getAnnotationBodies(annotation);
       for (const body of bodies) {
-        if (!isWebVttBody(body)) {
+        if (!isCaptionBody(body)) {
           continue;
         }
 
@@ -2724,7 +3478,7 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
           continue;
         }
 
-        pending.set(bodyId, normalizeLanguageValue(body.language));
+        pending.set(bodyId, { language: normalizeLanguageValue(body.language), format: body.format });
       }
     }
 
@@ -2735,22 +3489,27 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
     let cancelled = false;
     void (async () => {
       const loaded: RemoteWebVttPayloadById = {};
-      for (const [bodyId, language] of pending.entries()) {
+      for (const [bodyId, { language, format }] of pending.entries()) {
         try {
           const response = await fetch(bodyId, {
             redirect: "follow",
             headers: {
-              Accept: "text/vtt, text/plain, */*",
+              Accept: `${Object.values(CAPTION_FORMAT_MEDIA_TYPES).join(", ")}, text/plain, */*`,
             },
           });
           if (!response.ok) {
-            throw new Error(`Failed to load VTT (${response.status})`);
+            throw new Error(`Failed to load captions (${response.status})`);
           }
 
           const text = await response.text();
-          loaded[bodyId] = parseWebVttPayload(text, language) ?? null;
+          // The body's own format wins over the response content type; the URL extension comes last.
+          const formatHint =
+            detectCaptionFormat(undefined, format) ??
+            detectCaptionFormat(undefined, response.headers.get("content-type")) ??
+            bodyId;
+          loaded[bodyId] = parseCaptionPayload(text, language, formatHint) ?? null;
         } catch (error) {
-          console.error("Failed to load remote WEBVTT body", bodyId, error);
+          console.error("Failed to load remote caption body", bodyId, error);
           loaded[bodyId] = null;
         }
       }
@@ -2771,7 +3530,7 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
   }, [annotator, remoteWebVttByBodyId, runtime.localCloverMarks]);
 
   const handleExportAnnotations = React.useCallback(() => {
-    const storedByCanvasIdForExport = getAllStoredCanvasAnnotations();
+    const storedByCanvasIdForExport = store.getAllStoredCanvasAnnotations();
     const totalAnnotations = Object.values(storedByCanvasIdForExport).reduce(
       (total, annotations) => total + annotations.length,
       0,
@@ -2782,15 +3541,105 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
       return;
     }
 
-    const annotationPage = buildAnnotationPageExport({
+    const exportOptions = {
       manifestId: viewerState.activeManifest,
       canvasOrder: exportCanvasOrder,
       storedByCanvasId: storedByCanvasIdForExport,
-    });
+    };
 
-    downloadAnnotationPageExport(annotationPage);
+    if (exportFormat === "w3c") {
+      downloadWebAnnotationCollectionExport(buildWebAnnotationCollectionExport(exportOptions));
+    } else if (exportFormat === "iiif2") {
+      downloadAnnotationPageExport(
+        buildAnnotationListExport(exportOptions),
+        "clover-mark-annotation-list.json",
+      );
+    } else {
+      downloadAnnotationPageExport(buildAnnotationPageExport(exportOptions));
+    }
     setExportMessage(t("exportSuccess", { count: totalAnnotations }));
-  }, [exportCanvasOrder, t, viewerState.activeManifest]);
+    if (onExport) {
+      for (const [canvasId, annotations] of Object.entries(storedByCanvasIdForExport)) {
+        annotations.forEach((annotation) =>
+          invokeHostCallback("onExport", () =>
+            onExport(annotation, canvasId, viewerState.activeManifest, exportFormat),
+          ),
+        );
+      }
+    }
+  }, [exportCanvasOrder, exportFormat, onExport, store, t, viewerState.activeManifest]);
+
+  const handleExportAnnotatedManifest = React.useCallback(() => {
+    const { toPresentation3 } = viewerState.vault;
+    if (!viewerState.activeManifest || !toPresentation3) {
+      return;
+    }
+
+    const manifestId = viewerState.activeManifest;
+    const storedByCanvasId = store.getAllStoredCanvasAnnotations();
+    let exported: ReturnType<typeof buildAnnotatedManifestExport>;
+    try {
+      exported = buildAnnotatedManifestExport({
+        vault: { toPresentation3: (ref) => toPresentation3.call(viewerState.vault, ref) },
+        manifestId,
+        storedByCanvasId,
+        pageUrl: annotatedManifestPageUrl,
+      });
+      downloadAnnotatedManifestExport(exported);
+      setExportMessage(t("exportManifestSuccess"));
+    } catch (error) {
+      setExportMessage(
+        t("exportManifestFailed", {
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      );
+      return;
+    }
+
+    if (onExport) {
+      // Only canvases of the exported manifest carry annotations into the download.
+      for (const canvas of (exported.manifest.items as Array<{ id?: unknown }> | undefined) ?? []) {
+        if (typeof canvas?.id !== "string") {
+          continue;
+        }
+        const canvasId = canvas.id;
+        (storedByCanvasId[canvasId] ?? []).forEach((annotation) =>
+          invokeHostCallback("onExport", () => onExport(annotation, canvasId, manifestId, "manifest")),
+        );
+      }
+    }
+  }, [annotatedManifestPageUrl, onExport, store, t, viewerState.activeManifest, viewerState.vault]);
+
+  const importInputRef = React.useRef<HTMLInputElement | null>(null);
+  const handleImportAnnotations = React.useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const input = event.currentTarget;
+      const file = input.files?.[0];
+      input.value = "";
+      if (!file) {
+        return;
+      }
+
+      try {
+        const result = importAnnotationPage(await file.text(), {
+          canvasIds: exportCanvasOrder,
+          store,
+        });
+        const messages = [t("importSuccess", { count: result.importedCount })];
+        if (result.unmatched.length > 0) {
+          messages.push(t("importUnmatched", { count: result.unmatched.length }));
+        }
+        setExportMessage(messages.join(" "));
+      } catch (error) {
+        setExportMessage(
+          t("importFailed", {
+            message: error instanceof Error ? error.message : String(error),
+          }),
+        );
+      }
+    },
+    [exportCanvasOrder, store, t],
+  );
 
   const handleFocusScholium = React.useCallback(
     (annotationId: string) => {
@@ -2808,9 +3657,211 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
     [annotator],
   );
 
-  const handleDeleteScholium = React.useCallback(
-    (annotationId: string) => {
-      if (!annotator || !annotationId) {
+  const manifestCanvasAnnotations = React.useMemo(
+    () =>
+      activeCanvas && activeCanvasId
+        ? getManifestCanvasAnnotations(viewerState.vault, activeCanvasId)
+        : [],
+    [activeCanvas, activeCanvasId, viewerState.vault],
+  );
+  const adoptedManifestAnnotationIds = React.useMemo(() => {
+    const adopted = new Set<string>();
+    if (!activeCanvasId) {
+      return adopted;
+    }
+    for (const annotation of store.getStoredCanvasAnnotations(activeCanvasId)) {
+      if (typeof annotation.via === "string") {
+        adopted.add(annotation.via);
+      }
+    }
+    return adopted;
+  }, [activeCanvasId, runtime.localCloverMarks, store]);
+
+  const handleAdoptManifestAnnotation = React.useCallback(
+    (annotation: Record<string, unknown>) => {
+      if (!annotator || !activeCanvasId) {
+        return;
+      }
+
+      const draft = adoptManifestAnnotation(annotation, activeCanvasId);
+      if (!draft) {
+        return;
+      }
+
+      if (isCanvasAnnotatorWithCreate(annotator)) {
+        annotator.createAnnotation(draft);
+      } else if (isCanvasAnnotatorWithAdd(annotator)) {
+        annotator.addAnnotation(draft);
+      } else {
+        return;
+      }
+      annotator.setSelected(draft.id, true);
+    },
+    [activeCanvasId, annotator],
+  );
+
+  const captionInputRef = React.useRef<HTMLInputElement | null>(null);
+  const handleImportCaptions = React.useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const input = event.currentTarget;
+      const file = input.files?.[0];
+      input.value = "";
+      if (!file || !annotator || !activeCanvasId) {
+        return;
+      }
+
+      try {
+        const text = await file.text();
+        const format = detectCaptionFormat(text, file.name);
+        const cues = parseCaptionCues(text, format);
+        if (cues.length === 0) {
+          setExportMessage(t("importCaptionsEmpty", { name: file.name }));
+          return;
+        }
+
+        // Bundle exports name files `<canvas>.<language>.<ext>`; TTML carries xml:lang itself.
+        const languageFromName = file.name.match(/\.([a-z]{2,3}(?:-[a-z0-9]{2,8})*)\.[^.]+$/i)?.[1];
+        const language = normalizeLanguageValue(
+          (format === "ttml" ? getTtmlLanguage(text) : undefined) ?? languageFromName,
+        );
+        const id = buildAnnotationId();
+        const draft = {
+          id,
+          motivation: "supplementing",
+          target: buildTemporalTarget(
+            activeCanvasId,
+            Math.min(...cues.map((cue) => cue.start_time)),
+            Math.max(...cues.map((cue) => cue.end_time)),
+          ),
+          bodies: [
+            { type: "TextualBody", purpose: "tagging", value: file.name },
+            {
+              type: "TextualBody",
+              purpose: "supplementing",
+              format: WEBVTT_BODY_FORMAT,
+              // WebVTT files keep their header, STYLE, REGION and NOTE blocks.
+              value: format === "webvtt"
+                ? serializeWebVttDocument(parseWebVttDocument(text))
+                : serializeWebVttCues(cues),
+              ...(language ? { language } : {}),
+            },
+          ],
+        };
+
+        if (isCanvasAnnotatorWithCreate(annotator)) {
+          annotator.createAnnotation(draft);
+        } else if (isCanvasAnnotatorWithAdd(annotator)) {
+          annotator.addAnnotation(draft);
+        } else {
+          return;
+        }
+        annotator.setSelected(id, true);
+        setExportMessage(t("importCaptionsSuccess", { count: cues.length }));
+      } catch (error) {
+        setExportMessage(
+          t("importFailed", {
+            message: error instanceof Error ? error.message : String(error),
+          }),
+        );
+      }
+    },
+    [activeCanvasId, annotator, t],
+  );
+
+  const handleSplitIntoCueAnnotations = React.useCallback(
+    (annotationId: string) => {
+      if (!annotator || !annotationId || !activeCanvasId) {
+        return;
+      }
+
+      const annotation = annotator.getAnnotationById(annotationId) as Record<string, unknown> | undefined;
+      if (!annotation) {
+        return;
+      }
+
+      const payload = getTimedTranscriptPayload(getAnnotationBodies(annotation), remoteWebVttByBodyId)?.payload
+        ?? buildApproximateTimedPayloadFromAnnotation(annotation);
+      const drafts = payload ? buildCueAnnotationDrafts(annotation, activeCanvasId, payload) : [];
+      if (drafts.length < 2) {
+        setExportMessage(t("splitIntoCuesNothing"));
+        return;
+      }
+
+      if (!isCanvasAnnotatorWithCreate(annotator) && !isCanvasAnnotatorWithAdd(annotator)) {
+        return;
+      }
+
+      // One undo brings back the original annotation.
+      history.transact(() => {
+        for (const draft of drafts) {
+          if (isCanvasAnnotatorWithCreate(annotator)) {
+            annotator.createAnnotation(draft);
+          } else {
+            annotator.addAnnotation(draft);
+          }
+        }
+        annotator.removeAnnotation(annotationId);
+      });
+      annotator.setSelected(String(drafts[0].id), true);
+      setExportMessage(t("splitIntoCuesSuccess", { count: drafts.length }));
+    },
+    [activeCanvasId, annotator, history.transact, remoteWebVttByBodyId, t],
+  );
+
+  const handleToggleMergeSelection = React.useCallback((annotationId: string, selected: boolean) => {
+    setMergeSelection((current) =>
+      selected
+        ? [...current.filter((id) => id !== annotationId), annotationId]
+        : current.filter((id) => id !== annotationId),
+    );
+  }, []);
+
+  const handleMergeSelectedAnnotations = React.useCallback(() => {
+    if (!annotator || !activeCanvasId) {
+      return;
+    }
+
+    const sources = mergeSelection
+      .map((annotationId) => {
+        const annotation = annotator.getAnnotationById(annotationId) as Record<string, unknown> | undefined;
+        if (!annotation) {
+          return null;
+        }
+        const payload = getTimedTranscriptPayload(getAnnotationBodies(annotation), remoteWebVttByBodyId)?.payload
+          ?? buildApproximateTimedPayloadFromAnnotation(annotation);
+        return payload ? { id: annotationId, annotation, payload } : null;
+      })
+      .filter((source): source is NonNullable<typeof source> => Boolean(source))
+      .sort((left, right) =>
+        (left.payload.words[0]?.start_time ?? 0) - (right.payload.words[0]?.start_time ?? 0));
+    const draft = buildMergedTranscriptDraft(sources, activeCanvasId);
+    if (!draft) {
+      setExportMessage(t("mergeAnnotationsNothing"));
+      return;
+    }
+
+    if (!isCanvasAnnotatorWithCreate(annotator) && !isCanvasAnnotatorWithAdd(annotator)) {
+      return;
+    }
+
+    history.transact(() => {
+      if (isCanvasAnnotatorWithCreate(annotator)) {
+        annotator.createAnnotation(draft);
+      } else {
+        annotator.addAnnotation(draft);
+      }
+      for (const source of sources) {
+        annotator.removeAnnotation(source.id);
+      }
+    });
+    annotator.setSelected(String(draft.id), true);
+    setMergeSelection([]);
+    setExportMessage(t("mergeAnnotationsSuccess", { count: sources.length }));
+  }, [activeCanvasId, annotator, history.transact, mergeSelection, remoteWebVttByBodyId, t]);
+
+  const handleDeleteScholium = React.useCallback(
+    (annotationId: string) => {
+      if (!annotator || !annotationId) {
         return;
       }
 
@@ -2936,6 +3987,47 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
     [annotator],
   );
 
+  // Free-text edits to the transcript are mapped back onto the timed words once the editor loses focus.
+  const handleRealignTimedTranscriptText = React.useCallback(
+    (annotationId: string, index: number) => {
+      if (!annotator || !annotationId || index < 0) {
+        return;
+      }
+
+      const annotation = annotator.getAnnotationById(annotationId) as Record<string, unknown> | undefined;
+      if (!annotation) {
+        return;
+      }
+
+      const existingBodies = getAnnotationBodies(annotation);
+      const timed = getTimedTranscriptPayload(existingBodies, remoteWebVttByBodyId);
+      const translations = getSupplementingBodies(existingBodies);
+      if (
+        !timed
+        || timed.payload.words.length === 0
+        || getTimedTranscriptTextIndex(translations, timed.payload.language) !== index
+      ) {
+        return;
+      }
+
+      const text = translations[index]?.value ?? "";
+      if (text.trim() === buildTimedTranscriptText(timed.payload.words)) {
+        return;
+      }
+
+      const nextWords = realignTranscriptWords(text, timed.payload.words);
+      if (nextWords.length === 0) {
+        return;
+      }
+      annotator.updateAnnotation({
+        ...annotation,
+        id: annotationId,
+        bodies: upsertTimedTranscriptPayloadBody(existingBodies, { ...timed.payload, words: nextWords }),
+      });
+    },
+    [annotator, remoteWebVttByBodyId],
+  );
+
   const handleAppendSupplementingTranslation = React.useCallback(
     (annotationId: string) => {
       if (!annotationId) {
@@ -3041,7 +4133,7 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
   }, [annotator, remoteWebVttByBodyId, runtime.localCloverMarks]);
 
   const totalStoredAnnotationCountForExport = Object.values(
-    getAllStoredCanvasAnnotations(),
+    store.getAllStoredCanvasAnnotations(),
   ).reduce((total, annotations) => total + annotations.length, 0);
   const hasAnnotationsToExport = totalStoredAnnotationCountForExport > 0;
 
@@ -3053,10 +4145,19 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
           return [];
         }
 
-        return segmentWordsIntoWebVttCues(timedTranscript.words);
+        return getTimedTranscriptCues(timedTranscript);
       }),
     [runtime.localCloverMarks, timedTranscriptByAnnotation],
   );
+  const captionLintByAnnotation = React.useMemo(() => {
+    const result: Record<string, CaptionLintFinding[]> = {};
+    for (const [annotationId, timedTranscript] of Object.entries(timedTranscriptByAnnotation)) {
+      if (timedTranscript && timedTranscript.words.length > 0) {
+        result[annotationId] = lintCaptionCues(getTimedTranscriptCues(timedTranscript), captionLint);
+      }
+    }
+    return result;
+  }, [captionLint, timedTranscriptByAnnotation]);
   const hasWebVttToExport = exportableWebVttCues.length > 0;
 
   const handleExportWebVtt = React.useCallback(() => {
@@ -3065,18 +4166,101 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
       return;
     }
 
-    downloadWebVttExport(serializeWebVttCues(exportableWebVttCues));
+    const languages = new Set(
+      Object.values(timedTranscriptByAnnotation).map((transcript) => transcript?.language),
+    );
+    const [language] = languages.size === 1 ? Array.from(languages) : [];
+    // WebVTT exports carry over the STYLE, REGION and NOTE blocks of the imported caption files.
+    const blocks = new Map<string, WebVttBlock>();
+    for (const transcript of Object.values(timedTranscriptByAnnotation)) {
+      for (const block of transcript?.captionDocument?.blocks ?? []) {
+        blocks.set(`${block.kind}\n${block.value}`, block);
+      }
+    }
+    downloadCaptionExport(
+      captionFormat === "webvtt"
+        ? serializeWebVttDocument({ blocks: Array.from(blocks.values()), cues: exportableWebVttCues })
+        : serializeCaptionCues(exportableWebVttCues, captionFormat, { language }),
+      captionFormat,
+    );
     setExportMessage(t("exportWebVttSuccess", { count: exportableWebVttCues.length }));
-  }, [exportableWebVttCues, t]);
+    if (onExport && activeCanvasId) {
+      store
+        .getStoredCanvasAnnotations(activeCanvasId)
+        .filter((annotation) => (timedTranscriptByAnnotation[annotation.id]?.words.length ?? 0) > 0)
+        .forEach((annotation) =>
+          invokeHostCallback("onExport", () =>
+            onExport(annotation, activeCanvasId, viewerState.activeManifest, captionFormat),
+          ),
+        );
+    }
+  }, [
+    activeCanvasId,
+    captionFormat,
+    exportableWebVttCues,
+    onExport,
+    store,
+    t,
+    timedTranscriptByAnnotation,
+    viewerState.activeManifest,
+  ]);
 
-  const handleUpdateTimedTranscriptWord = React.useCallback(
-    (annotationId: string, wordIndex: number, nextValue: string) => {
-      if (!annotator || !annotationId || wordIndex < 0) {
-        return;
+  const handleExportWebVttBundle = React.useCallback(() => {
+    const storedByCanvasIdForExport = store.getAllStoredCanvasAnnotations();
+    const canvasLabels = Object.fromEntries(
+      exportCanvasOrder.map((canvasId) => [
+        canvasId,
+        (viewerState.vault.get(canvasId) as CanvasLike | undefined)?.label,
+      ]),
+    );
+    const { archive, tracks } = buildWebVttBundle({
+      manifestId: viewerState.activeManifest,
+      storedByCanvasId: storedByCanvasIdForExport,
+      canvasOrder: exportCanvasOrder,
+      canvasLabels,
+      remoteCaptionCues: Object.fromEntries(
+        Object.entries(remoteWebVttByBodyId).map(([bodyId, payload]) => [
+          bodyId,
+          payload ? getTimedTranscriptCues(payload) : null,
+        ]),
+      ),
+    });
+    if (tracks.length === 0) {
+      setExportMessage(t("exportNoWebVtt"));
+      return;
+    }
+
+    downloadWebVttBundle(archive);
+    setExportMessage(t("exportWebVttBundleSuccess", { count: tracks.length }));
+    if (onExport) {
+      for (const track of tracks) {
+        const annotations = storedByCanvasIdForExport[track.canvasId] ?? [];
+        annotations
+          .filter((annotation) => track.annotationIds.includes(annotation.id))
+          .forEach((annotation) =>
+            invokeHostCallback("onExport", () =>
+              onExport(annotation, track.canvasId, viewerState.activeManifest, "webvtt"),
+            ),
+          );
       }
+    }
+  }, [
+    exportCanvasOrder,
+    onExport,
+    remoteWebVttByBodyId,
+    store,
+    t,
+    viewerState.activeManifest,
+    viewerState.vault,
+  ]);
 
-      const normalizedValue = nextValue.trim();
-      if (!normalizedValue) {
+  // Applies a word edit and keeps the transcript text in step with the edited words.
+  const handleEditTimedTranscriptWords = React.useCallback(
+    (
+      annotationId: string,
+      edit: (words: TimedTranscriptWord[], language: string | undefined) => TimedTranscriptWord[],
+    ) => {
+      if (!annotator || !annotationId) {
         return;
       }
 
@@ -3096,38 +4280,28 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
           }
           return { payload: approximate, index: -1 };
         })();
-      if (!timed || wordIndex >= timed.payload.words.length) {
+      if (!timed) {
         return;
       }
 
-      const nextWords = timed.payload.words.map((word, index) =>
-        index === wordIndex
-          ? {
-            ...word,
-            text: normalizedValue,
-          }
-          : word,
-      );
+      const editedWords = edit(timed.payload.words, timed.payload.language);
+      if (editedWords === timed.payload.words || editedWords.length === 0) {
+        return;
+      }
+      const nextWords = orderTimedWords(editedWords);
       const nextPayload: TimedTranscriptPayload = {
         schema: STT_TIMED_WORDS_SCHEMA,
         ...(timed.payload.language ? { language: timed.payload.language } : {}),
+        ...(timed.payload.speakers ? { speakers: timed.payload.speakers } : {}),
         words: nextWords,
+        ...(timed.payload.captionDocument ? { captionDocument: timed.payload.captionDocument } : {}),
       };
 
       let nextBodies = upsertTimedTranscriptPayloadBody(existingBodies, nextPayload);
       const updatedText = buildTimedTranscriptText(nextWords);
       if (updatedText) {
         const translations = getSupplementingBodies(nextBodies);
-        let targetTranslationIndex = -1;
-        if (nextPayload.language) {
-          targetTranslationIndex = translations.findIndex(
-            (translation) =>
-              (translation.language ?? "").trim().toLowerCase() === nextPayload.language,
-          );
-        }
-        if (targetTranslationIndex < 0 && translations.length > 0) {
-          targetTranslationIndex = 0;
-        }
+        const targetTranslationIndex = getTimedTranscriptTextIndex(translations, nextPayload.language);
 
         const effectiveLanguage = nextPayload.language
           ?? (translations[targetTranslationIndex]?.language?.trim().toLowerCase() || undefined)
@@ -3165,6 +4339,174 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
     [annotator, normalizedDefaultTranslationLanguage, remoteWebVttByBodyId],
   );
 
+  const handleUpdateTimedTranscriptWord = React.useCallback(
+    (annotationId: string, wordIndex: number, nextValue: string) => {
+      const normalizedValue = nextValue.trim();
+      if (!normalizedValue || wordIndex < 0) {
+        return;
+      }
+
+      handleEditTimedTranscriptWords(annotationId, (words) => {
+        if (wordIndex >= words.length) {
+          return words;
+        }
+        return words.map((word, index) => {
+          if (index !== wordIndex) {
+            return word;
+          }
+          const { needs_review: _reviewed, ...reviewedWord } = word;
+          return { ...reviewedWord, text: normalizedValue };
+        });
+      });
+    },
+    [handleEditTimedTranscriptWords],
+  );
+
+  const handleSplitTimedTranscriptWord = React.useCallback(
+    (annotationId: string, wordIndex: number) => {
+      const caret = timedWordCaretRef.current;
+      const at = caret?.annotationId === annotationId && caret.wordIndex === wordIndex ? caret.offset : undefined;
+      handleEditTimedTranscriptWords(annotationId, (words) => splitTimedWord(words, wordIndex, at || undefined));
+    },
+    [handleEditTimedTranscriptWords],
+  );
+
+  const handleMergeTimedTranscriptWords = React.useCallback(
+    (annotationId: string, wordIndex: number) => {
+      handleEditTimedTranscriptWords(annotationId, (words, language) =>
+        mergeTimedWords(words, wordIndex, getCaptionLanguageRules(language).spaceless ? "" : " "),
+      );
+    },
+    [handleEditTimedTranscriptWords],
+  );
+
+  // The new word is a placeholder, flagged for review until it is typed over.
+  const handleInsertTimedTranscriptWord = React.useCallback(
+    (annotationId: string, position: number) => {
+      handleEditTimedTranscriptWords(annotationId, (words) => {
+        const nextWords = insertTimedWord(words, position, TIMED_WORD_PLACEHOLDER);
+        return nextWords === words
+          ? words
+          : nextWords.map((word, index) => (index === position ? { ...word, needs_review: true } : word));
+      });
+    },
+    [handleEditTimedTranscriptWords],
+  );
+
+  const handleDeleteTimedTranscriptWord = React.useCallback(
+    (annotationId: string, wordIndex: number) => {
+      handleEditTimedTranscriptWords(annotationId, (words) => deleteTimedWord(words, wordIndex));
+    },
+    [handleEditTimedTranscriptWords],
+  );
+
+  const handleMoveTimedTranscriptWordEdge = React.useCallback(
+    (annotationId: string, wordIndex: number, edge: TimedWordEdge, time: number) => {
+      handleEditTimedTranscriptWords(annotationId, (words) => moveTimedWordEdge(words, wordIndex, edge, time));
+    },
+    [handleEditTimedTranscriptWords],
+  );
+
+  const handleAssignTimedTranscriptSpeaker = React.useCallback(
+    (annotationId: string, fromIndex: number, toIndex: number, label: string) => {
+      if (!annotator || !annotationId || !Number.isInteger(fromIndex) || !Number.isInteger(toIndex)) {
+        return;
+      }
+
+      const annotation = annotator.getAnnotationById(annotationId) as
+        | { bodies?: AnnotationBody[]; body?: unknown; target?: unknown }
+        | undefined;
+      if (!annotation) {
+        return;
+      }
+
+      const existingBodies = getAnnotationBodies(annotation);
+      const timed = getTimedTranscriptPayload(existingBodies, remoteWebVttByBodyId);
+      if (!timed) {
+        return;
+      }
+
+      annotator.updateAnnotation({
+        ...(annotation as Record<string, unknown>),
+        id: annotationId,
+        bodies: upsertTimedTranscriptPayloadBody(
+          existingBodies,
+          assignSpeakerToWords(timed.payload, fromIndex, toIndex, label),
+        ),
+      });
+    },
+    [annotator, remoteWebVttByBodyId],
+  );
+
+  const handleApplyTimedTranscriptTiming = React.useCallback(
+    (annotationId: string, transform: CaptionTimingTransform) => {
+      if (!annotator || !annotationId) {
+        return;
+      }
+
+      const annotation = annotator.getAnnotationById(annotationId) as
+        | { bodies?: AnnotationBody[]; body?: unknown; target?: unknown }
+        | undefined;
+      if (!annotation) {
+        return;
+      }
+
+      const existingBodies = getAnnotationBodies(annotation);
+      const timed = getTimedTranscriptPayload(existingBodies, remoteWebVttByBodyId);
+      if (!timed) {
+        return;
+      }
+
+      annotator.updateAnnotation({
+        ...(annotation as Record<string, unknown>),
+        id: annotationId,
+        bodies: upsertTimedTranscriptPayloadBody(existingBodies, {
+          ...timed.payload,
+          words: applyTimingToWords(timed.payload.words, transform),
+        }),
+      });
+      setTimingDraftByAnnotation((current) => {
+        const next = { ...current };
+        delete next[annotationId];
+        return next;
+      });
+    },
+    [annotator, remoteWebVttByBodyId],
+  );
+
+  const handleApplyCaptionLintFix = React.useCallback(
+    (annotationId: string, fix: CaptionLintFix) => {
+      if (!annotator || !annotationId) {
+        return;
+      }
+
+      const annotation = annotator.getAnnotationById(annotationId) as
+        | { bodies?: AnnotationBody[]; body?: unknown; target?: unknown }
+        | undefined;
+      if (!annotation) {
+        return;
+      }
+
+      const existingBodies = getAnnotationBodies(annotation);
+      const timed = getTimedTranscriptPayload(existingBodies, remoteWebVttByBodyId);
+      if (!timed) {
+        return;
+      }
+
+      // Fixes are computed on segmented cues; word timings follow the retimed cue.
+      const cues = getTimedTranscriptCues(timed.payload);
+      const words = fix.kind === "sort"
+        ? [...timed.payload.words].sort((left, right) => left.start_time - right.start_time)
+        : applyCueTimingToWords(timed.payload.words, cues, applyCaptionLintFix(cues, fix));
+      annotator.updateAnnotation({
+        ...(annotation as Record<string, unknown>),
+        id: annotationId,
+        bodies: upsertTimedTranscriptPayloadBody(existingBodies, { ...timed.payload, words }),
+      });
+    },
+    [annotator, remoteWebVttByBodyId],
+  );
+
   const handleSeekToTimedWord = React.useCallback(
     (annotationId: string, timeSeconds: number) => {
       const safeSeconds = Number.isFinite(timeSeconds) ? Math.max(0, timeSeconds) : 0;
@@ -3187,6 +4529,10 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
     [handleFocusScholium, t],
   );
 
+  const mergeSelectionCount = mergeSelection.filter((annotationId) =>
+    runtime.localCloverMarks.some((scholium) => scholium.id === annotationId),
+  ).length;
+
   return (
     <section
       ref={panelRootRef}
@@ -3260,28 +4606,303 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
           </div>
         ) : null}
       </div>
+      <section style={{ display: "flex", gap: "0.5rem" }}>
+        <button
+          type="button"
+          onClick={history.undo}
+          disabled={!history.canUndo}
+          title={t("historyUndoShortcut")}
+        >
+          {t("historyUndo")}
+        </button>
+        <button
+          type="button"
+          onClick={history.redo}
+          disabled={!history.canRedo}
+          title={t("historyRedoShortcut")}
+        >
+          {t("historyRedo")}
+        </button>
+      </section>
       <section style={{ display: "grid", gap: "0.5rem" }}>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <button
+            type="button"
+            onClick={handleExportAnnotations}
+            disabled={!hasAnnotationsToExport}
+            style={{ flex: 1 }}
+          >
+            {t("exportAnnotations")}
+          </button>
+          <select
+            aria-label={t("exportFormat")}
+            value={exportFormat}
+            onChange={(event) =>
+              setExportFormat(
+                event.currentTarget.value as Extract<AnnotationExportFormat, "iiif" | "iiif2" | "w3c">,
+              )
+            }
+          >
+            <option value="iiif">{t("exportFormatIiif")}</option>
+            <option value="iiif2">{t("exportFormatIiif2")}</option>
+            <option value="w3c">{t("exportFormatW3c")}</option>
+          </select>
+        </div>
         <button
           type="button"
-          onClick={handleExportAnnotations}
-          disabled={!hasAnnotationsToExport}
+          onClick={handleExportAnnotatedManifest}
+          disabled={
+            !hasAnnotationsToExport || !viewerState.activeManifest || !viewerState.vault.toPresentation3
+          }
         >
-          {t("exportAnnotations")}
+          {t("exportManifest")}
         </button>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <button
+            type="button"
+            onClick={handleExportWebVtt}
+            disabled={!hasWebVttToExport}
+            style={{ flex: 1 }}
+          >
+            {t("exportWebVtt")}
+          </button>
+          <select
+            aria-label={t("captionFormat")}
+            value={captionFormat}
+            onChange={(event) => setCaptionFormat(event.currentTarget.value as CaptionFormat)}
+          >
+            {CAPTION_FORMATS.map((format) => (
+              <option key={format} value={format}>
+                {CAPTION_FORMAT_LABELS[format]}
+              </option>
+            ))}
+          </select>
+        </div>
         <button
           type="button"
-          onClick={handleExportWebVtt}
-          disabled={!hasWebVttToExport}
+          onClick={handleExportWebVttBundle}
+          disabled={!hasAnnotationsToExport}
         >
-          {t("exportWebVtt")}
+          {t("exportWebVttBundle")}
         </button>
+        <button type="button" onClick={() => importInputRef.current?.click()}>
+          {t("importAnnotations")}
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,.jsonld,application/json,application/ld+json"
+          onChange={(event) => {
+            void handleImportAnnotations(event);
+          }}
+          style={{ display: "none" }}
+        />
+        {isAvCanvas ? (
+          <>
+            <button type="button" onClick={() => captionInputRef.current?.click()}>
+              {t("importCaptions")}
+            </button>
+            <input
+              ref={captionInputRef}
+              type="file"
+              accept={CAPTION_IMPORT_ACCEPT}
+              onChange={(event) => {
+                void handleImportCaptions(event);
+              }}
+              style={{ display: "none" }}
+            />
+          </>
+        ) : null}
         {exportMessage ? (
           <p style={{ margin: 0, fontSize: "0.85rem" }}>{exportMessage}</p>
         ) : null}
+        {storageMessage ? (
+          <p style={{ margin: 0, fontSize: "0.85rem", color: "#b91c1c" }}>{storageMessage}</p>
+        ) : null}
+        {outbox.operations.length > 0 ? (
+          <p style={{ margin: 0, fontSize: "0.85rem" }}>
+            {t("outboxPending", { count: outbox.operations.length })}
+          </p>
+        ) : null}
+        {outbox.rejected ? (
+          <p style={{ margin: 0, fontSize: "0.85rem", color: "#b91c1c" }}>
+            {outbox.rejected.status === 401 || outbox.rejected.status === 403
+              ? t("outboxUnauthorized")
+              : t("outboxRejected", { message: outbox.rejected.message })}
+          </p>
+        ) : null}
       </section>
+      {activeConflict ? (
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="clover-mark-conflict-title"
+          style={{
+            position: "fixed",
+            inset: 0,
+            zIndex: 1000,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            background: "rgba(15, 23, 42, 0.45)",
+          }}
+        >
+          <div
+            style={{
+              background: "#ffffff",
+              borderRadius: "0.6rem",
+              padding: "1rem",
+              maxWidth: "36rem",
+              width: "calc(100% - 2rem)",
+              display: "grid",
+              gap: "0.75rem",
+            }}
+          >
+            <h4 id="clover-mark-conflict-title" style={{ margin: 0 }}>
+              {t("conflictTitle")}
+            </h4>
+            <p style={{ margin: 0, fontSize: "0.85rem" }}>
+              {activeConflict.reason === "deleted" ? t("conflictDeleted") : t("conflictChanged")}
+            </p>
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "0.75rem" }}>
+              {[
+                { heading: t("conflictLocal"), annotation: activeConflict.local },
+                { heading: t("conflictRemote"), annotation: activeConflict.remote },
+              ].map(({ heading, annotation: version }) => {
+                const lines = getConflictBodyLines(version);
+                return (
+                  <section key={heading} style={{ display: "grid", gap: "0.35rem", alignContent: "start" }}>
+                    <strong style={{ fontSize: "0.85rem" }}>{heading}</strong>
+                    {version ? (
+                      <ul style={{ margin: 0, paddingLeft: "1rem", fontSize: "0.85rem" }}>
+                        {lines.map((line, lineIndex) => (
+                          <li key={`${lineIndex}-${line}`}>{line}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p style={{ margin: 0, fontSize: "0.85rem" }}>{t("conflictVersionDeleted")}</p>
+                    )}
+                  </section>
+                );
+              })}
+            </div>
+            {conflictFields.length > 1 ? (
+              <fieldset style={{ margin: 0, display: "grid", gap: "0.35rem", fontSize: "0.85rem" }}>
+                <legend>{t("conflictMergeFields")}</legend>
+                {conflictFields.map((field) => {
+                  const label =
+                    field.key === "target"
+                      ? t("conflictFieldTarget")
+                      : field.key === "motivation"
+                        ? t("conflictFieldMotivation")
+                        : field.key.split(":").slice(1).filter(Boolean).join(" ") || t("conflictFieldBody");
+                  return (
+                    <div key={field.key} style={{ display: "flex", gap: "0.75rem", alignItems: "center" }}>
+                      <span style={{ flex: 1 }}>{label}</span>
+                      {(["local", "remote"] as const).map((side) => (
+                        <label key={side} style={{ display: "flex", gap: "0.25rem", alignItems: "center" }}>
+                          <input
+                            type="radio"
+                            name={`clover-mark-conflict-${field.key}`}
+                            checked={(conflictChoices[field.key] ?? "local") === side}
+                            onChange={() => {
+                              setConflictChoices((current) => ({ ...current, [field.key]: side }));
+                            }}
+                          />
+                          {side === "local" ? t("conflictLocal") : t("conflictRemote")}
+                        </label>
+                      ))}
+                    </div>
+                  );
+                })}
+              </fieldset>
+            ) : null}
+            <div style={{ display: "flex", gap: "0.5rem", justifyContent: "flex-end" }}>
+              <button
+                type="button"
+                disabled={resolvingConflict}
+                onClick={() => {
+                  void handleResolveConflict(activeConflict, "remote");
+                }}
+              >
+                {t("conflictUseRemote")}
+              </button>
+              {conflictFields.length > 1 ? (
+                <button
+                  type="button"
+                  disabled={resolvingConflict}
+                  onClick={() => {
+                    void handleResolveConflict(activeConflict, { fields: conflictChoices });
+                  }}
+                >
+                  {t("conflictMerge")}
+                </button>
+              ) : null}
+              <button
+                type="button"
+                disabled={resolvingConflict}
+                onClick={() => {
+                  void handleResolveConflict(activeConflict, "local");
+                }}
+              >
+                {t("conflictKeepLocal")}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {manifestCanvasAnnotations.length > 0 ? (
+        <section>
+          <h4 style={{ margin: "0 0 0.6rem" }}>{t("nativeCanvasAnnotations")}</h4>
+          <ul style={{ margin: 0, paddingLeft: "1rem", display: "grid", gap: "0.4rem" }}>
+            {manifestCanvasAnnotations.map((annotation) => {
+              const annotationId = String(annotation.id);
+              const label = ensureArray(annotation.body as Array<{ value?: unknown }> | undefined)
+                .map((body) => (typeof body?.value === "string" ? body.value.trim() : ""))
+                .find((value) => value.length > 0);
+              const isAdopted = adoptedManifestAnnotationIds.has(annotationId);
+
+              return (
+                <li key={annotationId} style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+                  <span style={{ flex: 1, fontSize: "0.85rem", wordBreak: "break-all" }}>
+                    {label ?? annotationId}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleAdoptManifestAnnotation(annotation)}
+                    disabled={!annotator || isAdopted}
+                  >
+                    {isAdopted ? t("nativeAnnotationAdopted") : t("adoptNativeAnnotation")}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ) : null}
 
       <section>
         <h4 style={{ margin: "0 0 0.6rem" }}>{t("sessionCloverMarks")}</h4>
+        {canvasPresence.length > 0 ? (
+          <p style={{ margin: "0 0 0.6rem", fontSize: "0.85rem" }}>
+            {t("collaboratorsOnCanvas", { count: canvasPresence.length })}
+          </p>
+        ) : null}
+        {mergeSelectionCount > 0 ? (
+          <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", margin: "0 0 0.6rem", fontSize: "0.85rem" }}>
+            <button
+              type="button"
+              disabled={mergeSelectionCount < 2}
+              onClick={handleMergeSelectedAnnotations}
+            >
+              {t("mergeAnnotations", { count: mergeSelectionCount })}
+            </button>
+            <button type="button" onClick={() => setMergeSelection([])}>
+              {t("mergeAnnotationsClear")}
+            </button>
+          </div>
+        ) : null}
         {runtime.localCloverMarks.length === 0 ? (
           <div style={{ display: "grid", gap: "0.5rem" }}>
             <p style={{ margin: 0 }}>{t("noSessionCloverMarks")}</p>
@@ -3330,6 +4951,9 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
           <ul style={{ margin: 0, paddingLeft: 0, listStyle: "none", display: "grid", gap: "0.8rem" }}>
             {runtime.localCloverMarks.map((scholium) => {
               const isSelected = scholium.id === runtime.selectedLocalScholiumId;
+              const remoteSelections = canvasPresence.filter(
+                (entry) => entry.annotationId === scholium.id,
+              );
               const selectedMotivation = (
                 scholium.motivation ??
                 normalizedDefaultMotivation ??
@@ -3342,6 +4966,28 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
                 value: "",
               };
               const timedTranscript = timedTranscriptByAnnotation[scholium.id];
+              const speakerDraft = speakerDraftByAnnotation[scholium.id]
+                ?? { from: "1", to: String(timedTranscript?.words.length ?? 1), label: "" };
+              const updateSpeakerDraft = (patch: Partial<typeof speakerDraft>) =>
+                setSpeakerDraftByAnnotation((current) => ({
+                  ...current,
+                  [scholium.id]: { ...speakerDraft, ...patch },
+                }));
+              const timingDraft = timingDraftByAnnotation[scholium.id]
+                ?? buildDefaultTimingDraft(timedTranscript?.words ?? []);
+              const updateTimingDraft = (patch: Partial<TimingDraft>) =>
+                setTimingDraftByAnnotation((current) => ({
+                  ...current,
+                  [scholium.id]: { ...timingDraft, ...patch },
+                }));
+              const timingTransform = timedTranscript
+                ? buildTimingFromDraft(timingDraft, timedTranscript.words)
+                : null;
+              const canApplyTiming = Boolean(timingTransform && !isIdentityCaptionTiming(timingTransform));
+              // Preview the first and last words so the change can be checked before it is written.
+              const timingPreviewIndexes = timedTranscript && canApplyTiming
+                ? Array.from(new Set([0, timedTranscript.words.length - 1]))
+                : [];
               const supplementingTranslations = scholium.translations.filter(
                 (translation) => translation.purpose === "supplementing",
               );
@@ -3362,10 +5008,51 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
                     <button type="button" onClick={() => handleFocusScholium(scholium.id)}>
                       {t("focusScholium")}
                     </button>
+                    {isAvCanvas ? (
+                      <label style={{ display: "inline-flex", gap: "0.25rem", alignItems: "center", fontSize: "0.75rem" }}>
+                        <input
+                          type="checkbox"
+                          checked={mergeSelection.includes(scholium.id)}
+                          onChange={(event) =>
+                            handleToggleMergeSelection(scholium.id, event.currentTarget.checked)
+                          }
+                        />
+                        {t("mergeAnnotationsSelect")}
+                      </label>
+                    ) : null}
                     <button type="button" onClick={() => handleDeleteScholium(scholium.id)}>
                       {t("deleteScholium")}
                     </button>
                   </div>
+                  {isAvCanvas && timedTranscript && timedTranscript.words.length > 1 ? (
+                    <div>
+                      <button type="button" onClick={() => handleSplitIntoCueAnnotations(scholium.id)}>
+                        {t("splitIntoCues")}
+                      </button>
+                    </div>
+                  ) : null}
+                  {remoteSelections.length > 0 ? (
+                    <div style={{ display: "flex", gap: "0.35rem", flexWrap: "wrap" }}>
+                      {remoteSelections.map((entry) => {
+                        const name = entry.name ?? t("collaboratorAnonymous");
+                        return (
+                          <span
+                            key={entry.siteId}
+                            title={t("collaboratorSelecting", { name })}
+                            style={{
+                              fontSize: "0.75rem",
+                              padding: "0.1rem 0.45rem",
+                              borderRadius: "999px",
+                              color: "#ffffff",
+                              background: entry.color ?? "#6b7280",
+                            }}
+                          >
+                            {name}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  ) : null}
                   <label style={{ display: "grid", gap: "0.3rem" }}>
                     <span>{t("scholiumLabel")}</span>
                     <input
@@ -3463,6 +5150,7 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
                                       { value: event.currentTarget.value },
                                     )
                                   }
+                                  onBlur={() => handleRealignTimedTranscriptText(scholium.id, index)}
                                 />
                               </label>
                               <div>
@@ -3650,6 +5338,39 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
                       <p style={{ margin: 0, fontSize: "0.75rem", color: "#4b5563" }}>
                         {t("sttTimedWordsHint")}
                       </p>
+                      {sttEnabled && isAvCanvas ? (
+                        <div
+                          style={{
+                            display: "flex",
+                            gap: "0.35rem",
+                            flexWrap: "wrap",
+                            alignItems: "center",
+                            fontSize: "0.75rem",
+                          }}
+                        >
+                          <button
+                            type="button"
+                            disabled={Boolean(aligningAnnotationId) || isRecordingStt}
+                            onClick={() => {
+                              void handleAlignTranscriptToAudio(scholium.id);
+                            }}
+                          >
+                            {t("sttAlignTranscript")}
+                          </button>
+                          {alignmentStatusByAnnotation[scholium.id] ? (
+                            <span style={{ color: "#4b5563" }}>
+                              {alignmentStatusByAnnotation[scholium.id]}
+                            </span>
+                          ) : null}
+                        </div>
+                      ) : null}
+                      <TimedWordTimeline
+                        words={timedTranscript.words}
+                        onSeek={(time) => handleSeekToTimedWord(scholium.id, time)}
+                        onMoveEdge={(wordIndex, edge, time) =>
+                          handleMoveTimedTranscriptWordEdge(scholium.id, wordIndex, edge, time)
+                        }
+                      />
                       <ul
                         style={{
                           margin: 0,
@@ -3667,10 +5388,17 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
                             style={{
                               display: "grid",
                               gap: "0.35rem",
-                              gridTemplateColumns: "8.25rem 1fr",
+                              gridTemplateColumns: "9.5rem 1fr auto",
                               alignItems: "center",
                             }}
                           >
+                            {word.speaker
+                              && word.speaker !== timedTranscript.words[wordIndex - 1]?.speaker ? (
+                                <strong style={{ gridColumn: "1 / -1", fontSize: "0.75rem" }}>
+                                  {getSpeakerLabels(timedTranscript.speakers)[word.speaker]
+                                    ?? word.speaker}
+                                </strong>
+                              ) : null}
                             <button
                               type="button"
                               onClick={() =>
@@ -3690,11 +5418,15 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
                                 cursor: "pointer",
                               }}
                             >
-                              {word.start_time.toFixed(2)}-{word.end_time.toFixed(2)}s
+                              {wordIndex + 1}. {word.start_time.toFixed(2)}-{word.end_time.toFixed(2)}s
                             </button>
                             <input
                               key={`${scholium.id}-timed-word-input-${wordIndex}-${word.text}`}
                               defaultValue={word.text}
+                              title={word.needs_review ? t("sttAlignNeedsReview") : undefined}
+                              style={word.needs_review
+                                ? { borderColor: "#d97706", background: "#fffbeb" }
+                                : undefined}
                               onBlur={(event) =>
                                 handleUpdateTimedTranscriptWord(
                                   scholium.id,
@@ -3707,10 +5439,268 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
                                   handleUpdateTimedTranscriptWord(scholium.id, wordIndex, value),
                                 )
                               }
+                              onSelect={(event) => {
+                                timedWordCaretRef.current = {
+                                  annotationId: scholium.id,
+                                  wordIndex,
+                                  offset: event.currentTarget.selectionStart ?? 0,
+                                };
+                              }}
                             />
+                            <span style={{ display: "inline-flex", gap: "0.15rem" }}>
+                              {[
+                                {
+                                  label: t("sttWordSplit"),
+                                  glyph: "✂",
+                                  disabled: false,
+                                  onClick: () => handleSplitTimedTranscriptWord(scholium.id, wordIndex),
+                                },
+                                {
+                                  label: t("sttWordMerge"),
+                                  glyph: "⇣",
+                                  disabled: wordIndex === timedTranscript.words.length - 1,
+                                  onClick: () => handleMergeTimedTranscriptWords(scholium.id, wordIndex),
+                                },
+                                {
+                                  label: t("sttWordInsert"),
+                                  glyph: "+",
+                                  disabled: false,
+                                  onClick: () => handleInsertTimedTranscriptWord(scholium.id, wordIndex + 1),
+                                },
+                                {
+                                  label: t("sttWordDelete"),
+                                  glyph: "×",
+                                  disabled: timedTranscript.words.length === 1,
+                                  onClick: () => handleDeleteTimedTranscriptWord(scholium.id, wordIndex),
+                                },
+                              ].map((action) => (
+                                <button
+                                  key={action.glyph}
+                                  type="button"
+                                  aria-label={action.label}
+                                  title={action.label}
+                                  disabled={action.disabled}
+                                  onClick={action.onClick}
+                                  style={{ padding: "0 0.3rem", fontSize: "0.75rem" }}
+                                >
+                                  {action.glyph}
+                                </button>
+                              ))}
+                            </span>
                           </li>
                         ))}
                       </ul>
+                      <div
+                        style={{
+                          display: "flex",
+                          gap: "0.35rem",
+                          flexWrap: "wrap",
+                          alignItems: "end",
+                          fontSize: "0.75rem",
+                        }}
+                      >
+                        <label style={{ display: "grid", gap: "0.2rem" }}>
+                          <span>{t("sttSpeakerFirstWord")}</span>
+                          <input
+                            type="number"
+                            min={1}
+                            max={timedTranscript.words.length}
+                            value={speakerDraft.from}
+                            onChange={(event) =>
+                              updateSpeakerDraft({ from: event.currentTarget.value })
+                            }
+                            style={{ width: "4.5rem" }}
+                          />
+                        </label>
+                        <label style={{ display: "grid", gap: "0.2rem" }}>
+                          <span>{t("sttSpeakerLastWord")}</span>
+                          <input
+                            type="number"
+                            min={1}
+                            max={timedTranscript.words.length}
+                            value={speakerDraft.to}
+                            onChange={(event) =>
+                              updateSpeakerDraft({ to: event.currentTarget.value })
+                            }
+                            style={{ width: "4.5rem" }}
+                          />
+                        </label>
+                        <label style={{ display: "grid", gap: "0.2rem", flex: 1 }}>
+                          <span>{t("sttSpeakerName")}</span>
+                          <input
+                            list={`${scholium.id}-speakers`}
+                            value={speakerDraft.label}
+                            onChange={(event) =>
+                              updateSpeakerDraft({ label: event.currentTarget.value })
+                            }
+                          />
+                          <datalist id={`${scholium.id}-speakers`}>
+                            {(timedTranscript.speakers ?? []).map((speaker) => (
+                              <option key={speaker.id} value={speaker.label ?? speaker.id} />
+                            ))}
+                          </datalist>
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            handleAssignTimedTranscriptSpeaker(
+                              scholium.id,
+                              Number.parseInt(speakerDraft.from, 10) - 1,
+                              Number.parseInt(speakerDraft.to, 10) - 1,
+                              speakerDraft.label,
+                            )
+                          }
+                        >
+                          {t("sttSpeakerAssign")}
+                        </button>
+                      </div>
+                      <div style={{ display: "grid", gap: "0.3rem", fontSize: "0.75rem" }}>
+                        <strong>{t("sttTimingTitle")}</strong>
+                        <div style={{ display: "flex", gap: "0.35rem", flexWrap: "wrap", alignItems: "end" }}>
+                          <select
+                            aria-label={t("sttTimingTitle")}
+                            value={timingDraft.mode}
+                            onChange={(event) =>
+                              updateTimingDraft({ mode: event.currentTarget.value as TimingDraft["mode"] })
+                            }
+                          >
+                            <option value="offset">{t("sttTimingOffset")}</option>
+                            <option value="drift">{t("sttTimingDrift")}</option>
+                            <option value="frameRate">{t("sttTimingFrameRate")}</option>
+                          </select>
+                          {timingDraft.mode === "offset" ? (
+                            <label style={{ display: "grid", gap: "0.2rem" }}>
+                              <span>{t("sttTimingSeconds")}</span>
+                              <input
+                                type="number"
+                                step={0.001}
+                                value={timingDraft.offset}
+                                onChange={(event) =>
+                                  updateTimingDraft({ offset: event.currentTarget.value })
+                                }
+                                style={{ width: "6rem" }}
+                              />
+                            </label>
+                          ) : null}
+                          {timingDraft.mode === "drift"
+                            ? ([
+                              ["firstWord", "firstTime"],
+                              ["secondWord", "secondTime"],
+                            ] as const).map(([wordKey, timeKey]) => (
+                              <React.Fragment key={wordKey}>
+                                <label style={{ display: "grid", gap: "0.2rem" }}>
+                                  <span>{t("sttTimingWord")}</span>
+                                  <input
+                                    type="number"
+                                    min={1}
+                                    max={timedTranscript.words.length}
+                                    value={timingDraft[wordKey]}
+                                    onChange={(event) =>
+                                      updateTimingDraft({ [wordKey]: event.currentTarget.value })
+                                    }
+                                    style={{ width: "4.5rem" }}
+                                  />
+                                </label>
+                                <label style={{ display: "grid", gap: "0.2rem" }}>
+                                  <span>{t("sttTimingStartsAt")}</span>
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    step={0.001}
+                                    value={timingDraft[timeKey]}
+                                    onChange={(event) =>
+                                      updateTimingDraft({ [timeKey]: event.currentTarget.value })
+                                    }
+                                    style={{ width: "6rem" }}
+                                  />
+                                </label>
+                              </React.Fragment>
+                            ))
+                            : null}
+                          {timingDraft.mode === "frameRate"
+                            ? ([
+                              ["fromRate", "sttTimingFromRate"],
+                              ["toRate", "sttTimingToRate"],
+                            ] as const).map(([rateKey, labelKey]) => (
+                              <label key={rateKey} style={{ display: "grid", gap: "0.2rem" }}>
+                                <span>{t(labelKey)}</span>
+                                <select
+                                  value={timingDraft[rateKey]}
+                                  onChange={(event) =>
+                                    updateTimingDraft({
+                                      [rateKey]: event.currentTarget.value as CaptionFrameRate,
+                                    })
+                                  }
+                                >
+                                  {CAPTION_FRAME_RATE_OPTIONS.map((rate) => (
+                                    <option key={rate} value={rate}>
+                                      {rate}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                            ))
+                            : null}
+                          <button
+                            type="button"
+                            disabled={!canApplyTiming}
+                            onClick={() =>
+                              timingTransform
+                              && handleApplyTimedTranscriptTiming(scholium.id, timingTransform)
+                            }
+                          >
+                            {t("sttTimingApply")}
+                          </button>
+                        </div>
+                        {timingTransform && timingPreviewIndexes.length > 0 ? (
+                          <ul style={{ margin: 0, paddingLeft: "1rem", color: "#4b5563" }}>
+                            {timingPreviewIndexes.map((wordIndex) => (
+                              <li key={`${scholium.id}-timing-preview-${wordIndex}`}>
+                                {t("sttTimingPreview", {
+                                  word: wordIndex + 1,
+                                  from: timedTranscript.words[wordIndex].start_time.toFixed(2),
+                                  to: applyCaptionTiming(
+                                    timedTranscript.words[wordIndex].start_time,
+                                    timingTransform,
+                                  ).toFixed(2),
+                                })}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : null}
+                      </div>
+                      <div style={{ display: "grid", gap: "0.3rem", fontSize: "0.75rem" }}>
+                        <strong>{t("captionLintTitle")}</strong>
+                        {(captionLintByAnnotation[scholium.id] ?? []).length === 0 ? (
+                          <span style={{ color: "#4b5563" }}>{t("captionLintNone")}</span>
+                        ) : (
+                          <ul style={{ margin: 0, paddingLeft: "1rem", display: "grid", gap: "0.25rem" }}>
+                            {(captionLintByAnnotation[scholium.id] ?? []).map((finding) => (
+                              <li
+                                key={`${scholium.id}-lint-${finding.rule}-${finding.cueIndex}`}
+                                style={{ color: "#92400e" }}
+                              >
+                                {t(CAPTION_LINT_MESSAGE_KEYS[finding.rule], {
+                                  cue: finding.cueIndex + 1,
+                                  value: finding.value,
+                                  limit: finding.limit,
+                                })}
+                                {finding.fix ? (
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      finding.fix && handleApplyCaptionLintFix(scholium.id, finding.fix)
+                                    }
+                                    style={{ marginLeft: "0.4rem" }}
+                                  >
+                                    {t("captionLintFix")}
+                                  </button>
+                                ) : null}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
                     </section>
                   ) : null}
                   {scholium.source ? (
@@ -3733,4 +5723,10 @@ export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({
   );
 };
 
+export const CloverMarkPanel: React.FC<CloverMarkPanelProps> = ({ store, ...props }) => (
+  <CloverMarkStoreContext.Provider value={store ?? getDefaultCloverMarkStore()}>
+    <CloverMarkPanelContent {...props} />
+  </CloverMarkStoreContext.Provider>
+);
+
 export const cloverMarkPanel = CloverMarkPanel;
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { getCaptionLanguageRules, registerCaptionLanguageRules } from "./caption-languages";
+
+describe("caption language rules", () => {
+  it("looks rules up by tag, then primary subtag, defaulting to English", () => {
+    expect(getCaptionLanguageRules()).toBe(getCaptionLanguageRules("en"));
+    expect(getCaptionLanguageRules("FR_ca")).toBe(getCaptionLanguageRules("fr"));
+    expect(getCaptionLanguageRules("ja-JP").spaceless).toBe(true);
+    expect(getCaptionLanguageRules("ar").caseless).toBe(true);
+    expect(getCaptionLanguageRules("xx").connectorWords).toEqual([]);
+  });
+
+  it("registers rules for more languages", () => {
+    const rules = { connectorWords: ["ja"], sentenceEndPunctuation: ".!?", softPunctuation: "," };
+    registerCaptionLanguageRules("tlh", rules);
+    expect(getCaptionLanguageRules("tlh-Latn")).toBe(rules);
+  });
+});
@@ -0,0 +1,120 @@
+export type CaptionLanguageRules = {
+  // Words a cue or line should not be split next to: articles, prepositions, conjunctions, particles.
+  connectorWords: string[];
+  // English "of" binds to the word after it; Japanese particles bind to the word before them.
+  connectorsAttach?: "next" | "previous";
+  sentenceEndPunctuation: string;
+  softPunctuation: string;
+  // Marks that open a sentence, like Spanish ¿ and ¡.
+  sentenceStartPunctuation?: string;
+  // Scripts without letter case give no capitalization hint for sentence starts.
+  caseless?: boolean;
+  // Scripts written without spaces: words join directly and lines may break between any two characters.
+  spaceless?: boolean;
+  // Characters that must not begin a line.
+  noLineStartCharacters?: string;
+  // Length defaults in characters; segmentation options still win.
+  maxLineChars?: number;
+  maxCueChars?: number;
+};
+
+const LATIN_SENTENCE_END = ".!?…";
+const LATIN_SOFT = ",;:";
+
+export const DEFAULT_CAPTION_LANGUAGE = "en";
+
+const CAPTION_LANGUAGE_RULES: Record<string, CaptionLanguageRules> = {
+  en: {
+    connectorWords: [
+      "a", "an", "and", "as", "at", "be", "been", "being", "but", "by", "for", "from", "if", "in", "into",
+      "is", "it", "its", "of", "on", "or", "our", "so", "that", "the", "their", "then", "these", "this",
+      "those", "to", "was", "were", "which", "with",
+    ],
+    sentenceEndPunctuation: LATIN_SENTENCE_END,
+    softPunctuation: LATIN_SOFT,
+  },
+  fr: {
+    connectorWords: [
+      "à", "au", "aux", "avec", "ce", "ces", "cette", "dans", "de", "des", "du", "en", "est", "et", "la",
+      "le", "les", "leur", "leurs", "mais", "ou", "par", "pour", "que", "qui", "sa", "ses", "son", "sur",
+      "un", "une",
+    ],
+    sentenceEndPunctuation: LATIN_SENTENCE_END,
+    softPunctuation: LATIN_SOFT,
+  },
+  es: {
+    connectorWords: [
+      "a", "al", "como", "con", "de", "del", "el", "en", "es", "la", "las", "lo", "los", "o", "para",
+      "pero", "por", "que", "se", "sin", "sobre", "su", "sus", "un", "una", "unos", "unas", "y",
+    ],
+    sentenceEndPunctuation: LATIN_SENTENCE_END,
+    softPunctuation: LATIN_SOFT,
+    sentenceStartPunctuation: "¿¡",
+  },
+  ht: {
+    connectorWords: [
+      "a", "ak", "an", "ap", "de", "e", "ke", "ki", "la", "lè", "li", "men", "nan", "oswa", "pa", "paske",
+      "pou", "se", "sou", "ta", "te", "yo",
+    ],
+    sentenceEndPunctuation: LATIN_SENTENCE_END,
+    softPunctuation: LATIN_SOFT,
+  },
+  ar: {
+    connectorWords: [
+      "أن", "أو", "إلى", "إن", "التي", "الذي", "ثم", "على", "عن", "في", "لا", "لكن", "ما", "مع", "من", "و",
+    ],
+    sentenceEndPunctuation: ".!؟?…",
+    softPunctuation: "،؛,:",
+    caseless: true,
+  },
+  ja: {
+    connectorWords: [
+      "から", "けど", "って", "まで", "より", "が", "か", "で", "と", "に", "ね", "の", "は", "へ", "も", "や", "よ", "を",
+    ],
+    connectorsAttach: "previous",
+    sentenceEndPunctuation: "。！？!?…",
+    softPunctuation: "、，,：",
+    caseless: true,
+    spaceless: true,
+    noLineStartCharacters: "、。，．！？!?）」』】〕〉》ーぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ…",
+    maxLineChars: 13,
+    maxCueChars: 20,
+  },
+  zh: {
+    connectorWords: ["的", "了", "着", "过", "吗", "呢", "吧"],
+    connectorsAttach: "previous",
+    sentenceEndPunctuation: "。！？!?…",
+    softPunctuation: "，、；：,;:",
+    caseless: true,
+    spaceless: true,
+    noLineStartCharacters: "，。、；：！？）」』】〉》…",
+    maxLineChars: 16,
+    maxCueChars: 24,
+  },
+};
+
+// Languages without rules of their own still split on common punctuation, but know no connector words.
+const FALLBACK_CAPTION_LANGUAGE_RULES: CaptionLanguageRules = {
+  connectorWords: [],
+  sentenceEndPunctuation: LATIN_SENTENCE_END,
+  softPunctuation: LATIN_SOFT,
+};
+
+function normalizeLanguageKey(language: string): string {
+  return language.trim().toLowerCase().replace(/_/g, "-");
+}
+
+export function registerCaptionLanguageRules(language: string, rules: CaptionLanguageRules): void {
+  const key = normalizeLanguageKey(language);
+  if (key) {
+    CAPTION_LANGUAGE_RULES[key] = rules;
+  }
+}
+
+// Matches the full tag first ("pt-br"), then its primary subtag ("pt"); no language means English.
+export function getCaptionLanguageRules(language?: string): CaptionLanguageRules {
+  const key = normalizeLanguageKey(language ?? "") || DEFAULT_CAPTION_LANGUAGE;
+  return CAPTION_LANGUAGE_RULES[key]
+    ?? CAPTION_LANGUAGE_RULES[key.split("-")[0]]
+    ?? FALLBACK_CAPTION_LANGUAGE_RULES;
+}
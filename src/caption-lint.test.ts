@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { applyCaptionLintFix, applyCueTimingToWords, lintCaptionCues } from "./caption-lint";
+import { parseWebVttCues } from "./webvtt";
+
+describe("caption linter", () => {
+  it("flags reading speed, short cues, long lines, overlaps and small gaps", () => {
+    const cues = [
+      { start_time: 0, end_time: 0.5, text: "Hi." },
+      { start_time: 2, end_time: 3, text: "This sentence is far too long to read in one second." },
+      { start_time: 2.9, end_time: 5, text: "Overlapped." },
+      { start_time: 5.04, end_time: 7, text: "Close behind." },
+    ];
+
+    const findings = lintCaptionCues(cues);
+    expect(findings.map(({ rule, cueIndex }) => [rule, cueIndex])).toEqual([
+      ["min-duration", 0],
+      ["reading-speed", 1],
+      ["line-length", 1],
+      ["overlap", 1],
+      ["min-gap", 2],
+    ]);
+    expect(findings[0].fix).toEqual({ kind: "retime", cueIndex: 0, start_time: 0, end_time: 1 });
+    // Extending cue 2 would run into cue 3, so there is no one-click fix.
+    expect(findings[1].fix).toBeUndefined();
+    expect(findings[3].fix).toEqual({ kind: "retime", cueIndex: 1, start_time: 2, end_time: 2.82 });
+    expect(findings[4]).toMatchObject({ value: 0.04, limit: 0.08 });
+
+    const fixed = applyCaptionLintFix(cues, findings[3].fix!);
+    expect(lintCaptionCues(fixed).some((finding) => finding.rule === "overlap")).toBe(false);
+  });
+
+  it("uses authored line breaks and configurable limits", () => {
+    const cues = parseWebVttCues(
+      "WEBVTT\n\n00:00:00.000 --> 00:00:04.000\nA first line of text\nand a second one\n",
+    );
+    expect(lintCaptionCues(cues)).toEqual([]);
+    expect(lintCaptionCues(cues, { maxLineChars: 16, maxCharsPerSecond: 5 })).toMatchObject([
+      { rule: "reading-speed", value: 9.3, limit: 5 },
+      { rule: "line-length", value: 20, limit: 16 },
+    ]);
+  });
+
+  it("flags and sorts out-of-order cues", () => {
+    const cues = [
+      { start_time: 4, end_time: 6, text: "Second" },
+      { start_time: 1, end_time: 3, text: "First" },
+    ];
+    const [finding] = lintCaptionCues(cues);
+    expect(finding).toMatchObject({ rule: "out-of-order", cueIndex: 1, fix: { kind: "sort" } });
+    expect(applyCaptionLintFix(cues, finding.fix!).map((cue) => cue.text)).toEqual(["First", "Second"]);
+  });
+
+  it("moves word timings with a retimed cue", () => {
+    const words = [
+      { text: "One", start_time: 0, end_time: 0.2 },
+      { text: "two.", start_time: 0.2, end_time: 0.4 },
+      { text: "Three", start_time: 2, end_time: 3 },
+    ];
+    const before = [
+      { start_time: 0, end_time: 0.4, text: "One two." },
+      { start_time: 2, end_time: 3, text: "Three" },
+    ];
+    const after = applyCaptionLintFix(before, { kind: "retime", cueIndex: 0, start_time: 0, end_time: 1 });
+
+    expect(applyCueTimingToWords(words, before, after)).toEqual([
+      { text: "One", start_time: 0, end_time: 0.2 },
+      { text: "two.", start_time: 0.2, end_time: 1 },
+      { text: "Three", start_time: 2, end_time: 3 },
+    ]);
+  });
+});
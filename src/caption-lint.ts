@@ -0,0 +1,195 @@
+import { getWebVttCueLines, type TimedWordLike, type WebVttCue } from "./webvtt";
+
+export type CaptionLintRule =
+  | "reading-speed"
+  | "line-length"
+  | "min-duration"
+  | "overlap"
+  | "out-of-order"
+  | "min-gap";
+
+export type CaptionLintOptions = {
+  maxCharsPerSecond?: number;
+  maxLineChars?: number;
+  minDurationSeconds?: number;
+  minGapSeconds?: number;
+};
+
+export type CaptionLintFix =
+  | { kind: "retime"; cueIndex: number; start_time: number; end_time: number }
+  | { kind: "sort" };
+
+export type CaptionLintFinding = {
+  rule: CaptionLintRule;
+  cueIndex: number;
+  // The measured value and the limit it breaks, in the rule's unit (chars/s, chars or seconds).
+  value: number;
+  limit: number;
+  fix?: CaptionLintFix;
+};
+
+// Defaults follow common broadcast guidelines: 20 cps, 42-character lines, 1 s cues and a 2-frame gap.
+export const DEFAULT_CAPTION_LINT_OPTIONS: Required<CaptionLintOptions> = {
+  maxCharsPerSecond: 20,
+  maxLineChars: 42,
+  minDurationSeconds: 1,
+  minGapSeconds: 0.08,
+};
+
+function round(value: number): number {
+  return +value.toFixed(3);
+}
+
+function resolveOptions(options: CaptionLintOptions): Required<CaptionLintOptions> {
+  const positive = (value: number | undefined, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+  return {
+    maxCharsPerSecond: positive(options.maxCharsPerSecond, DEFAULT_CAPTION_LINT_OPTIONS.maxCharsPerSecond),
+    maxLineChars: positive(options.maxLineChars, DEFAULT_CAPTION_LINT_OPTIONS.maxLineChars),
+    minDurationSeconds: positive(options.minDurationSeconds, DEFAULT_CAPTION_LINT_OPTIONS.minDurationSeconds),
+    minGapSeconds: positive(options.minGapSeconds, DEFAULT_CAPTION_LINT_OPTIONS.minGapSeconds),
+  };
+}
+
+// Extends a cue to `wantedEnd` when that stays clear of the next cue; otherwise there is no safe one-click fix.
+function buildExtendFix(
+  cues: WebVttCue[],
+  cueIndex: number,
+  wantedEnd: number,
+  minGapSeconds: number,
+): CaptionLintFix | undefined {
+  const cue = cues[cueIndex];
+  const next = cues[cueIndex + 1];
+  if (next && next.start_time >= cue.start_time && round(wantedEnd) > round(next.start_time - minGapSeconds)) {
+    return undefined;
+  }
+  return { kind: "retime", cueIndex, start_time: cue.start_time, end_time: round(wantedEnd) };
+}
+
+export function lintCaptionCues(cues: WebVttCue[], options: CaptionLintOptions = {}): CaptionLintFinding[] {
+  const limits = resolveOptions(options);
+  const findings: CaptionLintFinding[] = [];
+
+  cues.forEach((cue, cueIndex) => {
+    const duration = Math.max(0, cue.end_time - cue.start_time);
+    const next = cues[cueIndex + 1];
+
+    if (duration < limits.minDurationSeconds) {
+      findings.push({
+        rule: "min-duration",
+        cueIndex,
+        value: round(duration),
+        limit: limits.minDurationSeconds,
+        fix: buildExtendFix(cues, cueIndex, cue.start_time + limits.minDurationSeconds, limits.minGapSeconds),
+      });
+    }
+
+    const charsPerSecond = duration > 0 ? cue.text.length / duration : Number.POSITIVE_INFINITY;
+    if (charsPerSecond > limits.maxCharsPerSecond) {
+      findings.push({
+        rule: "reading-speed",
+        cueIndex,
+        value: Number.isFinite(charsPerSecond) ? +charsPerSecond.toFixed(1) : charsPerSecond,
+        limit: limits.maxCharsPerSecond,
+        fix: buildExtendFix(
+          cues,
+          cueIndex,
+          cue.start_time + cue.text.length / limits.maxCharsPerSecond,
+          limits.minGapSeconds,
+        ),
+      });
+    }
+
+    const longestLine = Math.max(...getWebVttCueLines(cue).map((line) => line.length));
+    if (longestLine > limits.maxLineChars) {
+      findings.push({ rule: "line-length", cueIndex, value: longestLine, limit: limits.maxLineChars });
+    }
+
+    if (!next) {
+      return;
+    }
+
+    if (next.start_time < cue.start_time) {
+      findings.push({
+        rule: "out-of-order",
+        cueIndex: cueIndex + 1,
+        value: next.start_time,
+        limit: cue.start_time,
+        fix: { kind: "sort" },
+      });
+      return;
+    }
+
+    const gap = round(next.start_time - cue.end_time);
+    const trimmedEnd = round(next.start_time - limits.minGapSeconds);
+    const trimFix: CaptionLintFix | undefined = trimmedEnd > cue.start_time
+      ? { kind: "retime", cueIndex, start_time: cue.start_time, end_time: trimmedEnd }
+      : undefined;
+    if (gap < 0) {
+      findings.push({ rule: "overlap", cueIndex, value: -gap, limit: 0, fix: trimFix });
+    } else if (gap > 0 && gap < limits.minGapSeconds) {
+      findings.push({ rule: "min-gap", cueIndex, value: gap, limit: limits.minGapSeconds, fix: trimFix });
+    }
+  });
+
+  return findings;
+}
+
+export function applyCaptionLintFix(cues: WebVttCue[], fix: CaptionLintFix): WebVttCue[] {
+  if (fix.kind === "sort") {
+    return [...cues].sort((left, right) =>
+      left.start_time !== right.start_time
+        ? left.start_time - right.start_time
+        : left.end_time - right.end_time,
+    );
+  }
+
+  return cues.map((cue, index) =>
+    index === fix.cueIndex ? { ...cue, start_time: fix.start_time, end_time: fix.end_time } : cue,
+  );
+}
+
+// Moves word timings along with retimed cues: the cue's first and last words take its new edges,
+// inner words are clamped into the new range. `before` and `after` must list the same cues in order.
+export function applyCueTimingToWords<T extends TimedWordLike>(
+  words: T[],
+  before: WebVttCue[],
+  after: WebVttCue[],
+): T[] {
+  const cueIndexByWord = words.map((word) => {
+    let owner = -1;
+    before.forEach((cue, index) => {
+      const startsBefore = round(cue.start_time) <= round(word.start_time);
+      if (startsBefore && (owner < 0 || cue.start_time >= before[owner].start_time)) {
+        owner = index;
+      }
+    });
+    return owner;
+  });
+
+  const edgesByCue = new Map<number, { first: number; last: number }>();
+  cueIndexByWord.forEach((cueIndex, wordIndex) => {
+    const edges = edgesByCue.get(cueIndex);
+    if (!edges) {
+      edgesByCue.set(cueIndex, { first: wordIndex, last: wordIndex });
+      return;
+    }
+    if (words[wordIndex].start_time < words[edges.first].start_time) edges.first = wordIndex;
+    if (words[wordIndex].end_time >= words[edges.last].end_time) edges.last = wordIndex;
+  });
+
+  return words.map((word, wordIndex) => {
+    const cueIndex = cueIndexByWord[wordIndex];
+    const previous = before[cueIndex];
+    const next = after[cueIndex];
+    if (!previous || !next || (previous.start_time === next.start_time && previous.end_time === next.end_time)) {
+      return word;
+    }
+
+    const edges = edgesByCue.get(cueIndex);
+    const clamp = (value: number) => Math.min(Math.max(value, next.start_time), next.end_time);
+    const start = edges?.first === wordIndex ? next.start_time : clamp(word.start_time);
+    const end = edges?.last === wordIndex ? next.end_time : clamp(word.end_time);
+    return { ...word, start_time: round(start), end_time: round(Math.max(start, end)) };
+  });
+}
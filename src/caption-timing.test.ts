@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyTimingToCues,
+  applyTimingToWords,
+  buildDriftTiming,
+  buildFrameRateTiming,
+  buildOffsetTiming,
+  isIdentityCaptionTiming,
+} from "./caption-timing";
+import { parseWebVttCues, serializeWebVttCues } from "./webvtt";
+
+describe("caption timing", () => {
+  it("shifts words and cues by an offset, clamping at zero", () => {
+    const shift = buildOffsetTiming(-1.5)!;
+    expect(
+      applyTimingToWords(
+        [
+          { text: "Leader", start_time: 1, end_time: 2, speaker: "s1" },
+          { text: "Hello", start_time: 10, end_time: 10.4 },
+        ],
+        shift,
+      ),
+    ).toEqual([
+      { text: "Leader", start_time: 0, end_time: 0.5, speaker: "s1" },
+      { text: "Hello", start_time: 8.5, end_time: 8.9 },
+    ]);
+    const cue = { start_time: 2, end_time: 3, text: "Hi", settings: { align: "start" } };
+    expect(applyTimingToCues([cue], shift)).toEqual([{ ...cue, start_time: 0.5, end_time: 1.5 }]);
+    expect(buildOffsetTiming(Number.NaN)).toBeNull();
+    expect(isIdentityCaptionTiming(buildOffsetTiming(0)!)).toBe(true);
+  });
+
+  it("removes drift between two anchored words", () => {
+    const drift = buildDriftTiming({ from: 10, to: 12 }, { from: 110, to: 113 })!;
+    const [first, middle, last] = applyTimingToWords(
+      [10, 60, 110].map((start) => ({ text: "word", start_time: start, end_time: start + 0.5 })),
+      drift,
+    );
+    expect([first.start_time, middle.start_time, last.start_time]).toEqual([12, 62.5, 113]);
+    expect(buildDriftTiming({ from: 5, to: 1 }, { from: 5, to: 2 })).toBeNull();
+    expect(buildDriftTiming({ from: 1, to: 5 }, { from: 2, to: 4 })).toBeNull();
+  });
+
+  it("moves inline timestamps with their cue", () => {
+    const cues = parseWebVttCues(
+      "WEBVTT\n\n00:00:10.000 --> 00:00:12.000\nNever <00:00:10.800>drink <i><00:00:11.400>liquid</i>",
+    );
+    const shifted = applyTimingToCues(cues, buildOffsetTiming(-2)!);
+    expect(serializeWebVttCues(shifted)).toBe(
+      "WEBVTT\n\n00:00:08.000 --> 00:00:10.000\nNever <00:00:08.800>drink <i><00:00:09.400>liquid</i>\n",
+    );
+    // Timestamps pushed before the start of the media clamp to zero with their cue.
+    const [clamped] = applyTimingToCues(cues, buildOffsetTiming(-11)!);
+    expect(serializeWebVttCues([clamped])).toContain("Never <00:00:00.000>drink <i><00:00:00.400>liquid</i>");
+  });
+
+  it("converts between frame rates", () => {
+    const palSpeedUp = buildFrameRateTiming("23.976", "25");
+    expect(applyTimingToCues([{ start_time: 0, end_time: 3600, text: "Hour" }], palSpeedUp)[0].end_time).toBe(3452.547);
+    expect(isIdentityCaptionTiming(buildFrameRateTiming("25", "25"))).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import type { TimedWordLike, WebVttCue, WebVttCueNode } from "./webvtt";
+
+// Maps a source time `t` to `t * scale + offset`.
+export type CaptionTimingTransform = {
+  scale: number;
+  offset: number;
+};
+
+// A word or cue at source time `from` that should play at `to`.
+export type CaptionTimingAnchor = {
+  from: number;
+  to: number;
+};
+
+export type CaptionFrameRate = "23.976" | "25" | "29.97";
+
+export const CAPTION_FRAME_RATES: Record<CaptionFrameRate, number> = {
+  "23.976": 24000 / 1001,
+  "25": 25,
+  "29.97": 30000 / 1001,
+};
+
+export const IDENTITY_CAPTION_TIMING: CaptionTimingTransform = { scale: 1, offset: 0 };
+
+function round(value: number): number {
+  return +value.toFixed(3);
+}
+
+export function isIdentityCaptionTiming(transform: CaptionTimingTransform): boolean {
+  return transform.scale === 1 && round(transform.offset) === 0;
+}
+
+export function buildOffsetTiming(offsetSeconds: number): CaptionTimingTransform | null {
+  return Number.isFinite(offsetSeconds) ? { scale: 1, offset: offsetSeconds } : null;
+}
+
+// The line through both anchors corrects a constant offset plus a steady drift between them.
+export function buildDriftTiming(
+  first: CaptionTimingAnchor,
+  second: CaptionTimingAnchor,
+): CaptionTimingTransform | null {
+  const values = [first.from, first.to, second.from, second.to];
+  if (!values.every((value) => Number.isFinite(value)) || first.from === second.from) {
+    return null;
+  }
+
+  const scale = (second.to - first.to) / (second.from - first.from);
+  if (scale <= 0) {
+    return null;
+  }
+  return { scale, offset: first.to - first.from * scale };
+}
+
+// Captions timed against media at `from` fps, for the same media conformed to `to` fps (e.g. a 25 fps PAL speed-up).
+export function buildFrameRateTiming(from: CaptionFrameRate, to: CaptionFrameRate): CaptionTimingTransform {
+  return { scale: CAPTION_FRAME_RATES[from] / CAPTION_FRAME_RATES[to], offset: 0 };
+}
+
+// Times that would land before zero are clamped to the start of the media.
+export function applyCaptionTiming(seconds: number, transform: CaptionTimingTransform): number {
+  return round(Math.max(0, seconds * transform.scale + transform.offset));
+}
+
+// Inline timestamps move with their cue and stay inside it.
+function applyTimingToCueNodes(
+  nodes: WebVttCueNode[],
+  transform: CaptionTimingTransform,
+  start: number,
+  end: number,
+): WebVttCueNode[] {
+  return nodes.map((node) => {
+    if (typeof node === "string") {
+      return node;
+    }
+    if ("timestamp" in node) {
+      return { timestamp: Math.min(end, Math.max(start, applyCaptionTiming(node.timestamp, transform))) };
+    }
+    return { ...node, children: applyTimingToCueNodes(node.children, transform, start, end) };
+  });
+}
+
+export function applyTimingToCues(cues: WebVttCue[], transform: CaptionTimingTransform): WebVttCue[] {
+  return cues.map((cue) => {
+    const start = applyCaptionTiming(cue.start_time, transform);
+    const end = Math.max(start, applyCaptionTiming(cue.end_time, transform));
+    return {
+      ...cue,
+      start_time: start,
+      end_time: end,
+      ...(cue.spans ? { spans: applyTimingToCueNodes(cue.spans, transform, start, end) } : {}),
+    };
+  });
+}
+
+export function applyTimingToWords<T extends TimedWordLike>(words: T[], transform: CaptionTimingTransform): T[] {
+  return words.map((word) => {
+    const start = applyCaptionTiming(word.start_time, transform);
+    return { ...word, start_time: start, end_time: Math.max(start, applyCaptionTiming(word.end_time, transform)) };
+  });
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectCaptionFormat,
+  getTtmlLanguage,
+  isCaptionBody,
+  parseCaptionCues,
+  parseSbvCues,
+  parseSrtCues,
+  parseTtmlCues,
+  serializeCaptionCues,
+  serializeSbvCues,
+  serializeSrtCues,
+  serializeTtmlCues,
+} from "./captions";
+
+const cues = [
+  { start_time: 0, end_time: 1.5, text: "Hello world" },
+  { start_time: 61.25, end_time: 3725.004, text: "Fish & chips" },
+];
+
+describe("caption formats", () => {
+  it("round-trips SRT", () => {
+    const srt = serializeSrtCues(cues);
+    expect(srt).toContain("1\n00:00:00,000 --> 00:00:01,500\nHello world\n");
+    expect(srt).toContain("2\n00:01:01,250 --> 01:02:05,004\n");
+    expect(parseSrtCues(srt)).toEqual(cues);
+    expect(parseSrtCues("\uFEFF1\r\n00:00:01,000 --> 00:00:02,000\r\nTwo\r\nlines\r\n")).toEqual([
+      { start_time: 1, end_time: 2, text: "Two lines", spans: ["Two\nlines"] },
+    ]);
+  });
+
+  it("keeps SRT line breaks and markup", () => {
+    const srt = [
+      "1",
+      "00:00:01,000 --> 00:00:03,000",
+      "<i>Whispering</i> now,",
+      '<font color="#ffff00">then <b>loud</b></font>',
+      "",
+    ].join("\n");
+    const [cue] = parseSrtCues(srt);
+    expect(cue.text).toBe("Whispering now, then loud");
+    expect(cue.spans).toEqual([
+      { tag: "i", children: ["Whispering"] },
+      " now,\nthen ",
+      { tag: "b", children: ["loud"] },
+    ]);
+    expect(serializeSrtCues([cue])).toBe(srt.replace('<font color="#ffff00">', "").replace("</font>", ""));
+    expect(serializeCaptionCues([cue], "webvtt")).toContain("<i>Whispering</i> now,\nthen <b>loud</b>");
+  });
+
+  it("round-trips SBV", () => {
+    const sbv = serializeSbvCues(cues);
+    expect(sbv.startsWith("0:00:00.000,0:00:01.500\nHello world\n")).toBe(true);
+    expect(parseSbvCues(sbv)).toEqual(cues);
+  });
+
+  it("round-trips TTML and reads offset, frame and tick times", () => {
+    const ttml = serializeTtmlCues(cues, { language: "fr" });
+    expect(ttml).toContain('xml:lang="fr"');
+    expect(ttml).toContain("Fish &amp; chips");
+    expect(getTtmlLanguage(ttml)).toBe("fr");
+    expect(parseTtmlCues(ttml)).toEqual(cues);
+
+    expect(
+      parseTtmlCues(`<?xml version="1.0"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttp="http://www.w3.org/ns/ttml#parameter"
+    ttp:frameRate="25" ttp:tickRate="10000000">
+  <body><div>
+    <p xml:id="c1" begin="1.5s" dur="500ms">Line one<br/>line two</p>
+    <p begin="00:00:02:05" end="00:00:03:00">Frames</p>
+    <p begin="30000000t" end="40000000t"><span>Ticks</span></p>
+  </div></body>
+</tt>`),
+    ).toEqual([
+      { identifier: "c1", start_time: 1.5, end_time: 2, text: "Line one line two", spans: ["Line one\nline two"] },
+      { start_time: 2.2, end_time: 3, text: "Frames" },
+      { start_time: 3, end_time: 4, text: "Ticks" },
+    ]);
+  });
+
+  it("writes and reads speakers as TTML agents", () => {
+    const spoken = parseCaptionCues(
+      "WEBVTT\n\n00:00:00.000 --> 00:00:01.000\n<v Esme Ruiz>Hello\n\n00:00:01.000 --> 00:00:02.000\n<v Tom>Hi\n\n00:00:02.000 --> 00:00:03.000\n<v Esme Ruiz>Bye",
+    );
+    const ttml = serializeTtmlCues(spoken);
+    expect(ttml).toContain(
+      '<ttm:agent xml:id="speaker-1" type="person"><ttm:name type="full">Esme Ruiz</ttm:name></ttm:agent>',
+    );
+    expect(ttml).toContain('<p begin="00:00:02.000" end="00:00:03.000" ttm:agent="speaker-1">Bye</p>');
+    expect(parseTtmlCues(ttml)).toEqual(spoken);
+    expect(serializeTtmlCues(cues)).not.toContain("<head>");
+  });
+
+  it("detects formats from hints and content", () => {
+    expect(detectCaptionFormat("", "application/x-subrip")).toBe("srt");
+    expect(detectCaptionFormat("", "https://example.org/captions.dfxp?x=1")).toBe("ttml");
+    expect(detectCaptionFormat("", "talk.en.sbv")).toBe("sbv");
+    expect(detectCaptionFormat(serializeCaptionCues(cues, "webvtt"))).toBe("webvtt");
+    expect(detectCaptionFormat(serializeSrtCues(cues))).toBe("srt");
+    expect(detectCaptionFormat(serializeSbvCues(cues))).toBe("sbv");
+    expect(detectCaptionFormat(serializeTtmlCues(cues))).toBe("ttml");
+    expect(detectCaptionFormat("plain text")).toBeUndefined();
+
+    expect(parseCaptionCues(serializeCaptionCues(cues, "ttml"))).toEqual(cues);
+    expect(isCaptionBody({ format: "application/x-subrip", value: "" })).toBe(true);
+    expect(isCaptionBody({ value: serializeSbvCues(cues) })).toBe(true);
+    expect(isCaptionBody({ format: "text/plain", value: "Hello" })).toBe(false);
+  });
+});
@@ -0,0 +1,415 @@
+import {
+  formatTimestamp,
+  getWebVttCueLines,
+  getWebVttCueNodesText,
+  getWebVttCueVoice,
+  isWebVttBody,
+  looksLikeWebVtt,
+  normalizeCueText,
+  parseTimestamp,
+  parseWebVttCuePayload,
+  parseWebVttCues,
+  sanitizeWebVttCues,
+  serializeWebVttCues,
+  type WebVttCue,
+  type WebVttCueNode,
+} from "./webvtt";
+
+export type CaptionFormat = "webvtt" | "srt" | "ttml" | "sbv";
+
+export const CAPTION_FORMATS: CaptionFormat[] = ["webvtt", "srt", "ttml", "sbv"];
+
+export const CAPTION_FORMAT_MEDIA_TYPES: Record<CaptionFormat, string> = {
+  webvtt: "text/vtt",
+  srt: "application/x-subrip",
+  ttml: "application/ttml+xml",
+  sbv: "text/x-sbv",
+};
+
+export const CAPTION_FORMAT_EXTENSIONS: Record<CaptionFormat, string> = {
+  webvtt: "vtt",
+  srt: "srt",
+  ttml: "ttml",
+  sbv: "sbv",
+};
+
+const FORMAT_BY_MEDIA_TYPE: Record<string, CaptionFormat> = {
+  "text/vtt": "webvtt",
+  "text/webvtt": "webvtt",
+  "application/x-subrip": "srt",
+  "application/srt": "srt",
+  "text/srt": "srt",
+  "application/ttml+xml": "ttml",
+  "application/ttaf+xml": "ttml",
+  "text/x-sbv": "sbv",
+  "text/sbv": "sbv",
+};
+
+const FORMAT_BY_EXTENSION: Record<string, CaptionFormat> = {
+  vtt: "webvtt",
+  srt: "srt",
+  ttml: "ttml",
+  dfxp: "ttml",
+  xml: "ttml",
+  sbv: "sbv",
+};
+
+const SRT_TIMING_LINE = /^(\d+:\d{2}:\d{2}[,.]\d{1,3})\s*-->\s*(\d+:\d{2}:\d{2}[,.]\d{1,3})/;
+const SBV_TIMING_LINE = /^(\d+:\d{2}:\d{2}\.\d{1,3}),(\d+:\d{2}:\d{2}\.\d{1,3})$/;
+const TTML_DEFAULT_FRAME_RATE = 30;
+const TTML_DEFAULT_TICK_RATE = 1;
+const TTML_METADATA_NAMESPACE = "http://www.w3.org/ns/ttml#metadata";
+// Inline markup SRT players understand; other spans are written as their text.
+const SRT_SPAN_TAGS = new Set(["i", "b", "u"]);
+
+function normalizeLineEndings(value: string): string {
+  return value.replace(/^\uFEFF/, "").replace(/\r\n/g, "\n").replace(/\r/g, "\n");
+}
+
+function splitBlocks(value: string): string[][] {
+  return normalizeLineEndings(value)
+    .trim()
+    .split(/\n\s*\n/)
+    .map((block) => block.split("\n").map((line) => line.trimEnd()))
+    .filter((lines) => lines.some((line) => line.trim().length > 0));
+}
+
+export function parseSrtCues(rawValue: string): WebVttCue[] {
+  const cues: WebVttCue[] = [];
+
+  for (const lines of splitBlocks(rawValue)) {
+    const timingIndex = lines.findIndex((line) => SRT_TIMING_LINE.test(line.trim()));
+    if (timingIndex < 0 || timingIndex > 1) {
+      continue;
+    }
+
+    const match = lines[timingIndex].trim().match(SRT_TIMING_LINE);
+    const start = match ? parseTimestamp(match[1]) : null;
+    const end = match ? parseTimestamp(match[2]) : null;
+    // Line breaks and <i>, <b> and <u> survive as spans, like a WebVTT payload; <font> keeps only its text.
+    const payload = lines.slice(timingIndex + 1).join("\n");
+    const spans = parseWebVttCuePayload(payload);
+    const text = getWebVttCueNodesText(spans);
+    if (start === null || end === null || end < start || !text) {
+      continue;
+    }
+
+    cues.push({
+      start_time: +start.toFixed(3),
+      end_time: +end.toFixed(3),
+      text,
+      ...(payload !== text ? { spans } : {}),
+    });
+  }
+
+  return cues;
+}
+
+function serializeSrtCuePayload(nodes: WebVttCueNode[]): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === "string") {
+        return node;
+      }
+      if (!("children" in node)) {
+        return "";
+      }
+
+      const children = serializeSrtCuePayload(node.children);
+      return SRT_SPAN_TAGS.has(node.tag) ? `<${node.tag}>${children}</${node.tag}>` : children;
+    })
+    .join("");
+}
+
+function getSrtCueLines(cue: WebVttCue): string[] {
+  if (!cue.spans || getWebVttCueNodesText(cue.spans) !== cue.text) {
+    return [cue.text];
+  }
+
+  return serializeSrtCuePayload(cue.spans)
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+export function serializeSrtCues(input: WebVttCue[]): string {
+  return sanitizeWebVttCues(input)
+    .map((cue, index) =>
+      [
+        String(index + 1),
+        `${formatTimestamp(cue.start_time).replace(".", ",")} --> ${formatTimestamp(cue.end_time).replace(".", ",")}`,
+        ...getSrtCueLines(cue),
+        "",
+      ].join("\n"),
+    )
+    .join("\n");
+}
+
+export function parseSbvCues(rawValue: string): WebVttCue[] {
+  const cues: WebVttCue[] = [];
+
+  for (const lines of splitBlocks(rawValue)) {
+    const match = lines[0].trim().match(SBV_TIMING_LINE);
+    const start = match ? parseTimestamp(match[1]) : null;
+    const end = match ? parseTimestamp(match[2]) : null;
+    const text = normalizeCueText(lines.slice(1).join(" "));
+    if (start === null || end === null || end < start || !text) {
+      continue;
+    }
+
+    cues.push({ start_time: +start.toFixed(3), end_time: +end.toFixed(3), text });
+  }
+
+  return cues;
+}
+
+function formatSbvTimestamp(seconds: number): string {
+  return formatTimestamp(seconds).replace(/^0(\d):/, "$1:");
+}
+
+export function serializeSbvCues(input: WebVttCue[]): string {
+  return sanitizeWebVttCues(input)
+    .map(
+      (cue) =>
+        `${formatSbvTimestamp(cue.start_time)},${formatSbvTimestamp(cue.end_time)}\n${getWebVttCueLines(cue).join("\n")}\n`,
+    )
+    .join("\n");
+}
+
+function parseXmlAttributes(rawAttributes: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of rawAttributes.matchAll(/([\w:.-]+)\s*=\s*(["'])([\s\S]*?)\2/g)) {
+    attributes[match[1]] = match[3];
+  }
+  return attributes;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+    const lower = name.toLowerCase();
+    if (lower.startsWith("#x")) return String.fromCodePoint(Number.parseInt(lower.slice(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(Number.parseInt(lower.slice(1), 10));
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[lower] ?? entity;
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function parseTtmlTime(
+  rawValue: string | undefined,
+  rates: { frameRate: number; tickRate: number },
+): number | null {
+  const value = rawValue?.trim() ?? "";
+  const clock = value.match(/^(\d+):(\d{2}):(\d{2})(?:\.(\d+)|:(\d+(?:\.\d+)?))?$/);
+  if (clock) {
+    const [, hours, minutes, seconds, fraction, frames] = clock;
+    return (
+      Number(hours) * 3600 +
+      Number(minutes) * 60 +
+      Number(seconds) +
+      (fraction ? Number(`0.${fraction}`) : 0) +
+      (frames ? Number(frames) / rates.frameRate : 0)
+    );
+  }
+
+  const offset = value.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+  if (!offset) {
+    return null;
+  }
+
+  const amount = Number(offset[1]);
+  const divisors: Record<string, number> = {
+    h: 1 / 3600,
+    m: 1 / 60,
+    s: 1,
+    ms: 1000,
+    f: rates.frameRate,
+    t: rates.tickRate,
+  };
+  return amount / divisors[offset[2]];
+}
+
+export function getTtmlLanguage(rawValue: string): string | undefined {
+  const root = rawValue.match(/<(?:[\w-]+:)?tt\b([^>]*)>/);
+  const language = root ? parseXmlAttributes(root[1])["xml:lang"]?.trim() : undefined;
+  return language || undefined;
+}
+
+export function parseTtmlCues(rawValue: string): WebVttCue[] {
+  const root = rawValue.match(/<(?:[\w-]+:)?tt\b([^>]*)>/);
+  const rootAttributes = root ? parseXmlAttributes(root[1]) : {};
+  const rates = {
+    frameRate: Number(rootAttributes["ttp:frameRate"]) || TTML_DEFAULT_FRAME_RATE,
+    tickRate: Number(rootAttributes["ttp:tickRate"]) || TTML_DEFAULT_TICK_RATE,
+  };
+  const agentNames = new Map<string, string>();
+  for (const match of rawValue.matchAll(/<ttm:agent\b([^>]*)>([\s\S]*?)<\/ttm:agent>/g)) {
+    const id = parseXmlAttributes(match[1])["xml:id"];
+    const name = match[2].match(/<ttm:name\b[^>]*>([\s\S]*?)<\/ttm:name>/);
+    if (id && name) {
+      agentNames.set(id, decodeXmlEntities(name[1]).trim());
+    }
+  }
+  const cues: WebVttCue[] = [];
+
+  for (const match of rawValue.matchAll(/<(?:[\w-]+:)?p\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?p>/g)) {
+    const attributes = parseXmlAttributes(match[1]);
+    const start = parseTtmlTime(attributes.begin, rates);
+    const duration = parseTtmlTime(attributes.dur, rates);
+    const end =
+      parseTtmlTime(attributes.end, rates) ??
+      (start !== null && duration !== null ? start + duration : null);
+    const lines = match[2]
+      .split(/<br\s*\/?>/i)
+      .map((line) => decodeXmlEntities(line.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim())
+      .filter(Boolean);
+    // The first agent with a name becomes the cue's voice, as `<v>` does in WebVTT.
+    const speaker = (attributes["ttm:agent"] ?? "")
+      .split(/\s+/)
+      .map((id) => agentNames.get(id))
+      .find(Boolean);
+    const content = lines.join("\n");
+    const spans: WebVttCueNode[] = speaker ? [{ tag: "v", annotation: speaker, children: [content] }] : [content];
+    const text = getWebVttCueNodesText(spans);
+    if (start === null || end === null || end < start || !text) {
+      continue;
+    }
+
+    cues.push({
+      ...(attributes["xml:id"] ? { identifier: attributes["xml:id"] } : {}),
+      start_time: +start.toFixed(3),
+      end_time: +end.toFixed(3),
+      text,
+      ...(speaker || lines.length > 1 ? { spans } : {}),
+    });
+  }
+
+  return cues;
+}
+
+// Speakers are declared once as `ttm:agent` elements and referenced from each paragraph.
+export function serializeTtmlCues(input: WebVttCue[], options: { language?: string } = {}): string {
+  const agentIds = new Map<string, string>();
+  const paragraphs = sanitizeWebVttCues(input).map((cue) => {
+    const speaker = getWebVttCueVoice(cue);
+    let agent = "";
+    if (speaker) {
+      const agentId = agentIds.get(speaker) ?? `speaker-${agentIds.size + 1}`;
+      agentIds.set(speaker, agentId);
+      agent = ` ttm:agent="${agentId}"`;
+    }
+    return `      <p begin="${formatTimestamp(cue.start_time)}" end="${formatTimestamp(cue.end_time)}"${agent}>${getWebVttCueLines(cue).map(escapeXml).join("<br/>")}</p>`;
+  });
+  const head =
+    agentIds.size > 0
+      ? [
+          "  <head>",
+          "    <metadata>",
+          ...Array.from(agentIds, ([name, id]) =>
+            `      <ttm:agent xml:id="${id}" type="person"><ttm:name type="full">${escapeXml(name)}</ttm:name></ttm:agent>`,
+          ),
+          "    </metadata>",
+          "  </head>",
+        ]
+      : [];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttm="${TTML_METADATA_NAMESPACE}" xml:lang="${escapeXml(options.language ?? "")}">`,
+    ...head,
+    "  <body>",
+    "    <div>",
+    ...paragraphs,
+    "    </div>",
+    "  </body>",
+    "</tt>",
+    "",
+  ].join("\n");
+}
+
+// The hint is a media type, a file name or URL, or a bare extension; content sniffing covers the rest.
+export function detectCaptionFormat(value: unknown, hint?: unknown): CaptionFormat | undefined {
+  if (typeof hint === "string" && hint.trim()) {
+    const normalized = hint.trim().toLowerCase();
+    if ((CAPTION_FORMATS as string[]).includes(normalized)) {
+      return normalized as CaptionFormat;
+    }
+    const mediaType = normalized.split(";")[0].trim();
+    const extension = normalized.split(/[?#]/)[0].split(".").pop() ?? "";
+    const fromHint = FORMAT_BY_MEDIA_TYPE[mediaType] ?? FORMAT_BY_EXTENSION[extension];
+    if (fromHint) {
+      return fromHint;
+    }
+  }
+
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  if (looksLikeWebVtt(value)) {
+    return "webvtt";
+  }
+
+  const normalized = normalizeLineEndings(value).trimStart();
+  if (normalized.startsWith("<") && /<(?:[\w-]+:)?tt\b/.test(normalized)) {
+    return "ttml";
+  }
+
+  const lines = normalized.split("\n", 3).map((line) => line.trim());
+  if (lines.slice(0, 2).some((line) => SRT_TIMING_LINE.test(line))) {
+    return "srt";
+  }
+  if (SBV_TIMING_LINE.test(lines[0] ?? "")) {
+    return "sbv";
+  }
+  return undefined;
+}
+
+export function parseCaptionCues(value: string, hint?: unknown): WebVttCue[] {
+  switch (detectCaptionFormat(value, hint)) {
+    case "webvtt":
+      return parseWebVttCues(value);
+    case "srt":
+      return parseSrtCues(value);
+    case "ttml":
+      return parseTtmlCues(value);
+    case "sbv":
+      return parseSbvCues(value);
+    default:
+      return [];
+  }
+}
+
+export function serializeCaptionCues(
+  cues: WebVttCue[],
+  format: CaptionFormat,
+  options: { language?: string } = {},
+): string {
+  switch (format) {
+    case "srt":
+      return serializeSrtCues(cues);
+    case "ttml":
+      return serializeTtmlCues(cues, options);
+    case "sbv":
+      return serializeSbvCues(cues);
+    default:
+      return serializeWebVttCues(cues);
+  }
+}
+
+export function isCaptionBody(body: Partial<{ format: unknown; value: unknown }> | null | undefined): boolean {
+  if (!body || typeof body !== "object") {
+    return false;
+  }
+  if (isWebVttBody(body)) {
+    return true;
+  }
+
+  const format = typeof body.format === "string" ? body.format.split(";")[0].trim().toLowerCase() : "";
+  return Boolean(FORMAT_BY_MEDIA_TYPE[format]) || (!format && detectCaptionFormat(body.value) !== undefined);
+}
@@ -1,6 +1,36 @@
+import type { StoredAnnotation } from "./annotation-runtime";
+
+// An empty stored set still replaces what the annotator shows, so a remote delete of the last
+// annotation clears its shape instead of leaving it to be re-synced by the next local edit.
 export function shouldSkipSyncOnHydration(
   storedLength: number,
   canSetAnnotations: boolean,
+  shownLength = 0,
 ): boolean {
-  return storedLength > 0 && canSetAnnotations;
+  return (storedLength > 0 || shownLength > 0) && canSetAnnotations;
+}
+
+export type HydratableAnnotatorLike = {
+  getAnnotations?: () => unknown[];
+  setAnnotations?: (next: StoredAnnotation[], replace?: boolean) => void;
+  setVisible?: (visible: boolean) => void;
+};
+
+// Shows the stored annotations in the annotator; returns whether the change it triggers should skip syncing back.
+export function hydrateAnnotator(annotator: HydratableAnnotatorLike, stored: StoredAnnotation[]): boolean {
+  if (typeof annotator.setVisible === "function") {
+    annotator.setVisible(true);
+  }
+
+  if (
+    !shouldSkipSyncOnHydration(
+      stored.length,
+      typeof annotator.setAnnotations === "function",
+      annotator.getAnnotations?.().length ?? 0,
+    )
+  ) {
+    return false;
+  }
+  annotator.setAnnotations?.(stored, true);
+  return true;
 }
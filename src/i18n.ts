@@ -12,9 +12,14 @@ export type AnnotationsTranslationStrings = {
   mediaUnknown: string;
   visibleAnnotations: string;
   nativeCanvasAnnotations: string;
+  adoptNativeAnnotation: string;
+  nativeAnnotationAdopted: string;
   localDraftAnnotations: string;
   sessionCloverMarks: string;
   noSessionCloverMarks: string;
+  collaboratorsOnCanvas: string;
+  collaboratorSelecting: string;
+  collaboratorAnonymous: string;
   scholiumLabel: string;
   scholiumComment: string;
   focusScholium: string;
@@ -25,11 +30,57 @@ export type AnnotationsTranslationStrings = {
   jumpToCanvas: string;
   noCanvasAvailable: string;
   exportAnnotations: string;
+  exportFormat: string;
+  exportFormatIiif: string;
+  exportFormatIiif2: string;
+  exportFormatW3c: string;
+  exportManifest: string;
+  exportManifestSuccess: string;
+  exportManifestFailed: string;
   exportWebVtt: string;
+  exportWebVttBundle: string;
+  exportWebVttBundleSuccess: string;
   exportNoAnnotations: string;
   exportNoWebVtt: string;
   exportSuccess: string;
   exportWebVttSuccess: string;
+  captionFormat: string;
+  storageError: string;
+  outboxPending: string;
+  outboxUnauthorized: string;
+  outboxRejected: string;
+  conflictTitle: string;
+  conflictChanged: string;
+  conflictDeleted: string;
+  conflictLocal: string;
+  conflictRemote: string;
+  conflictVersionDeleted: string;
+  conflictKeepLocal: string;
+  conflictUseRemote: string;
+  conflictMergeFields: string;
+  conflictFieldTarget: string;
+  conflictFieldMotivation: string;
+  conflictFieldBody: string;
+  conflictMerge: string;
+  importAnnotations: string;
+  importSuccess: string;
+  importUnmatched: string;
+  importFailed: string;
+  importCaptions: string;
+  importCaptionsSuccess: string;
+  importCaptionsEmpty: string;
+  splitIntoCues: string;
+  splitIntoCuesSuccess: string;
+  splitIntoCuesNothing: string;
+  mergeAnnotationsSelect: string;
+  mergeAnnotations: string;
+  mergeAnnotationsClear: string;
+  mergeAnnotationsSuccess: string;
+  mergeAnnotationsNothing: string;
+  historyUndo: string;
+  historyRedo: string;
+  historyUndoShortcut: string;
+  historyRedoShortcut: string;
   motivation: string;
   motivationUnspecified: string;
   motivationCommenting: string;
@@ -84,6 +135,44 @@ export type AnnotationsTranslationStrings = {
   sttSaveTranscript: string;
   sttTimedWordsLabel: string;
   sttTimedWordsHint: string;
+  sttSpeakerFirstWord: string;
+  sttSpeakerLastWord: string;
+  sttSpeakerName: string;
+  sttSpeakerAssign: string;
+  sttTimingTitle: string;
+  sttTimingOffset: string;
+  sttTimingDrift: string;
+  sttTimingFrameRate: string;
+  sttTimingSeconds: string;
+  sttTimingWord: string;
+  sttTimingStartsAt: string;
+  sttTimingFromRate: string;
+  sttTimingToRate: string;
+  sttTimingPreview: string;
+  sttTimingApply: string;
+  sttAlignTranscript: string;
+  sttAligning: string;
+  sttAlignDone: string;
+  sttAlignFailed: string;
+  sttAlignNoText: string;
+  sttAlignNeedsReview: string;
+  sttWordSplit: string;
+  sttWordMerge: string;
+  sttWordInsert: string;
+  sttWordDelete: string;
+  sttWordTimeline: string;
+  sttWordTimelineHint: string;
+  sttWordStartEdge: string;
+  sttWordEndEdge: string;
+  captionLintTitle: string;
+  captionLintNone: string;
+  captionLintFix: string;
+  captionLintReadingSpeed: string;
+  captionLintLineLength: string;
+  captionLintMinDuration: string;
+  captionLintOverlap: string;
+  captionLintOutOfOrder: string;
+  captionLintMinGap: string;
   sttSessionTime: string;
   sttLatency: string;
   sttRtf: string;
@@ -133,9 +222,14 @@ const DEFAULT_TRANSLATIONS: AnnotationsTranslationStrings = {
   mediaUnknown: "Unknown",
   visibleAnnotations: "Visible CloverMarks",
   nativeCanvasAnnotations: "Canvas CloverMarks (native)",
+  adoptNativeAnnotation: "Edit a copy",
+  nativeAnnotationAdopted: "Copy in session",
   localDraftAnnotations: "Draft CloverMarks (session)",
   sessionCloverMarks: "Session CloverMarks",
   noSessionCloverMarks: "No session CloverMarks yet. Use drawing tools to add one.",
+  collaboratorsOnCanvas: "Collaborators on this canvas: {{count}}",
+  collaboratorSelecting: "{{name}} has this CloverMark selected",
+  collaboratorAnonymous: "Collaborator",
   scholiumLabel: "Label",
   scholiumComment: "Comment",
   focusScholium: "Focus",
@@ -145,12 +239,58 @@ const DEFAULT_TRANSLATIONS: AnnotationsTranslationStrings = {
   canvases: "Canvases",
   jumpToCanvas: "Jump",
   noCanvasAvailable: "No canvases available",
-  exportAnnotations: "Export annotations (IIIF)",
-  exportWebVtt: "Export WEBVTT",
+  exportAnnotations: "Export annotations",
+  exportFormat: "Export format",
+  exportFormatIiif: "IIIF AnnotationPage",
+  exportFormatIiif2: "IIIF Presentation 2 AnnotationList",
+  exportFormatW3c: "W3C Web Annotation",
+  exportManifest: "Download annotated manifest",
+  exportManifestSuccess: "Exported the annotated manifest.",
+  exportManifestFailed: "Could not export the annotated manifest: {{message}}",
+  exportWebVtt: "Export captions",
+  exportWebVttBundle: "Export caption bundle (ZIP)",
+  exportWebVttBundleSuccess: "Exported {{count}} WEBVTT file(s) by canvas and language.",
   exportNoAnnotations: "No session annotations to export.",
   exportNoWebVtt: "No timed WEBVTT segments are available to export.",
   exportSuccess: "Exported {{count}} annotation(s).",
-  exportWebVttSuccess: "Exported {{count}} WEBVTT cue(s).",
+  exportWebVttSuccess: "Exported {{count}} caption cue(s).",
+  captionFormat: "Caption format",
+  storageError: "Annotation storage failed: {{message}}",
+  outboxPending: "{{count}} change(s) waiting to sync",
+  outboxUnauthorized: "The annotation server did not accept your sign-in. Changes will sync once you sign in again.",
+  outboxRejected: "The annotation server refused a change: {{message}}",
+  conflictTitle: "Resolve sync conflict",
+  conflictChanged: "Someone changed this CloverMark on the server while your edit was waiting to sync.",
+  conflictDeleted: "Someone deleted this CloverMark on the server while your edit was waiting to sync.",
+  conflictLocal: "Your version",
+  conflictRemote: "Server version",
+  conflictVersionDeleted: "Deleted",
+  conflictKeepLocal: "Keep mine",
+  conflictUseRemote: "Use server version",
+  conflictMergeFields: "Or choose a version for each part",
+  conflictFieldTarget: "Region or time span",
+  conflictFieldMotivation: "Motivation",
+  conflictFieldBody: "Body",
+  conflictMerge: "Merge",
+  importAnnotations: "Import annotations (IIIF)",
+  importSuccess: "Imported {{count}} annotation(s).",
+  importUnmatched: "{{count}} annotation(s) target canvases outside this manifest and were skipped.",
+  importFailed: "Could not import annotations: {{message}}",
+  importCaptions: "Import captions (WebVTT, SRT, TTML, SBV)",
+  importCaptionsSuccess: "Imported {{count}} caption cue(s).",
+  importCaptionsEmpty: "No caption cues found in {{name}}.",
+  splitIntoCues: "Split into cue annotations",
+  splitIntoCuesSuccess: "Created {{count}} cue annotation(s).",
+  splitIntoCuesNothing: "This transcript has only one caption cue.",
+  mergeAnnotationsSelect: "Merge",
+  mergeAnnotations: "Merge {{count}} selected into one transcript",
+  mergeAnnotationsClear: "Clear selection",
+  mergeAnnotationsSuccess: "Merged {{count}} annotation(s) into one transcript.",
+  mergeAnnotationsNothing: "Select at least two annotations with a transcript to merge.",
+  historyUndo: "Undo",
+  historyRedo: "Redo",
+  historyUndoShortcut: "Undo the last annotation change (Ctrl/Cmd+Z)",
+  historyRedoShortcut: "Redo the last undone change (Ctrl/Cmd+Shift+Z)",
   motivation: "Motivation",
   motivationUnspecified: "Unspecified",
   motivationCommenting: "Commenting",
@@ -205,6 +345,44 @@ const DEFAULT_TRANSLATIONS: AnnotationsTranslationStrings = {
   sttSaveTranscript: "Save transcript text",
   sttTimedWordsLabel: "Timed segments",
   sttTimedWordsHint: "Edit each caption segment while preserving its original timestamp window.",
+  sttSpeakerFirstWord: "First word",
+  sttSpeakerLastWord: "Last word",
+  sttSpeakerName: "Speaker",
+  sttSpeakerAssign: "Assign speaker",
+  sttTimingTitle: "Adjust timing",
+  sttTimingOffset: "Shift all times",
+  sttTimingDrift: "Sync two words",
+  sttTimingFrameRate: "Convert frame rate",
+  sttTimingSeconds: "Seconds (+/-)",
+  sttTimingWord: "Word",
+  sttTimingStartsAt: "Starts at (s)",
+  sttTimingFromRate: "Timed at (fps)",
+  sttTimingToRate: "Media at (fps)",
+  sttTimingPreview: "Word {{word}}: {{from}} s → {{to}} s",
+  sttTimingApply: "Apply timing",
+  sttAlignTranscript: "Align text to audio",
+  sttAligning: "Transcribing the audio and aligning the text…",
+  sttAlignDone: "Aligned {{aligned}} of {{total}} words; {{review}} need review.",
+  sttAlignFailed: "Could not align the transcript: {{message}}",
+  sttAlignNoText: "Add transcript text before aligning it.",
+  sttAlignNeedsReview: "Timing estimated; check this word.",
+  sttWordSplit: "Split word at the cursor",
+  sttWordMerge: "Merge with next word",
+  sttWordInsert: "Insert word after",
+  sttWordDelete: "Delete word",
+  sttWordTimeline: "Word timeline",
+  sttWordTimelineHint: "Drag the edge of a word to retime it, or use the arrow keys.",
+  sttWordStartEdge: "Start of {{word}}",
+  sttWordEndEdge: "End of {{word}}",
+  captionLintTitle: "Caption checks",
+  captionLintNone: "No caption issues found.",
+  captionLintFix: "Fix",
+  captionLintReadingSpeed: "Cue {{cue}}: reading speed {{value}} characters/s is over {{limit}}.",
+  captionLintLineLength: "Cue {{cue}}: a line has {{value}} characters (max {{limit}}).",
+  captionLintMinDuration: "Cue {{cue}}: {{value}} s is shorter than {{limit}} s.",
+  captionLintOverlap: "Cue {{cue}} overlaps the next cue by {{value}} s.",
+  captionLintOutOfOrder: "Cue {{cue}} starts before the previous cue.",
+  captionLintMinGap: "Cue {{cue}}: the gap to the next cue is {{value}} s (min {{limit}} s).",
   sttSessionTime: "Session",
   sttLatency: "Latency",
   sttRtf: "RTF",
@@ -246,9 +424,14 @@ const BUILTIN_TRANSLATIONS: AnnotationsTranslationResources = {
     mediaUnknown: "Inconnu",
     visibleAnnotations: "CloverMarks visibles",
     nativeCanvasAnnotations: "CloverMarks du canvas (natif)",
+    adoptNativeAnnotation: "Modifier une copie",
+    nativeAnnotationAdopted: "Copie en session",
     localDraftAnnotations: "Brouillons de session",
     sessionCloverMarks: "CloverMarks de session",
     noSessionCloverMarks: "Aucun CloverMark de session. Utilisez les outils de dessin pour en ajouter un.",
+    collaboratorsOnCanvas: "Collaborateurs sur ce canvas : {{count}}",
+    collaboratorSelecting: "{{name}} a sélectionné ce CloverMark",
+    collaboratorAnonymous: "Collaborateur",
     scholiumLabel: "Étiquette",
     scholiumComment: "Commentaire",
     focusScholium: "Cibler",
@@ -258,12 +441,58 @@ const BUILTIN_TRANSLATIONS: AnnotationsTranslationResources = {
     canvases: "Canvases",
     jumpToCanvas: "Aller",
     noCanvasAvailable: "Aucun canvas disponible",
-    exportAnnotations: "Exporter les annotations (IIIF)",
-    exportWebVtt: "Exporter WEBVTT",
+    exportAnnotations: "Exporter les annotations",
+    exportFormat: "Format d'export",
+    exportFormatIiif: "AnnotationPage IIIF",
+    exportFormatIiif2: "AnnotationList IIIF Presentation 2",
+    exportFormatW3c: "Web Annotation W3C",
+    exportManifest: "Télécharger le manifeste annoté",
+    exportManifestSuccess: "Manifeste annoté exporté.",
+    exportManifestFailed: "Impossible d'exporter le manifeste annoté : {{message}}",
+    exportWebVtt: "Exporter les sous-titres",
+    exportWebVttBundle: "Exporter le lot de sous-titres (ZIP)",
+    exportWebVttBundleSuccess: "{{count}} fichier(s) WEBVTT exporté(s) par canevas et par langue.",
     exportNoAnnotations: "Aucune annotation de session à exporter.",
     exportNoWebVtt: "Aucun segment WEBVTT horodaté à exporter.",
     exportSuccess: "{{count}} annotation(s) exportée(s).",
-    exportWebVttSuccess: "{{count}} repère(s) WEBVTT exporté(s).",
+    exportWebVttSuccess: "{{count}} repère(s) de sous-titres exporté(s).",
+    captionFormat: "Format des sous-titres",
+    storageError: "Échec du stockage des annotations : {{message}}",
+    outboxPending: "{{count}} modification(s) en attente de synchronisation",
+    outboxUnauthorized: "Le serveur d'annotations n'a pas accepté votre connexion. Les modifications seront synchronisées une fois reconnecté.",
+    outboxRejected: "Le serveur d'annotations a refusé une modification : {{message}}",
+    conflictTitle: "Résoudre le conflit de synchronisation",
+    conflictChanged: "Quelqu'un a modifié ce CloverMark sur le serveur pendant que votre modification attendait d'être synchronisée.",
+    conflictDeleted: "Quelqu'un a supprimé ce CloverMark sur le serveur pendant que votre modification attendait d'être synchronisée.",
+    conflictLocal: "Votre version",
+    conflictRemote: "Version du serveur",
+    conflictVersionDeleted: "Supprimé",
+    conflictKeepLocal: "Garder la mienne",
+    conflictUseRemote: "Utiliser la version du serveur",
+    conflictMergeFields: "Ou choisissez une version pour chaque partie",
+    conflictFieldTarget: "Région ou intervalle",
+    conflictFieldMotivation: "Motivation",
+    conflictFieldBody: "Corps",
+    conflictMerge: "Fusionner",
+    importAnnotations: "Importer des annotations (IIIF)",
+    importSuccess: "{{count}} annotation(s) importée(s).",
+    importUnmatched: "{{count}} annotation(s) ciblent des canevas absents de ce manifeste et ont été ignorée(s).",
+    importFailed: "Impossible d'importer les annotations : {{message}}",
+    importCaptions: "Importer des sous-titres (WebVTT, SRT, TTML, SBV)",
+    importCaptionsSuccess: "{{count}} repère(s) de sous-titres importé(s).",
+    importCaptionsEmpty: "Aucun repère de sous-titres trouvé dans {{name}}.",
+    splitIntoCues: "Scinder en annotations par repère",
+    splitIntoCuesSuccess: "{{count}} annotation(s) par repère créée(s).",
+    splitIntoCuesNothing: "Cette transcription ne contient qu'un seul repère.",
+    mergeAnnotationsSelect: "Fusionner",
+    mergeAnnotations: "Fusionner les {{count}} sélectionnées en une transcription",
+    mergeAnnotationsClear: "Effacer la sélection",
+    mergeAnnotationsSuccess: "{{count}} annotation(s) fusionnée(s) en une transcription.",
+    mergeAnnotationsNothing: "Sélectionnez au moins deux annotations avec une transcription à fusionner.",
+    historyUndo: "Annuler",
+    historyRedo: "Rétablir",
+    historyUndoShortcut: "Annuler la dernière modification d'annotation (Ctrl/Cmd+Z)",
+    historyRedoShortcut: "Rétablir la dernière modification annulée (Ctrl/Cmd+Maj+Z)",
     tabLabel: "CloverMark (français)",
     motivation: "Motivation",
     motivationUnspecified: "Non précisée",
@@ -319,6 +548,44 @@ const BUILTIN_TRANSLATIONS: AnnotationsTranslationResources = {
     sttSaveTranscript: "Enregistrer le texte transcrit",
     sttTimedWordsLabel: "Segments horodatés",
     sttTimedWordsHint: "Modifiez chaque segment de sous-titre tout en conservant sa fenêtre temporelle d'origine.",
+    sttSpeakerFirstWord: "Premier mot",
+    sttSpeakerLastWord: "Dernier mot",
+    sttSpeakerName: "Locuteur",
+    sttSpeakerAssign: "Attribuer le locuteur",
+    sttTimingTitle: "Ajuster le minutage",
+    sttTimingOffset: "Décaler tous les temps",
+    sttTimingDrift: "Synchroniser deux mots",
+    sttTimingFrameRate: "Convertir la fréquence d'images",
+    sttTimingSeconds: "Secondes (+/-)",
+    sttTimingWord: "Mot",
+    sttTimingStartsAt: "Commence à (s)",
+    sttTimingFromRate: "Minuté à (i/s)",
+    sttTimingToRate: "Média à (i/s)",
+    sttTimingPreview: "Mot {{word}} : {{from}} s → {{to}} s",
+    sttTimingApply: "Appliquer le minutage",
+    sttAlignTranscript: "Aligner le texte sur l'audio",
+    sttAligning: "Transcription de l'audio et alignement du texte…",
+    sttAlignDone: "{{aligned}} mots alignés sur {{total}} ; {{review}} à vérifier.",
+    sttAlignFailed: "Impossible d'aligner la transcription : {{message}}",
+    sttAlignNoText: "Ajoutez le texte de la transcription avant de l'aligner.",
+    sttAlignNeedsReview: "Minutage estimé ; vérifiez ce mot.",
+    sttWordSplit: "Couper le mot au curseur",
+    sttWordMerge: "Fusionner avec le mot suivant",
+    sttWordInsert: "Insérer un mot après",
+    sttWordDelete: "Supprimer le mot",
+    sttWordTimeline: "Chronologie des mots",
+    sttWordTimelineHint: "Faites glisser le bord d'un mot pour le recaler, ou utilisez les flèches.",
+    sttWordStartEdge: "Début de {{word}}",
+    sttWordEndEdge: "Fin de {{word}}",
+    captionLintTitle: "Vérifications des sous-titres",
+    captionLintNone: "Aucun problème de sous-titres détecté.",
+    captionLintFix: "Corriger",
+    captionLintReadingSpeed: "Repère {{cue}} : vitesse de lecture de {{value}} caractères/s, au-delà de {{limit}}.",
+    captionLintLineLength: "Repère {{cue}} : une ligne compte {{value}} caractères (max {{limit}}).",
+    captionLintMinDuration: "Repère {{cue}} : {{value}} s, moins que {{limit}} s.",
+    captionLintOverlap: "Le repère {{cue}} chevauche le suivant de {{value}} s.",
+    captionLintOutOfOrder: "Le repère {{cue}} commence avant le repère précédent.",
+    captionLintMinGap: "Repère {{cue}} : l'écart avec le repère suivant est de {{value}} s (min {{limit}} s).",
     sttSessionTime: "Session",
     sttLatency: "Latence",
     sttRtf: "RTF",
@@ -357,9 +624,14 @@ const BUILTIN_TRANSLATIONS: AnnotationsTranslationResources = {
     mediaUnknown: "Desconocido",
     visibleAnnotations: "CloverMarks visibles",
     nativeCanvasAnnotations: "CloverMarks del lienzo (nativo)",
+    adoptNativeAnnotation: "Editar una copia",
+    nativeAnnotationAdopted: "Copia en la sesión",
     localDraftAnnotations: "Borradores de sesión",
     sessionCloverMarks: "CloverMarks de sesión",
     noSessionCloverMarks: "Aún no hay CloverMarks de sesión. Usa las herramientas de dibujo para agregar uno.",
+    collaboratorsOnCanvas: "Colaboradores en este lienzo: {{count}}",
+    collaboratorSelecting: "{{name}} tiene este CloverMark seleccionado",
+    collaboratorAnonymous: "Colaborador",
     scholiumLabel: "Etiqueta",
     scholiumComment: "Comentario",
     focusScholium: "Enfocar",
@@ -369,12 +641,58 @@ const BUILTIN_TRANSLATIONS: AnnotationsTranslationResources = {
     canvases: "Lienzos",
     jumpToCanvas: "Ir",
     noCanvasAvailable: "No hay lienzos disponibles",
-    exportAnnotations: "Exportar anotaciones (IIIF)",
-    exportWebVtt: "Exportar WEBVTT",
+    exportAnnotations: "Exportar anotaciones",
+    exportFormat: "Formato de exportación",
+    exportFormatIiif: "AnnotationPage IIIF",
+    exportFormatIiif2: "AnnotationList IIIF Presentation 2",
+    exportFormatW3c: "Web Annotation W3C",
+    exportManifest: "Descargar manifiesto anotado",
+    exportManifestSuccess: "Se exportó el manifiesto anotado.",
+    exportManifestFailed: "No se pudo exportar el manifiesto anotado: {{message}}",
+    exportWebVtt: "Exportar subtítulos",
+    exportWebVttBundle: "Exportar paquete de subtítulos (ZIP)",
+    exportWebVttBundleSuccess: "Se exportaron {{count}} archivo(s) WEBVTT por lienzo e idioma.",
     exportNoAnnotations: "No hay anotaciones de sesión para exportar.",
     exportNoWebVtt: "No hay segmentos WEBVTT temporizados para exportar.",
     exportSuccess: "Se exportaron {{count}} anotación(es).",
-    exportWebVttSuccess: "Se exportaron {{count}} cue(s) WEBVTT.",
+    exportWebVttSuccess: "Se exportaron {{count}} cue(s) de subtítulos.",
+    captionFormat: "Formato de subtítulos",
+    storageError: "Error en el almacenamiento de anotaciones: {{message}}",
+    outboxPending: "{{count}} cambio(s) pendiente(s) de sincronizar",
+    outboxUnauthorized: "El servidor de anotaciones no aceptó tu sesión. Los cambios se sincronizarán cuando vuelvas a iniciar sesión.",
+    outboxRejected: "El servidor de anotaciones rechazó un cambio: {{message}}",
+    conflictTitle: "Resolver conflicto de sincronización",
+    conflictChanged: "Alguien cambió este CloverMark en el servidor mientras tu edición esperaba para sincronizarse.",
+    conflictDeleted: "Alguien eliminó este CloverMark en el servidor mientras tu edición esperaba para sincronizarse.",
+    conflictLocal: "Tu versión",
+    conflictRemote: "Versión del servidor",
+    conflictVersionDeleted: "Eliminado",
+    conflictKeepLocal: "Conservar la mía",
+    conflictUseRemote: "Usar la versión del servidor",
+    conflictMergeFields: "O elige una versión para cada parte",
+    conflictFieldTarget: "Región o intervalo",
+    conflictFieldMotivation: "Motivación",
+    conflictFieldBody: "Cuerpo",
+    conflictMerge: "Combinar",
+    importAnnotations: "Importar anotaciones (IIIF)",
+    importSuccess: "Se importaron {{count}} anotación(es).",
+    importUnmatched: "{{count}} anotación(es) apuntan a lienzos fuera de este manifiesto y se omitieron.",
+    importFailed: "No se pudieron importar las anotaciones: {{message}}",
+    importCaptions: "Importar subtítulos (WebVTT, SRT, TTML, SBV)",
+    importCaptionsSuccess: "Se importaron {{count}} cue(s) de subtítulos.",
+    importCaptionsEmpty: "No se encontraron cues de subtítulos en {{name}}.",
+    splitIntoCues: "Dividir en anotaciones por cue",
+    splitIntoCuesSuccess: "Se crearon {{count}} anotación(es) por cue.",
+    splitIntoCuesNothing: "Esta transcripción solo tiene un cue de subtítulos.",
+    mergeAnnotationsSelect: "Unir",
+    mergeAnnotations: "Unir las {{count}} seleccionadas en una transcripción",
+    mergeAnnotationsClear: "Borrar selección",
+    mergeAnnotationsSuccess: "Se unieron {{count}} anotación(es) en una transcripción.",
+    mergeAnnotationsNothing: "Selecciona al menos dos anotaciones con transcripción para unir.",
+    historyUndo: "Deshacer",
+    historyRedo: "Rehacer",
+    historyUndoShortcut: "Deshacer el último cambio de anotación (Ctrl/Cmd+Z)",
+    historyRedoShortcut: "Rehacer el último cambio deshecho (Ctrl/Cmd+Mayús+Z)",
     tabLabel: "CloverMark",
     motivation: "Motivación",
     motivationUnspecified: "Sin especificar",
@@ -430,6 +748,44 @@ const BUILTIN_TRANSLATIONS: AnnotationsTranslationResources = {
     sttSaveTranscript: "Guardar texto transcrito",
     sttTimedWordsLabel: "Segmentos con marca de tiempo",
     sttTimedWordsHint: "Edita cada segmento de subtítulo conservando su ventana de tiempo original.",
+    sttSpeakerFirstWord: "Primera palabra",
+    sttSpeakerLastWord: "Última palabra",
+    sttSpeakerName: "Hablante",
+    sttSpeakerAssign: "Asignar hablante",
+    sttTimingTitle: "Ajustar los tiempos",
+    sttTimingOffset: "Desplazar todos los tiempos",
+    sttTimingDrift: "Sincronizar dos palabras",
+    sttTimingFrameRate: "Convertir la velocidad de fotogramas",
+    sttTimingSeconds: "Segundos (+/-)",
+    sttTimingWord: "Palabra",
+    sttTimingStartsAt: "Empieza en (s)",
+    sttTimingFromRate: "Sincronizado a (fps)",
+    sttTimingToRate: "Medio a (fps)",
+    sttTimingPreview: "Palabra {{word}}: {{from}} s → {{to}} s",
+    sttTimingApply: "Aplicar los tiempos",
+    sttAlignTranscript: "Alinear el texto con el audio",
+    sttAligning: "Transcribiendo el audio y alineando el texto…",
+    sttAlignDone: "{{aligned}} de {{total}} palabras alineadas; {{review}} por revisar.",
+    sttAlignFailed: "No se pudo alinear la transcripción: {{message}}",
+    sttAlignNoText: "Añade el texto de la transcripción antes de alinearlo.",
+    sttAlignNeedsReview: "Tiempo estimado; revisa esta palabra.",
+    sttWordSplit: "Dividir la palabra en el cursor",
+    sttWordMerge: "Unir con la palabra siguiente",
+    sttWordInsert: "Insertar palabra después",
+    sttWordDelete: "Eliminar palabra",
+    sttWordTimeline: "Línea de tiempo de palabras",
+    sttWordTimelineHint: "Arrastra el borde de una palabra para ajustar su tiempo, o usa las flechas.",
+    sttWordStartEdge: "Inicio de {{word}}",
+    sttWordEndEdge: "Fin de {{word}}",
+    captionLintTitle: "Revisión de subtítulos",
+    captionLintNone: "No se encontraron problemas en los subtítulos.",
+    captionLintFix: "Corregir",
+    captionLintReadingSpeed: "Cue {{cue}}: velocidad de lectura de {{value}} caracteres/s, por encima de {{limit}}.",
+    captionLintLineLength: "Cue {{cue}}: una línea tiene {{value}} caracteres (máx. {{limit}}).",
+    captionLintMinDuration: "Cue {{cue}}: {{value}} s es menos que {{limit}} s.",
+    captionLintOverlap: "El cue {{cue}} se superpone al siguiente por {{value}} s.",
+    captionLintOutOfOrder: "El cue {{cue}} empieza antes que el cue anterior.",
+    captionLintMinGap: "Cue {{cue}}: la separación con el siguiente cue es de {{value}} s (mín. {{limit}} s).",
     sttSessionTime: "Sesión",
     sttLatency: "Latencia",
     sttRtf: "RTF",
@@ -15,6 +15,7 @@ describe("cloverMarkPlugin", () => {
     const plugin = cloverMarkPlugin();
     expect(plugin.imageViewer?.controls?.componentProps).toEqual({
       defaultMotivation: "supplementing",
+      store: expect.anything(),
     });
     expect(plugin.informationPanel?.componentProps).toEqual({
       defaultMotivation: "supplementing",
@@ -24,6 +25,7 @@ describe("cloverMarkPlugin", () => {
       enableStreamingStt: undefined,
       sttModelVersion: undefined,
       sttUpdateIntervalMs: undefined,
+      store: expect.anything(),
     });
   });
 
@@ -34,6 +36,7 @@ describe("cloverMarkPlugin", () => {
     });
     expect(plugin.imageViewer?.controls?.componentProps).toEqual({
       defaultMotivation: "tagging",
+      store: expect.anything(),
     });
     expect(plugin.informationPanel?.componentProps).toEqual({
       defaultMotivation: "tagging",
@@ -43,6 +46,23 @@ describe("cloverMarkPlugin", () => {
       enableStreamingStt: undefined,
       sttModelVersion: undefined,
       sttUpdateIntervalMs: undefined,
+      store: expect.anything(),
     });
   });
+
+  it("passes the storage adapter to the viewer bridge and panel", () => {
+    const storage = { load: async () => undefined, save: async () => undefined };
+    const plugin = cloverMarkPlugin({ storage });
+    expect(plugin.imageViewer?.controls?.componentProps).toMatchObject({ storage });
+    expect(plugin.informationPanel?.componentProps).toMatchObject({ storage });
+  });
+
+  it("creates a separate store for each plugin instance", () => {
+    const first = cloverMarkPlugin();
+    const second = cloverMarkPlugin();
+    const firstStore = first.informationPanel?.componentProps?.store;
+
+    expect(first.imageViewer?.controls?.componentProps?.store).toBe(firstStore);
+    expect(second.informationPanel?.componentProps?.store).not.toBe(firstStore);
+  });
 });
@@ -6,6 +6,17 @@ import {
 } from "./i18n";
 import { cloverMarkPanel } from "./annotations-panel";
 import { AnnotationsBridge } from "./annotations-bridge";
+import type { CloverMarkStorageAdapter } from "./annotation-storage";
+import { type CloverMarkStore, createCloverMarkStore } from "./annotation-runtime";
+import {
+  bindAnnotationLifecycleCallbacks,
+  type AnnotationExportCallback,
+  type AnnotationLifecycleCallback,
+  type AnnotationSelectionCallback,
+} from "./annotation-events";
+import type { BroadcastSyncOptions } from "./annotation-sync";
+import type { CollaborationOptions } from "./annotation-collab";
+import type { CaptionLintOptions } from "./caption-lint";
 
 export type CreateCloverMarkPluginOptions = {
   id?: string;
@@ -20,12 +31,25 @@ export type CreateCloverMarkPluginOptions = {
   translations?: AnnotationsTranslationResources;
   translationLanguageOptions?: string[];
   defaultTranslationLanguage?: string;
+  storage?: CloverMarkStorageAdapter;
+  store?: CloverMarkStore;
+  sync?: boolean | BroadcastSyncOptions;
+  collaboration?: CollaborationOptions;
+  onAnnotationCreated?: AnnotationLifecycleCallback;
+  onAnnotationUpdated?: AnnotationLifecycleCallback;
+  onAnnotationDeleted?: AnnotationLifecycleCallback;
+  onSelectionChanged?: AnnotationSelectionCallback;
+  onExport?: AnnotationExportCallback;
+  annotatedManifestPageUrl?: (canvasId: string, canvasIndex: number) => string;
+  captionLint?: CaptionLintOptions;
 };
 
 export function cloverMarkPlugin(
   options: CreateCloverMarkPluginOptions = {},
 ): PluginConfig {
   registerAnnotationsTranslations(options.translations);
+  const store = options.store ?? createCloverMarkStore();
+  bindAnnotationLifecycleCallbacks(store, options);
 
   return {
     id: options.id ?? "clover-mark",
@@ -36,6 +60,10 @@ export function cloverMarkPlugin(
             component: AnnotationsBridge,
             componentProps: {
               defaultMotivation: options.defaultMotivation ?? "supplementing",
+              storage: options.storage,
+              store,
+              sync: options.sync,
+              collaboration: options.collaboration,
             },
           },
         },
@@ -49,6 +77,13 @@ export function cloverMarkPlugin(
         enableStreamingStt: options.enableStreamingStt,
         sttModelVersion: options.sttModelVersion,
         sttUpdateIntervalMs: options.sttUpdateIntervalMs,
+        storage: options.storage,
+        store,
+        sync: options.sync,
+        collaboration: options.collaboration,
+        onExport: options.onExport,
+        annotatedManifestPageUrl: options.annotatedManifestPageUrl,
+        captionLint: options.captionLint,
       },
       label: createInternationalStringLabel({
         tabLabel: options.tabLabel,
@@ -65,3 +100,157 @@ export {
   type AnnotationsTranslationResources,
   type AnnotationsTranslationStrings,
 } from "./i18n";
+export {
+  createIndexedDbAdapter,
+  createLocalStorageAdapter,
+  type CloverMarkStorageAdapter,
+  type CloverMarkStorageKey,
+} from "./annotation-storage";
+export {
+  AnnotationProtocolError,
+  createAnnotationProtocolAdapter,
+  createAnnotationProtocolClient,
+  type AnnotationProtocolAdapterOptions,
+  type AnnotationProtocolClient,
+  type AnnotationProtocolClientOptions,
+  type RemoteAnnotation,
+} from "./annotation-protocol";
+export {
+  createIndexedDbOutboxStorage,
+  createMemoryOutboxStorage,
+  getConflictFields,
+  mergeConflictVersions,
+  type AnnotationConflict,
+  type AnnotationConflictField,
+  type AnnotationConflictResolution,
+  type AnnotationOutboxState,
+  type AnnotationOutboxStorage,
+  type QueuedAnnotationOperation,
+} from "./annotation-outbox";
+export {
+  CloverMarkStoreContext,
+  createCloverMarkStore,
+  useCloverMarkStore,
+  type CloverMarkStore,
+  type StoredAnnotation,
+} from "./annotation-runtime";
+export {
+  type AnnotationExportCallback,
+  type AnnotationExportFormat,
+  type AnnotationLifecycleCallback,
+  type AnnotationSelectionCallback,
+} from "./annotation-events";
+export {
+  buildAnnotationListExport,
+  buildAnnotationPageExport,
+  buildWebAnnotationCollectionExport,
+  createAnnotatedManifestArchive,
+  type WebAnnotationAgent,
+} from "./annotation-export";
+export {
+  buildAnnotatedManifestExport,
+  type AnnotatedManifestExport,
+} from "./native-annotations";
+export {
+  buildWebVttBundle,
+  collectWebVttTracks,
+  type WebVttBundleIndex,
+  type WebVttBundleOptions,
+  type WebVttTrack,
+} from "./webvtt-bundle";
+export {
+  detectCaptionFormat,
+  parseCaptionCues,
+  parseSbvCues,
+  parseSrtCues,
+  parseTtmlCues,
+  serializeCaptionCues,
+  serializeSbvCues,
+  serializeSrtCues,
+  serializeTtmlCues,
+  type CaptionFormat,
+} from "./captions";
+export {
+  breakCueTextIntoLines,
+  parseWebVttCues,
+  parseWebVttDocument,
+  serializeWebVttCues,
+  serializeWebVttDocument,
+  type WebVttBlock,
+  type WebVttCue,
+  type WebVttCueNode,
+  type WebVttDocument,
+} from "./webvtt";
+export {
+  TIMED_WORDS_SCHEMA,
+  assignSpeakerToWords,
+  groupWordsByCue,
+  mergeTimedWordPayloads,
+  type TimedWordsSpeaker,
+} from "./timed-words";
+export {
+  DEFAULT_CAPTION_LINT_OPTIONS,
+  applyCaptionLintFix,
+  lintCaptionCues,
+  type CaptionLintFinding,
+  type CaptionLintFix,
+  type CaptionLintOptions,
+  type CaptionLintRule,
+} from "./caption-lint";
+export {
+  CAPTION_FRAME_RATES,
+  applyTimingToCues,
+  applyTimingToWords,
+  buildDriftTiming,
+  buildFrameRateTiming,
+  buildOffsetTiming,
+  type CaptionFrameRate,
+  type CaptionTimingAnchor,
+  type CaptionTimingTransform,
+} from "./caption-timing";
+export {
+  deleteTimedWord,
+  insertTimedWord,
+  mergeTimedWords,
+  moveTimedWordEdge,
+  orderTimedWords,
+  splitTimedWord,
+  type TimedWordEdge,
+} from "./timed-word-editing";
+export {
+  alignTranscriptToWords,
+  realignTranscriptWords,
+  type AlignedTranscriptWord,
+  type TranscriptAlignmentOptions,
+} from "./transcript-alignment";
+export {
+  getCaptionLanguageRules,
+  registerCaptionLanguageRules,
+  type CaptionLanguageRules,
+} from "./caption-languages";
+export {
+  importAnnotationPage,
+  parseAnnotationPage,
+  type AnnotationImportResult,
+  type UnmatchedImportedAnnotation,
+} from "./annotation-import";
+export {
+  bindBroadcastSync,
+  retainBroadcastSync,
+  type BroadcastChannelLike,
+  type BroadcastSyncOptions,
+} from "./annotation-sync";
+export {
+  createCollaborationSession,
+  createWebSocketTransport,
+  retainCollaboration,
+  startCollaboration,
+  type CollaborationMessage,
+  type CollaborationOp,
+  type CollaborationOptions,
+  type CollaborationSession,
+  type CollaborationTransport,
+  type CollaborationUser,
+  type RemotePresence,
+  type WebSocketTransportOptions,
+} from "./annotation-collab";
@@ -1,12 +1,9 @@
 import {
   type CanvasAnnotatorLike,
+  type CloverMarkStore,
   type LocalScholium,
   type StoredAnnotation,
-  getStoredCanvasAnnotations,
-  setCanvasLocalAnnotationCount,
-  setCanvasLocalCloverMarks,
-  setCanvasSelectedLocalScholiumId,
-  setStoredCanvasAnnotations,
+  getDefaultCloverMarkStore,
 } from "./annotation-runtime";
 import { applyDefaultMotivation, getPrimaryMotivation } from "./motivation";
 import { isWebVttBody } from "./webvtt";
@@ -52,7 +49,7 @@ function cloneStoredAnnotation(annotation: StoredAnnotation): StoredAnnotation {
   }
 }
 
-function buildAnnotationId(): string {
+export function buildAnnotationId(): string {
   if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
     return `scholium-${crypto.randomUUID()}`;
   }
@@ -214,7 +211,7 @@ function parseTemporalFragmentValue(rawValue: string): { start: number; end?: nu
   return { start };
 }
 
-function getTemporalSegment(target: unknown): { start: number; end?: number } | undefined {
+export function getTemporalSegment(target: unknown): { start: number; end?: number } | undefined {
   if (typeof target === "string") {
     return parseTemporalFragmentValue(target);
   }
@@ -281,6 +278,7 @@ export type MediaCanvasAnnotator = CanvasAnnotatorLike & {
     }> &
       Record<string, unknown>,
   ) => StoredAnnotation;
+  destroy: () => void;
 };
 
 export function createMediaCanvasAnnotator(options: {
@@ -288,18 +286,20 @@ export function createMediaCanvasAnnotator(options: {
   defaultMotivation?: string | string[];
   getPlayer?: () => HTMLVideoElement | HTMLAudioElement | null | undefined;
   player?: HTMLVideoElement | HTMLAudioElement | null;
+  store?: CloverMarkStore;
 }): MediaCanvasAnnotator {
   const { canvasId, defaultMotivation, player, getPlayer } = options;
+  const store = options.store ?? getDefaultCloverMarkStore();
   let selectedAnnotationId: string | null = null;
-  let annotations = getStoredCanvasAnnotations(canvasId).map((annotation) =>
+  let annotations = store.getStoredCanvasAnnotations(canvasId).map((annotation) =>
     cloneStoredAnnotation(annotation),
   );
 
   const syncRuntime = () => {
     const persisted = annotations.map((annotation) => cloneStoredAnnotation(annotation));
-    setStoredCanvasAnnotations(canvasId, persisted);
-    setCanvasLocalAnnotationCount(canvasId, persisted.length);
-    setCanvasLocalCloverMarks(canvasId, getLocalCloverMarks(persisted));
+    store.setStoredCanvasAnnotations(canvasId, persisted);
+    store.setCanvasLocalAnnotationCount(canvasId, persisted.length);
+    store.setCanvasLocalCloverMarks(canvasId, getLocalCloverMarks(persisted));
 
     if (
       selectedAnnotationId &&
@@ -308,7 +308,7 @@ export function createMediaCanvasAnnotator(options: {
       selectedAnnotationId = null;
     }
 
-    setCanvasSelectedLocalScholiumId(canvasId, selectedAnnotationId);
+    store.setCanvasSelectedLocalScholiumId(canvasId, selectedAnnotationId);
   };
 
   const annotator: MediaCanvasAnnotator = {
@@ -376,7 +376,7 @@ export function createMediaCanvasAnnotator(options: {
         selectedAnnotationId = null;
       }
 
-      setCanvasSelectedLocalScholiumId(canvasId, selectedAnnotationId);
+      store.setCanvasSelectedLocalScholiumId(canvasId, selectedAnnotationId);
     },
     updateAnnotation: (annotationInput) => {
       const annotationId =
@@ -406,8 +406,22 @@ export function createMediaCanvasAnnotator(options: {
       ];
       syncRuntime();
     },
+    destroy: () => {
+      unsubscribeHydration();
+    },
   };
 
+  const unsubscribeHydration = store.subscribeCanvasHydration((hydratedCanvasId) => {
+    if (hydratedCanvasId !== canvasId) {
+      return;
+    }
+
+    annotations = store.getStoredCanvasAnnotations(canvasId).map((annotation) =>
+      cloneStoredAnnotation(annotation),
+    );
+    syncRuntime();
+  });
+
   syncRuntime();
   return annotator;
 }
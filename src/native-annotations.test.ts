@@ -1,7 +1,10 @@
 import { describe, expect, it, vi } from "vitest";
 import {
   CLOVER_MARK_NATIVE_PAGE_SUFFIX,
+  adoptManifestAnnotation,
+  buildAnnotatedManifestExport,
   buildNativeAnnotationPageForCanvas,
+  getManifestCanvasAnnotations,
   syncNativeAnnotationPageToVault,
 } from "./native-annotations";
 import { parseWebVttCues } from "./webvtt";
@@ -188,4 +191,153 @@ describe("native annotation sync", () => {
     expect(modifyEntityField).toHaveBeenCalledTimes(1);
     expect((canvas.annotations as Array<{ id: string }>).some((entry) => entry.id === pageId)).toBe(true);
   });
+
+  it("adopts manifest annotations as editable drafts that keep the original id as via", () => {
+    const entities: Record<string, unknown> = {
+      "canvas-1": {
+        id: "canvas-1",
+        type: "Canvas",
+        annotations: [
+          { id: "page-manifest", type: "AnnotationPage" },
+          { id: `canvas-1${CLOVER_MARK_NATIVE_PAGE_SUFFIX}`, type: "AnnotationPage" },
+        ],
+      },
+      "page-manifest": {
+        id: "page-manifest",
+        type: "AnnotationPage",
+        items: [{ id: "https://example.org/anno/1", type: "Annotation" }],
+      },
+      [`canvas-1${CLOVER_MARK_NATIVE_PAGE_SUFFIX}`]: {
+        id: `canvas-1${CLOVER_MARK_NATIVE_PAGE_SUFFIX}`,
+        type: "AnnotationPage",
+        items: [{ id: "session-anno", type: "Annotation" }],
+      },
+      "https://example.org/anno/1": {
+        id: "https://example.org/anno/1",
+        type: "Annotation",
+        motivation: ["commenting"],
+        body: [{ id: "https://example.org/anno/1/body", type: "ContentResource" }],
+        target: {
+          type: "SpecificResource",
+          source: { id: "canvas-1", type: "Canvas" },
+          selector: { type: "FragmentSelector", value: "xywh=10,20,30,40" },
+        },
+      },
+      "https://example.org/anno/1/body": {
+        id: "https://example.org/anno/1/body",
+        type: "TextualBody",
+        value: "Harbour",
+        language: "en",
+        label: null,
+        rights: null,
+        homepage: [],
+      },
+    };
+    const get = (ref: unknown) =>
+      entities[typeof ref === "string" ? ref : String((ref as { id?: string }).id)];
+
+    const annotations = getManifestCanvasAnnotations({ get }, "canvas-1");
+    expect(annotations.map((annotation) => annotation.id)).toEqual(["https://example.org/anno/1"]);
+
+    const adopted = adoptManifestAnnotation(annotations[0], "canvas-1", "scholium-copy");
+    expect(adopted).toEqual({
+      id: "scholium-copy",
+      via: "https://example.org/anno/1",
+      motivation: ["commenting"],
+      bodies: [
+        {
+          id: "https://example.org/anno/1/body",
+          type: "TextualBody",
+          value: "Harbour",
+          language: "en",
+          annotation: "scholium-copy",
+        },
+      ],
+      target: {
+        annotation: "scholium-copy",
+        selector: {
+          type: "RECTANGLE",
+          geometry: { x: 10, y: 20, w: 30, h: 40, bounds: { minX: 10, minY: 20, maxX: 40, maxY: 60 } },
+        },
+      },
+    });
+
+    const page = buildNativeAnnotationPageForCanvas("canvas-1", [adopted!]);
+    expect(page.items[0].via).toBe("https://example.org/anno/1");
+  });
+
+  it("exports the manifest with CloverMark pages embedded or referenced per canvas", () => {
+    const manifest = {
+      "@context": "http://iiif.io/api/presentation/3/context.json",
+      id: "https://example.org/manifest",
+      type: "Manifest",
+      items: [
+        {
+          id: "canvas-1",
+          type: "Canvas",
+          annotations: [
+            { id: "page-manifest", type: "AnnotationPage", items: [] },
+            { id: `canvas-1${CLOVER_MARK_NATIVE_PAGE_SUFFIX}`, type: "AnnotationPage", items: [] },
+          ],
+        },
+        { id: "canvas-2", type: "Canvas" },
+      ],
+    };
+    const toPresentation3 = vi.fn(() => manifest);
+    const storedByCanvasId = {
+      "canvas-1": [
+        {
+          id: "anno-1",
+          motivation: "commenting",
+          target: "canvas-1#xywh=1,2,3,4",
+          bodies: [{ type: "TextualBody", purpose: "commenting", value: "Ship" }],
+        },
+      ],
+    };
+
+    const embedded = buildAnnotatedManifestExport({
+      vault: { toPresentation3 },
+      manifestId: "https://example.org/manifest",
+      storedByCanvasId,
+    });
+
+    expect(toPresentation3).toHaveBeenCalledWith({ id: "https://example.org/manifest", type: "Manifest" });
+    expect(embedded.pages).toEqual([]);
+    const [canvas1, canvas2] = embedded.manifest.items as Array<Record<string, unknown>>;
+    expect(canvas1.annotations).toEqual([
+      { id: "page-manifest", type: "AnnotationPage", items: [] },
+      buildNativeAnnotationPageForCanvas("canvas-1", storedByCanvasId["canvas-1"]),
+    ]);
+    expect(canvas2.annotations).toBeUndefined();
+    expect(manifest.items[0].annotations).toHaveLength(2);
+
+    const referenced = buildAnnotatedManifestExport({
+      vault: { toPresentation3 },
+      manifestId: "https://example.org/manifest",
+      storedByCanvasId,
+      pageUrl: (_, canvasIndex) => `https://example.org/annotations/${canvasIndex + 1}.json`,
+    });
+
+    expect((referenced.manifest.items as Array<Record<string, unknown>>)[0].annotations).toEqual([
+      { id: "page-manifest", type: "AnnotationPage", items: [] },
+      { id: "https://example.org/annotations/1.json", type: "AnnotationPage" },
+    ]);
+    expect(referenced.pages).toHaveLength(1);
+    expect(referenced.pages[0]).toMatchObject({
+      "@context": "http://iiif.io/api/presentation/3/context.json",
+      id: "https://example.org/annotations/1.json",
+      type: "AnnotationPage",
+      items: [{ id: "anno-1", type: "Annotation" }],
+    });
+  });
+
+  it("rejects manifests that are not in the vault", () => {
+    expect(() =>
+      buildAnnotatedManifestExport({
+        vault: { toPresentation3: () => undefined },
+        manifestId: "https://example.org/missing",
+        storedByCanvasId: {},
+      }),
+    ).toThrow("Manifest https://example.org/missing is not loaded in the vault.");
+  });
 });
@@ -1,12 +1,15 @@
 import type { StoredAnnotation } from "./annotation-runtime";
+import { getSpeakerLabels, isTimedWordsSchema, normalizeTimedWordsSpeakers } from "./timed-words";
 import {
-  parseWebVttCues,
+  parseWebVttDocument,
   segmentWordsIntoWebVttCues,
   serializeWebVttCues,
+  serializeWebVttDocument,
   type TimedWordLike,
 } from "./webvtt";
+import { fromWebAnnotation, withAnnotationId } from "./web-annotation";
+import { buildAnnotationId } from "./media-annotator";
 
-const STT_TIMED_WORDS_SCHEMA = "clover.parakeet.word_timestamps.v1";
 const STT_TIMED_WORDS_BODY_PURPOSE = "describing";
 const STT_TIMED_WORDS_BODY_FORMAT = "application/json";
 const WEBVTT_BODY_FORMAT = "text/vtt";
@@ -66,6 +69,7 @@ function normalizeTimedWords(rawWords: unknown): TimedWordLike[] {
         text,
         start_time: Math.max(0, start),
         end_time: Math.max(Math.max(0, start), Math.max(0, end)),
+        ...(typeof candidate.speaker === "string" && candidate.speaker ? { speaker: candidate.speaker } : {}),
       };
     })
     .filter((word): word is TimedWordLike => Boolean(word));
@@ -74,16 +78,11 @@ function normalizeTimedWords(rawWords: unknown): TimedWordLike[] {
 function extractSegmentedVttBodyValue(body: UnknownRecord): string | undefined {
   const format = typeof body.format === "string" ? body.format.trim().toLowerCase() : "";
   const value = typeof body.value === "string" ? body.value : "";
+  const language = typeof body.language === "string" ? body.language.trim() : "";
 
+  // Caption bodies are already cue-level, so their cues, settings, markup and blocks are kept as written.
   if (format === WEBVTT_BODY_FORMAT && value.trim().length > 0) {
-    const cues = parseWebVttCues(value);
-    const words = cues.map((cue) => ({
-      text: cue.text,
-      start_time: cue.start_time,
-      end_time: cue.end_time,
-    }));
-    const segmented = segmentWordsIntoWebVttCues(words);
-    return serializeWebVttCues(segmented.length > 0 ? segmented : cues);
+    return serializeWebVttDocument(parseWebVttDocument(value));
   }
 
   if (
@@ -94,14 +93,17 @@ function extractSegmentedVttBodyValue(body: UnknownRecord): string | undefined {
   ) {
     try {
       const parsed = JSON.parse(value) as Record<string, unknown>;
-      if (parsed.schema !== STT_TIMED_WORDS_SCHEMA) {
+      if (!isTimedWordsSchema(parsed.schema)) {
         return undefined;
       }
       const words = normalizeTimedWords(parsed.words);
       if (words.length === 0) {
         return undefined;
       }
-      const segmented = segmentWordsIntoWebVttCues(words);
+      const segmented = segmentWordsIntoWebVttCues(words, {
+        speakerLabels: getSpeakerLabels(normalizeTimedWordsSpeakers(parsed.speakers)),
+        language: typeof parsed.language === "string" ? parsed.language : language || undefined,
+      });
       if (segmented.length === 0) {
         return undefined;
       }
@@ -339,6 +341,9 @@ export function buildNativeAnnotationPageForCanvas(
     if (annotation.creator !== undefined) {
       item.creator = annotation.creator;
     }
+    if (typeof annotation.via === "string") {
+      item.via = annotation.via;
+    }
 
     items.push(item);
   }
@@ -375,6 +380,142 @@ export function syncNativeAnnotationPageToVault(
   return page.id;
 }
 
+const IIIF_PRESENTATION_3_CONTEXT = "http://iiif.io/api/presentation/3/context.json";
+
+export type AnnotatedManifestExport = {
+  manifest: UnknownRecord;
+  // Pages referenced by URL that have to be published at their ids; empty when pages are embedded.
+  pages: Array<NativeAnnotationPage & { "@context": string }>;
+};
+
+export function buildAnnotatedManifestExport(options: {
+  vault: { toPresentation3: (ref: { id: string; type: "Manifest" }) => unknown };
+  manifestId: string;
+  storedByCanvasId: Record<string, StoredAnnotation[] | undefined>;
+  pageUrl?: (canvasId: string, canvasIndex: number) => string;
+}): AnnotatedManifestExport {
+  const serialized = options.vault.toPresentation3({ id: options.manifestId, type: "Manifest" });
+  if (!serialized || typeof serialized !== "object") {
+    throw new Error(`Manifest ${options.manifestId} is not loaded in the vault.`);
+  }
+
+  const manifest = JSON.parse(JSON.stringify(serialized)) as UnknownRecord;
+  const pages: AnnotatedManifestExport["pages"] = [];
+  const canvases = ensureArray(manifest.items as UnknownRecord[] | undefined);
+
+  canvases.forEach((canvas, canvasIndex) => {
+    const canvasId = typeof canvas?.id === "string" ? canvas.id : undefined;
+    if (!canvasId) {
+      return;
+    }
+
+    const nativePageId = getNativeAnnotationPageId(canvasId);
+    // A page synced into the vault earlier is replaced with the current session state.
+    const existing = ensureArray(canvas.annotations as Array<{ id?: string } | string> | undefined).filter(
+      (entry) => (typeof entry === "string" ? entry : entry?.id) !== nativePageId,
+    );
+    const page = buildNativeAnnotationPageForCanvas(canvasId, options.storedByCanvasId[canvasId] ?? []);
+    if (page.items.length === 0) {
+      if (existing.length > 0) {
+        canvas.annotations = existing;
+      } else {
+        delete canvas.annotations;
+      }
+      return;
+    }
+
+    if (options.pageUrl) {
+      const url = options.pageUrl(canvasId, canvasIndex);
+      pages.push({ "@context": IIIF_PRESENTATION_3_CONTEXT, ...page, id: url });
+      canvas.annotations = [...existing, { id: url, type: "AnnotationPage" }];
+    } else {
+      canvas.annotations = [...existing, page];
+    }
+  });
+
+  return { manifest, pages };
+}
+
+const MANIFEST_BODY_KEYS = [
+  "id",
+  "type",
+  "purpose",
+  "value",
+  "language",
+  "format",
+  "creator",
+  "created",
+  "modified",
+] as const;
+
+function resolveVaultRecord(vault: Pick<VaultLike, "get">, ref: unknown): UnknownRecord | undefined {
+  const resolved = ref && typeof ref === "object" ? (vault.get(ref) ?? ref) : ref;
+  return resolved && typeof resolved === "object" && !Array.isArray(resolved)
+    ? (resolved as UnknownRecord)
+    : undefined;
+}
+
+function pickManifestBody(body: UnknownRecord): UnknownRecord {
+  const picked: UnknownRecord = {};
+  for (const key of MANIFEST_BODY_KEYS) {
+    const value = body[key];
+    if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+    picked[key] = value;
+  }
+  return picked;
+}
+
+// Reads the manifest-provided annotations of a canvas, skipping the page CloverMark syncs itself.
+export function getManifestCanvasAnnotations(
+  vault: Pick<VaultLike, "get">,
+  canvasId: string,
+): UnknownRecord[] {
+  const canvas = vault.get({ id: canvasId, type: "Canvas" }) as
+    | { annotations?: Array<{ id?: string } | string> }
+    | undefined;
+  const nativePageId = getNativeAnnotationPageId(canvasId);
+  const annotations: UnknownRecord[] = [];
+
+  for (const pageRef of ensureArray(canvas?.annotations)) {
+    const pageId = typeof pageRef === "string" ? pageRef : pageRef?.id;
+    if (!pageId || pageId === nativePageId) {
+      continue;
+    }
+
+    const page = resolveVaultRecord(vault, { id: pageId, type: "AnnotationPage" });
+    for (const itemRef of ensureArray(page?.items as unknown[] | undefined)) {
+      const item = resolveVaultRecord(vault, itemRef);
+      if (!item || typeof item.id !== "string") {
+        continue;
+      }
+
+      const body = ensureArray(item.body as unknown[] | undefined)
+        .map((bodyRef) => resolveVaultRecord(vault, bodyRef))
+        .filter((entry): entry is UnknownRecord => Boolean(entry))
+        .map(pickManifestBody);
+      annotations.push({ ...item, body });
+    }
+  }
+
+  return annotations;
+}
+
+// Clones a manifest annotation into an editable draft; the original id is kept as `via`.
+export function adoptManifestAnnotation(
+  annotation: UnknownRecord,
+  canvasId: string,
+  id: string = buildAnnotationId(),
+): StoredAnnotation | undefined {
+  const adopted = fromWebAnnotation(annotation, canvasId);
+  if (!adopted) {
+    return undefined;
+  }
+
+  return { ...withAnnotationId(adopted, id), via: adopted.id };
+}
+
 export const __internal = {
   extractSegmentedVttBodyValue,
   toDataUriWebVtt,
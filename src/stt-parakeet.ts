@@ -14,6 +14,8 @@ export type ParakeetWord = {
   start_time: number;
   end_time: number;
   confidence?: number;
+  // Speaker id from a diarization pass, matching a `speakers` entry in the timed-words payload.
+  speaker?: string;
 };
 
 export type ParakeetTranscriptionResult = {
@@ -107,12 +109,14 @@ function normalizeWords(rawWords: unknown): ParakeetWord[] {
         typeof candidate.confidence === "number" && Number.isFinite(candidate.confidence)
           ? candidate.confidence
           : undefined;
+      const speaker = typeof candidate.speaker === "string" ? candidate.speaker.trim() : "";
 
       return {
         text,
         start_time: startTime,
         end_time: endTime >= startTime ? endTime : startTime,
         confidence,
+        ...(speaker ? { speaker } : {}),
       };
     })
     .filter((word): word is ParakeetWord => Boolean(word));
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  deleteTimedWord,
+  insertTimedWord,
+  mergeTimedWords,
+  moveTimedWordEdge,
+  orderTimedWords,
+  splitTimedWord,
+} from "./timed-word-editing";
+
+const words = [
+  { text: "oral", start_time: 1, end_time: 1.4, speaker: "narrator" },
+  { text: "histories", start_time: 1.4, end_time: 2.3, confidence: 0.6, speaker: "narrator" },
+  { text: "matter", start_time: 2.8, end_time: 3.2, speaker: "narrator" },
+];
+
+describe("timed word editing", () => {
+  it("splits a word with timing proportional to its parts", () => {
+    expect(splitTimedWord(words, 1, 4).slice(1, 3)).toEqual([
+      { text: "hist", start_time: 1.4, end_time: 1.8, speaker: "narrator" },
+      { text: "ories", start_time: 1.8, end_time: 2.3, speaker: "narrator" },
+    ]);
+    // Without an offset, the space nearest the middle wins.
+    expect(splitTimedWord([{ text: "New York City", start_time: 0, end_time: 1.2 }], 0)).toEqual([
+      { text: "New York", start_time: 0, end_time: 0.8 },
+      { text: "City", start_time: 0.8, end_time: 1.2 },
+    ]);
+    expect(splitTimedWord(words, 0, 0)).toBe(words);
+  });
+
+  it("merges adjacent words and deletes words", () => {
+    expect(mergeTimedWords(words, 0)[0]).toEqual({
+      text: "oral histories",
+      start_time: 1,
+      end_time: 2.3,
+      speaker: "narrator",
+    });
+    const spaceless = [
+      { text: "東京", start_time: 0, end_time: 0.4 },
+      { text: "駅", start_time: 0.4, end_time: 0.6 },
+    ];
+    expect(mergeTimedWords(spaceless, 0, "")).toEqual([{ text: "東京駅", start_time: 0, end_time: 0.6 }]);
+    expect(mergeTimedWords(words, 2)).toBe(words);
+    expect(deleteTimedWord(words, 1).map((word) => word.text)).toEqual(["oral", "matter"]);
+  });
+
+  it("inserts words in a gap, borrowing time from a neighbour when there is none", () => {
+    expect(insertTimedWord(words, 2, "really")[2]).toEqual({
+      text: "really",
+      start_time: 2.35,
+      end_time: 2.75,
+      speaker: "narrator",
+    });
+
+    const borrowed = insertTimedWord(words, 1, "family");
+    expect(borrowed.slice(0, 3).map(({ text, start_time, end_time }) => [text, start_time, end_time])).toEqual([
+      ["oral", 1, 1.2],
+      ["family", 1.2, 1.4],
+      ["histories", 1.4, 2.3],
+    ]);
+  });
+
+  it("moves shared boundaries without letting words overlap", () => {
+    const moved = moveTimedWordEdge(words, 1, "start", 1.1);
+    expect(moved[0].end_time).toBe(1.1);
+    expect(moved[1].start_time).toBe(1.1);
+    // Clamped at the start of the previous word.
+    expect(moveTimedWordEdge(words, 1, "start", 0)[1].start_time).toBe(1);
+    // A gap after the word stops the end at the next word.
+    expect(moveTimedWordEdge(words, 1, "end", 5)[1].end_time).toBe(2.8);
+
+    expect(
+      orderTimedWords([
+        { text: "b", start_time: 2, end_time: 3 },
+        { text: "a", start_time: 1, end_time: 2.5 },
+      ]),
+    ).toEqual([
+      { text: "a", start_time: 1, end_time: 2.5 },
+      { text: "b", start_time: 2.5, end_time: 3 },
+    ]);
+  });
+});
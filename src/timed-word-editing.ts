@@ -0,0 +1,171 @@
+import type { TimedWordLike } from "./webvtt";
+
+export type TimedWordEdge = "start" | "end";
+
+// Inserted words get at most this long in a wide gap, and borrow from a neighbour in a narrower one.
+const INSERTED_WORD_SECONDS = 0.4;
+const MIN_INSERTED_WORD_SECONDS = 0.1;
+
+function round(value: number): number {
+  return +value.toFixed(3);
+}
+
+// A word whose text was edited has been looked at, and a confidence score no longer describes it.
+export function withoutWordReview<T extends TimedWordLike>(word: T): T {
+  const { needs_review: _review, confidence: _confidence, ...rest } = word as T & {
+    needs_review?: boolean;
+    confidence?: number;
+  };
+  return rest as T;
+}
+
+// Sorts by start time, then pulls each start up to the end of the word before it so nothing overlaps.
+export function orderTimedWords<T extends TimedWordLike>(words: T[]): T[] {
+  const sorted = words
+    .map((word, index) => ({ word, index }))
+    .sort((left, right) => left.word.start_time - right.word.start_time || left.index - right.index)
+    .map(({ word }) => word);
+
+  let previousEnd = 0;
+  return sorted.map((word) => {
+    const start = round(Math.max(previousEnd, word.start_time));
+    const end = round(Math.max(start, word.end_time));
+    previousEnd = end;
+    return start === word.start_time && end === word.end_time ? word : { ...word, start_time: start, end_time: end };
+  });
+}
+
+// Splits at a character offset, or at the space nearest the middle; time is shared by character count.
+export function splitTimedWord<T extends TimedWordLike>(words: T[], index: number, at?: number): T[] {
+  const word = words[index];
+  if (!word) {
+    return words;
+  }
+
+  const text = word.text;
+  let offset = at;
+  if (offset === undefined) {
+    const spaces = [...text.matchAll(/\s+/g)].map((match) => match.index ?? 0);
+    const middle = text.length / 2;
+    offset = spaces.length > 0
+      ? spaces.reduce((best, space) => (Math.abs(space - middle) < Math.abs(best - middle) ? space : best))
+      : Math.round(middle);
+  }
+  const left = text.slice(0, offset).trim();
+  const right = text.slice(offset).trim();
+  if (!left || !right) {
+    return words;
+  }
+
+  const boundary = round(
+    word.start_time + ((word.end_time - word.start_time) * left.length) / (left.length + right.length),
+  );
+  const reviewed = withoutWordReview(word);
+  return [
+    ...words.slice(0, index),
+    { ...reviewed, text: left, end_time: boundary },
+    { ...reviewed, text: right, start_time: boundary },
+    ...words.slice(index + 1),
+  ];
+}
+
+// Merges a word with the one after it; spaceless scripts pass an empty separator.
+export function mergeTimedWords<T extends TimedWordLike>(words: T[], index: number, separator = " "): T[] {
+  const word = words[index];
+  const next = words[index + 1];
+  if (!word || !next) {
+    return words;
+  }
+
+  return [
+    ...words.slice(0, index),
+    {
+      ...withoutWordReview(word),
+      text: `${word.text}${separator}${next.text}`,
+      end_time: Math.max(word.end_time, next.end_time),
+    },
+    ...words.slice(index + 2),
+  ];
+}
+
+// Inserts a word before `index`, in the gap between its neighbours. A gap too narrow for a word
+// is widened by taking half of the previous word's time (or the next word's, at the very start).
+export function insertTimedWord<T extends TimedWordLike>(words: T[], index: number, text: string): T[] {
+  const normalizedText = text.trim();
+  const position = Math.max(0, Math.min(index, words.length));
+  const before = words[position - 1];
+  const after = words[position];
+  const template = before ?? after;
+  if (!normalizedText || !template) {
+    return words;
+  }
+
+  const nextWords = [...words];
+  const gapStart = before?.end_time ?? Math.max(0, after.start_time - INSERTED_WORD_SECONDS);
+  const gapEnd = after?.start_time ?? before.end_time + INSERTED_WORD_SECONDS;
+  let start: number;
+  let end: number;
+  if (gapEnd - gapStart >= MIN_INSERTED_WORD_SECONDS) {
+    const duration = Math.min(INSERTED_WORD_SECONDS, gapEnd - gapStart);
+    start = round(gapStart + (gapEnd - gapStart - duration) / 2);
+    end = round(start + duration);
+  } else if (before) {
+    start = round((before.start_time + gapEnd) / 2);
+    end = round(Math.max(start, gapEnd));
+    nextWords[position - 1] = { ...before, end_time: start };
+  } else {
+    start = round(gapStart);
+    end = round((gapStart + after.end_time) / 2);
+    nextWords[position] = { ...after, start_time: end };
+  }
+
+  nextWords.splice(position, 0, {
+    ...withoutWordReview(template),
+    text: normalizedText,
+    start_time: start,
+    end_time: end,
+  });
+  return orderTimedWords(nextWords);
+}
+
+export function deleteTimedWord<T extends TimedWordLike>(words: T[], index: number): T[] {
+  return index >= 0 && index < words.length ? words.filter((_, wordIndex) => wordIndex !== index) : words;
+}
+
+// Moves one edge of a word, clamped so it never crosses a neighbour. When the edge touches the
+// neighbour's, the shared boundary moves for both words, as far as the neighbour's other edge.
+export function moveTimedWordEdge<T extends TimedWordLike>(
+  words: T[],
+  index: number,
+  edge: TimedWordEdge,
+  time: number,
+): T[] {
+  const word = words[index];
+  if (!word || !Number.isFinite(time)) {
+    return words;
+  }
+
+  // Retiming by hand settles an interpolated timing.
+  const { needs_review: _review, ...reviewed } = word as T & { needs_review?: boolean };
+  const nextWords = [...words];
+  if (edge === "start") {
+    const previous = words[index - 1];
+    const touching = previous !== undefined && previous.end_time >= word.start_time;
+    const lower = previous ? (touching ? previous.start_time : previous.end_time) : 0;
+    const start = round(Math.min(word.end_time, Math.max(lower, time)));
+    nextWords[index] = { ...(reviewed as T), start_time: start };
+    if (touching) {
+      nextWords[index - 1] = { ...previous, end_time: start };
+    }
+  } else {
+    const next = words[index + 1];
+    const touching = next !== undefined && next.start_time <= word.end_time;
+    const upper = next ? (touching ? next.end_time : next.start_time) : Number.POSITIVE_INFINITY;
+    const end = round(Math.max(word.start_time, Math.min(upper, time)));
+    nextWords[index] = { ...(reviewed as T), end_time: end };
+    if (touching) {
+      nextWords[index + 1] = { ...next, start_time: end };
+    }
+  }
+  return nextWords;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  TIMED_WORDS_SCHEMA,
+  assignSpeakerToWords,
+  getSpeakerLabels,
+  groupWordsByCue,
+  isTimedWordsSchema,
+  mergeTimedWordPayloads,
+  normalizeTimedWordsSpeakers,
+  type TimedWordsSpeaker,
+} from "./timed-words";
+import type { TimedWordLike } from "./webvtt";
+
+const words: TimedWordLike[] = [
+  { text: "Where", start_time: 0, end_time: 0.4 },
+  { text: "from?", start_time: 0.4, end_time: 0.8 },
+  { text: "Chicago.", start_time: 1, end_time: 1.6 },
+];
+
+describe("timed words", () => {
+  it("reads v1 and v2 payloads and their speakers", () => {
+    expect(isTimedWordsSchema("clover.parakeet.word_timestamps.v1")).toBe(true);
+    expect(isTimedWordsSchema(TIMED_WORDS_SCHEMA)).toBe(true);
+    expect(isTimedWordsSchema("other")).toBe(false);
+    expect(
+      normalizeTimedWordsSpeakers([{ id: " a ", label: "Ana" }, { id: "a" }, { label: "x" }, { id: "b" }]),
+    ).toEqual([{ id: "a", label: "Ana" }, { id: "b" }]);
+    expect(getSpeakerLabels([{ id: "a", label: "Ana" }, { id: "b" }])).toEqual({ a: "Ana", b: "b" });
+  });
+
+  it("assigns, reuses and clears speakers over word ranges", () => {
+    const interviewer = assignSpeakerToWords<{ words: TimedWordLike[]; speakers?: TimedWordsSpeaker[] }>(
+      { words },
+      0,
+      1,
+      "Interviewer",
+    );
+    const both = assignSpeakerToWords(interviewer, 2, 2, " Ana ");
+    expect(both.speakers).toEqual([
+      { id: "speaker-1", label: "Interviewer" },
+      { id: "speaker-2", label: "Ana" },
+    ]);
+    expect(both.words.map((word) => word.speaker)).toEqual(["speaker-1", "speaker-1", "speaker-2"]);
+
+    const reused = assignSpeakerToWords(both, 1, 2, "Ana");
+    expect(reused.words.map((word) => word.speaker)).toEqual(["speaker-1", "speaker-2", "speaker-2"]);
+
+    const cleared = assignSpeakerToWords(reused, 0, 0, "");
+    expect(cleared.words[0]).not.toHaveProperty("speaker");
+    expect(cleared.speakers).toEqual([{ id: "speaker-2", label: "Ana" }]);
+  });
+
+  it("groups words by cue and merges transcripts by speaker label", () => {
+    expect(groupWordsByCue(words, [{ start_time: 0 }, { start_time: 0.9 }])).toEqual([
+      words.slice(0, 2),
+      words.slice(2),
+    ]);
+
+    const merged = mergeTimedWordPayloads([
+      {
+        speakers: [{ id: "speaker-1", label: "Interviewer" }],
+        words: [{ text: "Chicago.", start_time: 1, end_time: 1.6, speaker: "speaker-1" }],
+      },
+      {
+        speakers: [{ id: "speaker-1", label: "Narrator" }, { id: "speaker-2", label: "Interviewer" }],
+        words: [
+          { text: "Where", start_time: 0, end_time: 0.4, speaker: "speaker-2" },
+          { text: "Born", start_time: 2, end_time: 2.3, speaker: "speaker-1" },
+        ],
+      },
+    ]);
+    expect(merged.speakers).toEqual([
+      { id: "speaker-1", label: "Interviewer" },
+      { id: "speaker-2", label: "Narrator" },
+    ]);
+    expect(merged.words.map((word) => [word.text, word.speaker])).toEqual([
+      ["Where", "speaker-1"],
+      ["Chicago.", "speaker-1"],
+      ["Born", "speaker-2"],
+    ]);
+  });
+});
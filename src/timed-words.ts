@@ -0,0 +1,146 @@
+import type { TimedWordLike } from "./webvtt";
+
+export const TIMED_WORDS_SCHEMA_V1 = "clover.parakeet.word_timestamps.v1";
+export const TIMED_WORDS_SCHEMA = "clover.parakeet.word_timestamps.v2";
+
+export type TimedWordsSpeaker = {
+  id: string;
+  label?: string;
+};
+
+type SpeakerAssignable = {
+  speakers?: TimedWordsSpeaker[];
+  words: Array<{ text: string; speaker?: string }>;
+};
+
+// v1 payloads have no speakers; they read as v2 payloads without speaker ids.
+export function isTimedWordsSchema(value: unknown): boolean {
+  return value === TIMED_WORDS_SCHEMA || value === TIMED_WORDS_SCHEMA_V1;
+}
+
+export function normalizeTimedWordsSpeakers(rawSpeakers: unknown): TimedWordsSpeaker[] {
+  if (!Array.isArray(rawSpeakers)) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return rawSpeakers.reduce<TimedWordsSpeaker[]>((speakers, rawSpeaker) => {
+    const candidate = rawSpeaker && typeof rawSpeaker === "object"
+      ? (rawSpeaker as Record<string, unknown>)
+      : {};
+    const id = typeof candidate.id === "string" ? candidate.id.trim() : "";
+    if (!id || seen.has(id)) {
+      return speakers;
+    }
+
+    seen.add(id);
+    const label = typeof candidate.label === "string" ? candidate.label.trim() : "";
+    speakers.push({ id, ...(label ? { label } : {}) });
+    return speakers;
+  }, []);
+}
+
+export function getSpeakerLabels(speakers: TimedWordsSpeaker[] | undefined): Record<string, string> {
+  return Object.fromEntries((speakers ?? []).map((speaker) => [speaker.id, speaker.label ?? speaker.id]));
+}
+
+// Builds the speaker list from labels, e.g. WebVTT `<v>` voices, reusing the label as the id.
+export function buildSpeakersFromLabels(labels: Array<string | undefined>): TimedWordsSpeaker[] {
+  return Array.from(new Set(labels.filter((label): label is string => Boolean(label?.trim()))))
+    .map((label) => ({ id: label.trim(), label: label.trim() }));
+}
+
+// Labels words `from`..`to` (inclusive) with the speaker called `label`; an empty label clears them.
+// Speakers no word refers to any more are dropped.
+export function assignSpeakerToWords<T extends SpeakerAssignable>(
+  payload: T,
+  fromIndex: number,
+  toIndex: number,
+  label: string,
+): T {
+  const start = Math.max(0, Math.min(fromIndex, toIndex));
+  const end = Math.min(payload.words.length - 1, Math.max(fromIndex, toIndex));
+  const normalizedLabel = label.trim();
+  const speakers = [...(payload.speakers ?? [])];
+  let speakerId: string | undefined;
+
+  if (normalizedLabel) {
+    const existing = speakers.find((speaker) => (speaker.label ?? speaker.id) === normalizedLabel);
+    if (existing) {
+      speakerId = existing.id;
+    } else {
+      const usedIds = new Set(speakers.map((speaker) => speaker.id));
+      let next = speakers.length + 1;
+      while (usedIds.has(`speaker-${next}`)) {
+        next += 1;
+      }
+      speakerId = `speaker-${next}`;
+      speakers.push({ id: speakerId, label: normalizedLabel });
+    }
+  }
+
+  const words = payload.words.map((word, index) => {
+    if (index < start || index > end) {
+      return word;
+    }
+    const next = { ...word };
+    delete next.speaker;
+    if (speakerId) {
+      next.speaker = speakerId;
+    }
+    return next;
+  });
+  const referenced = new Set(words.map((word) => word.speaker));
+  const usedSpeakers = speakers.filter((speaker) => referenced.has(speaker.id));
+
+  return { ...payload, words, speakers: usedSpeakers };
+}
+
+// Splits words over cues in time order: each word goes to the last cue starting at or before it.
+export function groupWordsByCue<T extends TimedWordLike>(words: T[], cues: Array<{ start_time: number }>): T[][] {
+  const groups = cues.map((): T[] => []);
+  if (groups.length === 0) {
+    return groups;
+  }
+
+  let cueIndex = 0;
+  for (const word of [...words].sort((left, right) => left.start_time - right.start_time)) {
+    while (cueIndex + 1 < cues.length && cues[cueIndex + 1].start_time <= word.start_time) {
+      cueIndex += 1;
+    }
+    groups[cueIndex].push(word);
+  }
+  return groups;
+}
+
+// Joins transcripts in time order. Speaker ids are only unique within one payload,
+// so speakers are matched by label and given new ids where two labels share an id.
+export function mergeTimedWordPayloads<T extends TimedWordLike>(
+  payloads: Array<{ speakers?: TimedWordsSpeaker[]; words: T[] }>,
+): { speakers: TimedWordsSpeaker[]; words: T[] } {
+  const speakers: TimedWordsSpeaker[] = [];
+  const idByLabel = new Map<string, string>();
+  const words = payloads.flatMap((payload) => {
+    const labels = getSpeakerLabels(payload.speakers);
+    return payload.words.map((word) => {
+      if (!word.speaker) {
+        return word;
+      }
+      const label = labels[word.speaker] ?? word.speaker;
+      let id = idByLabel.get(label);
+      if (!id) {
+        id = word.speaker;
+        let next = speakers.length + 1;
+        while (speakers.some((speaker) => speaker.id === id)) {
+          id = `speaker-${next}`;
+          next += 1;
+        }
+        idByLabel.set(label, id);
+        speakers.push({ id, label });
+      }
+      return id === word.speaker ? word : { ...word, speaker: id };
+    });
+  });
+
+  return { speakers, words: words.sort((left, right) => left.start_time - right.start_time) };
+}
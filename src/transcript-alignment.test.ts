@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { alignTranscriptToWords, realignTranscriptWords, tokenizeTranscriptText } from "./transcript-alignment";
+
+const recognized = [
+  { text: "welcome", start_time: 1, end_time: 1.4 },
+  { text: "to", start_time: 1.4, end_time: 1.5 },
+  { text: "the", start_time: 1.5, end_time: 1.6 },
+  { text: "libary", start_time: 1.6, end_time: 2.1 },
+  { text: "um", start_time: 2.2, end_time: 2.4 },
+  { text: "today", start_time: 3, end_time: 3.4 },
+  { text: "we", start_time: 3.4, end_time: 3.5 },
+  { text: "listen", start_time: 3.7, end_time: 4.1 },
+];
+
+describe("transcript alignment", () => {
+  it("gives transcript words the timing of the recognized words they match", () => {
+    const words = alignTranscriptToWords("Welcome to the Library! Today, we'll listen.", recognized);
+
+    expect(words).toEqual([
+      { text: "Welcome", start_time: 1, end_time: 1.4 },
+      { text: "to", start_time: 1.4, end_time: 1.5 },
+      { text: "the", start_time: 1.5, end_time: 1.6 },
+      { text: "Library!", start_time: 1.6, end_time: 2.1 },
+      { text: "Today,", start_time: 3, end_time: 3.4 },
+      { text: "we'll", start_time: 3.4, end_time: 3.5 },
+      { text: "listen.", start_time: 3.7, end_time: 4.1 },
+    ]);
+  });
+
+  it("interpolates and flags words the recognizer missed", () => {
+    const words = alignTranscriptToWords("So, welcome to the library ah today we will listen", recognized, {
+      start: 0,
+      end: 5,
+    });
+
+    expect(words.filter((word) => word.needs_review)).toEqual([
+      { text: "So,", start_time: 0, end_time: 1, needs_review: true },
+      // Lines up with "um", but is too different to trust.
+      { text: "ah", start_time: 2.2, end_time: 2.4, needs_review: true },
+      { text: "will", start_time: 3.5, end_time: 3.7, needs_review: true },
+    ]);
+    expect(words[words.length - 1]).toEqual({ text: "listen", start_time: 3.7, end_time: 4.1 });
+    expect(alignTranscriptToWords("Nothing heard", [], { start: 10, end: 12 })).toEqual([
+      { text: "Nothing", start_time: 10, end_time: 11, needs_review: true },
+      { text: "heard", start_time: 11, end_time: 12, needs_review: true },
+    ]);
+  });
+
+  it("finds an excerpt anywhere in a much longer recognition", () => {
+    const long = Array.from({ length: 4000 }, (_, index) => ({
+      text: `w${index}`,
+      start_time: index * 0.5,
+      end_time: index * 0.5 + 0.4,
+    }));
+    const excerpt = long.slice(2000, 2020);
+
+    const words = alignTranscriptToWords(excerpt.map((word) => word.text).join(" "), long);
+
+    expect(words).toEqual(excerpt);
+  });
+
+  it("keeps punctuation-only tokens with the word before them", () => {
+    expect(tokenizeTranscriptText("Wait — what?  Yes")).toEqual(["Wait —", "what?", "Yes"]);
+  });
+
+  it("keeps word timings when the transcript is edited as free text", () => {
+    const timed = [
+      { text: "Welcome", start_time: 1, end_time: 1.4, speaker: "interviewer" },
+      { text: "to", start_time: 1.4, end_time: 1.5, speaker: "interviewer" },
+      { text: "the", start_time: 1.5, end_time: 1.6, speaker: "interviewer" },
+      { text: "libary.", start_time: 1.6, end_time: 2.1, confidence: 0.4, speaker: "interviewer" },
+      { text: "Today", start_time: 3, end_time: 3.4, speaker: "narrator" },
+      { text: "um", start_time: 3.4, end_time: 3.6, speaker: "narrator" },
+      { text: "we", start_time: 3.6, end_time: 3.8, speaker: "narrator" },
+      { text: "listen.", start_time: 3.8, end_time: 4.2, speaker: "narrator" },
+    ];
+
+    const words = realignTranscriptWords("Welcome to the library. So today we all listen.", timed);
+
+    expect(words[0]).toBe(timed[0]);
+    expect(words.slice(3)).toEqual([
+      { text: "library.", start_time: 1.6, end_time: 2.1, speaker: "interviewer" },
+      // Spread over the silence before "Today".
+      { text: "So", start_time: 2.1, end_time: 3, speaker: "interviewer" },
+      { text: "today", start_time: 3, end_time: 3.4, speaker: "narrator" },
+      // No gap after "we", so the two share its time.
+      { text: "we", start_time: 3.6, end_time: 3.7, speaker: "narrator" },
+      { text: "all", start_time: 3.7, end_time: 3.8, speaker: "narrator" },
+      timed[7],
+    ]);
+    expect(realignTranscriptWords("", timed)).toEqual([]);
+  });
+
+  it("keeps unchanged words through large deletions and insertions", () => {
+    const timed = Array.from({ length: 1000 }, (_, index) => ({
+      text: `w${index}`,
+      start_time: index,
+      end_time: index + 0.5,
+    }));
+    const kept = [...timed.slice(0, 50), ...timed.slice(950)];
+
+    const afterDeletion = realignTranscriptWords(kept.map((word) => word.text).join(" "), timed);
+    expect(afterDeletion).toHaveLength(100);
+    afterDeletion.forEach((word, index) => expect(word).toBe(kept[index]));
+
+    const ends = realignTranscriptWords("w0 w399", timed.slice(0, 400));
+    expect(ends[0]).toBe(timed[0]);
+    expect(ends[1]).toBe(timed[399]);
+
+    const short = timed.slice(0, 100);
+    const inserted = Array.from({ length: 900 }, (_, index) => `x${index}`);
+    const afterInsertion = realignTranscriptWords(
+      [...short.slice(0, 50).map((word) => word.text), ...inserted, ...short.slice(50).map((word) => word.text)]
+        .join(" "),
+      short,
+    );
+    expect(afterInsertion).toHaveLength(1000);
+    expect(afterInsertion.slice(0, 49)).toEqual(short.slice(0, 49));
+    expect(afterInsertion.slice(950)).toEqual(short.slice(50));
+    // The gap is too short for 900 words, so they share w49's time with it.
+    expect(afterInsertion[49]).toMatchObject({ text: "w49", start_time: 49 });
+    expect(afterInsertion[50].start_time).toBeGreaterThanOrEqual(49);
+    expect(afterInsertion[949].end_time).toBeLessThanOrEqual(50);
+  });
+});
@@ -0,0 +1,296 @@
+import { withoutWordReview } from "./timed-word-editing";
+import type { TimedWordLike } from "./webvtt";
+
+export type AlignedTranscriptWord = {
+  text: string;
+  start_time: number;
+  end_time: number;
+  // Set when the word's timing is a guess: it matched no recognized word, or only a dissimilar one.
+  needs_review?: boolean;
+};
+
+export type TranscriptAlignmentOptions = {
+  // Time range that words before the first or after the last recognized word are spread over.
+  start?: number;
+  end?: number;
+  // Paired words at least this similar (0-1) keep the recognized timing without review.
+  minSimilarity?: number;
+};
+
+const DEFAULT_MIN_SIMILARITY = 0.5;
+// The alignment looks this many words either side of every path that skips no more words than the
+// length difference forces, so an excerpt can pair anywhere in a longer recognition.
+const MIN_ALIGNMENT_BAND = 150;
+
+const STEP_PAIR = 1;
+const STEP_SKIP_TRANSCRIPT = 2;
+const STEP_SKIP_RECOGNIZED = 3;
+
+function round(value: number): number {
+  return +value.toFixed(3);
+}
+
+function normalizeToken(value: string): string {
+  return value
+    .toLocaleLowerCase()
+    .normalize("NFKD")
+    .replace(/\p{M}+/gu, "")
+    .replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+function getTokenSimilarity(left: string, right: string): number {
+  if (left === right) {
+    return left ? 1 : 0;
+  }
+  const longest = Math.max(left.length, right.length);
+  const lengthDifference = Math.abs(left.length - right.length);
+  // Words of very different length are never close enough to pair as a substitution.
+  if (!left || !right || lengthDifference * 2 > longest) {
+    return 0;
+  }
+
+  let previous = new Uint16Array(right.length + 1).map((_, index) => index);
+  let current = new Uint16Array(right.length + 1);
+  for (let i = 1; i <= left.length; i += 1) {
+    current[0] = i;
+    for (let j = 1; j <= right.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1),
+      );
+    }
+    [previous, current] = [current, previous];
+  }
+  return 1 - previous[right.length] / longest;
+}
+
+// Splits on whitespace; punctuation-only tokens such as a dash stay with the word before them.
+export function tokenizeTranscriptText(text: string): string[] {
+  const tokens: string[] = [];
+  for (const raw of text.split(/\s+/)) {
+    if (!raw) {
+      continue;
+    }
+    if (!normalizeToken(raw) && tokens.length > 0) {
+      tokens[tokens.length - 1] += ` ${raw}`;
+    } else {
+      tokens.push(raw);
+    }
+  }
+  return tokens;
+}
+
+// Returns, for each transcript token, the index of the recognized word it pairs with (or -1),
+// using a word-level edit distance where substitutions cost less the more alike the words are.
+function pairTokens(transcript: string[], recognized: string[]): number[] {
+  const n = transcript.length;
+  const m = recognized.length;
+  const band = MIN_ALIGNMENT_BAND + Math.abs(n - m) + Math.ceil(Math.max(n, m) * 0.01);
+  const width = 2 * band + 1;
+  const cost = new Float32Array((n + 1) * width).fill(Number.POSITIVE_INFINITY);
+  const steps = new Uint8Array((n + 1) * width);
+  const center = (i: number) => (n === 0 ? 0 : Math.round((i * m) / n));
+
+  // Transcripts repeat words, so similarities are cached by word pair.
+  const ids = new Map<string, number>();
+  const toId = (token: string) => ids.get(token) ?? ids.set(token, ids.size).get(token)!;
+  const transcriptIds = transcript.map(toId);
+  const recognizedIds = recognized.map(toId);
+  const similarities = new Map<number, number>();
+  const similarity = (i: number, j: number) => {
+    if (transcriptIds[i] === recognizedIds[j]) {
+      return transcript[i] ? 1 : 0;
+    }
+    const key = transcriptIds[i] * ids.size + recognizedIds[j];
+    let value = similarities.get(key);
+    if (value === undefined) {
+      value = getTokenSimilarity(transcript[i], recognized[j]);
+      similarities.set(key, value);
+    }
+    return value;
+  };
+
+  cost[band] = 0;
+  for (let i = 0; i <= n; i += 1) {
+    const rowCenter = center(i);
+    const previousCenter = i > 0 ? center(i - 1) : 0;
+    const row = i * width;
+    const previousRow = (i - 1) * width;
+    const from = Math.max(0, rowCenter - band);
+    const to = Math.min(m, rowCenter + band);
+    for (let j = from; j <= to; j += 1) {
+      if (i === 0 && j === 0) {
+        continue;
+      }
+      let best = Number.POSITIVE_INFINITY;
+      let step = 0;
+      if (i > 0) {
+        const diagonal = j - 1 - previousCenter + band;
+        if (j > 0 && diagonal >= 0 && diagonal < width && cost[previousRow + diagonal] < best) {
+          // Pairing unrelated words costs more than skipping one, but less than skipping both.
+          const value = cost[previousRow + diagonal] + 1.5 * (1 - similarity(i - 1, j - 1));
+          if (value < best) {
+            best = value;
+            step = STEP_PAIR;
+          }
+        }
+        const above = j - previousCenter + band;
+        if (above >= 0 && above < width && cost[previousRow + above] + 1 < best) {
+          best = cost[previousRow + above] + 1;
+          step = STEP_SKIP_TRANSCRIPT;
+        }
+      }
+      const left = j - 1 - rowCenter + band;
+      if (j > 0 && left >= 0 && cost[row + left] + 1 < best) {
+        best = cost[row + left] + 1;
+        step = STEP_SKIP_RECOGNIZED;
+      }
+      cost[row + j - rowCenter + band] = best;
+      steps[row + j - rowCenter + band] = step;
+    }
+  }
+
+  const pairs = new Array<number>(n).fill(-1);
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const offset = j - center(i) + band;
+    const step = offset >= 0 && offset < width ? steps[i * width + offset] : 0;
+    if (step === STEP_PAIR) {
+      pairs[i - 1] = j - 1;
+      i -= 1;
+      j -= 1;
+    } else if (step === STEP_SKIP_TRANSCRIPT || (step === 0 && i > 0)) {
+      // A cell the band never filled leaves the remaining transcript words unpaired.
+      i -= 1;
+    } else {
+      j -= 1;
+    }
+  }
+  return pairs;
+}
+
+// Gives each word of a human transcript the timing of the recognized word it lines up with.
+// Words with no counterpart are spread evenly over the gap between their timed neighbours and flagged.
+export function alignTranscriptToWords(
+  text: string,
+  recognizedWords: TimedWordLike[],
+  options: TranscriptAlignmentOptions = {},
+): AlignedTranscriptWord[] {
+  const tokens = tokenizeTranscriptText(text);
+  const recognized = [...recognizedWords].sort((left, right) => left.start_time - right.start_time);
+  const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+  const normalizedTokens = tokens.map(normalizeToken);
+  const pairs = pairTokens(normalizedTokens, recognized.map((word) => normalizeToken(word.text)));
+
+  const timed = tokens.map((token, index) => {
+    const match = recognized[pairs[index]];
+    if (!match) {
+      return null;
+    }
+    const similarity = getTokenSimilarity(normalizedTokens[index], normalizeToken(match.text));
+    return {
+      text: token,
+      start_time: round(match.start_time),
+      end_time: round(Math.max(match.start_time, match.end_time)),
+      ...(similarity < minSimilarity ? { needs_review: true } : {}),
+    };
+  });
+
+  const rangeStart = options.start ?? recognized[0]?.start_time ?? 0;
+  const rangeEnd = options.end ?? recognized[recognized.length - 1]?.end_time ?? rangeStart;
+  const words: AlignedTranscriptWord[] = [];
+  for (let index = 0; index < tokens.length; index += 1) {
+    const word = timed[index];
+    if (word) {
+      words.push(word);
+      continue;
+    }
+
+    let runEnd = index;
+    while (runEnd < tokens.length && !timed[runEnd]) {
+      runEnd += 1;
+    }
+    const gapStart = words.length > 0 ? words[words.length - 1].end_time : rangeStart;
+    const gapEnd = Math.max(gapStart, timed[runEnd]?.start_time ?? rangeEnd);
+    const stride = (gapEnd - gapStart) / (runEnd - index);
+    for (let offset = 0; offset < runEnd - index; offset += 1) {
+      words.push({
+        text: tokens[index + offset],
+        start_time: round(gapStart + stride * offset),
+        end_time: round(gapStart + stride * (offset + 1)),
+        needs_review: true,
+      });
+    }
+    index = runEnd - 1;
+  }
+
+  return words;
+}
+
+// Shortest share of time an inserted word gets before it borrows from the word next to it.
+const MIN_INSERTED_WORD_SECONDS = 0.15;
+
+// Maps edited text back onto the timed words it was written from. Unchanged words are kept as they are,
+// substituted words keep the timing and speaker of the word they replace, and inserted words share out
+// the gap around them, borrowing from a neighbour when the gap is too short.
+export function realignTranscriptWords<T extends TimedWordLike>(text: string, previousWords: T[]): T[] {
+  const tokens = tokenizeTranscriptText(text);
+  if (tokens.length === 0 || previousWords.length === 0) {
+    return [];
+  }
+
+  const pairs = pairTokens(tokens.map(normalizeToken), previousWords.map((word) => normalizeToken(word.text)));
+  const words: T[] = [];
+  let nextStartOverride: number | undefined;
+  for (let index = 0; index < tokens.length; index += 1) {
+    const previous = previousWords[pairs[index]];
+    if (previous) {
+      const word = previous.text === tokens[index] ? previous : { ...withoutWordReview(previous), text: tokens[index] };
+      words.push(nextStartOverride === undefined ? word : { ...word, start_time: nextStartOverride });
+      nextStartOverride = undefined;
+      continue;
+    }
+
+    let runEnd = index;
+    while (runEnd < tokens.length && pairs[runEnd] < 0) {
+      runEnd += 1;
+    }
+    const count = runEnd - index;
+    const before = words[words.length - 1];
+    const after = previousWords[pairs[runEnd] ?? -1];
+    let gapStart = before?.end_time ?? previousWords[0].start_time;
+    let gapEnd = Math.max(gapStart, after?.start_time ?? previousWords[previousWords.length - 1].end_time);
+    let firstSlot = 0;
+    let slots = count;
+    if (gapEnd - gapStart < MIN_INSERTED_WORD_SECONDS * count && (before || after)) {
+      slots += 1;
+      if (before) {
+        gapStart = before.start_time;
+        firstSlot = 1;
+      } else {
+        gapEnd = Math.max(gapEnd, after.end_time);
+      }
+    }
+
+    const stride = (gapEnd - gapStart) / slots;
+    if (firstSlot > 0) {
+      words[words.length - 1] = { ...before, end_time: round(gapStart + stride) };
+    } else if (slots > count) {
+      nextStartOverride = round(gapStart + stride * count);
+    }
+    const template = withoutWordReview(before ?? after);
+    for (let offset = 0; offset < count; offset += 1) {
+      words.push({
+        ...template,
+        text: tokens[index + offset],
+        start_time: round(gapStart + stride * (firstSlot + offset)),
+        end_time: round(gapStart + stride * (firstSlot + offset + 1)),
+      });
+    }
+    index = runEnd - 1;
+  }
+
+  return words;
+}
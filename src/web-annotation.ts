@@ -0,0 +1,217 @@
+import type { StoredAnnotation } from "./annotation-runtime";
+import { buildExportAnnotation } from "./annotation-export";
+
+export const W3C_ANNOTATION_CONTEXT = "http://www.w3.org/ns/anno.jsonld";
+
+type UnknownRecord = Record<string, unknown>;
+
+function ensureArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function asRecord(value: unknown): UnknownRecord | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as UnknownRecord)
+    : undefined;
+}
+
+function getResourceId(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+
+  const record = asRecord(value);
+  const id = record?.id ?? record?.["@id"];
+  return typeof id === "string" && id.trim().length > 0 ? id.trim() : undefined;
+}
+
+function getTargetRecord(annotation: UnknownRecord): UnknownRecord | string | undefined {
+  const [target] = ensureArray(annotation.target as unknown);
+  if (typeof target === "string") {
+    return target.trim() || undefined;
+  }
+
+  return asRecord(target);
+}
+
+export function getWebAnnotationTargetSource(annotation: UnknownRecord): string | undefined {
+  const target = getTargetRecord(annotation);
+  if (!target) {
+    return undefined;
+  }
+
+  if (typeof target === "string") {
+    return target.split("#")[0] || undefined;
+  }
+
+  const source = getResourceId(target.source) ?? getResourceId(target);
+  return source ? source.split("#")[0] || undefined : undefined;
+}
+
+function getSelectorValue(target: UnknownRecord | string): string | undefined {
+  if (typeof target === "string") {
+    const hashIndex = target.indexOf("#");
+    return hashIndex >= 0 ? target.slice(hashIndex + 1).trim() || undefined : undefined;
+  }
+
+  const [selector] = ensureArray(target.selector as unknown);
+  if (typeof selector === "string") {
+    return selector.trim() || undefined;
+  }
+
+  const value = asRecord(selector)?.value;
+  if (typeof value === "string" && value.trim().length > 0) {
+    return value.trim();
+  }
+
+  const source = getResourceId(target.source) ?? getResourceId(target);
+  return source ? getSelectorValue(source) : undefined;
+}
+
+function parseRectangle(value: string): { x: number; y: number; w: number; h: number } | undefined {
+  const match = value.match(/xywh=(?:pixel:)?([\d.]+),([\d.]+),([\d.]+),([\d.]+)/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [x, y, w, h] = match.slice(1).map((part) => Number.parseFloat(part));
+  return [x, y, w, h].every((part) => Number.isFinite(part)) ? { x, y, w, h } : undefined;
+}
+
+function parsePolygonPoints(value: string): Array<[number, number]> | undefined {
+  const match = value.match(/<polygon[^>]*\spoints=["']([^"']+)["']/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const numbers = match[1]
+    .trim()
+    .split(/[\s,]+/)
+    .map((part) => Number.parseFloat(part));
+  if (numbers.length < 6 || numbers.length % 2 !== 0 || numbers.some((part) => !Number.isFinite(part))) {
+    return undefined;
+  }
+
+  const points: Array<[number, number]> = [];
+  for (let index = 0; index < numbers.length; index += 2) {
+    points.push([numbers[index], numbers[index + 1]]);
+  }
+  return points;
+}
+
+function toImageTarget(annotationId: string, selectorValue: string): UnknownRecord | undefined {
+  const rectangle = parseRectangle(selectorValue);
+  if (rectangle) {
+    return {
+      annotation: annotationId,
+      selector: {
+        type: "RECTANGLE",
+        geometry: {
+          ...rectangle,
+          bounds: {
+            minX: rectangle.x,
+            minY: rectangle.y,
+            maxX: rectangle.x + rectangle.w,
+            maxY: rectangle.y + rectangle.h,
+          },
+        },
+      },
+    };
+  }
+
+  const points = parsePolygonPoints(selectorValue);
+  if (points) {
+    const xs = points.map(([x]) => x);
+    const ys = points.map(([, y]) => y);
+    return {
+      annotation: annotationId,
+      selector: {
+        type: "POLYGON",
+        geometry: {
+          points,
+          bounds: {
+            minX: Math.min(...xs),
+            minY: Math.min(...ys),
+            maxX: Math.max(...xs),
+            maxY: Math.max(...ys),
+          },
+        },
+      },
+    };
+  }
+
+  return undefined;
+}
+
+export function toWebAnnotation(
+  annotation: StoredAnnotation,
+  canvasId: string,
+): Record<string, unknown> {
+  return {
+    "@context": W3C_ANNOTATION_CONTEXT,
+    ...buildExportAnnotation(annotation, canvasId, `${canvasId}#${annotation.id}`),
+  };
+}
+
+// Image selectors become Annotorious shapes; anything else (temporal fragments, whole canvases) keeps its W3C target.
+export function fromWebAnnotation(
+  annotation: UnknownRecord,
+  canvasId?: string,
+): StoredAnnotation | undefined {
+  const id = getResourceId(annotation);
+  if (!id) {
+    return undefined;
+  }
+
+  const target = getTargetRecord(annotation);
+  const source = getWebAnnotationTargetSource(annotation) ?? canvasId;
+  const selectorValue = target ? getSelectorValue(target) : undefined;
+  const imageTarget = selectorValue ? toImageTarget(id, selectorValue) : undefined;
+
+  const bodies = ensureArray(annotation.body as unknown)
+    .map((body): UnknownRecord | undefined => {
+      if (typeof body === "string") {
+        return body.trim() ? { id: body.trim(), annotation: id } : undefined;
+      }
+
+      const record = asRecord(body);
+      return record ? { ...record, annotation: id } : undefined;
+    })
+    .filter((body): body is UnknownRecord => Boolean(body));
+
+  const stored: StoredAnnotation = {
+    id,
+    bodies,
+    target:
+      imageTarget ??
+      (typeof target === "string" || !target ? target ?? source : { ...target, source }),
+  };
+
+  const motivation = annotation.motivation;
+  if (typeof motivation === "string" || Array.isArray(motivation)) {
+    stored.motivation = motivation as string | string[];
+  }
+  for (const key of ["created", "creator", "modified", "via"] as const) {
+    if (annotation[key] !== undefined) {
+      stored[key] = annotation[key];
+    }
+  }
+
+  return stored;
+}
+
+// Re-points a stored annotation, its bodies and its shape target at a new id.
+export function withAnnotationId(annotation: StoredAnnotation, id: string): StoredAnnotation {
+  const target = asRecord(annotation.target);
+  return {
+    ...annotation,
+    id,
+    bodies: ensureArray(annotation.bodies as unknown[] | undefined).map((body) => {
+      const record = asRecord(body);
+      return record ? { ...record, annotation: id } : body;
+    }),
+    target: target && "annotation" in target ? { ...target, annotation: id } : annotation.target,
+  };
+}
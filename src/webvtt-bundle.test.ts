@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import { buildTemporalTarget } from "./media-annotator";
+import { buildWebVttBundle } from "./webvtt-bundle";
+import { crc32 } from "./zip";
+
+// Reads the stored entries back through the central directory.
+function readZip(archive: Uint8Array): Record<string, string> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+  const endOffset = archive.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+
+  const entries: Record<string, string> = {};
+  let offset = view.getUint32(endOffset + 16, true);
+  for (let index = 0; index < view.getUint16(endOffset + 10, true); index += 1) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const checksum = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength));
+    const dataOffset = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const data = archive.subarray(dataOffset, dataOffset + size);
+    expect(crc32(data)).toBe(checksum);
+    entries[name] = decoder.decode(data);
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe("WEBVTT bundle", () => {
+  it("computes the standard CRC-32", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("writes one VTT per canvas and language with an index and the AnnotationPage", () => {
+    const { archive, index } = buildWebVttBundle({
+      manifestId: "https://example.org/manifest",
+      canvasOrder: ["canvas-1", "canvas-2"],
+      canvasLabels: {
+        "canvas-1": { en: ["Interview, Part 1"] },
+        "canvas-2": "Entrevista",
+      },
+      storedByCanvasId: {
+        "canvas-1": [
+          {
+            id: "anno-1",
+            target: buildTemporalTarget("canvas-1", 1, 3),
+            bodies: [
+              {
+                type: "TextualBody",
+                purpose: "describing",
+                format: "application/json",
+                value: JSON.stringify({
+                  schema: "clover.parakeet.word_timestamps.v1",
+                  language: "en",
+                  words: [
+                    { text: "Hello", start_time: 1, end_time: 1.5 },
+                    { text: "there.", start_time: 1.5, end_time: 2 },
+                  ],
+                }),
+              },
+              { type: "TextualBody", purpose: "supplementing", value: "Hello there.", language: "en" },
+              { type: "TextualBody", purpose: "supplementing", value: "Bonjour.", language: "fr" },
+            ],
+          },
+        ],
+        "canvas-2": [
+          {
+            id: "anno-2",
+            target: buildTemporalTarget("canvas-2", 0, 2),
+            bodies: [
+              {
+                type: "TextualBody",
+                purpose: "supplementing",
+                format: "text/vtt",
+                language: "es-mx",
+                value: "WEBVTT\n\n00:00:00.000 --> 00:00:02.000\nHola.\n",
+              },
+            ],
+          },
+          { id: "anno-3", target: "canvas-2#xywh=0,0,1,1", bodies: [{ purpose: "commenting", value: "x" }] },
+        ],
+      },
+      modified: new Date(2024, 0, 2, 3, 4, 6),
+    });
+
+    expect(index).toEqual({
+      manifest: "https://example.org/manifest",
+      annotationPage: "annotations.json",
+      files: [
+        { path: "interview-part-1.en.vtt", canvasId: "canvas-1", canvasLabel: "Interview, Part 1", language: "en", cueCount: 1 },
+        { path: "interview-part-1.fr.vtt", canvasId: "canvas-1", canvasLabel: "Interview, Part 1", language: "fr", cueCount: 1 },
+        { path: "entrevista.es-MX.vtt", canvasId: "canvas-2", canvasLabel: "Entrevista", language: "es-MX", cueCount: 1 },
+      ],
+    });
+
+    const entries = readZip(archive);
+    expect(Object.keys(entries)).toEqual([
+      "index.json",
+      "annotations.json",
+      "interview-part-1.en.vtt",
+      "interview-part-1.fr.vtt",
+      "entrevista.es-MX.vtt",
+    ]);
+    expect(JSON.parse(entries["index.json"])).toEqual(index);
+    expect(JSON.parse(entries["annotations.json"]).items).toHaveLength(3);
+    expect(entries["interview-part-1.en.vtt"]).toContain("00:00:01.000 --> 00:00:02.000\nHello there.");
+    expect(entries["interview-part-1.fr.vtt"]).toContain("00:00:01.000 --> 00:00:03.000\nBonjour.");
+    expect(entries["entrevista.es-MX.vtt"]).toContain("Hola.");
+  });
+
+  it("converts SRT, TTML, SBV and remote caption bodies into tracks", () => {
+    const caption = (format: string, value: string, language?: string) => ({
+      type: "TextualBody",
+      purpose: "supplementing",
+      format,
+      value,
+      ...(language ? { language } : {}),
+    });
+    const { index, archive } = buildWebVttBundle({
+      canvasOrder: ["canvas-1"],
+      storedByCanvasId: {
+        "canvas-1": [
+          {
+            id: "anno-srt",
+            target: buildTemporalTarget("canvas-1", 0, 2),
+            bodies: [caption("application/x-subrip", "1\n00:00:00,000 --> 00:00:01,000\nHello\n", "en")],
+          },
+          {
+            id: "anno-ttml",
+            target: buildTemporalTarget("canvas-1", 0, 2),
+            bodies: [
+              caption(
+                "application/ttml+xml",
+                '<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="fr"><body><div><p begin="00:00:01.000" end="00:00:02.000">Bonjour</p></div></body></tt>',
+              ),
+            ],
+          },
+          {
+            id: "anno-sbv",
+            target: buildTemporalTarget("canvas-1", 0, 2),
+            bodies: [caption("text/sbv", "0:00:00.000,0:00:01.000\nHola\n", "es")],
+          },
+          {
+            id: "anno-remote",
+            target: buildTemporalTarget("canvas-1", 0, 2),
+            bodies: [
+              { id: "https://example.org/captions.de.srt", type: "Text", format: "application/x-subrip", language: "de" },
+            ],
+          },
+        ],
+      },
+      remoteCaptionCues: {
+        "https://example.org/captions.de.srt": [{ start_time: 0, end_time: 1, text: "Hallo" }],
+      },
+    });
+
+    expect(index.files.map(({ path, cueCount }) => [path, cueCount])).toEqual([
+      ["canvas-1.de.vtt", 1],
+      ["canvas-1.en.vtt", 1],
+      ["canvas-1.es.vtt", 1],
+      ["canvas-1.fr.vtt", 1],
+    ]);
+    const entries = readZip(archive);
+    expect(entries["canvas-1.en.vtt"]).toContain("00:00:00.000 --> 00:00:01.000\nHello");
+    expect(entries["canvas-1.fr.vtt"]).toContain("00:00:01.000 --> 00:00:02.000\nBonjour");
+    expect(entries["canvas-1.es.vtt"]).toContain("Hola");
+    expect(entries["canvas-1.de.vtt"]).toContain("Hallo");
+  });
+});
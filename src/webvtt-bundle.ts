@@ -0,0 +1,303 @@
+import type { StoredAnnotation } from "./annotation-runtime";
+import { buildAnnotationPageExport } from "./annotation-export";
+import { detectCaptionFormat, getTtmlLanguage, isCaptionBody, parseCaptionCues } from "./captions";
+import { getTemporalSegment } from "./media-annotator";
+import { getSpeakerLabels, isTimedWordsSchema, normalizeTimedWordsSpeakers } from "./timed-words";
+import {
+  segmentWordsIntoWebVttCues,
+  serializeWebVttCues,
+  type TimedWordLike,
+  type WebVttCue,
+} from "./webvtt";
+import { createZipArchive } from "./zip";
+
+const UNDETERMINED_LANGUAGE = "und";
+const BUNDLE_INDEX_PATH = "index.json";
+const BUNDLE_ANNOTATION_PAGE_PATH = "annotations.json";
+
+type UnknownRecord = Record<string, unknown>;
+
+type StoredAnnotationsByCanvasId = Record<string, StoredAnnotation[] | undefined>;
+
+export type WebVttTrack = {
+  canvasId: string;
+  canvasLabel?: string;
+  language: string;
+  annotationIds: string[];
+  cues: WebVttCue[];
+};
+
+export type WebVttBundleIndex = {
+  manifest?: string;
+  annotationPage: string;
+  files: Array<{
+    path: string;
+    canvasId: string;
+    canvasLabel?: string;
+    language: string;
+    cueCount: number;
+  }>;
+};
+
+export type WebVttBundleOptions = {
+  manifestId?: string;
+  storedByCanvasId: StoredAnnotationsByCanvasId;
+  canvasOrder?: string[];
+  // Raw canvas labels: plain strings or IIIF language maps.
+  canvasLabels?: Record<string, unknown>;
+  // Cues already loaded for caption bodies that only reference a remote file, by body id.
+  remoteCaptionCues?: Record<string, WebVttCue[] | null | undefined>;
+};
+
+function ensureArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+export function normalizeLanguageTag(value: unknown): string {
+  const trimmed = typeof value === "string" ? value.trim() : "";
+  if (!trimmed) {
+    return UNDETERMINED_LANGUAGE;
+  }
+
+  try {
+    return Intl.getCanonicalLocales(trimmed)[0] ?? UNDETERMINED_LANGUAGE;
+  } catch {
+    return UNDETERMINED_LANGUAGE;
+  }
+}
+
+export function getCanvasLabelText(label: unknown): string | undefined {
+  if (typeof label === "string") {
+    return label.trim() || undefined;
+  }
+  if (!label || typeof label !== "object") {
+    return undefined;
+  }
+
+  const languageMap = label as Record<string, unknown>;
+  const preferred = ["none", "en", ...Object.keys(languageMap)];
+  for (const language of preferred) {
+    const [first] = ensureArray(languageMap[language] as unknown);
+    if (typeof first === "string" && first.trim()) {
+      return first.trim();
+    }
+  }
+  return undefined;
+}
+
+function getTimedWords(
+  body: UnknownRecord,
+): { words: TimedWordLike[]; language?: unknown; speakerLabels: Record<string, string> } | undefined {
+  const format = typeof body.format === "string" ? body.format.toLowerCase() : "";
+  if (!format.includes("json") || typeof body.value !== "string") {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(body.value) as UnknownRecord;
+    if (!isTimedWordsSchema(parsed?.schema) || !Array.isArray(parsed.words)) {
+      return undefined;
+    }
+
+    const words = parsed.words.filter(
+      (word): word is TimedWordLike =>
+        Boolean(word) &&
+        typeof word === "object" &&
+        typeof (word as UnknownRecord).text === "string" &&
+        typeof (word as UnknownRecord).start_time === "number" &&
+        typeof (word as UnknownRecord).end_time === "number",
+    );
+    return {
+      words,
+      language: parsed.language ?? body.language,
+      speakerLabels: getSpeakerLabels(normalizeTimedWordsSpeakers(parsed.speakers)),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+function getCaptionBodyCues(
+  body: UnknownRecord,
+  remoteCaptionCues: WebVttBundleOptions["remoteCaptionCues"],
+): { cues: WebVttCue[]; language?: unknown } {
+  if (typeof body.value === "string" && body.value.trim()) {
+    // TTML carries its language on the root element when the body does not.
+    const language = body.language
+      ?? (detectCaptionFormat(body.value, body.format) === "ttml" ? getTtmlLanguage(body.value) : undefined);
+    return { cues: parseCaptionCues(body.value, body.format), language };
+  }
+
+  const bodyId = typeof body.id === "string" ? body.id.trim() : "";
+  return { cues: (bodyId ? remoteCaptionCues?.[bodyId] : undefined) ?? [], language: body.language };
+}
+
+// Timed transcripts and caption bodies give cues directly; supplementing text in any other language becomes one cue over the target's time range.
+function getAnnotationCuesByLanguage(
+  annotation: StoredAnnotation,
+  remoteCaptionCues?: WebVttBundleOptions["remoteCaptionCues"],
+): Map<string, WebVttCue[]> {
+  const bodies = ensureArray(
+    ("body" in annotation ? annotation.body : annotation.bodies) as UnknownRecord | UnknownRecord[] | undefined,
+  ).filter((body): body is UnknownRecord => Boolean(body) && typeof body === "object");
+  const cuesByLanguage = new Map<string, WebVttCue[]>();
+  const append = (language: string, cues: WebVttCue[]) => {
+    if (cues.length > 0) {
+      cuesByLanguage.set(language, [...(cuesByLanguage.get(language) ?? []), ...cues]);
+    }
+  };
+
+  for (const body of bodies) {
+    const timed = getTimedWords(body);
+    if (timed) {
+      append(
+        normalizeLanguageTag(timed.language),
+        segmentWordsIntoWebVttCues(timed.words, {
+          speakerLabels: timed.speakerLabels,
+          language: typeof timed.language === "string" ? timed.language : undefined,
+        }),
+      );
+    } else if (isCaptionBody(body)) {
+      const caption = getCaptionBodyCues(body, remoteCaptionCues);
+      append(normalizeLanguageTag(caption.language), caption.cues);
+    }
+  }
+
+  const segment = getTemporalSegment(annotation.target);
+  if (!segment) {
+    return cuesByLanguage;
+  }
+
+  const timedLanguages = new Set(cuesByLanguage.keys());
+  for (const body of bodies) {
+    const text = typeof body.value === "string" ? body.value.trim() : "";
+    const language = normalizeLanguageTag(body.language);
+    if (
+      body.purpose !== "supplementing" ||
+      !text ||
+      isCaptionBody(body) ||
+      getTimedWords(body) ||
+      timedLanguages.has(language)
+    ) {
+      continue;
+    }
+
+    append(language, [
+      { start_time: segment.start, end_time: segment.end ?? segment.start, text },
+    ]);
+  }
+
+  return cuesByLanguage;
+}
+
+function getOrderedCanvasIds(options: WebVttBundleOptions): string[] {
+  return Array.from(
+    new Set([...(options.canvasOrder ?? []), ...Object.keys(options.storedByCanvasId)]),
+  ).filter((canvasId) => canvasId.length > 0);
+}
+
+export function collectWebVttTracks(options: WebVttBundleOptions): WebVttTrack[] {
+  const tracks: WebVttTrack[] = [];
+
+  for (const canvasId of getOrderedCanvasIds(options)) {
+    const byLanguage = new Map<string, WebVttTrack>();
+    for (const annotation of options.storedByCanvasId[canvasId] ?? []) {
+      for (const [language, cues] of getAnnotationCuesByLanguage(annotation, options.remoteCaptionCues)) {
+        const track = byLanguage.get(language) ?? {
+          canvasId,
+          canvasLabel: getCanvasLabelText(options.canvasLabels?.[canvasId]),
+          language,
+          annotationIds: [],
+          cues: [],
+        };
+        track.annotationIds.push(annotation.id);
+        track.cues.push(...cues);
+        byLanguage.set(language, track);
+      }
+    }
+
+    tracks.push(
+      ...Array.from(byLanguage.values()).sort((left, right) => left.language.localeCompare(right.language)),
+    );
+  }
+
+  return tracks;
+}
+
+function slugify(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+    .replace(/-+$/g, "");
+}
+
+export function buildWebVttBundle(
+  options: WebVttBundleOptions & { modified?: Date },
+): { archive: Uint8Array<ArrayBuffer>; index: WebVttBundleIndex; tracks: WebVttTrack[] } {
+  const tracks = collectWebVttTracks(options);
+  const canvasOrder = getOrderedCanvasIds(options);
+  const baseNameByCanvasId = new Map<string, string>();
+  const usedBaseNames = new Set<string>();
+  const index: WebVttBundleIndex = {
+    ...(options.manifestId ? { manifest: options.manifestId } : {}),
+    annotationPage: BUNDLE_ANNOTATION_PAGE_PATH,
+    files: [],
+  };
+  const entries = tracks.map((track) => {
+    let baseName = baseNameByCanvasId.get(track.canvasId);
+    if (!baseName) {
+      const canvasNumber = canvasOrder.indexOf(track.canvasId) + 1;
+      const fromLabel = track.canvasLabel ? slugify(track.canvasLabel) : "";
+      baseName = fromLabel || `canvas-${canvasNumber}`;
+      if (usedBaseNames.has(baseName)) {
+        baseName = `${baseName}-${canvasNumber}`;
+      }
+      usedBaseNames.add(baseName);
+      baseNameByCanvasId.set(track.canvasId, baseName);
+    }
+
+    const path = `${baseName}.${track.language}.vtt`;
+    index.files.push({
+      path,
+      canvasId: track.canvasId,
+      ...(track.canvasLabel ? { canvasLabel: track.canvasLabel } : {}),
+      language: track.language,
+      cueCount: track.cues.length,
+    });
+    return { path, content: serializeWebVttCues(track.cues) };
+  });
+
+  const annotationPage = buildAnnotationPageExport({
+    manifestId: options.manifestId,
+    storedByCanvasId: options.storedByCanvasId,
+    canvasOrder: options.canvasOrder,
+  });
+  const archive = createZipArchive(
+    [
+      { path: BUNDLE_INDEX_PATH, content: JSON.stringify(index, null, 2) },
+      { path: BUNDLE_ANNOTATION_PAGE_PATH, content: JSON.stringify(annotationPage, null, 2) },
+      ...entries,
+    ],
+    options.modified,
+  );
+
+  return { archive, index, tracks };
+}
+
+export function downloadWebVttBundle(
+  archive: Uint8Array<ArrayBuffer>,
+  filename = "clover-mark-captions.zip",
+): void {
+  const blob = new Blob([archive], { type: "application/zip" });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,11 +1,18 @@
 import { describe, expect, it } from "vitest";
+import { getCaptionLanguageRules } from "./caption-languages";
 import {
+  applyWordsToWebVttCues,
+  breakCueTextIntoLines,
+  getWebVttCueLines,
+  getWebVttCueVoice,
   isWebVttBody,
   isWebVttFormat,
   looksLikeWebVtt,
   parseWebVttCues,
+  parseWebVttDocument,
   segmentWordsIntoWebVttCues,
   serializeWebVttCues,
+  serializeWebVttDocument,
 } from "./webvtt";
 
 describe("webvtt utilities", () => {
@@ -44,7 +51,7 @@ Again
     ]);
   });
 
-  it("supports identifiers, ignores NOTE blocks, and strips cue markup", () => {
+  it("supports identifiers and keeps cue settings and markup next to the plain text", () => {
     const cues = parseWebVttCues(`
 WEBVTT
 
@@ -62,10 +69,64 @@ cue-1
         start_time: 3,
         end_time: 5,
         text: "Hello world!",
+        settings: { align: "start", position: "0%" },
+        spans: [
+          {
+            tag: "v",
+            annotation: "Speaker",
+            children: ["Hello ", { tag: "c", classes: ["green"], children: ["world"] }, "!"],
+          },
+        ],
       },
     ]);
   });
 
+  it("round-trips header, STYLE, REGION and NOTE blocks and inline spans", () => {
+    const source = [
+      "WEBVTT - Interview\nKind: captions",
+      "STYLE\n::cue(.loud) {\n  font-weight: bold;\n}",
+      "REGION\nid:lower\nwidth:40%\nlines:3",
+      "NOTE recorded 2024",
+      "NOTE\nspeaker names\nchecked by Esme",
+      "intro\n00:00:01.000 --> 00:00:02.500 region:lower line:90% align:left\n<v.loud Esme Ruiz>Tom &amp; me</v>\n<i>on two lines</i>",
+      "NOTE check spelling",
+      "NOTE\nthen timing",
+      "00:00:03.000 --> 00:00:04.000\n<lang fr>Bonjour</lang> <00:00:03.500><b>à&nbsp;tous</b>",
+      "00:00:05.000 --> 00:00:06.000\nPlain & <u>simple",
+    ].join("\n\n");
+
+    const document = parseWebVttDocument(source);
+    expect(document.header).toBe(" - Interview\nKind: captions");
+    expect(document.blocks).toEqual([
+      { kind: "STYLE", value: "::cue(.loud) {\n  font-weight: bold;\n}" },
+      { kind: "REGION", value: "id:lower\nwidth:40%\nlines:3" },
+      { kind: "NOTE", value: "recorded 2024" },
+      { kind: "NOTE", value: "\nspeaker names\nchecked by Esme" },
+    ]);
+    expect(document.cues[0]).toMatchObject({
+      identifier: "intro",
+      text: "Tom & me on two lines",
+      settings: { region: "lower", line: "90%", align: "left" },
+      notes: ["check spelling", "\nthen timing"],
+    });
+    expect(document.cues[1].text).toBe("Bonjour à tous");
+    expect(document.cues[1].spans).toContainEqual({ timestamp: 3.5 });
+    expect(document.cues[2].text).toBe("Plain & simple");
+
+    const serialized = serializeWebVttDocument(document);
+    expect(serialized).toBe(
+      `${source.replace("Plain & <u>simple", "Plain &amp; <u>simple</u>")}\n`,
+    );
+    expect(parseWebVttDocument(serialized)).toEqual(document);
+  });
+
+  it("writes edited cue text instead of stale spans", () => {
+    const [cue] = parseWebVttCues("WEBVTT\n\n00:00:00.000 --> 00:00:01.000 align:end\n<i>Old</i>");
+    expect(serializeWebVttCues([{ ...cue, text: "New <text>" }])).toBe(
+      "WEBVTT\n\n00:00:00.000 --> 00:00:01.000 align:end\nNew &lt;text&gt;\n",
+    );
+  });
+
   it("serializes cues back to WEBVTT", () => {
     const vtt = serializeWebVttCues([
       {
@@ -140,4 +201,136 @@ cue-1
     expect(cues.some((cue) => cue.text.trim().toLowerCase() === "of")).toBe(false);
     expect(cues.some((cue) => cue.text.toLowerCase().startsWith("of "))).toBe(false);
   });
+
+  it("never merges words from different speakers and writes voice spans", () => {
+    const cues = segmentWordsIntoWebVttCues(
+      [
+        { text: "So", start_time: 0, end_time: 0.3, speaker: "speaker-1" },
+        { text: "where", start_time: 0.3, end_time: 0.6, speaker: "speaker-1" },
+        { text: "were", start_time: 0.6, end_time: 0.8, speaker: "speaker-1" },
+        { text: "you", start_time: 0.8, end_time: 1.0, speaker: "speaker-1" },
+        { text: "born?", start_time: 1.0, end_time: 1.3, speaker: "speaker-1" },
+        { text: "Chicago.", start_time: 1.4, end_time: 2.0, speaker: "speaker-2" },
+      ],
+      { speakerLabels: { "speaker-1": "Interviewer", "speaker-2": "Esme" } },
+    );
+
+    expect(cues.map((cue) => cue.text)).toEqual(["So where were you born?", "Chicago."]);
+    expect(getWebVttCueVoice(cues[1])).toBe("Esme");
+    expect(serializeWebVttCues(cues)).toContain(
+      "00:00:01.400 --> 00:00:02.000\n<v Esme>Chicago.</v>",
+    );
+    expect(parseWebVttCues(serializeWebVttCues(cues)).map(getWebVttCueVoice)).toEqual([
+      "Interviewer",
+      "Esme",
+    ]);
+  });
+
+  it("writes cue-level words back onto their source cues without merging them", () => {
+    const document = parseWebVttDocument(
+      [
+        "WEBVTT",
+        "",
+        "STYLE",
+        "::cue(.loud) { color: red }",
+        "",
+        "intro",
+        "00:00:00.000 --> 00:00:01.000 align:start position:10%",
+        "<i>Hello</i> <c.loud>there</c>",
+        "",
+        "NOTE keep me",
+        "",
+        "00:00:01.000 --> 00:00:01.500",
+        "<v Esme>Hi.</v>",
+        "",
+        "00:00:01.500 --> 00:00:02.000",
+        "<lang fr>Oui.</lang>",
+      ].join("\n"),
+    );
+    const words = document.cues.map((cue) => ({
+      text: cue.text,
+      start_time: cue.start_time,
+      end_time: cue.end_time,
+      speaker: getWebVttCueVoice(cue),
+    }));
+
+    expect(
+      serializeWebVttDocument({ ...document, cues: applyWordsToWebVttCues(words, document.cues) }),
+    ).toBe(serializeWebVttDocument(document));
+
+    // A retimed cue keeps its settings; edited text drops stale markup but keeps the voice.
+    const edited = applyWordsToWebVttCues(
+      [{ ...words[0], start_time: 0.2 }, { ...words[1], text: "Hello." }, words[2]],
+      document.cues,
+    );
+    expect(edited).toHaveLength(3);
+    expect(edited[0]).toMatchObject({
+      identifier: "intro",
+      start_time: 0.2,
+      settings: { align: "start", position: "10%" },
+      notes: ["keep me"],
+    });
+    expect(serializeWebVttCues(edited)).toContain(
+      "00:00:01.000 --> 00:00:01.500\n<v Esme>Hello.</v>\n\n00:00:01.500 --> 00:00:02.000\n<lang fr>Oui.</lang>",
+    );
+  });
+
+  it("lays cues out on balanced lines at sensible break points", () => {
+    expect(breakCueTextIntoLines("It contains thousands of letters and manuscripts from the", 42, 2)).toEqual([
+      "It contains thousands of letters",
+      "and manuscripts from the",
+    ]);
+    expect(breakCueTextIntoLines("Short enough.", 42, 2)).toEqual(["Short enough."]);
+
+    const text =
+      "Our music library is home to many distinctive collections, including the Hans Moldenhauer Collection.";
+    const cues = segmentWordsIntoWebVttCues(
+      text.split(" ").map((word, index) => ({ text: word, start_time: index * 0.4, end_time: index * 0.4 + 0.4 })),
+      { maxLineChars: 32, maxLinesPerCue: 2, maxCueChars: 64 },
+    );
+    const vtt = serializeWebVttCues(cues);
+    const payloadLines = vtt
+      .split("\n\n")
+      .slice(1)
+      .map((block) => block.trim().split("\n").slice(1));
+
+    expect(cues.map((cue) => cue.text).join(" ")).toBe(text);
+    expect(payloadLines.some((lines) => lines.length === 2)).toBe(true);
+    expect(payloadLines.every((lines) => lines.length <= 2 && lines.every((line) => line.length <= 32))).toBe(true);
+    expect(parseWebVttCues(vtt).map((cue) => cue.text)).toEqual(cues.map((cue) => cue.text));
+  });
+
+  it("segments by the transcript language", () => {
+    const timed = (tokens: string[], step: number) =>
+      tokens.map((text, index) => ({ text, start_time: index * step, end_time: index * step + step }));
+
+    const spanish = "Vamos a la biblioteca mañana ¿Quieres venir con nosotros al concierto de la tarde?".split(" ");
+    expect(segmentWordsIntoWebVttCues(timed(spanish, 0.4), { language: "es-MX" }).map((cue) => cue.text)).toEqual([
+      "Vamos a la biblioteca mañana",
+      "¿Quieres venir con nosotros al concierto de la tarde?",
+    ]);
+
+    expect(
+      breakCueTextIntoLines(
+        "Nous avons parlé longtemps de la collection et des manuscrits de la bibliothèque municipale",
+        42,
+        2,
+        getCaptionLanguageRules("fr"),
+      ),
+    ).toEqual(["Nous avons parlé longtemps de la collection", "et des manuscrits de la bibliothèque municipale"]);
+
+    const japanese = Array.from("今日は図書館の特別なコレクションについてお話しします。音楽の資料がたくさんあります。");
+    const cues = segmentWordsIntoWebVttCues(timed(japanese, 0.15), { language: "ja" });
+    expect(cues.map((cue) => cue.text)).toEqual([
+      "今日は図書館の特別なコレクションについて",
+      "お話しします。音楽の資料がたくさんあります。",
+    ]);
+    expect(cues.flatMap((cue) => getWebVttCueLines(cue)).every((line) => line.length <= 13)).toBe(true);
+    // Particles stay with the word before them and no line starts with closing punctuation.
+    expect(breakCueTextIntoLines("コーヒーをください", 6, 2, getCaptionLanguageRules("ja"))).toEqual([
+      "コーヒーを",
+      "ください",
+    ]);
+    expect(breakCueTextIntoLines("しゅっぱつ", 3, 2, getCaptionLanguageRules("ja"))).toEqual(["しゅっ", "ぱつ"]);
+  });
 });
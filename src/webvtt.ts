@@ -1,14 +1,45 @@
+import { getCaptionLanguageRules, type CaptionLanguageRules } from "./caption-languages";
+
+export type WebVttSpanTag = "c" | "i" | "b" | "u" | "v" | "lang" | "ruby" | "rt";
+
+export type WebVttCueNode =
+  | string
+  | { timestamp: number }
+  | { tag: WebVttSpanTag; classes?: string[]; annotation?: string; children: WebVttCueNode[] };
+
 export type WebVttCue = {
   identifier?: string;
   start_time: number;
   end_time: number;
+  // Plain text, used for editing and for the other caption formats.
   text: string;
+  // Cue settings in source order, e.g. { align: "start", position: "10%" }.
+  settings?: Record<string, string>;
+  // Inline markup; only set when `text` alone would not reproduce the cue payload.
+  spans?: WebVttCueNode[];
+  // NOTE blocks that follow the cue.
+  notes?: string[];
+};
+
+export type WebVttBlock = {
+  kind: "NOTE" | "STYLE" | "REGION";
+  // A NOTE whose text starts on the line after `NOTE` keeps that line break at the start.
+  value: string;
+};
+
+export type WebVttDocument = {
+  // Everything after `WEBVTT` in the header block, verbatim.
+  header?: string;
+  // NOTE, STYLE and REGION blocks before the first cue, in source order.
+  blocks: WebVttBlock[];
+  cues: WebVttCue[];
 };
 
 export type TimedWordLike = {
   text: string;
   start_time: number;
   end_time: number;
+  speaker?: string;
 };
 
 export type CaptionSegmentationOptions = {
@@ -17,11 +48,22 @@ export type CaptionSegmentationOptions = {
   minCueDurationSeconds?: number;
   maxWordsPerCue?: number;
   maxInterWordGapSeconds?: number;
+  maxLinesPerCue?: number;
+  maxLineChars?: number;
+  // Voice names for speaker ids; cues from a labelled speaker are wrapped in `<v>`.
+  speakerLabels?: Record<string, string>;
+  // Picks the segmentation rules, usually the transcript's language; `languageRules` overrides the lookup.
+  language?: string;
+  languageRules?: CaptionLanguageRules;
 };
 
 const WEBVTT_HEADER = /^WEBVTT(?:[ \t].*)?$/i;
-const WEBVTT_TIMING_LINE = /^([^\s]+)\s+-->\s+([^\s]+)(?:\s+.*)?$/;
+const WEBVTT_TIMING_LINE = /^([^\s]+)\s+-->\s+([^\s]+)(?:\s+(.*))?$/;
 const WEBVTT_TIMESTAMP = /^(?:(\d+):)?(\d{2}):(\d{2})(?:[.,](\d{1,3}))?$/;
+// CJK text has no spaces, so a line break between two CJK characters joins them directly.
+const CJK_CHARACTER = "[\\u3000-\\u30ff\\u3400-\\u9fff\\uf900-\\ufaff\\uff00-\\uffef]";
+const CJK_LINE_BREAK = new RegExp(`(${CJK_CHARACTER})[ \\t]*\\n[ \\t]*(?=${CJK_CHARACTER})`, "g");
+const WEBVTT_SPAN_TAGS = new Set<string>(["c", "i", "b", "u", "v", "lang", "ruby", "rt"]);
 
 type WebVttBodyLike = Partial<{ format: unknown; value: unknown }> | null | undefined;
 
@@ -31,13 +73,36 @@ function normalizeLineEndings(value: string): string {
 
 function decodeBasicHtmlEntities(value: string): string {
   return value
-    .replace(/&amp;/gi, "&")
     .replace(/&lt;/gi, "<")
     .replace(/&gt;/gi, ">")
-    .replace(/&nbsp;/gi, " ");
+    .replace(/&nbsp;/gi, "\u00a0")
+    .replace(/&lrm;/gi, "\u200e")
+    .replace(/&rlm;/gi, "\u200f")
+    .replace(/&amp;/gi, "&");
+}
+
+function escapeCueText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\u00a0/g, "&nbsp;")
+    .replace(/\u200e/g, "&lrm;")
+    .replace(/\u200f/g, "&rlm;");
+}
+
+function collapseCueWhitespace(value: string): string {
+  return value
+    .replace(/[\u200e\u200f]/g, "")
+    .replace(CJK_LINE_BREAK, "$1")
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,.;!?])/g, "$1")
+    .replace(/\(\s+/g, "(")
+    .replace(/\s+\)/g, ")")
+    .trim();
 }
 
-function normalizeCueText(value: string): string {
+export function normalizeCueText(value: string): string {
   return decodeBasicHtmlEntities(value)
     .replace(/<[^>]+>/g, " ")
     .replace(/\s+/g, " ")
@@ -47,94 +112,174 @@ function normalizeCueText(value: string): string {
     .trim();
 }
 
-function endsWithSentencePunctuation(value: string): boolean {
-  return /[.!?]["')\]]*$/.test(value.trim());
+const CLOSING_PUNCTUATION = "\"')\\]»”’」』）】";
+
+function toCharacterClass(characters: string): string {
+  return characters.replace(/[\\\]^-]/g, "\\$&");
+}
+
+function endsWithPunctuation(value: string, punctuation: string): boolean {
+  if (!punctuation) {
+    return false;
+  }
+  const pattern = `[${toCharacterClass(punctuation)}][${toCharacterClass(CLOSING_PUNCTUATION)}]*$`;
+  return new RegExp(pattern).test(value.trim());
 }
 
-function endsWithSoftPunctuation(value: string): boolean {
-  return /[,;:]["')\]]*$/.test(value.trim());
+function endsWithSentencePunctuation(value: string, rules: CaptionLanguageRules): boolean {
+  return endsWithPunctuation(value, rules.sentenceEndPunctuation);
 }
 
-function startsWithUppercase(value: string): boolean {
-  const trimmed = value.trim();
-  return /^[A-Z]/.test(trimmed);
+function endsWithSoftPunctuation(value: string, rules: CaptionLanguageRules): boolean {
+  return endsWithPunctuation(value, rules.softPunctuation);
 }
 
-function splitCueWords(value: string): string[] {
+function startsWithSentenceOpener(value: string, rules: CaptionLanguageRules): boolean {
+  const first = value.trim()[0];
+  return Boolean(first && rules.sentenceStartPunctuation?.includes(first));
+}
+
+function startsWithUppercase(value: string, rules: CaptionLanguageRules): boolean {
+  if (rules.caseless) {
+    return false;
+  }
+  const trimmed = value.trim().replace(/^[^\p{L}\p{N}]+/u, "");
+  return /^\p{Lu}/u.test(trimmed);
+}
+
+// Words for spaced scripts, single characters for spaceless ones.
+function splitCueWords(value: string, rules: CaptionLanguageRules): string[] {
+  if (rules.spaceless) {
+    return Array.from(value.replace(/[^\p{L}\p{M}\p{N}]+/gu, ""));
+  }
   return value
-    .toLowerCase()
-    .replace(/[^a-z0-9'-]+/g, " ")
+    .toLocaleLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}'’-]+/gu, " ")
     .trim()
     .split(/\s+/)
     .filter((token) => token.length > 0);
 }
 
-const CONNECTOR_WORDS = new Set([
-  "a",
-  "an",
-  "and",
-  "as",
-  "at",
-  "be",
-  "been",
-  "being",
-  "but",
-  "by",
-  "for",
-  "from",
-  "if",
-  "in",
-  "into",
-  "is",
-  "it",
-  "its",
-  "of",
-  "on",
-  "or",
-  "our",
-  "so",
-  "that",
-  "the",
-  "their",
-  "then",
-  "these",
-  "this",
-  "those",
-  "to",
-  "was",
-  "were",
-  "which",
-  "with",
-]);
-
-function startsWithConnector(value: string): boolean {
-  const first = splitCueWords(value)[0];
-  return typeof first === "string" && CONNECTOR_WORDS.has(first);
-}
-
-function endsWithConnector(value: string): boolean {
-  const words = splitCueWords(value);
+function isConnectorWord(word: string, rules: CaptionLanguageRules): boolean {
+  return rules.connectorWords.includes(word);
+}
+
+function startsWithConnector(value: string, rules: CaptionLanguageRules): boolean {
+  if (rules.spaceless) {
+    const stripped = value.trim().replace(/^[^\p{L}\p{M}\p{N}]+/u, "");
+    return rules.connectorWords.some((word) => stripped.startsWith(word));
+  }
+  const first = splitCueWords(value, rules)[0];
+  return typeof first === "string" && isConnectorWord(first, rules);
+}
+
+function endsWithConnector(value: string, rules: CaptionLanguageRules): boolean {
+  if (rules.spaceless) {
+    const stripped = value.trim().replace(/[^\p{L}\p{M}\p{N}]+$/u, "");
+    return rules.connectorWords.some((word) => stripped.endsWith(word));
+  }
+  const words = splitCueWords(value, rules);
   const last = words[words.length - 1];
-  return typeof last === "string" && CONNECTOR_WORDS.has(last);
+  return typeof last === "string" && isConnectorWord(last, rules);
 }
 
-function isDanglingCueText(value: string): boolean {
-  const words = splitCueWords(value);
+// A fragment that cannot stand alone: only connectors, or ending on a connector that binds to the next word.
+function isDanglingCueText(value: string, rules: CaptionLanguageRules): boolean {
+  const words = splitCueWords(value, rules);
   if (words.length === 0) {
     return true;
   }
   if (words.length === 1) {
-    return CONNECTOR_WORDS.has(words[0]);
+    return isConnectorWord(words[0], rules);
   }
-  if (words.length <= 3 && words.every((word) => CONNECTOR_WORDS.has(word))) {
+  if (words.length <= 3 && words.every((word) => isConnectorWord(word, rules))) {
     return true;
   }
 
-  return endsWithConnector(value);
+  return rules.connectorsAttach === "previous"
+    ? startsWithConnector(value, rules)
+    : endsWithConnector(value, rules);
 }
 
-function buildCueTextFromWords(words: TimedWordLike[]): string {
-  return normalizeCueText(words.map((word) => word.text).join(" "));
+// Splits cue text into at most `maxLines` lines of similar length, preferring breaks after punctuation
+// and avoiding a connector word on the wrong side of a break. Spaceless scripts break between characters.
+export function breakCueTextIntoLines(
+  text: string,
+  maxLineChars = 42,
+  maxLines = 2,
+  rules: CaptionLanguageRules = getCaptionLanguageRules(),
+): string[] {
+  const separator = rules.spaceless ? "" : " ";
+  const words = rules.spaceless
+    ? Array.from(text.replace(/\s+/g, " "))
+    : text.split(" ").filter((word) => word.length > 0);
+  if (text.length <= maxLineChars || maxLines <= 1 || words.length < 2) {
+    return [text];
+  }
+
+  const bindsForward = rules.connectorsAttach !== "previous";
+  const lineCount = Math.min(maxLines, words.length, Math.max(2, Math.ceil(text.length / maxLineChars)));
+  const target = text.length / lineCount;
+  const lineCost = (line: string, isFirst: boolean, isLast: boolean): number => {
+    let cost = (line.length - target) ** 2;
+    if (line.length > maxLineChars) {
+      cost += 10000 * (line.length - maxLineChars);
+    }
+    if (!isLast) {
+      if (endsWithSentencePunctuation(line, rules)) {
+        cost -= 150;
+      } else if (endsWithSoftPunctuation(line, rules)) {
+        cost -= 80;
+      }
+      if (endsWithConnector(line, rules)) {
+        cost += bindsForward ? 200 : -40;
+      }
+    }
+    if (!isFirst) {
+      if (startsWithConnector(line, rules)) {
+        cost += bindsForward ? -40 : 200;
+      }
+      if (rules.noLineStartCharacters?.includes(line[0])) {
+        cost += 10000;
+      }
+    }
+    return cost;
+  };
+
+  // best[lines][end]: cheapest split of words[0, end) into `lines` lines.
+  const best: Array<Array<{ cost: number; start: number } | undefined>> = [[{ cost: 0, start: 0 }]];
+  for (let lines = 1; lines <= lineCount; lines += 1) {
+    best[lines] = [];
+    for (let end = lines; end <= words.length; end += 1) {
+      if (lines === lineCount && end !== words.length) {
+        continue;
+      }
+      for (let start = lines - 1; start < end; start += 1) {
+        const previous = best[lines - 1][start];
+        if (!previous) {
+          continue;
+        }
+        const line = words.slice(start, end).join(separator).trim();
+        const cost = previous.cost + lineCost(line, lines === 1, lines === lineCount);
+        if (!best[lines][end] || cost < best[lines][end]!.cost) {
+          best[lines][end] = { cost, start };
+        }
+      }
+    }
+  }
+
+  const lines: string[] = [];
+  let end = words.length;
+  for (let line = lineCount; line > 0; line -= 1) {
+    const start = best[line][end]?.start ?? 0;
+    lines.unshift(words.slice(start, end).join(separator).trim());
+    end = start;
+  }
+  return lines;
+}
+
+function buildCueTextFromWords(words: TimedWordLike[], rules: CaptionLanguageRules): string {
+  return normalizeCueText(words.map((word) => word.text).join(rules.spaceless ? "" : " "));
 }
 
 function toFiniteNonNegativeNumber(value: unknown): number {
@@ -154,14 +299,16 @@ function normalizeTimedWord(value: TimedWordLike): TimedWordLike | null {
   const start = toFiniteNonNegativeNumber(value.start_time);
   const endCandidate = toFiniteNonNegativeNumber(value.end_time);
   const end = Math.max(start, endCandidate);
+  const speaker = typeof value.speaker === "string" ? value.speaker.trim() : "";
   return {
     text,
     start_time: +start.toFixed(3),
     end_time: +end.toFixed(3),
+    ...(speaker ? { speaker } : {}),
   };
 }
 
-function parseTimestamp(rawValue: string): number | null {
+export function parseTimestamp(rawValue: string): number | null {
   const value = rawValue.trim();
   if (!value) {
     return null;
@@ -190,7 +337,7 @@ function parseTimestamp(rawValue: string): number | null {
   return Math.max(0, hours * 3600 + minutes * 60 + seconds + milliseconds / 1000);
 }
 
-function formatTimestamp(secondsValue: number): string {
+export function formatTimestamp(secondsValue: number): string {
   const totalMilliseconds = Math.max(0, Math.round(secondsValue * 1000));
   const hours = Math.floor(totalMilliseconds / 3600000);
   const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
@@ -221,6 +368,9 @@ function sanitizeCue(cue: WebVttCue): WebVttCue | null {
     start_time: +start.toFixed(3),
     end_time: +end.toFixed(3),
     text,
+    ...(cue.settings && Object.keys(cue.settings).length > 0 ? { settings: { ...cue.settings } } : {}),
+    ...(cue.spans && cue.spans.length > 0 ? { spans: cue.spans } : {}),
+    ...(cue.notes && cue.notes.length > 0 ? { notes: [...cue.notes] } : {}),
   };
 }
 
@@ -228,12 +378,41 @@ export function segmentWordsIntoWebVttCues(
   inputWords: TimedWordLike[],
   options: CaptionSegmentationOptions = {},
 ): WebVttCue[] {
-  const maxCueChars = Math.max(28, options.maxCueChars ?? 56);
+  const rules = options.languageRules ?? getCaptionLanguageRules(options.language);
+  const maxCueChars = Math.max(rules.spaceless ? 14 : 28, options.maxCueChars ?? rules.maxCueChars ?? 56);
   const maxCueDurationSeconds = Math.max(2.5, options.maxCueDurationSeconds ?? 6.5);
   const hardMaxCueDurationSeconds = Math.max(maxCueDurationSeconds + 1.5, maxCueDurationSeconds * 1.35);
   const minCueDurationSeconds = Math.max(0.9, options.minCueDurationSeconds ?? 1.4);
-  const maxWordsPerCue = Math.max(3, options.maxWordsPerCue ?? 16);
+  // Spaceless transcripts are often timed per character, so only the character limits apply by default.
+  const maxWordsPerCue = Math.max(
+    3,
+    options.maxWordsPerCue ?? (rules.spaceless ? Number.POSITIVE_INFINITY : 16),
+  );
   const maxInterWordGapSeconds = Math.max(0.1, options.maxInterWordGapSeconds ?? 1.1);
+  const maxLinesPerCue = Math.max(1, Math.floor(options.maxLinesPerCue ?? 2));
+  const maxLineChars = Math.max(rules.spaceless ? 8 : 16, options.maxLineChars ?? rules.maxLineChars ?? 42);
+  const maxCueTextChars = maxLinesPerCue * maxLineChars;
+  // Ending on a connector only strands it when it binds to the next word.
+  const bindsForward = rules.connectorsAttach !== "previous";
+  const buildCue = (group: TimedWordLike[]): WebVttCue | null => {
+    const text = buildCueTextFromWords(group, rules);
+    if (!text) {
+      return null;
+    }
+    const first = group[0];
+    const last = group[group.length - 1];
+    const voice = first.speaker ? options.speakerLabels?.[first.speaker] ?? first.speaker : undefined;
+    const payload = breakCueTextIntoLines(text, maxLineChars, maxLinesPerCue, rules).join("\n");
+    const spans: WebVttCueNode[] | undefined = voice
+      ? [{ tag: "v", annotation: voice, children: [payload] }]
+      : payload !== text ? [payload] : undefined;
+    return {
+      start_time: first.start_time,
+      end_time: Math.max(first.start_time + 0.001, last.end_time),
+      text,
+      ...(spans ? { spans } : {}),
+    };
+  };
 
   const words = inputWords
     .map((word) => normalizeTimedWord(word))
@@ -271,16 +450,19 @@ export function segmentWordsIntoWebVttCues(
     const cueDuration = Math.max(0, previous.end_time - cueStart);
     const interWordGap = Math.max(0, word.start_time - previous.end_time);
     const nextDuration = Math.max(0, word.end_time - cueStart);
-    const nextText = buildCueTextFromWords([...currentWords, word]);
-    const currentText = buildCueTextFromWords(currentWords);
-    const currentEndsSentence = endsWithSentencePunctuation(previous.text);
-    const currentEndsSoft = endsWithSoftPunctuation(previous.text);
-    const nextStartsConnector = startsWithConnector(word.text);
-    const currentIsDangling = isDanglingCueText(currentText);
-    const currentEndsConnector = endsWithConnector(currentText);
+    const nextText = buildCueTextFromWords([...currentWords, word], rules);
+    const currentText = buildCueTextFromWords(currentWords, rules);
+    const currentEndsSentence =
+      endsWithSentencePunctuation(previous.text, rules) || startsWithSentenceOpener(word.text, rules);
+    const currentEndsSoft = endsWithSoftPunctuation(previous.text, rules);
+    const nextStartsConnector = startsWithConnector(word.text, rules);
+    const currentIsDangling = isDanglingCueText(currentText, rules);
+    const currentEndsConnector = bindsForward && endsWithConnector(currentText, rules);
 
     const shouldBreakOnHardLimit =
-      interWordGap > maxInterWordGapSeconds * 1.8
+      word.speaker !== previous.speaker
+      || nextText.length > maxCueTextChars
+      || interWordGap > maxInterWordGapSeconds * 1.8
       || (currentWords.length >= 3 && nextDuration > hardMaxCueDurationSeconds)
       || (currentWords.length >= 4 && nextText.length > Math.round(maxCueChars * 1.65))
       || currentWords.length >= maxWordsPerCue + 4;
@@ -314,37 +496,41 @@ export function segmentWordsIntoWebVttCues(
   flushCurrent();
 
   if (groups.length <= 1) {
-    return groups.map((group) => {
-      const first = group[0];
-      const last = group[group.length - 1];
-      return {
-        start_time: first.start_time,
-        end_time: Math.max(first.start_time + 0.001, last.end_time),
-        text: buildCueTextFromWords(group),
-      };
-    });
+    return groups
+      .map((group) => buildCue(group))
+      .filter((cue): cue is WebVttCue => Boolean(cue));
   }
 
-  // Merge orphan/dangling fragments (e.g. a trailing "of") into neighboring cues.
+  // Merge orphan/dangling fragments (e.g. a trailing "of") into neighboring cues; speakers never share a cue.
   const canMerge = (left: TimedWordLike[], right: TimedWordLike[]): boolean => {
+    if (left[0].speaker !== right[0].speaker) {
+      return false;
+    }
     const merged = [...left, ...right];
-    const mergedText = buildCueTextFromWords(merged);
+    const mergedText = buildCueTextFromWords(merged, rules);
     const duration = merged[merged.length - 1].end_time - merged[0].start_time;
-    return mergedText.length <= Math.round(maxCueChars * 1.75)
+    return mergedText.length <= Math.min(Math.round(maxCueChars * 1.75), maxCueTextChars)
       && duration <= hardMaxCueDurationSeconds * 1.5;
   };
 
   for (let index = 0; index < groups.length; index += 1) {
     const currentGroup = groups[index];
-    const currentText = buildCueTextFromWords(currentGroup);
+    const currentText = buildCueTextFromWords(currentGroup, rules);
+    const fragmentLength = splitCueWords(currentText, rules).length;
     const currentIsDangling =
-      isDanglingCueText(currentText)
-      || (splitCueWords(currentText).length <= 2 && !endsWithSentencePunctuation(currentText));
+      isDanglingCueText(currentText, rules)
+      || (fragmentLength <= 2 && !endsWithSentencePunctuation(currentText, rules))
+      // A few characters of a spaceless script are usually a word cut off at the length limit.
+      || (Boolean(rules.spaceless) && fragmentLength <= 3);
     const nextGroup = groups[index + 1];
     const previousGroup = groups[index - 1];
-    const nextText = nextGroup ? buildCueTextFromWords(nextGroup) : "";
+    const nextText = nextGroup ? buildCueTextFromWords(nextGroup, rules) : "";
 
-    if (nextGroup && (endsWithConnector(currentText) || startsWithConnector(nextText)) && canMerge(currentGroup, nextGroup)) {
+    if (
+      nextGroup
+      && ((bindsForward && endsWithConnector(currentText, rules)) || startsWithConnector(nextText, rules))
+      && canMerge(currentGroup, nextGroup)
+    ) {
       groups[index] = [...currentGroup, ...nextGroup];
       groups.splice(index + 1, 1);
       index -= 1;
@@ -361,7 +547,7 @@ export function segmentWordsIntoWebVttCues(
     if (
       currentIsDangling
       && nextGroup
-      && startsWithUppercase(nextText)
+      && startsWithUppercase(nextText, rules)
       && canMerge(currentGroup, nextGroup)
     ) {
       groups[index] = [...currentGroup, ...nextGroup];
@@ -371,22 +557,47 @@ export function segmentWordsIntoWebVttCues(
   }
 
   return groups
-    .map((group) => {
-      const text = buildCueTextFromWords(group);
-      if (!text) {
-        return null;
-      }
-      const first = group[0];
-      const last = group[group.length - 1];
-      return {
-        start_time: first.start_time,
-        end_time: Math.max(first.start_time + 0.001, last.end_time),
-        text,
-      };
-    })
+    .map((group) => buildCue(group))
     .filter((cue): cue is WebVttCue => Boolean(cue));
 }
 
+// Writes cue-level words (one per cue, as read from a caption file) back onto the cues they came from,
+// so identifiers, settings, NOTEs and markup survive edits. Words match a cue by timing, then by position.
+export function applyWordsToWebVttCues(
+  words: TimedWordLike[],
+  sourceCues: WebVttCue[],
+  speakerLabels: Record<string, string> = {},
+): WebVttCue[] {
+  const used = new Set<number>();
+  return words.map((word, index) => {
+    const timed = sourceCues.findIndex(
+      (cue, cueIndex) =>
+        !used.has(cueIndex) && cue.start_time === word.start_time && cue.end_time === word.end_time,
+    );
+    const cueIndex = timed >= 0 ? timed : index;
+    const source = used.has(cueIndex) ? undefined : sourceCues[cueIndex];
+    if (source) {
+      used.add(cueIndex);
+    }
+
+    const voice = word.speaker ? speakerLabels[word.speaker] ?? word.speaker : undefined;
+    // Markup is kept while the text and voice are unchanged; otherwise only the voice is written.
+    const spans: WebVttCueNode[] | undefined =
+      source?.spans && source.text === word.text && getWebVttCueVoice(source) === voice
+        ? source.spans
+        : voice ? [{ tag: "v", annotation: voice, children: [word.text] }] : undefined;
+    return {
+      ...(source?.identifier ? { identifier: source.identifier } : {}),
+      start_time: word.start_time,
+      end_time: word.end_time,
+      text: word.text,
+      ...(source?.settings ? { settings: source.settings } : {}),
+      ...(spans ? { spans } : {}),
+      ...(source?.notes ? { notes: source.notes } : {}),
+    };
+  });
+}
+
 export function isWebVttFormat(format: unknown): boolean {
   if (typeof format !== "string") {
     return false;
@@ -414,24 +625,163 @@ export function isWebVttBody(body: WebVttBodyLike): boolean {
   return isWebVttFormat(body.format) || looksLikeWebVtt(body.value);
 }
 
-export function parseWebVttCues(rawValue: string): WebVttCue[] {
+// Builds the inline span tree; unknown tags are dropped and unclosed spans end with the cue.
+export function parseWebVttCuePayload(payload: string): WebVttCueNode[] {
+  const root: WebVttCueNode[] = [];
+  const stack: Array<{ tag: string; children: WebVttCueNode[] }> = [{ tag: "", children: root }];
+  const append = (node: WebVttCueNode) => {
+    const children = stack[stack.length - 1].children;
+    const last = children[children.length - 1];
+    if (typeof node === "string" && typeof last === "string") {
+      children[children.length - 1] = last + node;
+    } else {
+      children.push(node);
+    }
+  };
+
+  for (const match of payload.matchAll(/<([^>]*)>?|[^<]+/g)) {
+    const rawTag = match[1];
+    if (rawTag === undefined) {
+      append(decodeBasicHtmlEntities(match[0]));
+      continue;
+    }
+
+    const tag = rawTag.trim();
+    if (tag.startsWith("/")) {
+      const name = tag.slice(1).trim().split(".")[0];
+      const openIndex = stack.map((entry) => entry.tag).lastIndexOf(name);
+      if (openIndex > 0) {
+        stack.length = openIndex;
+      }
+      continue;
+    }
+
+    if (/^\d/.test(tag)) {
+      const timestamp = parseTimestamp(tag);
+      if (timestamp !== null) {
+        append({ timestamp: +timestamp.toFixed(3) });
+      }
+      continue;
+    }
+
+    const [head, ...annotationParts] = tag.split(/[ \t\n]+/);
+    const [name, ...classes] = head.split(".");
+    if (!WEBVTT_SPAN_TAGS.has(name)) {
+      continue;
+    }
+
+    const annotation = decodeBasicHtmlEntities(annotationParts.join(" ")).trim();
+    const node: WebVttCueNode = {
+      tag: name as WebVttSpanTag,
+      ...(classes.filter(Boolean).length > 0 ? { classes: classes.filter(Boolean) } : {}),
+      ...(annotation ? { annotation } : {}),
+      children: [],
+    };
+    append(node);
+    stack.push({ tag: name, children: node.children });
+  }
+
+  return root;
+}
+
+export function getWebVttCueNodesText(nodes: WebVttCueNode[]): string {
+  const flatten = (node: WebVttCueNode): string =>
+    typeof node === "string" ? node : "children" in node ? node.children.map(flatten).join("") : "";
+  return collapseCueWhitespace(nodes.map(flatten).join(""));
+}
+
+// Lines as displayed: spans keep authored line breaks, plain text is a single line.
+export function getWebVttCueLines(cue: WebVttCue): string[] {
+  if (!cue.spans || getWebVttCueNodesText(cue.spans) !== cue.text) {
+    return [cue.text];
+  }
+
+  const flatten = (node: WebVttCueNode): string =>
+    typeof node === "string" ? node : "children" in node ? node.children.map(flatten).join("") : "";
+  return cue.spans
+    .map(flatten)
+    .join("")
+    .split("\n")
+    .map((line) => collapseCueWhitespace(line))
+    .filter((line) => line.length > 0);
+}
+
+// The speaker of a cue is the first `<v>` span, as written by the segmenter and most caption tools.
+export function getWebVttCueVoice(cue: WebVttCue): string | undefined {
+  const findVoice = (nodes: WebVttCueNode[]): string | undefined => {
+    for (const node of nodes) {
+      if (typeof node === "string" || !("children" in node)) {
+        continue;
+      }
+      const voice = node.tag === "v" ? node.annotation : findVoice(node.children);
+      if (voice) {
+        return voice;
+      }
+    }
+    return undefined;
+  };
+  return findVoice(cue.spans ?? []);
+}
+
+export function serializeWebVttCuePayload(nodes: WebVttCueNode[]): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === "string") {
+        return escapeCueText(node);
+      }
+      if (!("children" in node)) {
+        return `<${formatTimestamp(node.timestamp)}>`;
+      }
+
+      const classes = (node.classes ?? []).map((className) => `.${className}`).join("");
+      const annotation = node.annotation ? ` ${escapeCueText(node.annotation)}` : "";
+      return `<${node.tag}${classes}${annotation}>${serializeWebVttCuePayload(node.children)}</${node.tag}>`;
+    })
+    .join("");
+}
+
+function parseWebVttCueSettings(rawValue: string | undefined): Record<string, string> | undefined {
+  const settings: Record<string, string> = {};
+  for (const token of rawValue?.trim().split(/\s+/) ?? []) {
+    const separator = token.indexOf(":");
+    if (separator > 0 && separator < token.length - 1) {
+      settings[token.slice(0, separator)] = token.slice(separator + 1);
+    }
+  }
+  return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+function parseWebVttBlock(lines: string[]): WebVttBlock | null {
+  const firstLine = lines[0].trim();
+  const rest = lines.slice(1).join("\n");
+  if (firstLine === "NOTE" || /^NOTE[ \t]/.test(firstLine)) {
+    const inline = firstLine.slice(4).trim();
+    return { kind: "NOTE", value: lines.length > 1 ? `${inline}\n${rest}` : inline };
+  }
+  if (firstLine === "STYLE" || firstLine === "REGION") {
+    return { kind: firstLine, value: rest };
+  }
+  return null;
+}
+
+export function parseWebVttDocument(rawValue: string): WebVttDocument {
   const normalized = normalizeLineEndings(rawValue).replace(/^\uFEFF/, "");
   const trimmed = normalized.trim();
+  const document: WebVttDocument = { blocks: [], cues: [] };
   if (!trimmed) {
-    return [];
+    return document;
   }
 
   const blocks = trimmed.split(/\n{2,}/);
-  if (blocks.length === 0) {
-    return [];
-  }
-
   const headerLine = blocks[0].split("\n", 1)[0]?.trim() ?? "";
   if (!WEBVTT_HEADER.test(headerLine)) {
-    return [];
+    return document;
   }
 
-  const cues: WebVttCue[] = [];
+  const header = blocks[0].trimEnd().slice("WEBVTT".length);
+  if (header.trim()) {
+    document.header = header;
+  }
 
   for (const rawBlock of blocks.slice(1)) {
     const block = rawBlock.trim();
@@ -444,12 +794,14 @@ export function parseWebVttCues(rawValue: string): WebVttCue[] {
       continue;
     }
 
-    const firstLine = lines[0].trim();
-    if (
-      firstLine.startsWith("NOTE")
-      || firstLine === "STYLE"
-      || firstLine === "REGION"
-    ) {
+    const fileBlock = parseWebVttBlock(lines);
+    if (fileBlock) {
+      const previousCue = document.cues[document.cues.length - 1];
+      if (fileBlock.kind === "NOTE" && previousCue) {
+        previousCue.notes = [...(previousCue.notes ?? []), fileBlock.value];
+      } else {
+        document.blocks.push(fileBlock);
+      }
       continue;
     }
 
@@ -477,25 +829,34 @@ export function parseWebVttCues(rawValue: string): WebVttCue[] {
       continue;
     }
 
-    const cueText = normalizeCueText(lines.slice(timingIndex + 1).join(" "));
+    const payload = lines.slice(timingIndex + 1).join("\n");
+    const spans = parseWebVttCuePayload(payload);
+    const cueText = getWebVttCueNodesText(spans);
     if (!cueText) {
       continue;
     }
 
     const identifier = timingIndex > 0 ? lines[0].trim() : undefined;
-    cues.push({
+    const settings = parseWebVttCueSettings(timingMatch[3]);
+    document.cues.push({
       ...(identifier ? { identifier } : {}),
       start_time: +start.toFixed(3),
       end_time: +end.toFixed(3),
       text: cueText,
+      ...(settings ? { settings } : {}),
+      ...(escapeCueText(cueText) !== payload ? { spans } : {}),
     });
   }
 
-  return cues;
+  return document;
 }
 
-export function serializeWebVttCues(input: WebVttCue[]): string {
-  const cues = input
+export function parseWebVttCues(rawValue: string): WebVttCue[] {
+  return parseWebVttDocument(rawValue).cues;
+}
+
+export function sanitizeWebVttCues(input: WebVttCue[]): WebVttCue[] {
+  return input
     .map((cue) => sanitizeCue(cue))
     .filter((cue): cue is WebVttCue => Boolean(cue))
     .sort((left, right) => {
@@ -504,20 +865,45 @@ export function serializeWebVttCues(input: WebVttCue[]): string {
       }
       return left.end_time - right.end_time;
     });
+}
 
-  if (cues.length === 0) {
-    return "WEBVTT\n\n";
+function serializeWebVttBlock(block: WebVttBlock): string {
+  if (block.kind === "NOTE") {
+    return block.value.startsWith("\n") || !block.value ? `NOTE${block.value}` : `NOTE ${block.value}`;
   }
+  return `${block.kind}\n${block.value}`;
+}
+
+// Spans are written only while they still match the cue text, so edits made to `text` win.
+function serializeWebVttCuePayloadFor(cue: WebVttCue): string {
+  if (cue.spans && cue.spans.length > 0 && getWebVttCueNodesText(cue.spans) === cue.text) {
+    return serializeWebVttCuePayload(cue.spans);
+  }
+  return escapeCueText(cue.text);
+}
+
+export function serializeWebVttDocument(document: WebVttDocument): string {
+  const cues = sanitizeWebVttCues(document.cues);
+  const sections: string[] = [`WEBVTT${document.header ?? ""}`];
+  sections.push(...document.blocks.map((block) => serializeWebVttBlock(block)));
 
-  const lines: string[] = ["WEBVTT", ""];
   for (const cue of cues) {
-    if (cue.identifier) {
-      lines.push(cue.identifier);
-    }
-    lines.push(`${formatTimestamp(cue.start_time)} --> ${formatTimestamp(cue.end_time)}`);
-    lines.push(cue.text);
-    lines.push("");
+    const settings = Object.entries(cue.settings ?? {})
+      .map(([key, value]) => ` ${key}:${value}`)
+      .join("");
+    sections.push(
+      [
+        ...(cue.identifier ? [cue.identifier] : []),
+        `${formatTimestamp(cue.start_time)} --> ${formatTimestamp(cue.end_time)}${settings}`,
+        serializeWebVttCuePayloadFor(cue),
+      ].join("\n"),
+    );
+    sections.push(...(cue.notes ?? []).map((value) => serializeWebVttBlock({ kind: "NOTE", value })));
   }
 
-  return `${lines.join("\n").replace(/\n+$/, "\n")}`;
+  return cues.length === 0 && sections.length === 1 ? `${sections[0]}\n\n` : `${sections.join("\n\n")}\n`;
+}
+
+export function serializeWebVttCues(input: WebVttCue[]): string {
+  return serializeWebVttDocument({ blocks: [], cues: input });
 }